@@ -1,4 +1,8 @@
 import { CssParallaxer } from '../dom/css-parallaxer';
+import { interpolateValidator } from '../interpolate/interpolate-validator';
+import {
+    animationConfig, AnimationConfig
+} from '../interpolate/animation-config';
 
 export class CssParallaxController {
     private element: HTMLElement;
@@ -10,10 +14,21 @@ export class CssParallaxController {
 
     constructor($element: ng.IRootElementService, $scope: ng.IScope, $attrs: ng.IAttributes) {
         this.element = $element[0];
-        const parallaxData = JSON.parse(this.element.getAttribute('css-parallax'));
+        // Resolve easing names such as 'easeOutSine' into functions.
+        const parallaxData: AnimationConfig = animationConfig.load(
+            this.element.getAttribute('css-parallax'));
+        const settings = parallaxData.settings || {};
+
+        // Validate the interpolations.
+        if (settings.validate || settings.strict) {
+            interpolateValidator.check(parallaxData.interpolations, {
+                strict: !!settings.strict
+            });
+        }
+
         this.cssParallaxer = new CssParallaxer(this.element);
         this.cssParallaxer.init(
-            parallaxData['settings'], parallaxData['interpolations']
+            parallaxData.settings, parallaxData.interpolations
         );
 
 
@@ -49,6 +64,10 @@ export class CssParallaxController {
  *     damp: 0.18 Optional damp.  Defaults to 1 assuming no damping.
  *     clamp: false (boolean)  Defaults to true where by progress is clamped to 0 and 1.
  *     precision: (number) Defaults to 3.  Lower precision means less dom updates but less accuracy.
+ *     validate: false (boolean, optional) True logs overlapping ranges, unit mismatches and other interpolation problems to the dev console.
+ *     strict: false (boolean, optional) True throws on interpolation problems instead.  Use in dev builds.
+ *     scrollTimeline: true (boolean, optional) Plays the interpolations on a native scroll driven ViewTimeline where supported.  Ignored when lerp / damp are set.
+ *     layer: (optional) Blends the interpolations with other sources writing the same css variables such as a lottie-scroll.  blendMode: replace | add | multiply, weight: 0-1.
  *
  *     // Allows you to pass through option to intersection observer controlling
  *     // start and stop of raf.
@@ -62,6 +81,9 @@ export class CssParallaxController {
  *         to: 1
  *         start: '0px'
  *         end: '20px'
+ *         # Optional.  An EASE name, css keyword, cubic-bezier() or steps().
+ *         # See animationConfig.
+ *         easingFunction: 'easeOutSine'
  *     - id: '--opacity'
  *       progress:
  *       - from: 0
@@ -8,6 +8,7 @@ import { func } from '../func/func';
 import { cssUnit, CssUnitObject } from '../string/css-unit';
 import { interpolateSettings } from '../interpolate/multi-interpolate';
 import { CssVarInterpolate } from '../interpolate/css-var-interpolate';
+import { cssVarLayerSettings } from '../interpolate/css-var-composer';
 import { RafTimer } from '../raf/raf-timer';
 import { is } from '../is/is';
 import { CubicBezier } from '../mathf/cubic-bezier';
@@ -117,6 +118,10 @@ export interface LottieObject {
     // Css var interpolations associated with this lottie scroll.
     interpolations: Array<interpolateSettings>,
 
+    // Optional.  Blends the interpolations with other sources writing the
+    // same css variables on the element.  See CssVarComposer.
+    layer?: cssVarLayerSettings,
+
     // The lottie instance added once it is created.
     lottieInstance: any,
 
@@ -442,6 +447,10 @@ export class LottieController {
                             }
                         );
                         this.lottieObjects[i].cssInterpolatorInstance.useBatchUpdate(true);
+                        if (this.lottieObjects[i].layer) {
+                            this.lottieObjects[i].cssInterpolatorInstance.useLayer(
+                                this.lottieObjects[i].layer);
+                        }
 
                         this.lottieObjects[i].lottieInDom = true;
 
@@ -772,6 +781,8 @@ export class LottieController {
     protected dispose(): void {
         this.lottieObjects.forEach((lottieInstance) => {
             lottieInstance.lottieInstance.destroy();
+            lottieInstance.cssInterpolatorInstance &&
+                lottieInstance.cssInterpolatorInstance.useLayer(null);
             lottieInstance.cssInterpolatorInstance = null;
         });
         this.domWatcher.dispose();
@@ -896,6 +907,13 @@ export class LottieController {
  *       # Optional - boolean
  *       debugFrame: false
  *
+ *       # Blends the interpolations with other sources such as a css-parallax
+ *       # writing the same css variables instead of overwriting them.
+ *       # Optional - blendMode: replace | add | multiply, weight: 0-1
+ *       layer:
+ *         blendMode: add
+ *         weight: 1
+ *
  *       # Css interpolations synchronized with the lottie scroll.
  *       # Note that you can use fromFrame, toFrame and declare interpolations
  *       # based on your lottie frame.
@@ -1,4 +1,10 @@
-import { ViewportCssParallax } from '../dom/viewport-css-parallax';
+import {
+    ViewportCssParallax, ViewportCssParallaxSettings
+} from '../dom/viewport-css-parallax';
+import { interpolateValidator } from '../interpolate/interpolate-validator';
+import {
+    animationConfig, AnimationConfig
+} from '../interpolate/animation-config';
 
 
 
@@ -12,15 +18,25 @@ export class ViewportCssParallaxController {
 
     constructor($element: ng.IRootElementService, $scope: ng.IScope, $attrs: ng.IAttributes) {
         this.element = $element[0];
-        const parallaxData = JSON.parse(this.element.getAttribute('viewport-css-parallax'));
+        // Resolve easing names such as 'easeOutSine' into functions.
+        const parallaxData: AnimationConfig = animationConfig.load(
+            this.element.getAttribute('viewport-css-parallax'));
+        const settings = parallaxData.settings || {};
+
+        // Validate the interpolations.
+        if (settings.validate || settings.strict) {
+            interpolateValidator.check(parallaxData.interpolations, {
+                strict: !!settings.strict
+            });
+        }
+
         this.viewportCssParallax = new ViewportCssParallax();
 
         // Add the root element.
-        parallaxData['settings']['rootElement'] = this.element;
-
-        this.viewportCssParallax.init(
-            parallaxData['settings'], parallaxData['interpolations']
-        );
+        this.viewportCssParallax.init({
+            ...(settings as ViewportCssParallaxSettings),
+            rootElement: this.element
+        }, parallaxData.interpolations);
 
 
         $scope.$on('$destroy', () => {
@@ -58,6 +74,9 @@ export class ViewportCssParallaxController {
  *     damp: 0.18 Optional damp.  Defaults to 1 assuming no damping.
  *     clamp: false (boolean)  Defaults to true where by progress is clamped to 0 and 1.
  *     precision: (number) Defaults to 3.  Lower precision means less dom updates but less accuracy.
+ *     validate: false (boolean, optional) True logs overlapping ranges, unit mismatches and other interpolation problems to the dev console.
+ *     strict: false (boolean, optional) True throws on interpolation problems instead.  Use in dev builds.
+ *     scrollTimeline: true (boolean, optional) Plays the interpolations on a native scroll driven ViewTimeline where supported.  Ignored when lerp / damp are set.
  *     elementBaseline: 0 (number) defaults to 0 Should we use the top (0), middle (0.5), bottom(1) or bottom of the element to determine where on the viewport it resides.
  *
  *     // Allows you to pass through option to intersection observer controlling
@@ -72,6 +91,9 @@ export class ViewportCssParallaxController {
  *         to: 1
  *         start: '0px'
  *         end: '20px'
+ *         # Optional.  An EASE name, css keyword, cubic-bezier() or steps().
+ *         # See animationConfig.
+ *         easingFunction: 'easeOutSine'
  *     - id: '--opacity'
  *       progress:
  *       - from: 0
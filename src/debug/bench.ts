@@ -0,0 +1,59 @@
+/**
+ * Helpers for the node benches (`*.bench.ts`).  Benches aren't part of the
+ * test suite since their numbers depend on the machine, the jit and the
+ * gc.  Run them with:
+ *
+ * ```
+ * npm run bench
+ * ```
+ */
+export class bench {
+
+    /**
+     * Returns the time in ms the callback took to run.
+     */
+    static measureTime(callback: Function): number {
+        const [seconds, nanoseconds] = process.hrtime();
+        callback();
+        const [endSeconds, endNanoseconds] = process.hrtime();
+        return (endSeconds - seconds) * 1000 +
+            (endNanoseconds - nanoseconds) / 1e6;
+    }
+
+
+    /**
+     * Returns the average heap bytes allocated per call of the callback.
+     * Needs node to run with --expose-gc.
+     *
+     * ```ts
+     * const bytes = bench.measureBytes((i) => {
+     *   vectorDom.render(true);
+     * }, 1000);
+     * ```
+     * @param callback Called with the index of the call.
+     * @param calls The number of calls to average over.
+     */
+    static measureBytes(callback: Function, calls: number): number {
+        const gc = global['gc'];
+        if (!gc) {
+            throw new Error('bench.measureBytes needs node --expose-gc');
+        }
+
+        // Warm up so the jit doesn't count.  Warm up again after a gc since a
+        // full gc can throw away optimized code.
+        for (let i = 0; i < 5000; i++) {
+            callback(i);
+        }
+        gc();
+        for (let i = 0; i < 1000; i++) {
+            callback(i);
+        }
+        gc();
+        const start = process.memoryUsage().heapUsed;
+        for (let i = 0; i < calls; i++) {
+            callback(i);
+        }
+        const end = process.memoryUsage().heapUsed;
+        return (end - start) / calls;
+    }
+}
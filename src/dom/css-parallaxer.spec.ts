@@ -0,0 +1,85 @@
+import { CssParallaxer, CssParallaxSettings } from './css-parallaxer';
+import { VirtualRafScheduler } from '../raf/raf-scheduler';
+import { ScrollDrivenAnimationOptions } from '../interpolate/css-var-keyframes';
+import test from 'ava';
+
+
+// jsdom doesn't implement ViewTimeline, IntersectionObserver and raf.
+let intersect: Function = null;
+window['CSS'] = { registerProperty: () => { } };
+window['ViewTimeline'] = class { };
+global['requestAnimationFrame'] = () => 0;
+global['IntersectionObserver'] = class {
+    constructor(callback: Function) {
+        intersect = callback;
+    }
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+window['YANO_RAF_REGISTRY'].setScheduler(new VirtualRafScheduler());
+
+
+/**
+ * Creates a 500px high parallaxer and returns the animation-range of the
+ * animations it played and cancelled.
+ * @hidden
+ */
+const createParallaxer = (settings: CssParallaxSettings = {}) => {
+    const ranges: Array<ScrollDrivenAnimationOptions> = [];
+    const cancelled: Array<ScrollDrivenAnimationOptions> = [];
+    const element = document.createElement('div');
+    Object.defineProperty(element, 'offsetHeight', { value: 500 });
+    element.animate = (keyframes: Array<Keyframe>,
+        options: ScrollDrivenAnimationOptions) => {
+        ranges.push(options);
+        return {
+            cancel: () => { cancelled.push(options); },
+            pause: () => { }
+        } as Animation;
+    };
+
+    const parallaxer = new CssParallaxer(element);
+    parallaxer.init(settings, [
+        { id: '--x', progress: [{ from: 0, to: 1, start: '0px', end: '100px' }] }
+    ]);
+    return { parallaxer: parallaxer, ranges: ranges, cancelled: cancelled };
+};
+
+
+test.serial('animation-range of the view timeline', t => {
+    // By default progress runs for the height of the element.
+    let ranges = createParallaxer().ranges;
+    t.is(ranges[0].rangeStart, 'cover 0px');
+    t.is(ranges[0].rangeEnd, 'cover 500px');
+
+    // Top and bottom offsets.
+    ranges = createParallaxer({ top: '100px', bottom: '20%' }).ranges;
+    t.is(ranges[0].rangeStart, 'cover 100px');
+    t.is(ranges[0].rangeEnd, 'cover 600px');
+
+    // An absolute height.
+    ranges = createParallaxer({ height: '200px' }).ranges;
+    t.is(ranges[0].rangeEnd, 'cover 200px');
+
+    // Smoothing needs the js mode.
+    ranges = createParallaxer({ lerp: 0.2 }).ranges;
+    t.is(ranges.length, 0);
+});
+
+
+test.serial('falls back to raf when the view timeline is lost on resize', t => {
+    const { parallaxer, ranges, cancelled } = createParallaxer();
+    intersect([{ isIntersecting: true }]);
+    t.false(parallaxer['raf'].isPlaying);
+
+    const viewTimeline = window['ViewTimeline'];
+    delete window['ViewTimeline'];
+    parallaxer['onWindowResize']();
+    t.false(parallaxer['usingScrollTimeline']);
+    t.true(parallaxer['raf'].isPlaying);
+    t.deepEqual(cancelled, ranges);
+
+    window['ViewTimeline'] = viewTimeline;
+    parallaxer.dispose();
+});
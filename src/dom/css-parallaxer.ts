@@ -6,6 +6,8 @@ import { mathf } from '../mathf/mathf';
 import { Raf } from '../raf/raf';
 import { func } from '../func/func';
 import { CssVarInterpolate } from '../interpolate/css-var-interpolate';
+import { cssVarKeyframes } from '../interpolate/css-var-keyframes';
+import { cssVarLayerSettings } from '../interpolate/css-var-composer';
 import { is } from '../is/is';
 import { interpolateSettings } from '../interpolate/multi-interpolate';
 
@@ -24,6 +26,11 @@ export interface CssParallaxSettings {
     lerp?: number,
     //  damp: 0.18 Optional damp.  Defaults to 1 assuming no damping.
     damp?: number,
+    // Whether lerp / damp are scaled by the time between frames so the
+    // smoothing is the same on every refresh rate.  The values are tuned
+    // for 60fps.  Set to false for the legacy per frame behavior.
+    // Defaults to true.
+    frameRateIndependent?: boolean,
     // Whether to force clamp the progress to 0-1 range.  Defaults to true.
     clamp?: boolean,
 
@@ -48,6 +55,25 @@ export interface CssParallaxSettings {
     dampMobile?: number,
     // The breakpoint width of mobile.
     mobileBreakpoint?: number,
+
+    // Whether to play the interpolations on a native scroll driven
+    // ViewTimeline where supported.  Only used without lerp / damp since
+    // smoothing needs the progress to be calculated in js.  Defaults to true.
+    scrollTimeline?: boolean,
+
+    // Blends the interpolations with other sources writing the same css
+    // variables on the element such as a lottie-scroll intro.  Layers are
+    // always written in js.  See CssVarComposer.
+    //  layer:
+    //   blendMode: 'add'
+    //   weight: 1
+    layer?: cssVarLayerSettings,
+
+    // Used by directive-css-parallax.  Logs interpolation problems to the
+    // dev console.  See interpolateValidator.
+    validate?: boolean,
+    // Used by directive-css-parallax.  Throws on interpolation problems.
+    strict?: boolean,
 }
 
 /**
@@ -95,6 +121,22 @@ export interface CssParallaxSettings {
  * }
  * ```
  *
+ * ## Scroll Timeline
+ *
+ * Where the browser supports ViewTimeline, the interpolations are compiled
+ * into keyframes that the browser plays as the user scrolls so there is no
+ * js running on scroll.  top and bottom become the animation-range of the
+ * timeline.  lerp and damp need the js progress so setting them (or
+ * lerpMobile / dampMobile) keeps the js mode.  The js mode is also used when
+ * the interpolations can't be compiled (see [[cssVarKeyframes]]).
+ *
+ * ```
+ * const settings = {
+ *    // Turn off to always use the js mode.
+ *    scrollTimeline: false
+ * }
+ * ```
+ *
  * ## FOUC
  *
  * You can fight FOUC by setting defaults to your var and also by using the
@@ -137,10 +179,17 @@ export class CssParallaxer {
 
     private windowWidth: number;
 
+    /**
+     * Whether the interpolations are played on a native ViewTimeline.
+     */
+    private usingScrollTimeline: boolean = false;
+
 
     constructor(element: HTMLElement) {
         this.element = element;
         this.raf = new Raf(this.onRaf.bind(this));
+        this.raf.setLabel('css-parallaxer');
+        this.raf.setOwner(element);
         this.domWatcher = new DomWatcher();
         this.domWatcher.add({
             element: window,
@@ -172,16 +221,26 @@ export class CssParallaxer {
         );
         this.interpolator.useBatchUpdate(true);
         this.interpolator.useSubPixelRendering(false);
+        if (this.settingsData.layer) {
+            this.interpolator.useLayer(this.settingsData.layer);
+        }
 
         // On load, we need to initially, bring the animation to
         // start position.
         this.updateImmediately();
 
+        this.usingScrollTimeline = this.useScrollTimeline();
+
 
         this.element.classList.add('css-parallax-ready');
 
         this.rafEv = elementVisibility.inview(this.element, this.settingsData.rafEvOptions,
             (element: any, changes: any) => {
+                // The browser plays the scroll timeline.
+                if (this.usingScrollTimeline) {
+                    return;
+                }
+
                 if (changes.isIntersecting) {
                     this.updateImmediately();
                     this.raf.start();
@@ -211,6 +270,8 @@ export class CssParallaxer {
                     damp: 1,
                     precision: 3,
                     lerpOnlyInRange: true,
+                    scrollTimeline: true,
+                    frameRateIndependent: true,
                     rafEvOptions: {
                         rootMargin: '300px 0px 300px 0px'
                     }
@@ -252,8 +313,12 @@ export class CssParallaxer {
 
     /**
      * Calculates the current progress and returns a value between 0-1.
+     * @param lerp
+     * @param damp
+     * @param delta The time in ms since the last update.  When passed (and
+     *     frameRateIndependent is on), lerp and damp are scaled by it.
      */
-    public updateProgress(lerp: number, damp: number): number {
+    public updateProgress(lerp: number, damp: number, delta?: number): number {
         const progress = dom.getElementScrolledPercent(this.element, this.topOffset, this.bottomOffset, true);
 
         // Don't apply lerp / damp when we are out of range.
@@ -266,6 +331,14 @@ export class CssParallaxer {
             // If no lerping, bypass.
             if (lerp == 1 && damp == 1) {
                 this.currentProgress = progress;
+            } else if (is.number(delta) &&
+                this.settingsData.frameRateIndependent) {
+                this.currentProgress =
+                    mathf.dampDelta(
+                        this.currentProgress,
+                        progress,
+                        lerp, damp, delta
+                    );
             } else {
 
                 this.currentProgress =
@@ -320,9 +393,59 @@ export class CssParallaxer {
         })
     }
 
+    /**
+     * Plays the interpolations on a native ViewTimeline with the top and
+     * bottom offsets as the animation-range.  Returns false when the js mode
+     * needs to be used.
+     */
+    protected useScrollTimeline(): boolean {
+        const settings = this.settingsData;
+        const smoothing = [
+            settings.lerp, settings.damp,
+            settings.lerpMobile, settings.dampMobile
+        ].some((value) => is.number(value) && value != 1);
+
+        if (!settings.scrollTimeline || smoothing ||
+            !cssVarKeyframes.isViewTimelineSupported(this.element)) {
+            // Cancel the animations of a previous call.
+            this.interpolator.useWebAnimations(false);
+            this.interpolator.useSubPixelRendering(false);
+            return false;
+        }
+
+        // The cover range starts when the top of the element enters the
+        // bottom of the viewport.  Progress ends once the element scrolled
+        // its height + bottom offset or the height setting.
+        const rangeEnd = this.height ||
+            this.element.offsetHeight + this.bottomOffset;
+
+        this.interpolator.useSubPixelRendering(true);
+        const used = this.interpolator.useWebAnimations(true, {
+            timeline: cssVarKeyframes.createViewTimeline(this.element),
+            rangeStart: `cover ${this.topOffset}px`,
+            rangeEnd: `cover ${rangeEnd}px`
+        });
+
+        if (!used) {
+            this.interpolator.useSubPixelRendering(false);
+        }
+        return used;
+    }
+
+
     protected onWindowResize() {
         this.windowWidth = window.innerWidth;
         this.calculateProgressOffsets();
+        if (this.usingScrollTimeline) {
+            // Update the animation-range with the new offsets.
+            this.usingScrollTimeline = this.useScrollTimeline();
+            if (this.usingScrollTimeline) {
+                return;
+            }
+
+            // Fall back to the js mode.
+            this.rafEv.state().inview && this.raf.start();
+        }
         this.updateImmediately();
     }
 
@@ -335,10 +458,12 @@ export class CssParallaxer {
                 this.settingsData.dampMobile &&
                 this.settingsData.lerpMobile
             ) {
-                this.updateProgress(this.settingsData.lerpMobile, this.settingsData.dampMobile);
+                this.updateProgress(this.settingsData.lerpMobile,
+                    this.settingsData.dampMobile, this.raf.getDelta(false));
             } else {
                 // All others.
-                this.updateProgress(this.settingsData.lerp, this.settingsData.damp);
+                this.updateProgress(this.settingsData.lerp,
+                    this.settingsData.damp, this.raf.getDelta(false));
             }
         })
 
@@ -356,6 +481,8 @@ export class CssParallaxer {
 
     public dispose() {
         this.raf && this.raf.stop();
+        this.interpolator && this.interpolator.useWebAnimations(false);
+        this.interpolator && this.interpolator.useLayer(null);
         this.domWatcher.dispose();
         this.rafEv.dispose();
     }
@@ -1,5 +1,9 @@
 import { Vector } from '../mathf/vector';
 import { color, ColorRGB } from '../mathf/color';
+import { Path } from '../mathf/path';
+import {
+    svgPath, SvgSubpath, SvgPathSegmentTypes
+} from '../mathf/svg-path';
 
 
 /**
@@ -86,6 +90,66 @@ export class domCanvas {
     }
 
 
+    /**
+     * Strokes svg path data or parsed subpaths.  Useful to debug paths
+     * parsed with [[svgPath]].
+     *
+     * ```ts
+     * domCanvas.setStrokeColor(context, 'red');
+     * domCanvas.svgPath(context, 'M0 0 C 50 0 50 100 100 100');
+     * ```
+     */
+    static svgPath(context: CanvasRenderingContext2D,
+        data: string | Array<SvgSubpath>) {
+        const subpaths = typeof data == 'string' ? svgPath.parse(data) : data;
+        context.beginPath();
+        subpaths.forEach((subpath) => {
+            context.moveTo(subpath.start.x, subpath.start.y);
+            subpath.segments.forEach((segment) => {
+                if (segment.type == SvgPathSegmentTypes.cubic) {
+                    context.bezierCurveTo(
+                        segment.control1.x, segment.control1.y,
+                        segment.control2.x, segment.control2.y,
+                        segment.end.x, segment.end.y);
+                } else {
+                    context.lineTo(segment.end.x, segment.end.y);
+                }
+            });
+            subpath.closed && context.closePath();
+        });
+        context.stroke();
+    }
+
+
+    /**
+     * Strokes a [[Path]] by connecting points at evenly spaced distances
+     * and marks each point.  Points bunching up would show an issue with
+     * the arc length lookup.
+     * @param context
+     * @param path
+     * @param steps The number of points.
+     * @param pointSize The size of the point markers.  0 to skip them.
+     */
+    static path(context: CanvasRenderingContext2D, path: Path,
+        steps: number = 50, pointSize: number = 0) {
+        const vectors: Array<Vector> = [];
+        for (let i = 0; i <= steps; i++) {
+            vectors.push(path.getPointAt(i / steps));
+        }
+
+        context.beginPath();
+        context.moveTo(vectors[0].x, vectors[0].y);
+        vectors.forEach((v) => {
+            context.lineTo(v.x, v.y);
+        })
+        context.stroke();
+
+        pointSize && vectors.forEach((v) => {
+            domCanvas.vectorPoint(context, v, pointSize);
+        });
+    }
+
+
     /**
      * Acquires the pixel color of given coordinates on the canvas.
      */
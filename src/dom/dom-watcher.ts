@@ -249,6 +249,23 @@ export class DomWatcher {
     }
 
 
+    /**
+     * Removes a single watcher.
+     * @param config The config that was passed to add.
+     */
+    remove(config: DomWatcherConfig) {
+        this.watcherConfigs = this.watcherConfigs.filter(
+            (watcherConfig: DomWatcherConfig) => {
+                if (watcherConfig == config) {
+                    const remover = config.remover;
+                    remover && remover();
+                    return false;
+                }
+                return true;
+            });
+    }
+
+
     /**
      * Removes all dom watchers.
      */
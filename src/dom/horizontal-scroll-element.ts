@@ -6,6 +6,8 @@ import { mathf } from '../mathf/mathf';
 import { dom } from './dom';
 import { Raf } from '../raf/raf';
 import { func } from '..';
+import { time } from '../time/time';
+import { Decay } from '../mathf/decay';
 
 export const HorizontalScrollElementEvents = {
     INDEX_CHANGE: 'horizontal-scroll-element-index-change',
@@ -63,6 +65,26 @@ export interface HorizontalScrollElementConfig {
      * When dragging, allow a little wiggle room.  Defaults to 0
      */
     dragBounce?: number;
+
+    /**
+     * Whether to keep gliding with the drag velocity after a drag is
+     * released.  Defaults to false.  When used with snapToClosest, the
+     * slide closest to where the glide would come to rest is snapped to.
+     */
+    inertia?: boolean;
+
+    /**
+     * The time constant in ms of the inertia glide.  Higher values glide
+     * further.  Defaults to 350.
+     */
+    inertiaTimeConstant?: number;
+
+    /**
+     * Whether the scroll smoothing is scaled by the time between frames so
+     * it feels the same on every refresh rate.  Defaults to true.  Set to
+     * false for the legacy per frame smoothing.
+     */
+    frameRateIndependent?: boolean;
 }
 
 
@@ -72,6 +94,14 @@ export interface HorizontalScrollElementMouseState {
     dragging: boolean;
     start: number;
     lastX: number;
+    /**
+     * The time of the last drag move.
+     */
+    lastTime?: number;
+    /**
+     * The drag velocity in px per second.
+     */
+    velocity?: number;
 }
 
 export interface HorizontalScrollElementPositions {
@@ -318,15 +348,23 @@ export class HorizontalScrollElement {
     private dragBounce: number;
     private resizing: boolean = false;
     private itemCount: number = 0;
+    private useInertia: boolean = false;
+    private inertiaTimeConstant: number;
+    private frameRateIndependent: boolean = true;
 
 
     constructor(config: HorizontalScrollElementConfig) {
         this.root = config.rootElement;
         this.raf = new Raf(this.onRaf.bind(this));
+        this.raf.setLabel('horizontal-scroll-element');
+        this.raf.setOwner(this.root);
         this.useSlideDeltaValues = !!config.slideDeltaValues;
         this.useSnapToClosest = !!config.snapToClosest;
         this.shouldLeftAlign = !!config.leftAlign;
         this.dragBounce = config.dragBounce || 100;
+        this.useInertia = !!config.inertia;
+        this.inertiaTimeConstant = config.inertiaTimeConstant || 350;
+        this.frameRateIndependent = config.frameRateIndependent !== false;
 
         this.items = Array.from(this.root.querySelectorAll('[scroll-item]')) as Array<HTMLElement>;
 
@@ -396,8 +434,11 @@ export class HorizontalScrollElement {
         if (currentX == this.targetX && !immediate) {
             return;
         }
-        let dampedTarget = mathf.damp(
-            currentX, this.targetX, 0.4, 0.2);
+        let dampedTarget = this.frameRateIndependent ?
+            mathf.dampDelta(
+                currentX, this.targetX, 0.4, 0.2, this.raf.getDelta(false)) :
+            mathf.damp(
+                currentX, this.targetX, 0.4, 0.2);
 
 
         // No lerp when immediate
@@ -456,6 +497,8 @@ export class HorizontalScrollElement {
                 dragging: false,
                 lastX: eventX,
                 start: eventX,
+                lastTime: time.now(),
+                velocity: 0,
             };
             this.setTargetX(this.currentX);
 
@@ -512,6 +555,16 @@ export class HorizontalScrollElement {
                 let dragSensitivity = mathf.lerp(3, 4, normalizedWindowSize);
                 this.setTargetX(this.targetX + diff * dragSensitivity);
                 this.mouseState.lastX = this.mouseState.x;
+
+                // Track the drag velocity for inertia.
+                const now = time.now();
+                const elapsed = (now - this.mouseState.lastTime) / 1000;
+                if (elapsed > 0) {
+                    this.mouseState.velocity = mathf.lerp(
+                        this.mouseState.velocity,
+                        diff * dragSensitivity / elapsed, 0.8);
+                    this.mouseState.lastTime = now;
+                }
             }
         };
 
@@ -547,6 +600,16 @@ export class HorizontalScrollElement {
             this.mouseState.dragging = false;
             this.mouseState.down = false;
 
+            // Glide with the release velocity unless the pointer came to a
+            // stop before being released.
+            if (this.useInertia && this.mouseState.velocity &&
+                time.now() - this.mouseState.lastTime < 100) {
+                this.setTargetX(Decay.project(this.targetX, {
+                    velocity: this.mouseState.velocity,
+                    timeConstant: this.inertiaTimeConstant
+                }));
+            }
+
             if (this.useSnapToClosest) {
                 let index = this.findClosestIndexToX(this.targetX);
                 this.slideTo(index, false);
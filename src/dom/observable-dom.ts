@@ -0,0 +1,67 @@
+import { Observable } from '../func/observable';
+import { DomWatcher, DomWatcherConfig } from './dom-watcher';
+import { elementVisibility } from './element-visibility';
+
+
+/**
+ * The config of [[fromDomWatcher]].  Same as DomWatcherConfig without the
+ * callback.
+ */
+export type DomWatcherSourceConfig = Pick<DomWatcherConfig,
+    'element' | 'on' | 'eventOptions' | 'runWhen' | 'id'>;
+
+
+/**
+ * Emits the events of a [[DomWatcher]] listener.  The listener is added to
+ * the watcher on subscribe so removeAll / removeById still work and it is
+ * removed again on unsubscribe.
+ *
+ * ```ts
+ * const watcher = new DomWatcher();
+ * fromDomWatcher(watcher, { element: window, on: 'smartResize' })
+ *   .pipe(debounceFrames())
+ *   .subscribe(() => this.resize());
+ *
+ * // Later.
+ * watcher.dispose();
+ * ```
+ * @param watcher
+ * @param config
+ */
+export function fromDomWatcher<T = any>(watcher: DomWatcher,
+    config: DomWatcherSourceConfig): Observable<T> {
+    return new Observable<T>((subscriber) => {
+        const watcherConfig: DomWatcherConfig = Object.assign({}, config, {
+            callback: (event: T) => subscriber.next(event)
+        });
+        watcher.add(watcherConfig);
+        return () => watcher.remove(watcherConfig);
+    });
+}
+
+
+/**
+ * Emits the IntersectionObserverEntry of each visibility change of an
+ * element.
+ *
+ * ```ts
+ * fromElementVisibility(element, { threshold: 0.3 })
+ *   .pipe(
+ *     map((entry) => entry.isIntersecting),
+ *     distinctUntilChanged()
+ *   )
+ *   .subscribe((inview) => {});
+ * ```
+ * @param element
+ * @param options IntersectionObserver options.
+ */
+export function fromElementVisibility(element: HTMLElement,
+    options: Object = {}): Observable<IntersectionObserverEntry> {
+    return new Observable<IntersectionObserverEntry>((subscriber) => {
+        const ev = elementVisibility.inview(element, options,
+            (target: HTMLElement, entry: IntersectionObserverEntry) => {
+                entry && subscriber.next(entry);
+            });
+        return () => ev.dispose();
+    });
+}
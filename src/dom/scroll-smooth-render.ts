@@ -3,6 +3,7 @@ import { Raf } from '../raf/raf';
 import { mathf } from '../mathf/mathf';
 import { dom } from '../dom/dom';
 import { func } from '../func/func';
+import { Spring, SpringConfig } from '../mathf/spring';
 
 import { DomWatcher } from './dom-watcher';
 
@@ -13,7 +14,15 @@ export interface ScrollSmoothRenderConfig {
     // helps normalize difference between track pad, mouse wheel etc.
     dynamicSensitivity: boolean,
     lerp: number,
-    damp: number
+    damp: number,
+    // Whether lerp / damp are scaled by the time between frames so the
+    // smoothing is the same on every refresh rate.  The values are tuned for
+    // 60fps.  Defaults to true.  Set to false for the legacy per frame
+    // behavior.
+    frameRateIndependent?: boolean,
+    // Optional spring settings.  When set, the scroll position follows the
+    // target with a frame rate independent spring instead of lerp / damp.
+    spring?: SpringConfig
 }
 
 
@@ -47,6 +56,18 @@ export const ScrollSmoothRenderEvents = {
  *  });
  * ```
  *
+ * Use a spring instead of lerp / damp for motion that feels the same on
+ * every refresh rate.  Rest thresholds are in px.
+ * ```
+ *   const scroll = new ScrollRenderSmooth({
+ *      scrollSensitivity: 120,
+ *      dynamicSensitivity: true,
+ *      lerp: 1,
+ *      damp: 0.4,
+ *      spring: { stiffness: 120, damping: 22, restSpeed: 1, restDelta: 0.5 }
+ *  });
+ * ```
+ *
  * To take full advantage, use toolbox mutate or yano.read / writes.
  * ```
  *
@@ -109,6 +130,7 @@ export class ScrollSmoothRender {
     private config: ScrollSmoothRenderConfig;
     private domWatcher: DomWatcher;
     private disabled: boolean = false;
+    private spring: Spring | null = null;
 
     constructor(config: ScrollSmoothRenderConfig) {
 
@@ -117,6 +139,9 @@ export class ScrollSmoothRender {
         this.raf.setReadWriteMode(true);
         this.domWatcher = new DomWatcher();
         this.config = config;
+        if (config.spring) {
+            this.spring = new Spring(0, config.spring);
+        }
 
 
         if(window && window.location.hash) {
@@ -203,11 +228,27 @@ export class ScrollSmoothRender {
             // Note: Keep this on low precision and don't cull.
             // On trackpads, mosuewheel events are called frequently and
             // it ends up feeling smoother when we allow subpixels here.
-            const value = mathf.damp(
-                this.currentY,
-                this.targetY,
-                this.config.lerp,
-                this.config.damp);
+            let value;
+            if (this.spring) {
+                // Keep the spring in sync with scroll changes made outside
+                // of this loop but keep its velocity.
+                this.spring.position = this.currentY;
+                this.spring.setTarget(this.targetY);
+                value = this.spring.step(this.raf.getDelta(true));
+            } else if (this.config.frameRateIndependent !== false) {
+                value = mathf.dampDelta(
+                    this.currentY,
+                    this.targetY,
+                    this.config.lerp,
+                    this.config.damp,
+                    this.raf.getDelta(false));
+            } else {
+                value = mathf.damp(
+                    this.currentY,
+                    this.targetY,
+                    this.config.lerp,
+                    this.config.damp);
+            }
 
             if (this.currentY !== value) {
                 // Use scrollingElement to normalize diff between chrome and safari.
@@ -245,6 +286,9 @@ export class ScrollSmoothRender {
     public stopWheelJack() {
         this.isWheeling = false;
         this.raf.stop();
+        if (this.spring) {
+            this.spring.velocity = 0;
+        }
     }
 
     /**
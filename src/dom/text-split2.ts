@@ -63,6 +63,10 @@ export interface textSplit2Config {
  * end: If this is the last word in the sentence.
  * item: The overall item index of this word.
  *
+ * Each item also gets --item-row and --item-column css variables with the
+ * row and the index of the word within the row.  These pair well with grid
+ * staggers in [[MultiInterpolate]].
+ *
  *
  * Notice that on the root element, you get the total number of items,
  * and also on each element, you get an index.
@@ -181,6 +185,7 @@ export class TextSplit2 {
      */
     private onSmartResize() {
         let sentenceNumber = 0;
+        let column = 0;
         let y = dom.getScrollTop(this.words[0]);
         // Clean up
         this.words.forEach((word, i) => {
@@ -201,9 +206,13 @@ export class TextSplit2 {
                   this.words[i - 1].setAttribute('end', sentenceNumber + '');
                 }
                 sentenceNumber++;
+                column = 0;
                 word.setAttribute('start', sentenceNumber + '');
             }
             word.setAttribute('row', sentenceNumber + '');
+            dom.setCssVariable(word, '--item-row', sentenceNumber + '');
+            dom.setCssVariable(word, '--item-column', column + '');
+            column++;
 
 
             // Last item.
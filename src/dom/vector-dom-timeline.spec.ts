@@ -1,8 +1,17 @@
 import { VectorDomTimeline } from './vector-dom-timeline';
 import { VectorDom } from './vector-dom';
+import { Vector } from '../mathf/vector';
 import test from 'ava';
 
 
+// jsdom doesn't implement IntersectionObserver.
+global['IntersectionObserver'] = class {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+
+
 /**
  * Check that story board appends 0 and 1 progress
  */
@@ -81,4 +90,38 @@ test('getStartAndEndTimelineFromStoryboard', t => {
         }
     );
 
-});
\ No newline at end of file
+});
+
+
+test('catmullRomConstantSpeed moves an equal distance per progress', t => {
+    const vectorDom = new VectorDom(document.createElement('div'));
+    vectorDom.disableStyleRenders = true;
+    const timeline = new VectorDomTimeline(vectorDom);
+    timeline.catmullRomMode = true;
+    timeline.catmullRomConstantSpeed = true;
+
+    // Unevenly spaced keyframes would speed up and slow down.
+    timeline.setTimeline([
+        { progress: 0, x: 0, y: 0 },
+        { progress: 0.2, x: 10, y: 0 },
+        { progress: 0.5, x: 200, y: 50 },
+        { progress: 1, x: 220, y: 300 },
+    ]);
+
+    const steps = 50;
+    const points: Array<Vector> = [];
+    for (let i = 0; i <= steps; i++) {
+        timeline.updateProgress(i / steps);
+        points.push(new Vector(vectorDom.x, vectorDom.y));
+    }
+
+    const distances = points.slice(1).map((point, i) => {
+        return point.distance(points[i]);
+    });
+    const average = distances.reduce((a, b) => a + b) / steps;
+    distances.forEach((distance) => {
+        t.true(Math.abs(distance - average) < average * 0.01);
+    });
+    t.deepEqual([points[0].x, points[0].y], [0, 0]);
+    t.deepEqual([points[steps].x, points[steps].y], [220, 300]);
+});
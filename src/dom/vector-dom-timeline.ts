@@ -6,6 +6,8 @@ import { mathf } from '../mathf/mathf';
 import { Vector } from '../mathf/vector';
 import { is } from '../is/is';
 import { HermiteCurve } from '../mathf/hermite-curve';
+import { CatmullRomTypes } from '../mathf/catmull-rom';
+import { Path } from '../mathf/path';
 import { Interpolate } from '../interpolate/interpolate';
 
 export interface VectorDomStartEnd {
@@ -37,6 +39,11 @@ export interface VectorDomTimelineObject {
  */
 const skipKeys = ['progress', 'easingFunction'];
 
+/**
+ * The keys moved along the path when catmullRomConstantSpeed is used.
+ */
+const pathKeys = ['x', 'y', 'z'];
+
 /**
  *
  * A component class of VectorDom that adds timeline functionality to VectorDOM.
@@ -136,6 +143,21 @@ const skipKeys = ['progress', 'easingFunction'];
  *
  * ```
  *
+ * Each key is smoothed on its own so the element speeds up and slows down
+ * between keyframes.  To move the element at a constant speed, use
+ * catmullRomConstantSpeed.  A [[Path]] is then created through the x, y (and
+ * z) positions of the keyframes and the element moves along it evenly
+ * between the first and last keyframe.  Keyframes need both x and y to be
+ * part of the path.
+ *
+ * ```ts
+ * vector._.timeline.catmullRomMode = true;
+ * vector._.timeline.catmullRomConstantSpeed = true;
+ *
+ * // Optionally change the spline type.  Defaults to centripetal.
+ * vector._.timeline.catmullRomType = CatmullRomTypes.chordal;
+ * ```
+ *
  *
  * ### Using CSS vars Only.
  * If you want to use VectorDom only with css variables or prevent VectorDom
@@ -250,6 +272,39 @@ export class VectorDomTimeline implements VectorDomComponent {
      */
     public catmullRomTension: number;
 
+    /**
+     * Whether to move x, y, z at a constant speed along a catmull rom path
+     * when catmullRomMode is on.
+     */
+    public catmullRomConstantSpeed: boolean;
+
+    /**
+     * The type of the catmull rom path used with catmullRomConstantSpeed.
+     */
+    public catmullRomType: CatmullRomTypes;
+
+    /**
+     * The path through the keyframe positions.  Created on demand when
+     * catmullRomConstantSpeed is used.
+     */
+    private path: Path | null;
+
+    /**
+     * The type the path was created with.
+     */
+    private pathType: CatmullRomTypes | null;
+
+    /**
+     * The keyframes that declare both x and y sorted by progress.  The path
+     * goes through these.
+     */
+    private pathKeyframes: Array<VectorDomTimelineObject>;
+
+    /**
+     * Whether any of the path keyframes declares z.
+     */
+    private pathHasZ: boolean;
+
     /**
      * An internal list of all recorded timeline keys.
      */
@@ -286,6 +341,12 @@ export class VectorDomTimeline implements VectorDomComponent {
         this.timelineKeys = [];
         this.catmullRomMode = false;
         this.catmullRomTension = 1;
+        this.catmullRomConstantSpeed = false;
+        this.catmullRomType = CatmullRomTypes.centripetal;
+        this.path = null;
+        this.pathType = null;
+        this.pathKeyframes = [];
+        this.pathHasZ = false;
         this.storyboard = {};
 
 
@@ -325,6 +386,60 @@ export class VectorDomTimeline implements VectorDomComponent {
             VectorDomTimeline.generateStoryboard(
                 this.timelineKeys,
                 this.timeline);
+
+        this.path = null;
+        this.pathKeyframes = this.timeline
+            .filter((keyframe) => {
+                return is.number(keyframe.x) && is.number(keyframe.y);
+            })
+            .sort((a, b) => a.progress - b.progress);
+        this.pathHasZ = this.pathKeyframes.some((keyframe) => {
+            return is.number(keyframe.z);
+        });
+    }
+
+
+    /**
+     * Returns the constant speed path.  Null if there are fewer than two
+     * keyframes with a position.
+     */
+    private getPath(): Path | null {
+        if (this.path && this.pathType == this.catmullRomType) {
+            return this.path;
+        }
+
+        const keyframes = this.pathKeyframes;
+        if (keyframes.length < 2) {
+            return null;
+        }
+        this.path = Path.fromCatmullRom(keyframes.map((keyframe) => {
+            return new Vector(keyframe.x, keyframe.y, keyframe.z || 0);
+        }), this.catmullRomType);
+        this.pathType = this.catmullRomType;
+        return this.path;
+    }
+
+
+    /**
+     * Moves the host along the constant speed path.  Returns false if there
+     * is no path.
+     */
+    private updatePathProgress(progress: number): boolean {
+        const path = this.getPath();
+        if (!path) {
+            return false;
+        }
+
+        const keyframes = this.pathKeyframes;
+        const pathProgress = mathf.clamp01(mathf.childProgress(progress,
+            keyframes[0].progress, keyframes[keyframes.length - 1].progress));
+        const point = path.getPointAt(pathProgress);
+        this.host.x = point.x;
+        this.host.y = point.y;
+        if (this.pathHasZ) {
+            this.host.z = point.z;
+        }
+        return true;
     }
 
     /**
@@ -500,7 +615,13 @@ export class VectorDomTimeline implements VectorDomComponent {
 
 
     updateProgress(progress: number) {
+        const usePath = this.catmullRomMode && this.catmullRomConstantSpeed &&
+            this.updatePathProgress(progress);
+
         for (let key in this.storyboard) {
+            if (usePath && pathKeys.includes(key)) {
+                continue;
+            }
             let startEnd = VectorDomTimeline
                 .getStartAndEndTimelineFromStoryboard(this.storyboard, key, progress);
 
@@ -0,0 +1,108 @@
+import { VectorDom } from './vector-dom';
+import { MatrixIV } from '../mathf/matrixIV';
+import { Vector } from '../mathf/vector';
+import { mathf } from '../mathf/mathf';
+import { bench } from '../debug/bench';
+import test from 'ava';
+
+/**
+ * Benchmarks the heap allocations of VectorDom.render against the
+ * allocating version from before the out parameter APIs.  Run with
+ * `npm run bench`.
+ */
+
+// jsdom doesn't implement IntersectionObserver.
+global['IntersectionObserver'] = class {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+
+const createVectorDom = (): VectorDom => {
+    const vectorDom = new VectorDom(document.createElement('div'));
+    vectorDom.disableStyleRenders = true;
+    return vectorDom;
+}
+
+
+/**
+ * toMatrixIV the way it was before the out parameter APIs.  Every matrix
+ * and vector is a new object and every multiply works on a copy.
+ */
+const allocatingToMatrixIV = (vectorDom: VectorDom): MatrixIV => {
+    const translationMatrix = new MatrixIV();
+    translationMatrix.setVectorColumn(3, vectorDom.position.clone());
+
+    const anchorOffsetVector = new Vector(
+        -(vectorDom.anchorX * vectorDom.width),
+        -(vectorDom.anchorY * vectorDom.height),
+        0
+    );
+    const offsetMatrix = new MatrixIV();
+    offsetMatrix.setVectorColumn(3,
+        vectorDom.offset.clone().add(anchorOffsetVector));
+
+    const z = mathf.clamp(-1, 10, vectorDom.position.z + 1);
+    const scaleMatrix = new MatrixIV().scaleXyz(z, z, z);
+    scaleMatrix.value[15] = 1;
+    const rotationMatrix = MatrixIV.fromQuaternion(vectorDom.rotation);
+
+    const baseMatrix = MatrixIV.IDENTITY
+        .multiply(scaleMatrix).clone()
+        .multiply(rotationMatrix).clone()
+        .multiply(translationMatrix).clone()
+        .multiply(offsetMatrix);
+
+    const projectionMatrix = new MatrixIV()
+        .perspective(mathf.degreeToRadian(90), 1, -1, 100);
+    const viewMatrix = new MatrixIV().lookAt(
+        new Vector(0, 0, 1), new Vector(0, 0, 0), Vector.DOWN);
+    return projectionMatrix.clone()
+        .multiply(viewMatrix).clone()
+        .multiply(baseMatrix);
+};
+
+
+test('toMatrixIV with an out matrix allocates less than before', t => {
+    const vectorDom = createVectorDom();
+    const out = new MatrixIV();
+    const frames = 1000;
+
+    const allocatingBytes = bench.measureBytes((i: number) => {
+        vectorDom.position.x = i;
+        allocatingToMatrixIV(vectorDom);
+    }, frames);
+    const bytes = bench.measureBytes((i: number) => {
+        vectorDom.position.x = i;
+        vectorDom.toMatrixIV(out);
+    }, frames);
+
+    t.log(`allocating toMatrixIV: ${allocatingBytes.toFixed(1)} bytes per call`);
+    t.log(`toMatrixIV: ${bytes.toFixed(1)} bytes per call`);
+    t.true(bytes < 64);
+    t.true(allocatingBytes - bytes > 1024);
+});
+
+
+test('render allocates less than before', t => {
+    const vectorDom = createVectorDom();
+    const frames = 1000;
+
+    // Most of what's left is the matrix3d css string which both write.
+    const allocatingBytes = bench.measureBytes((i: number) => {
+        vectorDom.position.x = i;
+        vectorDom.eularRotation.x = i;
+        vectorDom.syncEularRotation();
+        allocatingToMatrixIV(vectorDom).transpose().toCss3dMatrix();
+    }, frames);
+    const bytes = bench.measureBytes((i: number) => {
+        vectorDom.position.x = i;
+        vectorDom.eularRotation.x = i;
+        vectorDom.render(true);
+    }, frames);
+
+    t.log(`allocating render: ${allocatingBytes.toFixed(1)} bytes per frame`);
+    t.log(`render: ${bytes.toFixed(1)} bytes per frame`);
+    t.true(bytes < 4096);
+    t.true(allocatingBytes - bytes > 2048);
+});
@@ -31,6 +31,48 @@ export interface VectorDomOptions {
 }
 
 
+/**
+ * Scratch objects shared by all VectorDoms so toMatrixIV and render don't
+ * create objects every frame.
+ */
+const scratch = {
+    translationMatrix: new MatrixIV(),
+    offsetMatrix: new MatrixIV(),
+    scaleMatrix: new MatrixIV(),
+    rotationMatrix: new MatrixIV(),
+    cssMatrix: new MatrixIV(),
+    offsetVector: new Vector(),
+    velocity: new Vector()
+};
+
+
+/**
+ * The projection and view matrix used with renderWith3dProjectMatrix.  Both
+ * are constant so they are only created once.
+ */
+let projectionViewMatrix: MatrixIV | null = null;
+
+const getProjectionViewMatrix = (): MatrixIV => {
+    if (!projectionViewMatrix) {
+        const projectionMatrix =
+            new MatrixIV()
+                .perspective(
+                    mathf.degreeToRadian(90),
+                    1,
+                    -1, 100);
+
+        const viewMatrix =
+            new MatrixIV().lookAt(
+                new Vector(0, 0, 1),
+                new Vector(0, 0, 0),
+                Vector.DOWN);
+
+        projectionViewMatrix = projectionMatrix.multiply(viewMatrix);
+    }
+    return projectionViewMatrix;
+};
+
+
 /**
  * VectorDom is a general object is similar to a GameObject in many engines (but
  * much simpler).
@@ -190,6 +232,9 @@ export interface VectorDomOptions {
  *
  * ```
  *
+ * Syncing writes into the quaternion in `rotation` so don't share an assigned
+ * quaternion with other code while syncing the eular rotation.
+ *
  * You can do more advanced things as well.
  *
  * ```ts
@@ -368,6 +413,11 @@ export class VectorDom {
     protected gx_: number;
     protected gy_: number;
 
+    /**
+     * The matrix render writes into.
+     */
+    private matrix: MatrixIV;
+
 
     /**
      * The opacity of this object.
@@ -505,6 +555,7 @@ export class VectorDom {
 
         this.gx_ = 0;
         this.gy_ = 0;
+        this.matrix = new MatrixIV();
 
         // Add element visibility to the VectorDom.
         this.elementVisibility = elementVisibility.inview(this.element);
@@ -792,9 +843,14 @@ export class VectorDom {
      * Tells VectorDom to use the eularRotation values and overrite the internal
      * Quaternion rotation (which is ultimately used to calculate and generate
      * the rotational matrix.)
+     *
+     * The quaternion is updated in place so no quaternion is allocated per
+     * render.  Code that holds on to `vectorDom.rotation` sees the synced
+     * rotation.  Clone it to keep the previous rotation.
      */
     syncEularRotation() {
-        this.rotation = Quaternion.fromEulerVector(this.eularRotation);
+        this.rotation.setFromEuler(
+            this.eularRotation.x, this.eularRotation.y, this.eularRotation.z);
     }
 
 
@@ -862,90 +918,79 @@ export class VectorDom {
      * let matrix = ballPosition.toTranslationMatrixIV()
      *
      * // Convert that to a css 3d translation.
-     * let ms = matrix.toCss3dMatrix();
+     * let ms = matrix.transpose().toCss3dMatrix();
      * ball.style.transform = ms;
      *
      * ```
      *
      * @return {MartrixIV}
      */
-    toTranslationMatrixIV(): MatrixIV {
-        const positionVector = this.position.clone();
-
-        const matrix = new MatrixIV();
-        matrix.setVectorColumn(3, positionVector);
-        return matrix;
+    toTranslationMatrixIV(out: MatrixIV = new MatrixIV()): MatrixIV {
+        out.identity();
+        out.setVectorColumn(3, this.position);
+        return out;
     }
 
 
     /**
      * Takes the rotation, scale and translation matrices and combines them
      * into one.
+     *
+     * @param out Optional matrix to write into.  Defaults to a new matrix.
      */
-    toMatrixIV(): MatrixIV {
-        const translationMatrix = this.toTranslationMatrixIV();
+    toMatrixIV(out: MatrixIV = new MatrixIV()): MatrixIV {
+        const translationMatrix =
+            this.toTranslationMatrixIV(scratch.translationMatrix);
 
         // Account for anchor offsets.
-        const anchorOffsetVector = new Vector(
-            -(this.anchorX * this.width),
-            -(this.anchorY * this.height),
-            0
-        )
+        const offsetVector = scratch.offsetVector.set(
+            this.offset.x - (this.anchorX * this.width),
+            this.offset.y - (this.anchorY * this.height),
+            this.offset.z
+        );
 
-
-        const offsetMatrix = new MatrixIV();
-        const offsetVector = this.offset.clone().add(anchorOffsetVector);
+        const offsetMatrix = scratch.offsetMatrix.identity();
         offsetMatrix.setVectorColumn(3, offsetVector);
 
         // Scale based on the z position.
         let z = mathf.clamp(-1, 10, this.position.z + 1);
 
-        const scaleMatrix = new MatrixIV().scaleXyz(z, z, z);
+        const scaleMatrix = scratch.scaleMatrix.identity().scaleXyz(z, z, z);
         scaleMatrix.value[15] = 1;
 
         // Don't use YPR Eular because of gimble lock unless really needed.
-        let rotationMatrix;
+        const rotationMatrix = scratch.rotationMatrix;
         if (this.eularRotationAsRotationMatrix) {
-            let radianEular = this.eularRotation.clone().degreeToRadians();
-            rotationMatrix = new MatrixIV().ypr(
-                -radianEular.y, -radianEular.x, radianEular.z);
+            rotationMatrix.ypr(
+                -mathf.degreeToRadian(this.eularRotation.y),
+                -mathf.degreeToRadian(this.eularRotation.x),
+                mathf.degreeToRadian(this.eularRotation.z));
         } else {
-            rotationMatrix = MatrixIV.fromQuaternion(this.rotation);
+            rotationMatrix.setFromQuaternion(this.rotation);
         }
 
 
         // Apply SRT.
-        let baseMatrix = MatrixIV.IDENTITY
+        out.identity()
             .multiply(scaleMatrix)
             .multiply(rotationMatrix)
             .multiply(translationMatrix)
             .multiply(offsetMatrix);
 
         if (!this.renderWith3dProjectMatrix) {
-            return baseMatrix;
+            return out;
         } else {
-            const projectionMatrix =
-                new MatrixIV()
-                    .perspective(
-                        mathf.degreeToRadian(90),
-                        1,
-                        -1, 100);
-
-            const viewMatrix =
-                new MatrixIV().lookAt(
-                    new Vector(0, 0, 1),
-                    new Vector(0, 0, 0),
-                    Vector.DOWN);
-
-            return projectionMatrix
-                .multiply(viewMatrix).multiply(baseMatrix);
+            return MatrixIV.multiply(out, getProjectionViewMatrix(), out);
         }
 
     }
 
 
     toCss3dMatrix(): string {
-        const matrixValue = this.toMatrixIV().toCss3dMatrix();
+        // The matrices of VectorDom keep the translation in values 3, 7 and
+        // 11 so they are transposed to the css layout.
+        const matrixValue = scratch.cssMatrix.copy(this.toMatrixIV(this.matrix))
+            .transpose().toCss3dMatrix();
         return matrixValue;
     }
 
@@ -955,8 +1000,12 @@ export class VectorDom {
      * @param {syncEularRotation} Whether to sync the eular rotation on each
      *   render.  Defaults to true but turn off if you want to manipulate the
      *   internal quaternion rotation.
+     * @param {delta} Optional time in ms since the last render such as
+     *   raf.getDelta().  When passed, velocity is applied per 60fps frame
+     *   so movement is the same on every refresh rate.  When omitted,
+     *   velocity is applied once per render (legacy).
      */
-    render(syncEularRotation: boolean = false) {
+    render(syncEularRotation: boolean = false, delta?: number) {
 
         if (syncEularRotation) {
             this.syncEularRotation();
@@ -970,7 +1019,12 @@ export class VectorDom {
         // Update the position based on velocity and acceleration.
         // Has not effect if you just directly update the position.
         this.velocity.ease(this.acceleration, 1, EASE.linear);
-        this.position.add(this.velocity);
+        if (is.number(delta)) {
+            this.position.add(scratch.velocity.copy(this.velocity)
+                .scale(delta / (1000 / 60)));
+        } else {
+            this.position.add(this.velocity);
+        }
         const matrixValue = this.toCss3dMatrix();
 
         this.render_(matrixValue, this.alpha);
@@ -0,0 +1,91 @@
+import {
+    ViewportCssParallax, ViewportCssParallaxSettings
+} from './viewport-css-parallax';
+import { VirtualRafScheduler } from '../raf/raf-scheduler';
+import { ScrollDrivenAnimationOptions } from '../interpolate/css-var-keyframes';
+import test from 'ava';
+
+
+// jsdom doesn't implement ViewTimeline, IntersectionObserver and raf.
+let intersect: Function = null;
+window['CSS'] = { registerProperty: () => { } };
+window['ViewTimeline'] = class { };
+global['requestAnimationFrame'] = () => 0;
+global['IntersectionObserver'] = class {
+    constructor(callback: Function) {
+        intersect = callback;
+    }
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+window['YANO_RAF_REGISTRY'].setScheduler(new VirtualRafScheduler());
+
+
+/**
+ * Creates a parallax for a 500px high element and returns the
+ * animation-range of the animations it played and cancelled.
+ * @hidden
+ */
+const createParallax = (settings: Partial<ViewportCssParallaxSettings> = {}) => {
+    const ranges: Array<ScrollDrivenAnimationOptions> = [];
+    const cancelled: Array<ScrollDrivenAnimationOptions> = [];
+    const element = document.createElement('div');
+    element.setAttribute('viewport-css-parallax', '{}');
+    Object.defineProperty(element, 'offsetHeight', { value: 500 });
+    element.animate = (keyframes: Array<Keyframe>,
+        options: ScrollDrivenAnimationOptions) => {
+        ranges.push(options);
+        return {
+            cancel: () => { cancelled.push(options); },
+            pause: () => { }
+        } as Animation;
+    };
+
+    const parallax = new ViewportCssParallax();
+    parallax.init({
+        rootElement: element, debug: false, lerp: 1, damp: 1, ...settings
+    }, [
+        { id: '--x', progress: [{ from: 0, to: 1, start: '0px', end: '100px' }] }
+    ]);
+    return { parallax: parallax, ranges: ranges, cancelled: cancelled };
+};
+
+
+test.serial('animation-range of the view timeline', t => {
+    // Progress runs while the top of the element moves up the viewport.
+    let ranges = createParallax().ranges;
+    t.is(ranges[0].rangeStart, 'cover 0px');
+    t.is(ranges[0].rangeEnd, 'cover calc(100% - 500px)');
+
+    // Baseline in the middle of the element.
+    ranges = createParallax({ elementBaseline: 0.5 }).ranges;
+    t.is(ranges[0].rangeStart, 'cover 250px');
+    t.is(ranges[0].rangeEnd, 'cover calc(100% - 250px)');
+
+    // The whole cover range.
+    ranges = createParallax({ elementBaselineFromTopToBottom: true }).ranges;
+    t.is(ranges[0].rangeStart, 'cover -500px');
+    t.is(ranges[0].rangeEnd, 'cover 100%');
+
+    // Smoothing needs the js mode.
+    ranges = createParallax({ lerp: 0.2 }).ranges;
+    t.is(ranges.length, 0);
+});
+
+
+test.serial('falls back to raf when the view timeline is lost on resize', t => {
+    const { parallax, ranges, cancelled } = createParallax();
+    intersect([{ isIntersecting: true }]);
+    t.false(parallax['raf'].isPlaying);
+
+    const viewTimeline = window['ViewTimeline'];
+    delete window['ViewTimeline'];
+    parallax['onWindowResize']();
+    t.false(parallax['usingScrollTimeline']);
+    t.true(parallax['raf'].isPlaying);
+    t.deepEqual(cancelled, ranges);
+
+    window['ViewTimeline'] = viewTimeline;
+    parallax.dispose();
+});
@@ -5,6 +5,7 @@ import { func } from '../func/func';
 import { interpolateSettings } from '../interpolate/multi-interpolate';
 import { DomWatcher } from '../dom/dom-watcher';
 import { CssVarInterpolate } from '../interpolate/css-var-interpolate';
+import { cssVarKeyframes } from '../interpolate/css-var-keyframes';
 import { Raf } from '../raf/raf';
 import { dom } from '../dom/dom';
 import { mathf } from '../mathf/mathf';
@@ -22,6 +23,11 @@ export interface ViewportCssParallaxSettings {
     // http://yano-js.surge.sh/classes/mathf.mathf-1.html#damp
     lerp: number,
     damp: number,
+    // Whether lerp / damp are scaled by the time between frames so the
+    // smoothing is the same on every refresh rate.  The values are tuned
+    // for 60fps.  Set to false for the legacy per frame behavior.
+    // Defaults to true.
+    frameRateIndependent?: boolean,
     // Whether to force clamp the progress to 0-1 range.  Defaults to true.
     clamp?: boolean,
 
@@ -42,6 +48,11 @@ export interface ViewportCssParallaxSettings {
     // Using this option, overrides the settings of elementBaseline.
     elementBaselineFromTopToBottom?: boolean,
 
+    // Whether to play the interpolations on a native scroll driven
+    // ViewTimeline where supported.  Only used without lerp / damp since
+    // smoothing needs the progress to be calculated in js.  Defaults to true.
+    scrollTimeline?: boolean,
+
     // The rafEvOptions so that you can add rootMargin etc to the base raf.
     rafEvOptions?: Object
 }
@@ -86,6 +97,11 @@ export interface ViewportCssParallaxConfig {
  * parallaxer.dispose();
  * ```
  *
+ * Where the browser supports ViewTimeline and lerp / damp are not used, the
+ * interpolations are played natively on a ViewTimeline of the rootElement
+ * with the elementBaseline translated into the animation-range.  Set
+ * scrollTimeline to false to always use the js mode.
+ *
  */
 export class ViewportCssParallax{
     /**
@@ -119,6 +135,11 @@ export class ViewportCssParallax{
     private lastWriteProgress: number = -1;
     public initialized: boolean = false;
 
+    /**
+     * Whether the interpolations are played on a native ViewTimeline.
+     */
+    private usingScrollTimeline: boolean = false;
+
 
 
     constructor() {}
@@ -138,6 +159,8 @@ export class ViewportCssParallax{
         this.id = stringf.uuid();
 
         this.raf = new Raf(this.onRaf.bind(this));
+        this.raf.setLabel('viewport-css-parallax');
+        this.raf.setOwner(this.rootElement);
         this.parallaxData = JSON.parse(this.rootElement.getAttribute('viewport-css-parallax'));
         this.domWatcher = new DomWatcher();
         this.domWatcher.add({
@@ -165,11 +188,18 @@ export class ViewportCssParallax{
         // start position.
         this.updateImmediately();
 
+        this.usingScrollTimeline = this.useScrollTimeline();
+
         this.rootElement.classList.add('viewport-css-parallax-ready');
 
         // Start and stop raf when the element comes into view.
         this.rafEv = elementVisibility.inview(this.rafEvElement, this.settingsData.rafEvOptions,
             (element: any, changes: any) => {
+                // The browser plays the scroll timeline.
+                if (this.usingScrollTimeline) {
+                    return;
+                }
+
                 if (changes.isIntersecting) {
                     this.raf.start();
                 } else {
@@ -202,11 +232,13 @@ export class ViewportCssParallax{
                     clamp: true,
                     lerp: 1,
                     damp: 1,
+                    frameRateIndependent: true,
 
                     // Default to top of element.
                     elementBaseline: 0,
                     elementBaselineFromTopToBottom: false,
                     precision: 3,
+                    scrollTimeline: true,
                     rafEvOptions: {
                         rootMargin: '300px 0px 300px 0px'
                     }
@@ -249,8 +281,12 @@ export class ViewportCssParallax{
 
     /**
      * Calculates the current progress and returns a value between 0-1.
+     * @param lerp
+     * @param damp
+     * @param delta The time in ms since the last update.  When passed (and
+     *     frameRateIndependent is on), lerp and damp are scaled by it.
      */
-    protected updateProgress(lerp: number, damp: number): number {
+    protected updateProgress(lerp: number, damp: number, delta?: number): number {
 
         // Viewport css parallax needs to calculate where on the viewport a given
         // elemenet resides.
@@ -300,6 +336,13 @@ export class ViewportCssParallax{
 
         if(lerp == 1 && damp == 1) {
             this.currentProgress = percent;
+        } else if(is.number(delta) && this.settingsData.frameRateIndependent) {
+            this.currentProgress =
+                mathf.dampDelta(
+                    this.currentProgress,
+                    percent,
+                    lerp, damp, delta
+                );
         } else {
             this.currentProgress =
                 mathf.damp(
@@ -346,7 +389,8 @@ export class ViewportCssParallax{
     public onRaf(): void {
 
         this.raf.read(()=> {
-          this.updateProgress(this.settingsData.lerp, this.settingsData.damp);
+          this.updateProgress(this.settingsData.lerp, this.settingsData.damp,
+              this.raf.getDelta(false));
         })
 
 
@@ -374,10 +418,69 @@ export class ViewportCssParallax{
     }
 
 
-    protected onWindowResize() { }
+    /**
+     * Plays the interpolations on a native ViewTimeline of the rootElement
+     * and writes them to the cssWriteElement.  Returns false when the js
+     * mode needs to be used.
+     */
+    protected useScrollTimeline(): boolean {
+        if (!this.settingsData.scrollTimeline ||
+            this.settingsData.lerp != 1 || this.settingsData.damp != 1 ||
+            !cssVarKeyframes.isViewTimelineSupported(this.cssWriteElement)) {
+            // Cancel the animations of a previous call.
+            this.interpolator.useWebAnimations(false);
+            this.interpolator.useNoWrite(true);
+            this.interpolator.useSubPixelRendering(false);
+            return false;
+        }
+
+        // The cover range starts when the top of the element enters the
+        // bottom of the viewport and ends when the bottom of the element
+        // leaves the top of the viewport.
+        const height = this.rootElement.offsetHeight;
+        let rangeStart = `cover ${-height}px`;
+        let rangeEnd = 'cover 100%';
+        if (!this.settingsData.elementBaselineFromTopToBottom) {
+            // Progress runs while the baseline moves from the bottom to the
+            // top of the viewport.
+            const baseline = this.settingsData.elementBaseline * height;
+            rangeStart = `cover ${baseline}px`;
+            rangeEnd = `cover calc(100% - ${height - baseline}px)`;
+        }
+
+        this.interpolator.useNoWrite(false);
+        this.interpolator.useSubPixelRendering(true);
+        const used = this.interpolator.useWebAnimations(true, {
+            timeline: cssVarKeyframes.createViewTimeline(this.rootElement),
+            rangeStart: rangeStart,
+            rangeEnd: rangeEnd,
+            target: this.cssWriteElement
+        });
+
+        if (!used) {
+            this.interpolator.useNoWrite(true);
+            this.interpolator.useSubPixelRendering(false);
+        }
+        return used;
+    }
+
+
+    protected onWindowResize() {
+        if (this.usingScrollTimeline) {
+            // Update the animation-range with the new height.
+            this.usingScrollTimeline = this.useScrollTimeline();
+
+            // Fall back to the js mode.
+            if (!this.usingScrollTimeline) {
+                this.updateImmediately();
+                this.rafEv.state().inview && this.raf.start();
+            }
+        }
+    }
 
 
     public dispose(): void {
+        this.interpolator && this.interpolator.useWebAnimations(false);
         this.rafEv.dispose();
         this.raf.dispose();
         this.domWatcher.dispose();
@@ -0,0 +1,116 @@
+import { cssEasing } from './css-easing';
+import { EASE } from './ease';
+import { mathf } from '../mathf/mathf';
+import test from 'ava';
+
+const round = (value: number) => mathf.roundToPrecision(value, 4);
+
+test('keywords', t => {
+    t.is(cssEasing.parse('linear'), EASE.linear);
+
+    // Reference values from browsers.
+    t.is(round(cssEasing.parse('ease')(0.5)), 0.8024);
+    t.is(round(cssEasing.parse('ease-in')(0.5)), 0.3154);
+    t.is(round(cssEasing.parse('ease-out')(0.5)), 0.6846);
+    t.is(round(cssEasing.parse('ease-in-out')(0.5)), 0.5);
+    t.is(cssEasing.parse('ease')(0), 0);
+    t.is(cssEasing.parse('ease')(1), 1);
+
+    t.is(cssEasing.parse('step-start')(0), 1);
+    t.is(cssEasing.parse('step-end')(0.99), 0);
+});
+
+test('cubic-bezier', t => {
+    const ease = cssEasing.parse('cubic-bezier(0.25, 0.1, 0.25, 1)');
+    t.is(round(ease(0.5)), 0.8024);
+    t.is(round(cssEasing.parse('cubic-bezier(0,0,1,1)')(0.3)), 0.3);
+
+    // y values can overshoot.
+    const back = cssEasing.parse('cubic-bezier(0.5, -0.5, 0.5, 1.5)');
+    t.true(back(0.1) < 0);
+    t.true(back(0.9) > 1);
+
+    t.throws(() => cssEasing.parse('cubic-bezier(1.2, 0, 0, 1)'));
+    t.throws(() => cssEasing.parse('toString'));
+    t.throws(() => cssEasing.parse('constructor'));
+    t.throws(() => cssEasing.parse('cubic-bezier(0, 0, 1)'));
+    t.throws(() => cssEasing.parse('cubic-bezier(a, 0, 1, 1)'));
+});
+
+test('steps', t => {
+    const sample = (easing: Function) => {
+        return [0, 0.1, 0.3, 0.6, 0.9, 1].map((t) => easing(t));
+    };
+    t.deepEqual(sample(cssEasing.parse('steps(4)')), [0, 0, 0.25, 0.5, 0.75, 1]);
+    t.deepEqual(sample(cssEasing.parse('steps(4, end)')), [0, 0, 0.25, 0.5, 0.75, 1]);
+    t.deepEqual(sample(cssEasing.parse('steps(4, jump-start)')),
+        [0.25, 0.25, 0.5, 0.75, 1, 1]);
+    t.deepEqual(sample(cssEasing.parse('steps(5, jump-none)')),
+        [0, 0, 0.25, 0.75, 1, 1]);
+    t.deepEqual(sample(cssEasing.parse('steps(3, jump-both)')),
+        [0.25, 0.25, 0.25, 0.5, 0.75, 1]);
+
+    t.throws(() => cssEasing.parse('steps(0)'));
+    t.throws(() => cssEasing.parse('steps(1.5)'));
+    t.throws(() => cssEasing.parse('steps(1, jump-none)'));
+    t.throws(() => cssEasing.parse('steps(2, sideways)'));
+});
+
+test('linear()', t => {
+    t.deepEqual(cssEasing.parseLinearStops(['0', '0.25 75%', '1']), [
+        { input: 0, output: 0 },
+        { input: 0.75, output: 0.25 },
+        { input: 1, output: 1 },
+    ]);
+
+    // Missing inputs are spread evenly and inputs can't go backwards.
+    t.deepEqual(cssEasing.parseLinearStops(['0', '0.5', '0.6 50%', '0.7 20%', '1']), [
+        { input: 0, output: 0 },
+        { input: 0.25, output: 0.5 },
+        { input: 0.5, output: 0.6 },
+        { input: 0.5, output: 0.7 },
+        { input: 1, output: 1 },
+    ]);
+
+    // Two inputs on one stop create a flat section.
+    const flat = cssEasing.parse('linear(0, 0.5 25% 75%, 1)');
+    t.is(flat(0.125), 0.25);
+    t.is(flat(0.5), 0.5);
+    t.is(flat(0.875), 0.75);
+
+    const easing = cssEasing.parse('linear(0, 0.25 75%, 1)');
+    t.is(easing(0.375), 0.125);
+    t.is(easing(0.875), 0.625);
+    // Extrapolates outside of 0-1.
+    t.is(round(easing(-0.75)), -0.25);
+    t.is(easing(2), 4);
+
+    t.throws(() => cssEasing.parse('linear(0)'));
+    t.throws(() => cssEasing.parse('linear(0, 0.5 10px, 1)'));
+    t.false(cssEasing.isCssEasing('bounce'));
+    t.true(cssEasing.isCssEasing('linear(0, 1)'));
+});
+
+test('toLinear', t => {
+    t.is(cssEasing.toLinear(EASE.linear), 'linear(0, 1)');
+    t.is(cssEasing.toLinear(EASE.easeInQuad, 4),
+        'linear(0, 0.0625 25%, 0.25 50%, 0.5625 75%, 1)');
+
+    // The sampled curve recreates the easing function.
+    [EASE.easeInOutCubic, EASE.easeOutBounce, EASE.easeInOutSine]
+        .forEach((easingFunction) => {
+            const linear = cssEasing.parse(cssEasing.toLinear(easingFunction, 200));
+            for (let i = 0; i <= 50; i++) {
+                t.true(Math.abs(linear(i / 50) - easingFunction(i / 50)) < 0.01);
+            }
+        });
+});
+
+test('stringify', t => {
+    t.is(cssEasing.stringify(EASE.linear), 'linear');
+    t.is(cssEasing.stringify(cssEasing.parse('steps(4)')), 'steps(4)');
+    t.is(cssEasing.stringify(cssEasing.parse(' Ease-In ')), 'ease-in');
+    t.is(cssEasing.stringify(EASE.easeInQuad),
+        cssEasing.toLinear(EASE.easeInQuad));
+    t.is(cssEasing.getCss(EASE.easeInQuad), null);
+});
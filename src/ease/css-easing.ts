@@ -0,0 +1,384 @@
+import { mathf } from '../mathf/mathf';
+import { CubicBezier } from '../mathf/cubic-bezier';
+import { EASE } from './ease';
+
+
+/**
+ * A point of a css linear() easing function.
+ */
+export interface CssLinearStop {
+    /**
+     * The input progress (0-1).
+     */
+    input: number;
+
+    /**
+     * The output value.
+     */
+    output: number;
+}
+
+
+/**
+ * The css easing keywords as cubic-bezier control points.
+ */
+const bezierKeywords: { [name: string]: Array<number> } = {
+    'ease': [0.25, 0.1, 0.25, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+
+/**
+ * The css strings of easing functions created by cssEasing.parse.
+ */
+const cssStrings: WeakMap<Function, string> = new WeakMap();
+
+
+/**
+ * Parses css timing functions into easing functions that work with
+ * [[mathf.ease]], [[Interpolate]] and [[Easer]] and converts easing
+ * functions back into css.
+ *
+ * Supports every CSS Easing Level 2 form.
+ *
+ * ```ts
+ * cssEasing.parse('linear');
+ * cssEasing.parse('ease-in-out');
+ * cssEasing.parse('cubic-bezier(.2, .1, .3, 1)');
+ * cssEasing.parse('steps(4, jump-start)');
+ * cssEasing.parse('step-end');
+ * cssEasing.parse('linear(0, 0.25 75%, 1)');
+ *
+ * mathf.ease(0, 100, 0.5, cssEasing.parse('ease-out'));
+ * ```
+ *
+ * Going the other way, any easing function can be sampled into a css
+ * linear() so native css transitions and WAAPI can run the same curve.
+ *
+ * ```ts
+ * element.style.transitionTimingFunction =
+ *     cssEasing.toLinear(EASE.easeOutBounce);
+ *
+ * cssEasing.stringify(EASE.linear); // 'linear'
+ * cssEasing.stringify(cssEasing.parse('steps(4)')); // 'steps(4)'
+ * cssEasing.stringify(EASE.easeInQuad); // 'linear(0, ...)'
+ * ```
+ *
+ * @see https://www.w3.org/TR/css-easing-2/
+ * @tested
+ */
+export class cssEasing {
+
+    /**
+     * The default number of samples used by [[cssEasing.toLinear]].
+     */
+    static readonly SAMPLES = 40;
+
+    /**
+     * Whether the string looks like a css timing function.
+     * @param css
+     */
+    static isCssEasing(css: string): boolean {
+        try {
+            cssEasing.parse(css);
+            return true;
+        } catch (e) {
+            return false;
+        }
+    }
+
+
+    /**
+     * Parses a css timing function into an easing function.  Throws on
+     * invalid timing functions.
+     * @param css
+     */
+    static parse(css: string): Function {
+        const value = String(css).trim().toLowerCase();
+        let easingFunction: Function = null;
+
+        if (value == 'linear') {
+            return EASE.linear;
+        }
+
+        const match = value.match(/^([a-z-]+)\(([^()]*)\)$/);
+        const name = match ? match[1] : value;
+        const args = match ?
+            match[2].split(',').map((arg) => arg.trim()) : [];
+
+        if (bezierKeywords.hasOwnProperty(value)) {
+            const points = bezierKeywords[value];
+            easingFunction = CubicBezier.makeCssEasingFunction(
+                points[0], points[1], points[2], points[3]);
+        } else if (value == 'step-start') {
+            easingFunction = cssEasing.makeSteps(1, 'jump-start');
+        } else if (value == 'step-end') {
+            easingFunction = cssEasing.makeSteps(1, 'jump-end');
+        } else if (name == 'cubic-bezier' && match) {
+            const points = args.map(cssEasing.parseNumber);
+            if (points.length != 4) {
+                throw new Error(`Invalid css easing: ${css}`);
+            }
+            easingFunction = CubicBezier.makeCssEasingFunction(
+                points[0], points[1], points[2], points[3]);
+        } else if (name == 'steps' && match) {
+            const steps = cssEasing.parseNumber(args[0]);
+            const position = args[1] || 'jump-end';
+            if (args.length > 2 || steps % 1 != 0 || steps < 1 ||
+                (position == 'jump-none' && steps < 2)) {
+                throw new Error(`Invalid css easing: ${css}`);
+            }
+            easingFunction = cssEasing.makeSteps(steps, position);
+        } else if (name == 'linear' && match) {
+            easingFunction = cssEasing.makeLinear(cssEasing.parseLinearStops(args));
+        }
+
+        if (!easingFunction) {
+            throw new Error(`Invalid css easing: ${css}`);
+        }
+
+        cssStrings.set(easingFunction, value);
+        return easingFunction;
+    }
+
+
+    /**
+     * Parses the arguments of a css linear() function into stops with the
+     * missing inputs filled in.
+     *
+     * ```ts
+     * cssEasing.parseLinearStops(['0', '0.25 75%', '1']);
+     * // [{input: 0, output: 0}, {input: 0.75, output: 0.25}, {input: 1, output: 1}]
+     * ```
+     * @param args The comma separated arguments of linear().
+     * @see https://www.w3.org/TR/css-easing-2/#linear-easing-function-parsing
+     */
+    static parseLinearStops(args: Array<string>): Array<CssLinearStop> {
+        if (args.length < 2) {
+            throw new Error('linear() needs at least two stops.');
+        }
+
+        const stops: Array<{ input: number | null, output: number }> = [];
+        args.forEach((arg) => {
+            const parts = arg.split(/\s+/);
+            if (parts.length > 3) {
+                throw new Error(`Invalid linear() stop: ${arg}`);
+            }
+            const output = cssEasing.parseNumber(parts[0]);
+            const inputs = parts.slice(1).map((part) => {
+                if (!/%$/.test(part)) {
+                    throw new Error(`Invalid linear() stop: ${arg}`);
+                }
+                return cssEasing.parseNumber(part.slice(0, -1)) / 100;
+            });
+            if (!inputs.length) {
+                stops.push({ input: null, output: output });
+            }
+            inputs.forEach((input) => {
+                stops.push({ input: input, output: output });
+            });
+        });
+
+        // The first and last stops default to 0 and 1.
+        if (stops[0].input === null) {
+            stops[0].input = 0;
+        }
+        if (stops[stops.length - 1].input === null) {
+            stops[stops.length - 1].input = 1;
+        }
+
+        // Inputs can't go backwards.
+        let largest = -Infinity;
+        stops.forEach((stop) => {
+            if (stop.input !== null) {
+                stop.input = Math.max(stop.input, largest);
+                largest = stop.input;
+            }
+        });
+
+        // Spread runs of missing inputs evenly between their neighbors.
+        for (let i = 1; i < stops.length; i++) {
+            if (stops[i].input !== null) {
+                continue;
+            }
+            let end = i;
+            while (stops[end].input === null) {
+                end++;
+            }
+            const startInput = stops[i - 1].input;
+            const endInput = stops[end].input;
+            const count = end - i + 1;
+            for (let j = i; j < end; j++) {
+                stops[j].input =
+                    mathf.lerp(startInput, endInput, (j - i + 1) / count);
+            }
+        }
+
+        return stops as Array<CssLinearStop>;
+    }
+
+
+    /**
+     * Creates an easing function from linear() stops.
+     * @param stops
+     */
+    static makeLinear(stops: Array<CssLinearStop>): Function {
+        return (progress: number) => {
+            // The last stop with an input <= progress.
+            let index = 0;
+            for (let i = 0; i < stops.length; i++) {
+                if (stops[i].input <= progress) {
+                    index = i;
+                }
+            }
+            index = Math.min(index, stops.length - 2);
+
+            const a = stops[index];
+            const b = stops[index + 1];
+            if (a.input == b.input) {
+                return b.output;
+            }
+            // Extrapolate outside of the stops.
+            return a.output + (b.output - a.output) *
+                (progress - a.input) / (b.input - a.input);
+        };
+    }
+
+
+    /**
+     * Samples an easing function into a css linear() string.  Points that
+     * can be recreated by the straight line between their neighbors are
+     * dropped to keep the string short.
+     *
+     * ```ts
+     * cssEasing.toLinear(EASE.easeInQuad, 4);
+     * // 'linear(0, 0.0625 25%, 0.25 50%, 0.5625 75%, 1)'
+     * ```
+     *
+     * @param easingFunction
+     * @param samples The number of segments to sample.
+     * @param tolerance The largest error allowed when dropping points.
+     */
+    static toLinear(easingFunction: Function,
+        samples: number = cssEasing.SAMPLES, tolerance: number = 0.0005): string {
+        const samplePoints: Array<CssLinearStop> = [];
+        for (let i = 0; i <= samples; i++) {
+            const input = i / samples;
+            samplePoints.push({ input: input, output: easingFunction(input) });
+        }
+
+        // Drop points that the line between the kept points covers.
+        const stops = [samplePoints[0]];
+        let anchor = 0;
+        for (let i = 1; i < samplePoints.length - 1; i++) {
+            if (!cssEasing.isCovered(samplePoints, anchor, i + 1, tolerance)) {
+                stops.push(samplePoints[i]);
+                anchor = i;
+            }
+        }
+        stops.push(samplePoints[samplePoints.length - 1]);
+
+        const format = (value: number) => {
+            return mathf.absZero(mathf.roundToPrecision(value, 4));
+        };
+
+        return 'linear(' + stops.map((stop, i) => {
+            if (i == 0 || i == stops.length - 1) {
+                return `${format(stop.output)}`;
+            }
+            return `${format(stop.output)} ${format(stop.input * 100)}%`;
+        }).join(', ') + ')';
+    }
+
+
+    /**
+     * Converts an easing function to css.  Functions created with
+     * [[cssEasing.parse]] return their original css, [[EASE.linear]] returns
+     * 'linear' and everything else is sampled with [[cssEasing.toLinear]].
+     * @param easingFunction
+     */
+    static stringify(easingFunction: Function): string {
+        return cssEasing.getCss(easingFunction) ||
+            cssEasing.toLinear(easingFunction);
+    }
+
+
+    /**
+     * Returns the css of [[EASE.linear]] and functions created with
+     * [[cssEasing.parse]].  Returns null for any other function.
+     * @param easingFunction
+     */
+    static getCss(easingFunction: Function): string | null {
+        if (easingFunction === EASE.linear) {
+            return 'linear';
+        }
+        return cssStrings.get(easingFunction) || null;
+    }
+
+
+    /**
+     * Creates a css steps() easing function.
+     * @see https://www.w3.org/TR/css-easing-1/#step-easing-functions
+     */
+    private static makeSteps(steps: number, position: string): Function {
+        let jumps = steps;
+        let offset = 0;
+        switch (position) {
+            case 'jump-start':
+            case 'start':
+                offset = 1;
+                break;
+            case 'jump-end':
+            case 'end':
+                break;
+            case 'jump-none':
+                jumps = steps - 1;
+                break;
+            case 'jump-both':
+                jumps = steps + 1;
+                offset = 1;
+                break;
+            default:
+                throw new Error(`Invalid steps position: ${position}`);
+        }
+        return (progress: number) => {
+            if (progress >= 1) {
+                return 1;
+            }
+            if (progress < 0) {
+                return 0;
+            }
+            const step = Math.min(Math.floor(progress * steps) + offset, jumps);
+            return step / jumps;
+        };
+    }
+
+
+    /**
+     * Whether the straight line between points[start] and points[end] stays
+     * within tolerance of every point in between.
+     */
+    private static isCovered(points: Array<CssLinearStop>, start: number,
+        end: number, tolerance: number): boolean {
+        const a = points[start];
+        const b = points[end];
+        for (let i = start + 1; i < end; i++) {
+            const expected = mathf.lerp(a.output, b.output,
+                (points[i].input - a.input) / (b.input - a.input));
+            if (Math.abs(expected - points[i].output) > tolerance) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+
+    private static parseNumber(value: string): number {
+        if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/.test(value || '')) {
+            throw new Error(`Invalid number: ${value}`);
+        }
+        return +value;
+    }
+}
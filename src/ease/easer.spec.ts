@@ -1,9 +1,172 @@
-
 import { is } from '../is/is';
 import { Easer } from './easer';
+import { EASE } from './ease';
+import { VirtualRafScheduler } from '../raf/raf-scheduler';
 import test from 'ava';
 
 
 test('Easer is defined', t => {
     t.is(is.defined(Easer), true);
-})
\ No newline at end of file
+})
+
+
+test('Easer eases over its duration and resolves', async t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const easer = new Easer({
+        duration: 100,
+        delay: 0,
+        easeFunction: EASE.linear,
+        disableRaf: false
+    });
+    easer.getRaf().setScheduler(scheduler);
+
+    let value = 0;
+    easer.onUpdate((easeValue: number) => {
+        value = easeValue;
+    });
+    const promise = easer.start();
+
+    scheduler.stepFrames(5);
+    t.is(value, 0.5);
+
+    scheduler.stepFrames(6);
+    t.is(value, 1);
+    await promise;
+    easer.dispose();
+})
+
+
+/**
+ * @hidden
+ */
+const createEaser = (config: Object = {}) => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const easer = new Easer({
+        duration: 100,
+        delay: 0,
+        easeFunction: EASE.linear,
+        disableRaf: false,
+        ...config
+    });
+    easer.getRaf().setScheduler(scheduler);
+    const values: Array<number> = [];
+    easer.onUpdate((easeValue: number) => {
+        values.push(easeValue);
+    });
+    return { scheduler, easer, values };
+}
+
+
+test('Easer reverses from its current progress', async t => {
+    const { scheduler, easer, values } = createEaser();
+    const forward = easer.start();
+    scheduler.stepFrames(4);
+    t.is(values[values.length - 1], 0.4);
+
+    // Reversing mid flight keeps the same pending promise.
+    t.is(easer.reverse(), forward);
+    t.true(easer.isReversed());
+    scheduler.stepFrames(2);
+    t.is(values[values.length - 1], 0.2);
+
+    scheduler.stepFrames(2);
+    t.is(values[values.length - 1], 0);
+    await forward;
+    t.false(easer.isPlaying());
+
+    // Reversing a completed ease plays it forward again.
+    const again = easer.reverse();
+    scheduler.stepFrames(10);
+    t.is(values[values.length - 1], 1);
+    await again;
+    easer.dispose();
+})
+
+
+test('Easer seek moves the ease without playing', t => {
+    const { scheduler, easer, values } = createEaser({
+        easeFunction: EASE.easeInQuad
+    });
+    easer.seek(0.5);
+    t.is(values[0], 0.25);
+    t.is(easer.getProgress(), 0.5);
+    scheduler.stepFrames(5);
+    t.is(values.length, 1);
+    easer.dispose();
+})
+
+
+test('Easer cancel rejects the pending promise', async t => {
+    const { scheduler, easer, values } = createEaser();
+    const promise = easer.start();
+    scheduler.stepFrames(3);
+    easer.cancel('teardown');
+    const error = await t.throwsAsync(promise);
+    t.is(error.message, 'teardown');
+
+    const count = values.length;
+    scheduler.stepFrames(3);
+    t.is(values.length, count);
+    easer.dispose();
+})
+
+
+test('Easer dispose rejects the pending promise', async t => {
+    const { scheduler, easer } = createEaser();
+    const promise = easer.start();
+    scheduler.stepFrames(3);
+    easer.dispose();
+    const error = await t.throwsAsync(promise);
+    t.is(error.message, 'disposed');
+})
+
+
+test('Easer cancels when its AbortSignal aborts', async t => {
+    const controller = new AbortController();
+    const { scheduler, easer } = createEaser({ signal: controller.signal });
+    const promise = easer.start();
+    scheduler.stepFrames(3);
+    controller.abort();
+    const error = await t.throwsAsync(promise);
+    t.is(error.message, 'aborted');
+
+    // Starting with an aborted signal rejects right away.
+    await t.throwsAsync(easer.start());
+    easer.dispose();
+})
+
+
+test('Easer repeats with yoyo', async t => {
+    const { scheduler, easer, values } = createEaser({
+        repeat: 2,
+        yoyo: true
+    });
+    let completeValue = null;
+    easer.onComplete((value: number) => {
+        completeValue = value;
+    });
+    const promise = easer.start();
+
+    scheduler.stepFrames(15);
+    t.is(values[values.length - 1], 0.5);
+    t.true(easer.isReversed());
+
+    // Third run goes forward again and completes at 1.
+    scheduler.stepFrames(20);
+    await promise;
+    t.is(completeValue, 1);
+    t.false(easer.isPlaying());
+    easer.dispose();
+})
+
+
+test('Easer waits for its delay', t => {
+    const { scheduler, easer, values } = createEaser({ delay: 50 });
+    // Disposed before it completes.
+    easer.start().catch(() => { });
+    scheduler.stepFrames(5);
+    t.is(values.length, 0);
+    scheduler.stepFrames(5);
+    t.is(values[values.length - 1], 0.5);
+    easer.dispose();
+})
@@ -1,8 +1,8 @@
 
-import { time } from '../time/time';
 import { mathf } from '../mathf/mathf';
 import { EASE } from './ease';
 import { Raf } from '../raf/raf';
+import { RafTimer } from '../raf/raf-timer';
 
 export interface easerConfig {
     /**
@@ -26,11 +26,26 @@ export interface easerConfig {
      * @type {boolean}
      */
     disableRaf: boolean;
+    /**
+     * The number of times to repeat after the first run.  -1 repeats
+     * forever.  Defaults to 0.
+     * @type {number}
+     */
+    repeat?: number;
+    /**
+     * Whether every other repeat runs backwards.  Defaults to false.
+     * @type {boolean}
+     */
+    yoyo?: boolean;
+    /**
+     * An optional AbortSignal.  Aborting cancels the easer.
+     * @type {AbortSignal}
+     */
+    signal?: AbortSignal;
 }
 
 /**
- * A very simple time based tween implementation.
- * TODO (uxder); Possibly refactor this to use raf-timer instead.
+ * A very simple time based tween implementation built on [[RafTimer]].
  *
  * ```ts
  * import { Raf, Easer} from 'yano-js';
@@ -85,21 +100,59 @@ export interface easerConfig {
  *
  * ```
  *
+ * Easers can be reversed, seeked, repeated and cancelled.  start and
+ * reverse return a promise that resolves when the ease reaches its end (or
+ * its start when reversed) and rejects when cancelled or disposed.
+ * ```ts
+ * let easer = new Easer({
+ *   duration: 200,
+ *   delay: 0,
+ *   easeFunction: EASE.easeInOutQuad,
+ *   disableRaf: false,
+ *   repeat: 1,
+ *   yoyo: true
+ * });
+ *
+ * // Runs forward then backwards.
+ * await easer.start();
+ *
+ * // Jump to the middle and play backwards from there.
+ * easer.seek(0.5);
+ * await easer.reverse();
+ *
+ * // Cancel an in-flight ease.
+ * easer.start().catch((error)=> {
+ *   console.log(error.message); // 'cancelled'
+ * });
+ * easer.cancel();
+ *
+ * // Or cancel with an AbortSignal.
+ * const controller = new AbortController();
+ * let easer = new Easer({ ...config, signal: controller.signal });
+ * easer.start().catch(()=> {});
+ * controller.abort();
+ * ```
+ *
  *
  */
 export class Easer {
 
-    private startTime_: number;
-    private endTime_: number;
     private duration_: number;
     private delay_: number;
     private easeFunction_: Function;
     private started_: boolean;
     private completeCallback_: Function | null;
     private updateCallback_: Function | null;
+    private completePromise_: Promise<void> | null;
     private completePromiseResolve_: Function | null;
-    private raf_: Raf;
+    private completePromiseReject_: Function | null;
+    private timer_: RafTimer;
     private rafDisabled_: boolean;
+    private repeat_: number;
+    private repeatsLeft_: number;
+    private yoyo_: boolean;
+    private signal_: AbortSignal | null;
+    private abortHandler_: () => void;
 
     /**
      * @param {easerConfig} The easing configuration
@@ -107,12 +160,6 @@ export class Easer {
      */
     constructor(private easerConfig: easerConfig) {
 
-        // The current ms since Jan 1, 1970.
-        this.startTime_ = 0;
-
-        // The end time.
-        this.endTime_ = 0;
-
         // The duration of the ease.
         this.duration_ = easerConfig.duration || 0;
 
@@ -131,12 +178,25 @@ export class Easer {
         // A single update callback.
         this.updateCallback_ = null;
 
-        // The resolving function for the complete promise (if used).
+        // The pending complete promise and its resolve / reject functions.
+        this.completePromise_ = null;
         this.completePromiseResolve_ = null;
+        this.completePromiseReject_ = null;
+
+        // The number of repeats and the repeats left in the current run.
+        this.repeat_ = easerConfig.repeat || 0;
+        this.repeatsLeft_ = this.repeat_;
+
+        // Whether every other repeat runs backwards.
+        this.yoyo_ = !!easerConfig.yoyo;
 
-        // Internal instance of raf.
-        this.raf_ = new Raf(() => {
-            this.calculate();
+        // The internal timer.  Progress is the linear progress of the ease.
+        this.timer_ = new RafTimer((progress: number) => {
+            this.updateCallback_ &&
+                this.updateCallback_(this.easeFunction_(progress), false);
+        });
+        this.timer_.onComplete((progress: number) => {
+            this.onTimerComplete_(progress);
         });
 
         // Whether raf is disabled.  When this option is true, easer will
@@ -145,6 +205,17 @@ export class Easer {
         // a more advanced usercase in which an application wants to
         // have control over easer and it's calculate timings.
         this.rafDisabled_ = easerConfig.disableRaf || false;
+        this.timer_.setRafDisabled(this.rafDisabled_);
+
+        this.applyConfig_();
+
+        // Cancel when the signal aborts.
+        this.signal_ = easerConfig.signal || null;
+        this.abortHandler_ = () => {
+            this.cancel('aborted');
+        };
+        this.signal_ &&
+            this.signal_.addEventListener('abort', this.abortHandler_);
     }
 
     reset(easerConfig?: easerConfig) {
@@ -155,12 +226,19 @@ export class Easer {
             this.delay_ = easerConfig.delay || this.delay_;
             // The easing function.
             this.easeFunction_ = easerConfig.easeFunction || this.easeFunction_;
+            if (easerConfig.repeat !== undefined) {
+                this.repeat_ = easerConfig.repeat;
+            }
+            if (easerConfig.yoyo !== undefined) {
+                this.yoyo_ = easerConfig.yoyo;
+            }
         }
         // Set started to false to stop progression.
         this.started_ = false;
-        this.startTime_ = 0;
-        this.endTime_ = 0;
-        this.raf_ && this.raf_.stop();
+        this.timer_.reset();
+        this.timer_.setReversed(false);
+        this.timer_.progress = 0;
+        this.applyConfig_();
     }
 
     /**
@@ -168,25 +246,72 @@ export class Easer {
      * @return The internal instance of raf.
      */
     getRaf(): Raf {
-        return this.raf_;
+        return this.timer_.getRaf();
     }
 
     /**
-     * Starts the easing.
-     * @return Returns a promise that resolved when the animation completes.
+     * Starts the easing from the beginning.
+     * @return Returns a promise that resolved when the animation completes
+     *     and rejects if it is cancelled.
      */
     start(): Promise<void> {
-        this.startTime_ = time.now() + this.delay_;
-        this.endTime_ = this.startTime_ + this.duration_;
-        this.started_ = true;
+        this.timer_.reset();
+        this.timer_.setReversed(false);
+        this.timer_.progress = 0;
+        this.repeatsLeft_ = this.repeat_;
+        return this.play_();
+    }
 
-        if (!this.rafDisabled_) {
-            this.raf_ && this.raf_.start();
+    /**
+     * Flips the direction of the ease and plays from the current progress.
+     * Reversing a forward ease runs it back to the start.
+     * @return Returns a promise that resolves when the ease reaches the end
+     *     of its new direction.
+     */
+    reverse(): Promise<void> {
+        const progress = this.timer_.progress;
+        this.timer_.setReversed(!this.timer_.isReversed());
+        if (!this.timer_.isPlaying()) {
+            this.timer_.seek(progress);
+            this.repeatsLeft_ = this.repeat_;
         }
+        return this.play_();
+    }
 
-        return new Promise((resolve) => {
-            this.completePromiseResolve_ = resolve;
-        });
+    /**
+     * Moves the ease to the given linear progress and calls the update
+     * callback.  Does not change whether the easer is playing.
+     * @param progress A value between 0-1.
+     */
+    seek(progress: number): void {
+        this.timer_.seek(progress);
+        this.updateCallback_ && this.updateCallback_(
+            this.easeFunction_(this.timer_.progress), false);
+    }
+
+    /**
+     * Stops the ease where it is and rejects the pending promise.
+     * @param reason The message of the rejection error.
+     */
+    cancel(reason: string = 'cancelled'): void {
+        this.started_ = false;
+        this.timer_.pause();
+        this.settle_(new Error(reason));
+    }
+
+    /**
+     * Gets the linear progress of the ease (before the ease function).
+     */
+    getProgress(): number {
+        return this.timer_.progress;
+    }
+
+    isReversed(): boolean {
+        return this.timer_.isReversed();
+    }
+
+    isPlaying(): boolean {
+        return this.started_;
     }
 
     /**
@@ -206,47 +331,85 @@ export class Easer {
 
     /**
      * Calculates the current ease.  This method should generally be
-     * called at 60FPS by Raf.
+     * called at 60FPS by Raf.  Only needed when raf is disabled.
      */
     calculate(): void {
         if (!this.started_) {
             return;
         }
+        this.timer_.update();
+    }
 
-        const currentTime = time.now();
+    /**
+     * Stops the ease for good and rejects the pending promise with a
+     * 'disposed' error.
+     */
+    dispose(): void {
+        this.started_ = false;
+        this.signal_ &&
+            this.signal_.removeEventListener('abort', this.abortHandler_);
+        this.timer_.dispose();
+        this.settle_(new Error('disposed'));
+    }
 
-        // Check to see if we are more than our start time.
-        if (currentTime < this.startTime_) {
-            return;
+    private applyConfig_() {
+        this.timer_.setDuration(this.duration_);
+        this.timer_.setDelay(this.delay_);
+    }
+
+    private play_(): Promise<void> {
+        if (this.signal_ && this.signal_.aborted) {
+            return Promise.reject(new Error('aborted'));
         }
 
-        // The time passed since the ease started.
-        const timePassed = currentTime - (this.startTime_ || 0);
-        const percent = timePassed / this.duration_;
-
-        // A value between 0 and 1 representing the current state of progression.
-        const progression: number = this.easeFunction_(
-            mathf.clamp(0, 1, percent)
-        );
-
-        let complete = false;
-
-        if (percent > 1) {
-            // Ensure the ease amount ends on 1.
-            this.updateCallback_ && this.updateCallback_(1, complete);
-            this.completeCallback_ && this.completeCallback_(1, complete);
-            this.completePromiseResolve_ &&
-                this.completePromiseResolve_(1, complete);
-            complete = true;
-            this.started_ = false;
-        } else {
-            this.updateCallback_ && this.updateCallback_(progression, complete);
+        this.started_ = true;
+        this.timer_.play();
+
+        if (!this.completePromise_) {
+            this.completePromise_ = new Promise((resolve, reject) => {
+                this.completePromiseResolve_ = resolve;
+                this.completePromiseReject_ = reject;
+            });
         }
+        return this.completePromise_;
+    }
 
+    private onTimerComplete_(progress: number) {
+        if (this.repeatsLeft_ != 0) {
+            if (this.repeatsLeft_ > 0) {
+                this.repeatsLeft_--;
+            }
+            if (this.yoyo_) {
+                this.timer_.setReversed(!this.timer_.isReversed());
+                this.timer_.seek(progress);
+            } else {
+                this.timer_.seek(this.timer_.isReversed() ? 1 : 0);
+            }
+            this.timer_.play();
+            return;
+        }
+
+        this.started_ = false;
+        this.timer_.progress = progress;
+        this.completeCallback_ &&
+            this.completeCallback_(this.easeFunction_(progress), true);
+        this.settle_();
     }
 
-    dispose(): void {
-        this.raf_ && this.raf_.stop();
+    /**
+     * Resolves the pending promise or rejects it when an error is passed.
+     */
+    private settle_(error?: Error) {
+        const resolve = this.completePromiseResolve_;
+        const reject = this.completePromiseReject_;
+        this.completePromise_ = null;
+        this.completePromiseResolve_ = null;
+        this.completePromiseReject_ = null;
+        if (error) {
+            reject && reject(error);
+        } else {
+            resolve && resolve();
+        }
     }
 
 }
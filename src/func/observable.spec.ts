@@ -0,0 +1,258 @@
+import {
+    Observable, Subscriber, of, merge, map, filter, distinctUntilChanged,
+    takeUntil, switchMap, debounce, throttle, fromEvent
+} from './observable';
+import { debounceFrames, throttleFrames } from '../raf/observable-raf';
+import { fromDomWatcher } from '../dom/observable-dom';
+import { DomWatcher } from '../dom/dom-watcher';
+import { VirtualRafScheduler } from '../raf/raf-scheduler';
+import { func } from './func';
+import test from 'ava';
+
+
+/**
+ * Creates an observable that emits when you tell it to.
+ * @hidden
+ */
+const createSource = <T>() => {
+    const subscribers: Array<Subscriber<T>> = [];
+    return {
+        subscribers: subscribers,
+        observable: new Observable<T>((subscriber) => {
+            subscribers.push(subscriber);
+            return () => subscribers.splice(subscribers.indexOf(subscriber), 1);
+        }),
+        next: (value: T) => {
+            subscribers.slice().forEach((subscriber) => subscriber.next(value));
+        },
+        complete: () => {
+            subscribers.slice().forEach((subscriber) => subscriber.complete());
+        }
+    };
+};
+
+
+test('pipe map filter', t => {
+    const values: Array<number> = [];
+    let completed = false;
+    of(1, 2, 3, 4)
+        .pipe(
+            map((value: number) => value * 10),
+            filter((value: number) => value > 10)
+        )
+        .subscribe({
+            next: (value) => values.push(value),
+            complete: () => completed = true
+        });
+    t.deepEqual(values, [20, 30, 40]);
+    t.true(completed);
+});
+
+
+test('unsubscribe runs teardown once', t => {
+    const source = createSource<number>();
+    const values: Array<number> = [];
+    const subscription = source.observable
+        .pipe(map((value: number) => value + 1))
+        .subscribe((value) => values.push(value));
+
+    source.next(1);
+    t.is(source.subscribers.length, 1);
+    subscription.unsubscribe();
+    subscription.unsubscribe();
+    t.is(source.subscribers.length, 0);
+    source.next(2);
+    t.deepEqual(values, [2]);
+});
+
+
+test('merge distinctUntilChanged', t => {
+    const a = createSource<number>();
+    const b = createSource<number>();
+    const values: Array<number> = [];
+    let completed = false;
+    merge(a.observable, b.observable)
+        .pipe(distinctUntilChanged())
+        .subscribe({
+            next: (value) => values.push(value),
+            complete: () => completed = true
+        });
+
+    a.next(1);
+    b.next(1);
+    b.next(2);
+    a.next(1);
+    a.complete();
+    t.false(completed);
+    b.complete();
+    t.true(completed);
+    t.deepEqual(values, [1, 2, 1]);
+});
+
+
+test('takeUntil', t => {
+    const source = createSource<number>();
+    const notifier = createSource<void>();
+    const values: Array<number> = [];
+    let completed = false;
+    source.observable.pipe(takeUntil(notifier.observable)).subscribe({
+        next: (value) => values.push(value),
+        complete: () => completed = true
+    });
+
+    source.next(1);
+    notifier.next(null);
+    source.next(2);
+    t.deepEqual(values, [1]);
+    t.true(completed);
+    t.is(source.subscribers.length, 0);
+    t.is(notifier.subscribers.length, 0);
+});
+
+
+test('switchMap unsubscribes the previous inner observable', t => {
+    const source = createSource<string>();
+    const inners: { [key: string]: any } = {
+        a: createSource<number>(),
+        b: createSource<number>()
+    };
+    const values: Array<number> = [];
+    const subscription = source.observable
+        .pipe(switchMap(
+            (key: string) => inners[key].observable as Observable<number>))
+        .subscribe((value: number) => values.push(value));
+
+    source.next('a');
+    inners.a.next(1);
+    source.next('b');
+    inners.a.next(2);
+    inners.b.next(3);
+    t.deepEqual(values, [1, 3]);
+    t.is(inners.a.subscribers.length, 0);
+
+    subscription.unsubscribe();
+    t.is(inners.b.subscribers.length, 0);
+});
+
+
+test('switchMap completes with synchronous inner observables', t => {
+    const values: Array<number> = [];
+    let completed = false;
+    of(1, 2).pipe(switchMap((value: number) => of(value * 10)))
+        .subscribe({
+            next: (value: number) => values.push(value),
+            complete: () => completed = true
+        });
+    t.deepEqual(values, [10, 20]);
+    t.true(completed);
+});
+
+test('debounce and throttle', async t => {
+    const source = createSource<number>();
+    const debounced: Array<number> = [];
+    const throttled: Array<number> = [];
+    source.observable.pipe(debounce(5))
+        .subscribe((value: number) => debounced.push(value));
+    source.observable.pipe(throttle(5))
+        .subscribe((value: number) => throttled.push(value));
+
+    source.next(1);
+    source.next(2);
+    source.next(3);
+    t.deepEqual(debounced, []);
+    t.deepEqual(throttled, [1]);
+
+    await func.wait(20);
+    t.deepEqual(debounced, [3]);
+    t.deepEqual(throttled, [1, 3]);
+});
+
+
+test('throttle emits the pending value when the source completes', t => {
+    const source = createSource<number>();
+    const throttled: Array<number> = [];
+    let completed = false;
+    source.observable.pipe(throttle(1000)).subscribe({
+        next: (value: number) => throttled.push(value),
+        complete: () => completed = true
+    });
+
+    source.next(1);
+    source.next(2);
+    source.complete();
+    t.deepEqual(throttled, [1, 2]);
+    t.true(completed);
+});
+
+
+test.serial('debounceFrames and throttleFrames', t => {
+    const scheduler = new VirtualRafScheduler();
+    window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+
+    const source = createSource<number>();
+    const debounced: Array<number> = [];
+    const throttled: Array<number> = [];
+    const debounceSubscription = source.observable.pipe(debounceFrames(2))
+        .subscribe((value: number) => debounced.push(value));
+    const throttleSubscription = source.observable.pipe(throttleFrames())
+        .subscribe((value: number) => throttled.push(value));
+
+    source.next(1);
+    source.next(2);
+    t.deepEqual(throttled, [1]);
+    scheduler.stepFrames(1);
+    t.deepEqual(debounced, []);
+    t.deepEqual(throttled, [1, 2]);
+    source.next(3);
+    scheduler.stepFrames(1);
+    t.deepEqual(debounced, []);
+    scheduler.stepFrames(2);
+    t.deepEqual(debounced, [3]);
+    t.deepEqual(throttled, [1, 2, 3]);
+
+    // Teardown cancels pending frames.
+    source.next(4);
+    debounceSubscription.unsubscribe();
+    throttleSubscription.unsubscribe();
+    scheduler.stepFrames(3);
+    t.deepEqual(debounced, [3]);
+    t.deepEqual(throttled, [1, 2, 3, 4]);
+
+    // A pending value is emitted on complete.
+    const completeSource = createSource<number>();
+    const flushed: Array<number> = [];
+    const flushedThrottle: Array<number> = [];
+    completeSource.observable.pipe(debounceFrames(2))
+        .subscribe((value: number) => flushed.push(value));
+    completeSource.observable.pipe(throttleFrames(2))
+        .subscribe((value: number) => flushedThrottle.push(value));
+    completeSource.next(5);
+    completeSource.next(6);
+    completeSource.complete();
+    t.deepEqual(flushed, [6]);
+    t.deepEqual(flushedThrottle, [5, 6]);
+    scheduler.stepFrames(3);
+    t.deepEqual(flushedThrottle, [5, 6]);
+
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+});
+
+
+test('fromEvent and fromDomWatcher remove their listeners', t => {
+    const element = document.createElement('div');
+    const watcher = new DomWatcher();
+    let events = 0;
+    let watcherEvents = 0;
+    const subscription = fromEvent(element, 'click')
+        .subscribe(() => events++);
+    const watcherSubscription = fromDomWatcher(watcher,
+        { element: element, on: 'click' })
+        .subscribe(() => watcherEvents++);
+
+    element.click();
+    subscription.unsubscribe();
+    watcherSubscription.unsubscribe();
+    element.click();
+    t.is(events, 1);
+    t.is(watcherEvents, 1);
+});
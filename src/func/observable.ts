@@ -0,0 +1,465 @@
+import { is } from '../is/is';
+
+
+/**
+ * Receives the values of an [[Observable]].  All methods are optional.
+ */
+export interface Observer<T> {
+    next?: (value: T) => void;
+    error?: (error: any) => void;
+    complete?: () => void;
+}
+
+
+/**
+ * What a producer can return to clean up after itself.  Called when the
+ * subscription is unsubscribed, errors or completes.
+ */
+export type Teardown = Function | Subscription | void;
+
+
+/**
+ * A function that takes an observable and returns a new one.  Used with
+ * [[Observable.pipe]].
+ */
+export type OperatorFunction<T, R> = (source: Observable<T>) => Observable<R>;
+
+
+/**
+ * A handle to a running observable.  Unsubscribing runs all teardowns once.
+ */
+export class Subscription {
+    public closed: boolean;
+    private teardowns: Array<Function>;
+
+    constructor() {
+        this.closed = false;
+        this.teardowns = [];
+    }
+
+    /**
+     * Adds a teardown that runs on unsubscribe.  Runs immediately if the
+     * subscription is already closed.
+     * @param teardown
+     */
+    add(teardown: Teardown) {
+        if (!teardown) {
+            return;
+        }
+
+        const callback = teardown instanceof Subscription ?
+            () => teardown.unsubscribe() : teardown as Function;
+
+        if (this.closed) {
+            callback();
+        } else {
+            this.teardowns.push(callback);
+        }
+    }
+
+    unsubscribe() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        const teardowns = this.teardowns;
+        this.teardowns = [];
+        teardowns.forEach((teardown) => teardown());
+    }
+}
+
+
+/**
+ * Passes values to an observer until it is closed.  Producers receive a
+ * subscriber.
+ */
+export class Subscriber<T> extends Subscription {
+    constructor(private destination: Observer<T>) {
+        super();
+    }
+
+    next(value: T) {
+        if (!this.closed && this.destination.next) {
+            this.destination.next(value);
+        }
+    }
+
+    error(error: any) {
+        if (this.closed) {
+            return;
+        }
+        this.unsubscribe();
+        if (!this.destination.error) {
+            throw error;
+        }
+        this.destination.error(error);
+    }
+
+    complete() {
+        if (this.closed) {
+            return;
+        }
+        this.unsubscribe();
+        this.destination.complete && this.destination.complete();
+    }
+}
+
+
+/**
+ * A lazy stream of values.  Nothing runs until you subscribe and
+ * unsubscribing tears everything down (event listeners, timers, rafs).
+ *
+ * Operators and creators are plain functions so bundlers can drop the ones
+ * you don't use.
+ *
+ * ```ts
+ * import { fromEvent, map, filter, debounce } from 'yano-js/lib/func/observable';
+ *
+ * const subscription = fromEvent(window, 'resize')
+ *   .pipe(
+ *     map(() => window.innerWidth),
+ *     filter((width) => width > 600),
+ *     debounce(200)
+ *   )
+ *   .subscribe((width) => {
+ *     console.log(width);
+ *   });
+ *
+ * // Later.  Removes the resize listener and clears the timer.
+ * subscription.unsubscribe();
+ * ```
+ *
+ * Create your own.
+ * ```ts
+ * const ticks = new Observable((subscriber) => {
+ *   const id = window.setInterval(() => subscriber.next(Date.now()), 1000);
+ *   return () => window.clearInterval(id);
+ * });
+ * ```
+ *
+ * See [[debounceFrames]], [[throttleFrames]] and [[fromRafProgress]] for raf
+ * based timing and [[fromDomWatcher]] and [[fromElementVisibility]] for dom
+ * adapters.
+ *
+ * @tested
+ */
+export class Observable<T> {
+    constructor(private producer: (subscriber: Subscriber<T>) => Teardown) {
+    }
+
+    /**
+     * Starts the observable.
+     * @param observer An observer or a next function.
+     */
+    subscribe(observer?: Observer<T> | ((value: T) => void)): Subscription {
+        const subscriber = new Subscriber<T>(is.function(observer) ?
+            { next: observer as (value: T) => void } :
+            (observer as Observer<T>) || {});
+        try {
+            subscriber.add(this.producer(subscriber));
+        } catch (error) {
+            subscriber.error(error);
+        }
+        return subscriber;
+    }
+
+    /**
+     * Chains operators.
+     * ```ts
+     * source.pipe(map((x) => x * 2), filter((x) => x > 10));
+     * ```
+     */
+    pipe(): Observable<T>;
+    pipe<A>(op1: OperatorFunction<T, A>): Observable<A>;
+    pipe<A, B>(op1: OperatorFunction<T, A>, op2: OperatorFunction<A, B>):
+        Observable<B>;
+    pipe<A, B, C>(op1: OperatorFunction<T, A>, op2: OperatorFunction<A, B>,
+        op3: OperatorFunction<B, C>): Observable<C>;
+    pipe<A, B, C, D>(op1: OperatorFunction<T, A>,
+        op2: OperatorFunction<A, B>, op3: OperatorFunction<B, C>,
+        op4: OperatorFunction<C, D>): Observable<D>;
+    pipe(...operators: Array<OperatorFunction<any, any>>): Observable<any>;
+    pipe(...operators: Array<OperatorFunction<any, any>>): Observable<any> {
+        return operators.reduce(
+            (source: Observable<any>, operator) => operator(source), this);
+    }
+}
+
+
+/**
+ * Emits the values and completes.
+ * @param values
+ */
+export function of<T>(...values: Array<T>): Observable<T> {
+    return new Observable<T>((subscriber) => {
+        values.forEach((value) => subscriber.next(value));
+        subscriber.complete();
+    });
+}
+
+
+/**
+ * Emits the events of an event target.
+ * ```ts
+ * fromEvent(element, 'click').subscribe((event) => {});
+ * ```
+ * @param target
+ * @param eventName
+ * @param eventOptions addEventListener options such as passive.
+ */
+export function fromEvent<T extends Event>(target: EventTarget,
+    eventName: string, eventOptions: Object = {}): Observable<T> {
+    return new Observable<T>((subscriber) => {
+        const listener: EventListener =
+            (event: Event) => subscriber.next(event as T);
+        target.addEventListener(eventName, listener, eventOptions);
+        return () => {
+            target.removeEventListener(eventName, listener, eventOptions);
+        };
+    });
+}
+
+
+/**
+ * Emits the values of all sources.  Completes once all sources completed.
+ * @param sources
+ */
+export function merge<T>(...sources: Array<Observable<T>>): Observable<T> {
+    return new Observable<T>((subscriber) => {
+        let active = sources.length;
+        if (!active) {
+            subscriber.complete();
+            return;
+        }
+        sources.forEach((source) => {
+            subscriber.add(source.subscribe({
+                next: (value) => subscriber.next(value),
+                error: (error) => subscriber.error(error),
+                complete: () => {
+                    --active || subscriber.complete();
+                }
+            }));
+        });
+    });
+}
+
+
+/**
+ * Subscribes to a source and forwards errors and completion.  Used by
+ * operators that only change how values are passed on.
+ */
+function operate<T, R>(source: Observable<T>, subscriber: Subscriber<R>,
+    next: (value: T) => void, complete?: Function): Subscription {
+    return source.subscribe({
+        next: next,
+        error: (error) => subscriber.error(error),
+        complete: () => {
+            complete && complete();
+            subscriber.complete();
+        }
+    });
+}
+
+
+/**
+ * Maps each value.
+ * @param project
+ */
+export function map<T, R>(project: (value: T, index: number) => R):
+    OperatorFunction<T, R> {
+    return (source) => new Observable<R>((subscriber) => {
+        let index = 0;
+        return operate(source, subscriber,
+            (value) => subscriber.next(project(value, index++)));
+    });
+}
+
+
+/**
+ * Only passes values the predicate returns true for.
+ * @param predicate
+ */
+export function filter<T>(predicate: (value: T, index: number) => boolean):
+    OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        let index = 0;
+        return operate(source, subscriber, (value) => {
+            predicate(value, index++) && subscriber.next(value);
+        });
+    });
+}
+
+
+/**
+ * Skips values equal to the previous value.
+ * @param compare Optional compare function.  Defaults to ===.
+ */
+export function distinctUntilChanged<T>(
+    compare: (previous: T, current: T) => boolean =
+        (previous, current) => previous === current): OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        let hasPrevious = false;
+        let previous: T;
+        return operate(source, subscriber, (value) => {
+            if (hasPrevious && compare(previous, value)) {
+                return;
+            }
+            hasPrevious = true;
+            previous = value;
+            subscriber.next(value);
+        });
+    });
+}
+
+
+/**
+ * Completes when the notifier emits.
+ * ```ts
+ * fromEvent(document, 'pointermove')
+ *   .pipe(takeUntil(fromEvent(document, 'pointerup')))
+ *   .subscribe(onDrag);
+ * ```
+ * @param notifier
+ */
+export function takeUntil<T>(notifier: Observable<any>):
+    OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        subscriber.add(notifier.subscribe({
+            next: () => subscriber.complete(),
+            error: (error) => subscriber.error(error)
+        }));
+        if (!subscriber.closed) {
+            subscriber.add(operate(source, subscriber,
+                (value) => subscriber.next(value)));
+        }
+    });
+}
+
+
+/**
+ * Maps each value to an observable and emits its values.  The previous
+ * inner observable is unsubscribed when a new value arrives.
+ * ```ts
+ * fromEvent(element, 'pointerdown').pipe(
+ *   switchMap(() => fromEvent(document, 'pointermove').pipe(
+ *     takeUntil(fromEvent(document, 'pointerup'))
+ *   ))
+ * ).subscribe(onDrag);
+ * ```
+ * @param project
+ */
+export function switchMap<T, R>(
+    project: (value: T, index: number) => Observable<R>):
+    OperatorFunction<T, R> {
+    return (source) => new Observable<R>((subscriber) => {
+        let index = 0;
+        let inner: Subscription | null = null;
+        let sourceComplete = false;
+
+        subscriber.add(() => inner && inner.unsubscribe());
+        subscriber.add(source.subscribe({
+            next: (value) => {
+                inner && inner.unsubscribe();
+                inner = null;
+
+                // The inner observable can complete before subscribe returns.
+                let done = false;
+                const current = project(value, index++).subscribe({
+                    next: (innerValue) => subscriber.next(innerValue),
+                    error: (error) => subscriber.error(error),
+                    complete: () => {
+                        done = true;
+                        inner = null;
+                        sourceComplete && subscriber.complete();
+                    }
+                });
+                if (!done) {
+                    inner = current;
+                }
+            },
+            error: (error) => subscriber.error(error),
+            complete: () => {
+                sourceComplete = true;
+                !inner && subscriber.complete();
+            }
+        }));
+    });
+}
+
+
+/**
+ * Emits the last value once no values arrived for the given time.  A
+ * pending value is emitted when the source completes.
+ * @param wait The time in ms.
+ */
+export function debounce<T>(wait: number): OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        let timeoutId: number | null = null;
+        let pending: { value: T } | null = null;
+        const flush = () => {
+            timeoutId = null;
+            if (pending) {
+                const value = pending.value;
+                pending = null;
+                subscriber.next(value);
+            }
+        };
+
+        subscriber.add(() => {
+            !is.null(timeoutId) && window.clearTimeout(timeoutId);
+        });
+        return operate(source, subscriber, (value) => {
+            pending = { value: value };
+            !is.null(timeoutId) && window.clearTimeout(timeoutId);
+            timeoutId = window.setTimeout(flush, wait);
+        }, () => {
+            !is.null(timeoutId) && window.clearTimeout(timeoutId);
+            flush();
+        });
+    });
+}
+
+
+/**
+ * Emits the first value immediately and then at most once per the given
+ * time.  The last value that arrived during the wait is emitted at the end
+ * of it, or when the source completes, so the final value is never lost.
+ * @param wait The time in ms.
+ */
+export function throttle<T>(wait: number): OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        let timeoutId: number | null = null;
+        let pending: { value: T } | null = null;
+        const endWait = () => {
+            timeoutId = null;
+            if (pending) {
+                const value = pending.value;
+                pending = null;
+                emit(value);
+            }
+        };
+        const emit = (value: T) => {
+            subscriber.next(value);
+            timeoutId = window.setTimeout(endWait, wait);
+        };
+
+        subscriber.add(() => {
+            !is.null(timeoutId) && window.clearTimeout(timeoutId);
+        });
+        return operate(source, subscriber, (value) => {
+            if (is.null(timeoutId)) {
+                emit(value);
+            } else {
+                pending = { value: value };
+            }
+        }, () => {
+            !is.null(timeoutId) && window.clearTimeout(timeoutId);
+            timeoutId = null;
+            if (pending) {
+                const value = pending.value;
+                pending = null;
+                subscriber.next(value);
+            }
+        });
+    });
+}
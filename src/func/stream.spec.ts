@@ -1,5 +1,5 @@
 
-import { Stream } from './stream';
+import { Stream, StreamChange } from './stream';
 import test from 'ava';
 
 
@@ -184,4 +184,238 @@ test('stream update', async t => {
     t.is(nameCount, 1);
     t.is(ageCount, 1);
     t.is(count, 1);
-});
\ No newline at end of file
+});
+
+/**
+ * @hidden
+ */
+class TodoStream extends Stream {
+    public todos: Array<{ title: string, done: boolean }>;
+    public filter: string;
+
+    constructor() {
+        super();
+        this.todos = [];
+        this.filter = 'all';
+        return this.observeAll();
+    }
+}
+
+
+test('proxy mode observes nested objects and arrays', t => {
+    const todoStream = new TodoStream();
+
+    var todosCount = 0;
+    todoStream.watch('todos', () => {
+        todosCount++;
+    })
+    var count = 0;
+    todoStream.change(() => {
+        count++;
+    })
+
+    todoStream.todos.push({ title: 'Milk', done: false });
+    t.is(todosCount, 1);
+    t.is(count, 1);
+
+    todoStream.todos[0].done = true;
+    t.is(todosCount, 2);
+    t.is(todoStream.todos[0].done, true);
+
+    // Same value is ignored.
+    todoStream.todos[0].done = true;
+    todoStream.filter = 'all';
+    t.is(todosCount, 2);
+    t.is(count, 2);
+
+    todoStream.todos.splice(0, 1);
+    t.is(todosCount, 3);
+    t.is(todoStream.todos.length, 0);
+});
+
+
+test('create observes properties added later', t => {
+    const store: any = Stream.create({ name: 'John' });
+
+    var count = 0;
+    store.change(() => {
+        count++;
+    })
+    store.age = 23;
+    t.is(count, 1);
+    delete store.age;
+    t.is(count, 2);
+    t.is(store.age, undefined);
+});
+
+
+test('computed tracks dependencies', t => {
+    const testStream = new TestStream();
+    var calls = 0;
+    testStream.computed('fullName', (stream: TestStream) => {
+        calls++;
+        return stream.name + ' ' + stream.lastname;
+    });
+    testStream.computed('isAdult', (stream: TestStream) => stream.age >= 18);
+    testStream.computed('label', (stream: any) => {
+        return stream.fullName.toUpperCase();
+    });
+
+    var fullNameCount = 0;
+    testStream.watch('fullName', () => {
+        fullNameCount++;
+    })
+    var labelCount = 0;
+    testStream.watch('label', () => {
+        labelCount++;
+    })
+    var adultCount = 0;
+    testStream.watch('isAdult', () => {
+        adultCount++;
+    })
+
+    t.is(testStream['fullName'], 'John Smith');
+    t.is(testStream['label'], 'JOHN SMITH');
+    testStream['isAdult'];
+    t.is(calls, 1);
+
+    testStream.name = 'Amy';
+    t.is(testStream['fullName'], 'Amy Smith');
+    t.is(testStream['label'], 'AMY SMITH');
+    t.is(fullNameCount, 1);
+    t.is(labelCount, 1);
+
+    // Not a dependency.
+    testStream.nickname = 'A';
+    t.is(calls, 2);
+
+    // Value didn't change.
+    testStream.age = 30;
+    t.is(adultCount, 0);
+    testStream.age = 12;
+    t.is(adultCount, 1);
+});
+
+
+test('computed is recalculated before the watchers are called', t => {
+    const testStream = new TestStream();
+    testStream.computed('fullName', (stream: TestStream) => {
+        return stream.name + ' ' + stream.lastname;
+    });
+    testStream.computed('label', (stream: any) => {
+        return stream.fullName.toUpperCase();
+    });
+    t.is(testStream['label'], 'JOHN SMITH');
+
+    const values: Array<string> = [];
+    testStream.watch('name', (stream: any) => {
+        values.push(stream.fullName, stream.label);
+    })
+    testStream.name = 'Amy';
+    t.deepEqual(values, ['Amy Smith', 'AMY SMITH']);
+});
+
+
+test('computed is up to date inside a batch', t => {
+    const testStream = new TestStream();
+    testStream.computed('fullName', (stream: TestStream) => {
+        return stream.name + ' ' + stream.lastname;
+    });
+    t.is(testStream['fullName'], 'John Smith');
+    var fullNameCount = 0;
+    testStream.watch('fullName', () => {
+        fullNameCount++;
+    })
+
+    testStream.batch(() => {
+        testStream.name = 'Amy';
+        t.is(testStream['fullName'], 'Amy Smith');
+        testStream.lastname = 'Lee';
+        t.is(testStream['fullName'], 'Amy Lee');
+        t.is(fullNameCount, 0);
+    });
+    t.is(fullNameCount, 1);
+
+    // Changed back within the batch.
+    testStream.batch(() => {
+        testStream.name = 'Bo';
+        t.is(testStream['fullName'], 'Bo Lee');
+        testStream.name = 'Amy';
+    });
+    t.is(fullNameCount, 1);
+});
+
+
+test('batch can be nested', t => {
+    const testStream = new TestStream();
+    var count = 0;
+    testStream.change(() => {
+        count++;
+    })
+
+    testStream.batch(() => {
+        testStream.name = 'Amy';
+        testStream.batch(() => {
+            testStream.age = 30;
+        });
+        t.is(count, 0);
+        testStream.lastname = 'Lee';
+    });
+    t.is(count, 1);
+    t.false(testStream.isFrozen);
+});
+
+
+test('watch and change return unsubscribe functions', t => {
+    const testStream = new TestStream();
+    var nameCount = 0;
+    const unwatch = testStream.watch('name', () => {
+        nameCount++;
+    })
+    var count = 0;
+    const unsubscribe = testStream.change(() => {
+        count++;
+    })
+
+    testStream.name = 'Amy';
+    unwatch();
+    unsubscribe();
+    testStream.name = 'Bob';
+    t.is(nameCount, 1);
+    t.is(count, 1);
+});
+
+
+test('middleware can change, drop and record changes', t => {
+    const todoStream = new TodoStream();
+    const changes: Array<StreamChange> = [];
+    const removeLogger = todoStream.use((change, next) => {
+        changes.push(change);
+        next();
+    });
+    todoStream.use((change, next) => {
+        if (change.key == 'filter') {
+            change.value = String(change.value).toLowerCase();
+        }
+        if (change.value != 'blocked') {
+            next();
+        }
+    });
+
+    todoStream.filter = 'DONE';
+    t.is(todoStream.filter, 'done');
+    todoStream.filter = 'blocked';
+    t.is(todoStream.filter, 'done');
+
+    todoStream.todos.push({ title: 'Milk', done: false });
+    t.deepEqual(changes[2].path, ['todos', '0']);
+    t.is(changes[0].previousValue, 'all');
+
+    // Undo.
+    todoStream.update({ filter: changes[0].previousValue });
+    t.is(todoStream.filter, 'all');
+
+    removeLogger();
+    todoStream.filter = 'done';
+    t.is(changes.length, 4);
+});
@@ -1,15 +1,73 @@
 
 import { is } from '../is/is';
 
+
+/**
+ * A change that is passed through the middleware of a [[Stream]].
+ */
+export interface StreamChange {
+    /**
+     * The top level key that changed.
+     */
+    key: string;
+
+    /**
+     * The path from the stream to the changed property.  The same as [key]
+     * unless a nested object or array changed.
+     */
+    path: Array<string | number>;
+
+    /**
+     * The new value.  Middleware may replace it before calling next.
+     */
+    value: any;
+
+    previousValue: any;
+
+    /**
+     * Whether the property was deleted.
+     */
+    deleted: boolean;
+}
+
+
+/**
+ * A middleware of a [[Stream]].  Call next to apply the change.  Changes of
+ * a middleware that doesn't call next are dropped.
+ */
+export type StreamMiddleware = (change: StreamChange, next: Function) => void;
+
+
+/**
+ * A computed property of a [[Stream]].
+ */
+interface StreamComputed {
+    getter: Function;
+    value: any;
+    dependencies: Set<string>;
+    dirty: boolean;
+}
+
+
+/**
+ * Array methods that can set multiple items.  These are batched so
+ * subscribers are notified once.
+ */
+const arrayMutators =
+    ['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill',
+        'copyWithin'];
+
+
 /**
  * An observable like class that uses getter / setter based mutation detection.
  * This class is useful in creating a central data store and implementing the
  * observer pattern.
  *
  *
- * TODO (uxder): The main draw back of this class is possible conflicts with
+ * The main draw back of markObservable is possible conflicts with
  * obfuscation since this.markObservable takes a string but in reality, that
- * might be changed per compiler.
+ * might be changed per compiler.  Use the Proxy based mode (observeAll, see
+ * below) to avoid string keys.
  *
  *
  *
@@ -105,6 +163,83 @@ import { is } from '../is/is';
  *
  * ```
  *
+ * batch does the same for a block of changes and can be nested.
+ * ```ts
+ * myStream.batch(() => {
+ *   myStream.name = 'Amy';
+ *   myStream.age = 30;
+ * }); // Triggers name, age watchers and change once.
+ * ```
+ *
+ * watch and change return a function that removes the subscriber.
+ * ```ts
+ * const unwatch = myStream.watch('age', onAgeChange);
+ * unwatch();
+ * ```
+ *
+ *
+ * ## Proxy mode
+ * Instead of marking each property, return observeAll from the constructor.
+ * Every property, including properties added later and nested objects and
+ * arrays, is observed without string keys.  Watchers of a key are notified
+ * when anything nested in it changes.  Setting a property to the value it
+ * already has is ignored in this mode.
+ *
+ * ```ts
+ * class TodoStream extends Stream {
+ *   public todos: Array<{ title: string, done: boolean }>;
+ *   public filter: string;
+ *   constructor() {
+ *     super();
+ *     this.todos = [];
+ *     this.filter = 'all';
+ *     return this.observeAll();
+ *   }
+ * }
+ *
+ * const todoStream = new TodoStream();
+ * todoStream.watch('todos', () => {});
+ * todoStream.todos.push({ title: 'Milk', done: false }); // Triggers todos.
+ * todoStream.todos[0].done = true; // Triggers todos.
+ *
+ *
+ * // Or create a stream from an object.
+ * const store = Stream.create({ name: 'John', age: 23 });
+ * store.age = 24;
+ * ```
+ *
+ * ## Computed
+ * Computed properties are derived from other properties.  The properties
+ * read by the getter are tracked and the value is recalculated when one of
+ * them changes.  Watchers of a computed property are only notified when its
+ * value changed.  A computed property read from a watcher or inside a batch
+ * is already up to date.
+ *
+ * ```ts
+ * myStream.computed('fullName', (stream) => {
+ *   return stream.name + ' ' + stream.lastname;
+ * });
+ * myStream.watch('fullName', () => {});
+ * myStream['fullName']; // 'John Smith'
+ * ```
+ *
+ * ## Middleware
+ * Middleware sees every change before it is applied which is handy for
+ * logging, validation or undo.
+ *
+ * ```ts
+ * const history: Array<StreamChange> = [];
+ * myStream.use((change, next) => {
+ *   console.log(change.path.join('.'), change.previousValue, '->', change.value);
+ *   history.push(change);
+ *   next();
+ * });
+ *
+ * // Undo the last top level change.
+ * const last = history.pop();
+ * myStream.update({ [last.key]: last.previousValue });
+ * ```
+ *
  * @unstable
  */
 export class Stream {
@@ -113,6 +248,14 @@ export class Stream {
     protected changeSubscribers: Array<Function>;
     protected changedKeysDuringFreeze: Set<string>;
     public isFrozen: boolean;
+    private middlewares: Array<StreamMiddleware>;
+    private computeds: Map<string, StreamComputed>;
+    private staleComputeds: Map<string, any>;
+    private trackedKeys: Array<Set<string>>;
+    private proxy: this | null;
+    private proxies: WeakMap<Object, Object>;
+    private rawObjects: WeakMap<Object, Object>;
+    private internalKeys: Set<string>;
 
     constructor() {
         /**
@@ -140,6 +283,53 @@ export class Stream {
          * any change to be notified during this period.
          */
         this.isFrozen = false;
+
+        /**
+         * The middleware that changes run through.
+         */
+        this.middlewares = [];
+
+        this.computeds = new Map();
+
+        /**
+         * The computed properties invalidated by changes that weren't
+         * published yet and their values before the changes.
+         */
+        this.staleComputeds = new Map();
+
+        /**
+         * A stack of the keys read while evaluating computed properties.
+         */
+        this.trackedKeys = [];
+
+        /**
+         * The proxy created by observeAll and the proxies of nested objects.
+         */
+        this.proxy = null;
+        this.proxies = new WeakMap();
+        this.rawObjects = new WeakMap();
+
+        /**
+         * The keys of the stream itself which are never observed.
+         */
+        this.internalKeys = new Set([...Object.keys(this), 'internalKeys']);
+    }
+
+
+    /**
+     * Creates a stream in Proxy mode from an object.
+     *
+     * ```ts
+     * const store = Stream.create({ name: 'John', items: [] });
+     * store.watch('items', () => {});
+     * store.items.push(1);
+     * ```
+     * @param data
+     */
+    static create<T extends Object>(data: T): T & Stream {
+        const stream = new Stream();
+        Object.assign(stream, data);
+        return stream.observeAll() as T & Stream;
     }
 
 
@@ -149,12 +339,19 @@ export class Stream {
      * @param subscriber The callback when a change has been detected to that
      *     property.
      */
-    public watch(key: string, subscriber: Function) {
+    public watch(key: string, subscriber: Function): Function {
         if (!this.watchSubscribers[key]) {
             this.watchSubscribers[key] = [];
         }
 
         this.watchSubscribers[key].push(subscriber);
+
+        return () => {
+            this.watchSubscribers[key] = this.watchSubscribers[key]
+                .filter((watchSubscriber: Function) => {
+                    return watchSubscriber != subscriber;
+                });
+        };
     }
 
 
@@ -166,14 +363,55 @@ export class Stream {
      *     detected.
      */
     protected publishChangeFor(key: string) {
-        if (!this.watchSubscribers[key]) {
-            return;
-        }
+        this.publishChangesFor(new Set([key]));
+    }
 
-        // Call all subscriber to the given key.
-        this.watchSubscribers[key].forEach((subscriber: Function) => {
-            subscriber(this);
-        })
+
+    /**
+     * Recalculates the computed properties invalidated by the changes and
+     * then calls the watchSubscribers of the keys and of the computed
+     * properties whose value changed.
+     */
+    private publishChangesFor(keys: Set<string>) {
+        const changedKeys = new Set(keys);
+        const staleComputeds = new Map(this.staleComputeds);
+        this.staleComputeds.clear();
+        staleComputeds.forEach((previousValue, computedKey) => {
+            if (!Object.is(this.evaluate(computedKey), previousValue)) {
+                changedKeys.add(computedKey);
+            }
+        });
+
+        changedKeys.forEach((key) => {
+            if (!this.watchSubscribers[key]) {
+                return;
+            }
+
+            // Call all subscriber to the given key.
+            this.watchSubscribers[key].forEach((subscriber: Function) => {
+                subscriber(this.proxy || this);
+            })
+        });
+    }
+
+
+    /**
+     * Marks the computed properties that depend on the key, directly or
+     * through other computed properties, dirty so they are recalculated
+     * the next time they are read.
+     */
+    private invalidateComputeds(key: string) {
+        this.computeds.forEach((computed, computedKey) => {
+            if (!computed.dependencies.has(key)) {
+                return;
+            }
+            if (!this.staleComputeds.has(computedKey)) {
+                this.staleComputeds.set(computedKey, computed.value);
+            }
+            const wasDirty = computed.dirty;
+            computed.dirty = true;
+            !wasDirty && this.invalidateComputeds(computedKey);
+        });
     }
 
 
@@ -188,31 +426,300 @@ export class Stream {
     protected markObservable(key: string, object: Object = this) {
         let value = object[key];
         let context = this;
+        this.observedKeys.push(key);
 
         Object.defineProperty(object, key, {
             get() {
+                context.track(key);
                 return value
             },
             set(newVal) {
-                value = newVal;
-                // Prevent updates during freeze.
-                if (!context.isFrozen) {
-                    context.publishChangeFor(key);
-                    context.publish();
-                } else {
-                    // Add this to the freeze cache.
-                    context.changedKeysDuringFreeze.add(key);
-                }
+                context.applyChange({
+                    key: key,
+                    path: [key],
+                    value: newVal,
+                    previousValue: value,
+                    deleted: false
+                }, (change: StreamChange) => {
+                    value = change.value;
+                });
             }
         })
     }
 
 
+    /**
+     * Turns on Proxy mode.  Returns a proxy of this stream which observes
+     * all properties including nested objects and arrays.  Return it from
+     * the constructor of your stream.
+     *
+     * ```ts
+     * constructor() {
+     *   super();
+     *   this.items = [];
+     *   return this.observeAll();
+     * }
+     * ```
+     */
+    protected observeAll(): this {
+        if (this.proxy) {
+            return this.proxy;
+        }
+
+        this.proxy = new Proxy(this, {
+            get: (target, key, receiver) => {
+                const value = Reflect.get(target, key, receiver);
+                if (!this.isDataKey(key)) {
+                    return value;
+                }
+                this.track(key as string);
+                return this.wrap(value, key as string, [key as string]);
+            },
+            set: (target, key, value, receiver) => {
+                if (!this.isDataKey(key)) {
+                    return Reflect.set(target, key, value, receiver);
+                }
+                return this.setProperty(target, key as string, [key as string],
+                    key as string, value);
+            },
+            deleteProperty: (target, key) => {
+                if (!this.isDataKey(key)) {
+                    return Reflect.deleteProperty(target, key);
+                }
+                return this.deleteProperty(target, key as string,
+                    [key as string], key as string);
+            }
+        });
+        this.rawObjects.set(this.proxy, this);
+
+        return this.proxy;
+    }
+
+
+    /**
+     * Adds a computed property.  The getter is called with the stream and
+     * the properties it reads are tracked so the value is recalculated when
+     * they change.
+     *
+     * ```ts
+     * myStream.computed('isAdult', (stream) => stream.age >= 18);
+     * myStream['isAdult']; // true
+     * ```
+     * @param key The name of the computed property.
+     * @param getter
+     */
+    public computed(key: string, getter: Function) {
+        this.computeds.set(key, {
+            getter: getter,
+            value: undefined,
+            dependencies: new Set(),
+            dirty: true
+        });
+
+        const context = this;
+        Object.defineProperty(this, key, {
+            configurable: true,
+            get() {
+                context.track(key);
+                return context.evaluate(key);
+            },
+            set() {
+                throw new Error(`Computed property ${key} can't be set.`);
+            }
+        });
+    }
+
+
+    /**
+     * Adds a middleware that every change runs through before it is
+     * applied.  Returns a function that removes the middleware.
+     * @param middleware
+     */
+    public use(middleware: StreamMiddleware): Function {
+        this.middlewares.push(middleware);
+        return () => {
+            this.middlewares = this.middlewares.filter((item) => {
+                return item != middleware;
+            });
+        };
+    }
+
+
+    /**
+     * Runs the change through the middleware and applies and publishes it.
+     */
+    private applyChange(change: StreamChange, apply: Function) {
+        let index = 0;
+        const next = () => {
+            const middleware = this.middlewares[index++];
+            if (middleware) {
+                middleware(change, next);
+                return;
+            }
+
+            apply(change);
+            this.invalidateComputeds(change.key);
+
+            // Prevent updates during freeze.
+            if (!this.isFrozen) {
+                this.publishChangeFor(change.key);
+                this.publish();
+            } else {
+                // Add this to the freeze cache.
+                this.changedKeysDuringFreeze.add(change.key);
+            }
+        };
+        next();
+    }
+
+
+    /**
+     * Whether a key of the stream is observed in Proxy mode.
+     */
+    private isDataKey(key: PropertyKey): boolean {
+        if (!is.string(key) ||
+            this.internalKeys.has(key as string) ||
+            this.computeds.has(key as string) ||
+            this.observedKeys.indexOf(key as string) > -1) {
+            return false;
+        }
+        // Skip methods.
+        return Object.prototype.hasOwnProperty.call(this, key) ||
+            !((key as string) in this);
+    }
+
+
+    /**
+     * Wraps plain objects and arrays in a proxy that publishes changes for
+     * the top level key.
+     */
+    private wrap(value: any, key: string, path: Array<string | number>): any {
+        if (!is.array(value) && !(is.object(value) &&
+            Object.getPrototypeOf(value) == Object.prototype)) {
+            return value;
+        }
+        if (this.proxies.has(value)) {
+            return this.proxies.get(value);
+        }
+
+        const proxy = new Proxy(value, {
+            get: (target, property, receiver) => {
+                const propertyValue = Reflect.get(target, property, receiver);
+                if (!is.string(property)) {
+                    return propertyValue;
+                }
+
+                // Batch array methods that set multiple items.
+                if (is.array(target) &&
+                    arrayMutators.indexOf(property as string) > -1) {
+                    return (...args: Array<any>) => {
+                        let result: any;
+                        this.batch(() => {
+                            result = propertyValue.apply(receiver, args);
+                        });
+                        return result;
+                    };
+                }
+
+                return this.wrap(propertyValue, key,
+                    [...path, property as string]);
+            },
+            set: (target, property, propertyValue) => {
+                return this.setProperty(target, property as string,
+                    [...path, property as string], key, propertyValue);
+            },
+            deleteProperty: (target, property) => {
+                return this.deleteProperty(target, property as string,
+                    [...path, property as string], key);
+            }
+        });
+        this.proxies.set(value, proxy);
+        this.rawObjects.set(proxy, value);
+        return proxy;
+    }
+
+
+    private setProperty(target: Object, property: string,
+        path: Array<string | number>, key: string, value: any): boolean {
+        const rawValue = this.rawObjects.get(value) || value;
+        const previousValue = target[property];
+        if (Object.is(previousValue, rawValue) &&
+            Object.prototype.hasOwnProperty.call(target, property)) {
+            return true;
+        }
+
+        this.applyChange({
+            key: key,
+            path: path,
+            value: rawValue,
+            previousValue: previousValue,
+            deleted: false
+        }, (change: StreamChange) => {
+            target[property] = this.rawObjects.get(change.value) || change.value;
+        });
+        return true;
+    }
+
+
+    private deleteProperty(target: Object, property: string,
+        path: Array<string | number>, key: string): boolean {
+        if (!Object.prototype.hasOwnProperty.call(target, property)) {
+            return true;
+        }
+
+        this.applyChange({
+            key: key,
+            path: path,
+            value: undefined,
+            previousValue: target[property],
+            deleted: true
+        }, () => {
+            delete target[property];
+        });
+        return true;
+    }
+
+
+    /**
+     * Records that a key was read while evaluating a computed property.
+     */
+    private track(key: string) {
+        if (this.trackedKeys.length) {
+            this.trackedKeys[this.trackedKeys.length - 1].add(key);
+        }
+    }
+
+
+    /**
+     * Returns the value of a computed property.  Recalculates it if it is
+     * dirty.
+     */
+    private evaluate(key: string): any {
+        const computed = this.computeds.get(key);
+        if (!computed.dirty) {
+            return computed.value;
+        }
+
+        this.trackedKeys.push(new Set());
+        try {
+            computed.value = computed.getter(this.proxy || this);
+        } finally {
+            computed.dependencies = this.trackedKeys.pop();
+        }
+        computed.dirty = false;
+        return computed.value;
+    }
+
+
     /**
      * Adds a subscription to observe ANY change on the observable properties.
      */
-    public change(callback: Function) {
+    public change(callback: Function): Function {
         this.changeSubscribers.push(callback);
+        return () => {
+            this.changeSubscribers = this.changeSubscribers.filter(
+                (subscriber) => subscriber != callback);
+        };
     }
 
 
@@ -222,7 +729,7 @@ export class Stream {
      */
     public publish() {
         this.changeSubscribers.forEach((subscriber) => {
-            subscriber(this);
+            subscriber(this.proxy || this);
         })
     }
 
@@ -248,12 +755,42 @@ export class Stream {
             throw new Error('You must pass an object to update');
         }
 
+        const stream = this.proxy || this;
+        this.batch(() => {
+            // Make changes.
+            Object.keys(data).forEach((key) => {
+                stream[key] = data[key];
+            })
+        });
+    }
+
+
+    /**
+     * Runs the callback frozen so subscribers are notified once at the end.
+     * Batches can be nested in which case subscribers are notified at the
+     * end of the outer batch.
+     *
+     * ```ts
+     * myStream.batch(() => {
+     *   myStream.name = 'Scott';
+     *   myStream.age = 58;
+     * });
+     * ```
+     * @param callback
+     */
+    public batch(callback: Function) {
+        // Nested batch.  The outer batch will unfreeze.
+        if (this.isFrozen) {
+            callback(this.proxy || this);
+            return;
+        }
+
         this.freeze();
-        // Make changes.
-        Object.keys(data).forEach((key) => {
-            this[key] = data[key];
-        })
-        this.unfreeze();
+        try {
+            callback(this.proxy || this);
+        } finally {
+            this.unfreeze();
+        }
     }
 
 
@@ -274,16 +811,15 @@ export class Stream {
      */
     public unfreeze() {
         this.isFrozen = false;
+        const changedKeys = new Set(this.changedKeysDuringFreeze);
+        this.changedKeysDuringFreeze.clear();
+
         // Now start notifying changes.
-        this.changedKeysDuringFreeze.forEach((key) => {
-            this.publishChangeFor(key);
-        })
+        this.publishChangesFor(changedKeys);
 
         // Publish if there are some keys that were changed.
-        this.changedKeysDuringFreeze.size &&
+        changedKeys.size &&
             this.publish();
-
-        this.changedKeysDuringFreeze.clear();
     }
 
 }
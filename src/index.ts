@@ -2,33 +2,58 @@ import { dom } from './dom/dom';
 import { DomWatcher } from './dom/dom-watcher';
 import { bom } from './dom/bom';
 import { mathf } from './mathf/mathf';
+import { Random } from './mathf/random';
 import { is } from './is/is';
 import { func } from './func/func';
+import { Observable } from './func/observable';
 import { time } from './time/time';
-import { Raf } from './raf/raf';
+import { Raf, RafPriority } from './raf/raf';
 import { RafProgress } from './raf/raf-progress';
 import { RafTimer } from './raf/raf-timer';
+import { Timeline } from './raf/timeline';
+import { BrowserRafScheduler, VirtualRafScheduler } from './raf/raf-scheduler';
 import { Interpolate } from './interpolate/interpolate';
+import { CompoundInterpolate } from './interpolate/compound-interpolate';
 import { CssVarInterpolate } from './interpolate/css-var-interpolate';
-import { MultiInterpolate } from './interpolate/multi-interpolate';
+import { cssVarKeyframes } from './interpolate/css-var-keyframes';
+import { CssVarComposer, CssVarBlendModes } from './interpolate/css-var-composer';
+import { MultiInterpolate, StaggerOrigins, StaggerAxes } from './interpolate/multi-interpolate';
+import { interpolateValidator } from './interpolate/interpolate-validator';
+import { animationConfig } from './interpolate/animation-config';
 import { EASE } from './ease/ease';
+import { cssEasing } from './ease/css-easing';
 
 export {
     EASE,
+    cssEasing,
     Interpolate,
+    CompoundInterpolate,
     CssVarInterpolate,
+    cssVarKeyframes,
+    CssVarComposer,
+    CssVarBlendModes,
     MultiInterpolate,
+    StaggerOrigins,
+    StaggerAxes,
+    interpolateValidator,
+    animationConfig,
 
     is,
     time,
     func,
+    Observable,
 
     Raf,
+    RafPriority,
     RafProgress,
     RafTimer,
+    Timeline,
+    BrowserRafScheduler,
+    VirtualRafScheduler,
 
     dom,
     DomWatcher,
     bom,
     mathf,
+    Random,
 };
@@ -0,0 +1,130 @@
+import { animationConfig } from './animation-config';
+import { MultiInterpolate } from './multi-interpolate';
+import { EASE } from '../ease/ease';
+import { CubicBezier } from '../mathf/cubic-bezier';
+import test from 'ava';
+
+test('resolveEasing', t => {
+    t.is(animationConfig.resolveEasing('easeOutSine'), EASE.easeOutSine);
+    t.is(animationConfig.resolveEasing('EASE.easeInQuad'), EASE.easeInQuad);
+    t.is(animationConfig.resolveEasing('linear'), EASE.linear);
+    t.is(animationConfig.resolveEasing(EASE.easeInCubic), EASE.easeInCubic);
+
+    const bezier = animationConfig.resolveEasing('cubic-bezier(.2, .1, .3, 1)');
+    t.is(bezier(0.3),
+        CubicBezier.makeCssEasingFunction(0.2, 0.1, 0.3, 1)(0.3));
+    t.is(animationConfig.resolveEasing('ease-in')(0.3),
+        CubicBezier.makeCssEasingFunction(0.42, 0, 1, 1)(0.3));
+    t.is(animationConfig.resolveEasing('linear(0, 0.25 75%, 1)')(0.75), 0.25);
+
+    const steps = animationConfig.resolveEasing('steps(4)');
+    t.deepEqual([0, 0.1, 0.25, 0.6, 0.99, 1].map((t) => steps(t)),
+        [0, 0, 0.25, 0.5, 0.75, 1]);
+    const stepsStart = animationConfig.resolveEasing('steps(4, jump-start)');
+    t.deepEqual([0, 0.1, 0.25, 0.99, 1].map((t) => stepsStart(t)),
+        [0.25, 0.25, 0.5, 1, 1]);
+    const stepsNone = animationConfig.resolveEasing('steps(3, jump-none)');
+    t.deepEqual([0, 0.4, 0.7, 1].map((t) => stepsNone(t)), [0, 0.5, 1, 1]);
+    const stepsBoth = animationConfig.resolveEasing('steps(3, jump-both)');
+    t.deepEqual([0, 0.4, 0.7, 1].map((t) => stepsBoth(t)), [0.25, 0.5, 0.75, 1]);
+
+    t.throws(() => animationConfig.resolveEasing('easeOutNowhere'));
+    t.throws(() => animationConfig.resolveEasing('toString'));
+    t.throws(() => animationConfig.resolveEasing('constructor'));
+    t.throws(() => animationConfig.resolveEasing('EASE.hasOwnProperty'));
+    t.throws(() => animationConfig.resolveEasing('cubic-bezier(1, 2)'));
+    t.throws(() => animationConfig.resolveEasing('steps(0)'));
+    t.throws(() => animationConfig.resolveEasing('steps(1, jump-none)'));
+    t.throws(() => animationConfig.resolveEasing('steps(2, sideways)'));
+});
+
+
+test('load', t => {
+    const config = animationConfig.load(JSON.stringify({
+        version: 1,
+        settings: { lerp: 0.18 },
+        interpolations: [
+            {
+                id: '--x',
+                progress: [
+                    {
+                        from: 0, to: 1, start: 0, end: 100,
+                        easingFunction: 'easeInQuad'
+                    }
+                ],
+                stagger: {
+                    count: 2,
+                    progressOffset: 0.1,
+                    distribution: 'easeInQuad'
+                }
+            }
+        ],
+        timeline: [
+            { progress: 0, x: 0 },
+            { progress: 1, x: 10, '--blur': 1, easingFunction: 'steps(2)' },
+        ]
+    }));
+
+    t.is(config.version, 1);
+    t.deepEqual(config.settings, { lerp: 0.18 });
+    t.is(config.interpolations[0].progress[0].easingFunction, EASE.easeInQuad);
+    t.is(config.interpolations[0].stagger.distribution, EASE.easeInQuad);
+    t.is(config.timeline[1].easingFunction(0.7), 0.5);
+    t.is(config.timeline[1]['--blur'], 1);
+
+    const multiInterpolate = new MultiInterpolate({
+        interpolations: config.interpolations
+    });
+    t.is(multiInterpolate.calculate(0.5)['--x'], 25);
+
+    t.throws(() => animationConfig.load({ version: 2 }));
+});
+
+
+test('serialize', t => {
+    const serialized = {
+        version: 1,
+        interpolations: [
+            {
+                id: '--x',
+                progress: [
+                    {
+                        from: 0, to: 1, start: '0px', end: '10px',
+                        easingFunction: 'cubic-bezier(.2,.1,.3,1)'
+                    },
+                ],
+            }
+        ],
+        timeline: [
+            { progress: 0, x: 0, easingFunction: 'easeOutSine' },
+        ]
+    };
+
+    const config = animationConfig.load(serialized);
+    t.deepEqual(animationConfig.serialize(config), serialized);
+
+    t.throws(() => {
+        animationConfig.serialize({
+            version: 1,
+            timeline: [{ progress: 0, easingFunction: (t: number) => t }]
+        });
+    });
+});
+
+
+test('getSchema', t => {
+    const schema: any = animationConfig.getSchema();
+    t.is(schema.$schema, 'http://json-schema.org/draft-07/schema#');
+    t.is(schema.properties.version.maximum, animationConfig.VERSION);
+    t.deepEqual(schema.definitions.rangedProgress.required,
+        ['from', 'to', 'start', 'end']);
+    t.deepEqual(schema.definitions.stagger.properties.from.oneOf[0].enum,
+        ['start', 'center', 'end']);
+    t.deepEqual(
+        schema.definitions.timelineObject.patternProperties['^--'].type,
+        ['number', 'string']);
+    t.deepEqual(
+        schema.definitions.settings.properties.layer.properties.blendMode.enum,
+        ['replace', 'add', 'multiply']);
+    t.notThrows(() => JSON.stringify(schema));
+});
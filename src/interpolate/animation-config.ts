@@ -0,0 +1,530 @@
+import { is } from '../is/is';
+import { EASE } from '../ease/ease';
+import { cssEasing } from '../ease/css-easing';
+import { ColorSpaces } from '../mathf/color';
+import { CssParallaxSettings } from '../dom/css-parallaxer';
+import { VectorDomTimelineObject } from '../dom/vector-dom-timeline';
+import { CssVarBlendModes } from './css-var-composer';
+import {
+    interpolateSettings,
+    interpolateStaggerOptions,
+    rangedProgress,
+    StaggerAxes,
+    StaggerOrigins
+} from './multi-interpolate';
+
+
+/**
+ * A rangedProgress with a string easing name.
+ */
+export interface SerializedRangedProgress {
+    from: number;
+    to: number;
+    start: number | string;
+    end: number | string;
+    easingFunction?: string;
+    colorSpace?: ColorSpaces;
+}
+
+
+export interface SerializedStaggerOptions {
+    count: number;
+    progressOffset?: number;
+    endProgress?: number;
+    from?: StaggerOrigins | number;
+    distribution?: string;
+    random?: boolean;
+    seed?: number;
+    grid?: [number, number];
+    axis?: StaggerAxes;
+}
+
+
+/**
+ * An interpolateSettings with string easing names.  onUpdate can't be
+ * serialized.
+ */
+export interface SerializedInterpolateSettings {
+    id: string;
+    progress: Array<SerializedRangedProgress>;
+    noInterpolation?: boolean;
+    noInterpolationDefault?: string;
+    stagger?: SerializedStaggerOptions;
+}
+
+
+/**
+ * A VectorDomTimelineObject with a string easing name.  Keys starting with
+ * '--' are css variables.
+ */
+export interface SerializedVectorDomTimelineObject {
+    progress: number;
+    x?: number;
+    y?: number;
+    z?: number;
+    rx?: number;
+    ry?: number;
+    rz?: number;
+    alpha?: number;
+    easingFunction?: string;
+    [cssVar: string]: number | string;
+}
+
+
+/**
+ * The serialized animation config.  Every part is optional so the same format
+ * works for css_parallax, viewport-css-parallax and VectorDom timelines.
+ */
+export interface SerializedAnimationConfig {
+    /**
+     * The version of the format.  Defaults to [[animationConfig.VERSION]].
+     */
+    version?: number;
+    settings?: CssParallaxSettings;
+    interpolations?: Array<SerializedInterpolateSettings>;
+    timeline?: Array<SerializedVectorDomTimelineObject>;
+}
+
+
+/**
+ * A loaded animation config with easing names resolved into functions.
+ */
+export interface AnimationConfig {
+    version: number;
+    settings?: CssParallaxSettings;
+    interpolations?: Array<interpolateSettings>;
+    timeline?: Array<VectorDomTimelineObject>;
+}
+
+
+/**
+ * A versioned, JSON friendly format for [[multiInterpolateConfig]],
+ * [[CssParallaxSettings]] and [[VectorDomTimelineObject]] arrays.
+ *
+ * Easing functions are JS functions so they can't be authored in yaml or json.
+ * In the serialized format, easing is a string that the loader resolves into
+ * a function:
+ *
+ * - An [[EASE]] name such as 'easeOutSine' or 'EASE.easeOutSine'.
+ * - Any css timing function parsed with [[cssEasing]]: keywords such as
+ *   'ease-in-out', 'cubic-bezier(.2, .1, .3, 1)', 'steps(4, jump-start)' or
+ *   'linear(0, 0.25 75%, 1)'.
+ *
+ * ```yaml
+ * css_parallax:
+ *   version: 1
+ *   settings:
+ *     lerp: 0.18
+ *   interpolations:
+ *     - id: '--x'
+ *       progress:
+ *       - from: 0
+ *         to: 1
+ *         start: '0px'
+ *         end: '20px'
+ *         easingFunction: 'easeOutSine'
+ * ```
+ *
+ * ```ts
+ * const data = JSON.parse(element.getAttribute('css-parallax'));
+ * const config = animationConfig.load(data);
+ * parallaxer.init(config.settings, config.interpolations);
+ *
+ * // Timelines for VectorDom.
+ * vector._.timeline.setTimeline(animationConfig.load({
+ *   timeline: [
+ *     { progress: 0, x: 0 },
+ *     { progress: 1, x: 100, easingFunction: 'cubic-bezier(.2,.1,.3,1)' },
+ *   ]
+ * }).timeline);
+ *
+ * // Back to json.
+ * JSON.stringify(animationConfig.serialize(config));
+ * ```
+ *
+ * The format is described by a JSON Schema so editors can validate configs.
+ * ```ts
+ * JSON.stringify(animationConfig.getSchema(), null, 2);
+ * ```
+ *
+ * @tested
+ */
+export class animationConfig {
+
+    /**
+     * The current version of the format.
+     */
+    static readonly VERSION = 1;
+
+    /**
+     * Resolves an easing name into an easing function.  Functions are
+     * returned as is.  Throws on unknown names.
+     *
+     * ```ts
+     * animationConfig.resolveEasing('easeOutSine') // EASE.easeOutSine
+     * animationConfig.resolveEasing('cubic-bezier(.2,.1,.3,1)')
+     * animationConfig.resolveEasing('steps(4)')
+     * ```
+     * @param easing
+     */
+    static resolveEasing(easing: string | Function): Function {
+        if (is.function(easing)) {
+            return easing as Function;
+        }
+
+        const name = String(easing).trim();
+        const easeName = name.replace(/^EASE\./, '');
+        // Own keys only so names like toString aren't taken as an easing.
+        if (Object.prototype.hasOwnProperty.call(EASE, easeName) &&
+            is.function(EASE[easeName])) {
+            return EASE[easeName];
+        }
+
+        try {
+            return cssEasing.parse(name);
+        } catch (e) {
+            throw new Error(`Unknown easing: ${name}`);
+        }
+    }
+
+
+    /**
+     * Returns the name of an easing function so it can be serialized.
+     * Returns null for functions that don't have a name.
+     * @param easingFunction
+     */
+    static getEasingName(easingFunction: Function): string | null {
+        const name = Object.getOwnPropertyNames(EASE).find((key) => {
+            return EASE[key] === easingFunction;
+        });
+        return name || cssEasing.getCss(easingFunction);
+    }
+
+
+    /**
+     * Loads a serialized config or a json string and resolves easing names
+     * into functions.
+     * @param config
+     */
+    static load(config: SerializedAnimationConfig | string): AnimationConfig {
+        const data: SerializedAnimationConfig =
+            is.string(config) ? JSON.parse(config as string) : config;
+        const version = is.number(data.version) ?
+            data.version : animationConfig.VERSION;
+
+        if (version > animationConfig.VERSION) {
+            throw new Error(
+                `Animation config version ${version} is newer than the ` +
+                `supported version ${animationConfig.VERSION}.`);
+        }
+
+        const result: AnimationConfig = { version: version };
+        if (data.settings) {
+            result.settings = data.settings;
+        }
+        if (data.interpolations) {
+            result.interpolations =
+                animationConfig.loadInterpolations(data.interpolations);
+        }
+        if (data.timeline) {
+            result.timeline = animationConfig.loadTimeline(data.timeline);
+        }
+        return result;
+    }
+
+
+    /**
+     * Resolves the easing names of a list of interpolateSettings.
+     * @param interpolations
+     */
+    static loadInterpolations(
+        interpolations: Array<SerializedInterpolateSettings>):
+        Array<interpolateSettings> {
+        return interpolations.map((interpolation) => {
+            const { progress, stagger, ...rest } = interpolation;
+            const result: interpolateSettings = {
+                ...rest,
+                progress: progress.map((serializedProgress) => {
+                    const { easingFunction, ...rangedRest } = serializedProgress;
+                    const rangedProgress: rangedProgress = { ...rangedRest };
+                    if (easingFunction) {
+                        rangedProgress.easingFunction =
+                            animationConfig.resolveEasing(easingFunction);
+                    }
+                    return rangedProgress;
+                })
+            };
+            if (stagger) {
+                const { distribution, ...staggerRest } = stagger;
+                const staggerOptions: interpolateStaggerOptions = {
+                    ...staggerRest
+                };
+                if (distribution) {
+                    staggerOptions.distribution =
+                        animationConfig.resolveEasing(distribution);
+                }
+                result.stagger = staggerOptions;
+            }
+            return result;
+        });
+    }
+
+
+    /**
+     * Resolves the easing names of a VectorDom timeline.
+     * @param timeline
+     */
+    static loadTimeline(timeline: Array<SerializedVectorDomTimelineObject>):
+        Array<VectorDomTimelineObject> {
+        return timeline.map((timelineObject) => {
+            const { easingFunction, ...rest } = timelineObject;
+            const result: VectorDomTimelineObject = { ...rest };
+            if (easingFunction) {
+                result.easingFunction =
+                    animationConfig.resolveEasing(easingFunction);
+            }
+            return result;
+        });
+    }
+
+
+    /**
+     * Serializes a config.  Easing functions are converted back to names.
+     * Throws when an easing function has no name and onUpdate callbacks are
+     * dropped.
+     * @param config
+     */
+    static serialize(config: AnimationConfig): SerializedAnimationConfig {
+        const toName = (easingFunction: Function): string => {
+            const name = animationConfig.getEasingName(easingFunction);
+            if (!name) {
+                throw new Error(
+                    'Only EASE functions and easing loaded by animationConfig ' +
+                    'can be serialized.');
+            }
+            return name;
+        };
+
+        const result: SerializedAnimationConfig = {
+            version: animationConfig.VERSION
+        };
+        if (config.settings) {
+            result.settings = config.settings;
+        }
+        if (config.interpolations) {
+            result.interpolations = config.interpolations
+                .filter((interpolation) => !interpolation.staggerItem)
+                .map((interpolation) => {
+                    const serialized: SerializedInterpolateSettings = {
+                        id: interpolation.id,
+                        progress: interpolation.progress.map((progress) => {
+                            const { easingFunction, ...rest } = progress;
+                            const serializedProgress: SerializedRangedProgress =
+                                { ...rest };
+                            if (easingFunction) {
+                                serializedProgress.easingFunction =
+                                    toName(easingFunction);
+                            }
+                            return serializedProgress;
+                        })
+                    };
+                    if (interpolation.noInterpolation) {
+                        serialized.noInterpolation = true;
+                        serialized.noInterpolationDefault =
+                            interpolation.noInterpolationDefault;
+                    }
+                    if (interpolation.stagger) {
+                        const { distribution, ...rest } = interpolation.stagger;
+                        serialized.stagger = { ...rest };
+                        if (distribution) {
+                            serialized.stagger.distribution =
+                                toName(distribution);
+                        }
+                    }
+                    return serialized;
+                });
+        }
+        if (config.timeline) {
+            result.timeline = config.timeline.map((timelineObject) => {
+                const { easingFunction, ...rest } = timelineObject;
+                const serialized: SerializedVectorDomTimelineObject = { ...rest };
+                if (easingFunction) {
+                    serialized.easingFunction = toName(easingFunction);
+                }
+                return serialized;
+            });
+        }
+        return result;
+    }
+
+
+    /**
+     * Returns the JSON Schema (draft-07) of [[SerializedAnimationConfig]].
+     */
+    static getSchema(): Object {
+        const easing = {
+            type: 'string',
+            description: 'An EASE name such as "easeOutSine" or a css ' +
+                'timing function such as "ease-in-out", ' +
+                '"cubic-bezier(.2, .1, .3, 1)", "steps(4)" or ' +
+                '"linear(0, 0.25 75%, 1)".',
+            examples: ['easeOutSine', 'ease-in-out',
+                'cubic-bezier(.2,.1,.3,1)', 'steps(4)', 'linear(0, 0.25 75%, 1)'],
+        };
+        const value = {
+            type: ['number', 'string'],
+            description: 'A number, a css unit such as "10px", a color or a ' +
+                'compound value such as "translateX(10px)".',
+        };
+
+        return {
+            $schema: 'http://json-schema.org/draft-07/schema#',
+            title: 'yano-js animation config',
+            type: 'object',
+            properties: {
+                version: {
+                    type: 'integer',
+                    minimum: 1,
+                    maximum: animationConfig.VERSION,
+                },
+                settings: { $ref: '#/definitions/settings' },
+                interpolations: {
+                    type: 'array',
+                    items: { $ref: '#/definitions/interpolation' },
+                },
+                timeline: {
+                    type: 'array',
+                    items: { $ref: '#/definitions/timelineObject' },
+                },
+            },
+            additionalProperties: false,
+            definitions: {
+                easing: easing,
+                rangedProgress: {
+                    type: 'object',
+                    properties: {
+                        from: { type: 'number' },
+                        to: { type: 'number' },
+                        start: value,
+                        end: value,
+                        easingFunction: { $ref: '#/definitions/easing' },
+                        colorSpace: {
+                            type: 'string',
+                            enum: Object.keys(ColorSpaces).map(
+                                (key) => ColorSpaces[key]),
+                        },
+                    },
+                    required: ['from', 'to', 'start', 'end'],
+                    additionalProperties: false,
+                },
+                stagger: {
+                    type: 'object',
+                    properties: {
+                        count: { type: 'integer', minimum: 0 },
+                        progressOffset: { type: 'number' },
+                        endProgress: { type: 'number' },
+                        from: {
+                            oneOf: [
+                                {
+                                    type: 'string',
+                                    enum: Object.keys(StaggerOrigins).map(
+                                        (key) => StaggerOrigins[key]),
+                                },
+                                { type: 'integer', minimum: 0 },
+                            ],
+                        },
+                        distribution: { $ref: '#/definitions/easing' },
+                        random: { type: 'boolean' },
+                        seed: { type: 'number' },
+                        grid: {
+                            type: 'array',
+                            items: { type: 'integer', minimum: 1 },
+                            minItems: 2,
+                            maxItems: 2,
+                        },
+                        axis: {
+                            type: 'string',
+                            enum: Object.keys(StaggerAxes).map(
+                                (key) => StaggerAxes[key]),
+                        },
+                    },
+                    required: ['count'],
+                    additionalProperties: false,
+                },
+                interpolation: {
+                    type: 'object',
+                    properties: {
+                        id: { type: 'string' },
+                        progress: {
+                            type: 'array',
+                            items: { $ref: '#/definitions/rangedProgress' },
+                        },
+                        noInterpolation: { type: 'boolean' },
+                        noInterpolationDefault: { type: 'string' },
+                        stagger: { $ref: '#/definitions/stagger' },
+                    },
+                    required: ['id', 'progress'],
+                    additionalProperties: false,
+                },
+                timelineObject: {
+                    type: 'object',
+                    properties: {
+                        progress: { type: 'number' },
+                        x: { type: 'number' },
+                        y: { type: 'number' },
+                        z: { type: 'number' },
+                        rx: { type: 'number' },
+                        ry: { type: 'number' },
+                        rz: { type: 'number' },
+                        alpha: { type: 'number' },
+                        easingFunction: { $ref: '#/definitions/easing' },
+                    },
+                    patternProperties: {
+                        '^--': value,
+                    },
+                    required: ['progress'],
+                    additionalProperties: false,
+                },
+                settings: {
+                    type: 'object',
+                    properties: {
+                        debug: { type: 'boolean' },
+                        top: { type: 'string' },
+                        bottom: { type: 'string' },
+                        height: { type: 'string' },
+                        lerp: { type: 'number' },
+                        damp: { type: 'number' },
+                        frameRateIndependent: { type: 'boolean' },
+                        clamp: { type: 'boolean' },
+                        lerpOnlyInRange: { type: 'boolean' },
+                        precision: { type: 'number' },
+                        rafEvOptions: { type: 'object' },
+                        lerpMobile: { type: 'number' },
+                        dampMobile: { type: 'number' },
+                        mobileBreakpoint: { type: 'number' },
+                        elementBaseline: { type: 'number' },
+                        elementBaselineFromTopToBottom: { type: 'boolean' },
+                        scrollTimeline: { type: 'boolean' },
+                        layer: {
+                            type: 'object',
+                            properties: {
+                                blendMode: {
+                                    type: 'string',
+                                    enum: Object.keys(CssVarBlendModes).map(
+                                        (key) => CssVarBlendModes[key])
+                                },
+                                weight: { type: 'number' },
+                                order: { type: 'number' },
+                            },
+                            additionalProperties: false,
+                        },
+                        validate: { type: 'boolean' },
+                        strict: { type: 'boolean' },
+                    },
+                    additionalProperties: false,
+                },
+            },
+        };
+    }
+
+}
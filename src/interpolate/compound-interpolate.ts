@@ -0,0 +1,174 @@
+import { mathf } from '../mathf/mathf';
+import { color, ColorRGBA, ColorSpaces } from '../mathf/color';
+import { EASE } from '../ease/ease';
+import { cssTokenizer, CssToken, CssTokenTypes } from '../string/css-tokenizer';
+
+
+/**
+ * Interpolates compound css values such as transforms, filters, shadows
+ * and clip-paths.  Both values are split into tokens with [[cssTokenizer]]
+ * and every number and color is interpolated while the rest of the string
+ * is kept as is.
+ *
+ * Used internally by [[Interpolate]] when a from / to value is compound.
+ *
+ * ```ts
+ * const inter = new CompoundInterpolate(
+ *   'translate3d(0, 20%, 0) rotate(0deg)',
+ *   'translate3d(100px, 40%, 0) rotate(90deg)'
+ * );
+ * inter.calculate(0.5); // 'translate3d(50px, 30%, 0) rotate(45deg)'
+ *
+ * new CompoundInterpolate('blur(0px) brightness(1)', 'blur(4px) brightness(1.2)')
+ *   .calculate(0.5); // 'blur(2px) brightness(1.1)'
+ *
+ * new CompoundInterpolate('0 0 0 rgba(0, 0, 0, 0)', '10px 20px 30px rgba(0, 0, 0, 0.4)')
+ *   .calculate(0.5); // '5px 10px 15px rgba(0, 0, 0, 0.2)'
+ * ```
+ *
+ * Numbers with different units are mixed with calc().  A unitless 0 takes on
+ * the unit of the other value.
+ * ```ts
+ * new CompoundInterpolate('translateX(10%)', 'translateX(100px)')
+ *   .calculate(0.5); // 'translateX(calc(5% + 50px))'
+ * ```
+ *
+ * Colors are interpolated in srgb by default.  Pass a [[ColorSpaces]] to
+ * interpolate them in a different color space.
+ * ```ts
+ * new CompoundInterpolate('0 0 4px blue', '0 0 4px yellow', ColorSpaces.oklch)
+ *   .calculate(0.5);
+ * ```
+ *
+ * When the two values don't have the same structure (for example a different
+ * list of transform functions), the value can't be interpolated and switches
+ * from the from value to the to value at 0.5 like css does.
+ */
+export class CompoundInterpolate {
+
+    /**
+     * Whether the value is compound and should be interpolated with
+     * CompoundInterpolate.
+     */
+    static isCompound(from: string, to: string): boolean {
+        return cssTokenizer.isCompound(from) || cssTokenizer.isCompound(to);
+    }
+
+    private fromTokens: Array<CssToken>;
+    private toTokens: Array<CssToken>;
+    private interpolable: boolean;
+
+    constructor(private from: string, private to: string,
+        private colorSpace: ColorSpaces = ColorSpaces.srgb) {
+        this.fromTokens = cssTokenizer.tokenize(from);
+        this.toTokens = cssTokenizer.tokenize(to);
+        this.interpolable = this.matchTokens();
+    }
+
+    /**
+     * Whether both values share the same structure and can be interpolated.
+     */
+    isInterpolable(): boolean {
+        return this.interpolable;
+    }
+
+    /**
+     * Calculates the css value at the given progress.
+     * @param progress A value between 0-1.
+     * @param easeFunction An optional easing function.  Defaults to linear.
+     */
+    calculate(progress: number, easeFunction: Function = EASE.linear): string {
+        const easedProgress = easeFunction(progress);
+        if (!this.interpolable) {
+            return easedProgress < 0.5 ? this.from : this.to;
+        }
+
+        return this.fromTokens.map((fromToken, i) => {
+            const toToken = this.toTokens[i];
+            if (fromToken.type == CssTokenTypes.number) {
+                return this.interpolateNumber(fromToken, toToken, easedProgress);
+            }
+            if (fromToken.type == CssTokenTypes.color) {
+                return color.rgbaToCss(color.rgbaEase(
+                    fromToken.value as ColorRGBA,
+                    toToken.value as ColorRGBA,
+                    easedProgress,
+                    EASE.linear,
+                    this.colorSpace
+                ));
+            }
+            return fromToken.value;
+        }).join('');
+    }
+
+    private interpolateNumber(from: CssToken, to: CssToken,
+        progress: number): string {
+        let fromUnit = from.unit;
+        let toUnit = to.unit;
+
+        // A unitless 0 takes on the unit of the other value.
+        if (!fromUnit && from.value === 0) {
+            fromUnit = toUnit;
+        }
+        if (!toUnit && to.value === 0) {
+            toUnit = fromUnit;
+        }
+
+        if (fromUnit == toUnit) {
+            return cssTokenizer.stringifyToken({
+                type: CssTokenTypes.number,
+                value: mathf.lerp(from.value as number, to.value as number,
+                    progress),
+                unit: fromUnit
+            });
+        }
+
+        // Mix different units with calc.
+        const amount = mathf.clamp01(progress);
+        if (amount == 0) {
+            return cssTokenizer.stringifyToken(from);
+        }
+        if (amount == 1) {
+            return cssTokenizer.stringifyToken(to);
+        }
+        const fromPart = cssTokenizer.stringifyToken({
+            type: CssTokenTypes.number,
+            value: (from.value as number) * (1 - amount),
+            unit: fromUnit
+        });
+        const toPart = cssTokenizer.stringifyToken({
+            type: CssTokenTypes.number,
+            value: (to.value as number) * amount,
+            unit: toUnit
+        });
+        return `calc(${fromPart} + ${toPart})`;
+    }
+
+    /**
+     * Checks that the from and to tokens line up.
+     */
+    private matchTokens(): boolean {
+        if (this.fromTokens.length != this.toTokens.length) {
+            return false;
+        }
+
+        return this.fromTokens.every((fromToken, i) => {
+            const toToken = this.toTokens[i];
+            if (fromToken.type != toToken.type) {
+                return false;
+            }
+            if (fromToken.type == CssTokenTypes.text) {
+                return cssTokenizer.normalizeText(fromToken.value as string) ==
+                    cssTokenizer.normalizeText(toToken.value as string);
+            }
+            if (fromToken.type == CssTokenTypes.number) {
+                // calc can't mix a unitless number with a unit.
+                const fromUnitless = !fromToken.unit && fromToken.value !== 0;
+                const toUnitless = !toToken.unit && toToken.value !== 0;
+                return fromUnitless == toUnitless ||
+                    (!fromToken.unit && !toToken.unit);
+            }
+            return true;
+        });
+    }
+}
@@ -0,0 +1,163 @@
+import { CssVarComposer, CssVarBlendModes } from './css-var-composer';
+import { CssVarInterpolate } from './css-var-interpolate';
+import { VirtualRafScheduler } from '../raf/raf-scheduler';
+import test from 'ava';
+
+
+// jsdom doesn't implement IntersectionObserver which is used by
+// elementVisibility.
+const intersectionObserver = class {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+(global as any).IntersectionObserver = intersectionObserver;
+
+
+test('blend', t => {
+    // Without a value below, blends with the neutral value.
+    t.is(CssVarComposer.blend(null, 5, CssVarBlendModes.replace, 0.5), 2.5);
+    t.is(CssVarComposer.blend(null, 5, CssVarBlendModes.add, 0.5), 2.5);
+    t.is(CssVarComposer.blend(null, 3, CssVarBlendModes.multiply, 0.5), 2);
+    t.is(CssVarComposer.blend(null, '10px', CssVarBlendModes.replace, 0.5),
+        '5px');
+    t.is(CssVarComposer.blend(null, 'red', CssVarBlendModes.replace, 0.2),
+        'red');
+    t.is(CssVarComposer.blend(10, 20, CssVarBlendModes.replace, 0.25), 12.5);
+    t.is(CssVarComposer.blend(10, 5, CssVarBlendModes.add, 1), 15);
+    t.is(CssVarComposer.blend(10, 3, CssVarBlendModes.multiply, 1), 30);
+    t.is(CssVarComposer.blend(10, 3, CssVarBlendModes.multiply, 0.5), 20);
+    t.is(CssVarComposer.blend(10, 3, CssVarBlendModes.multiply, 0), 10);
+
+    t.is(CssVarComposer.blend('10px', '4px', CssVarBlendModes.add, 0.5), '12px');
+    t.is(CssVarComposer.blend('10px', 2, CssVarBlendModes.multiply, 1), '20px');
+    t.is(CssVarComposer.blend('10px', '20px', CssVarBlendModes.replace, 0.5), '15px');
+    t.is(CssVarComposer.blend('10px', '20%', CssVarBlendModes.add, 1),
+        'calc(10px + 20%)');
+    t.is(CssVarComposer.blend('10px', '20%', CssVarBlendModes.add, 0.5),
+        'calc(10px + 10%)');
+
+    // Values that can't be blended switch at 0.5.
+    t.is(CssVarComposer.blend('red', 'blue', CssVarBlendModes.add, 0.4), 'red');
+    t.is(CssVarComposer.blend('red', 'blue', CssVarBlendModes.add, 0.5), 'blue');
+    t.is(CssVarComposer.blend('10px', 'rotate(2deg)',
+        CssVarBlendModes.replace, 1), 'rotate(2deg)');
+});
+
+
+test.serial('compose blends layers in order', t => {
+    const scheduler = new VirtualRafScheduler();
+    window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+
+    const element = document.createElement('div');
+    const composer = CssVarComposer.get(element);
+    t.is(CssVarComposer.get(element), composer);
+
+    const base = {};
+    const intro = {};
+    const scale = {};
+    composer.addLayer(intro, { blendMode: CssVarBlendModes.add, order: 1 });
+    composer.addLayer(scale, { blendMode: CssVarBlendModes.multiply, order: 2 });
+    composer.addLayer(base);
+
+    composer.setValues(base, { '--y': '100px', '--opacity': 1 });
+    composer.setValues(intro, { '--y': '-20px' });
+    composer.setValues(scale, { '--y': 2, '--opacity': 0.5 });
+
+    t.deepEqual(composer.compose(), { '--y': '160px', '--opacity': 0.5 });
+
+    composer.addLayer(intro, { blendMode: CssVarBlendModes.add, order: 1, weight: 0.5 });
+    t.deepEqual(composer.compose(), { '--y': '180px', '--opacity': 0.5 });
+
+    composer.removeLayer(scale);
+    t.deepEqual(composer.compose(), { '--y': '90px', '--opacity': 1 });
+
+    composer.removeLayer(base);
+    composer.removeLayer(intro);
+    t.not(CssVarComposer.get(element), composer);
+    CssVarComposer.get(element).removeLayer(null);
+
+    scheduler.stepFrames(1);
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+});
+
+
+test.serial('removes css variables no layer writes anymore', t => {
+    const scheduler = new VirtualRafScheduler();
+    window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+
+    // jsdom doesn't keep css variables in the style.
+    const element = document.createElement('div');
+    const style: Object = {};
+    element.style.setProperty = (name: string, value: string) => {
+        style[name] = value;
+    };
+    element.style.removeProperty = (name: string) => {
+        delete style[name];
+        return '';
+    };
+
+    const composer = CssVarComposer.get(element);
+    const base = {};
+    const intro = {};
+    composer.setValues(base, { '--y': '100px' });
+    composer.setValues(intro, { '--y': '10px', '--opacity': 0.5 });
+    scheduler.stepFrames(1);
+    t.deepEqual(style, { '--y': '10px', '--opacity': 0.5 });
+
+    composer.removeLayer(intro);
+    scheduler.stepFrames(1);
+    t.deepEqual(style, { '--y': '100px' });
+
+    composer.removeLayer(base);
+    t.deepEqual(style, {});
+
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+});
+
+
+test.serial('resolves once per frame in postWrite', t => {
+    const scheduler = new VirtualRafScheduler();
+    window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+
+    const element = document.createElement('div');
+    const written: Array<Object> = [];
+    const setCssVariables = (element.style as any).setProperty;
+    (element.style as any).setProperty = (name: string, value: string) => {
+        written.push({ [name]: value });
+    };
+
+    const parallax = new CssVarInterpolate(element, {
+        interpolations: [
+            { id: '--y', progress: [{ from: 0, to: 1, start: 0, end: 100 }] }
+        ]
+    });
+    parallax.renderOutview(true);
+    parallax.useLayer({});
+
+    const intro = new CssVarInterpolate(element, {
+        interpolations: [
+            { id: '--y', progress: [{ from: 0, to: 1, start: 10, end: 0 }] }
+        ]
+    });
+    intro.renderOutview(true);
+    intro.useLayer({ blendMode: CssVarBlendModes.add, order: 1 });
+
+    parallax.update(0.5);
+    intro.update(0);
+    t.is(written.length, 0);
+
+    scheduler.stepFrames(1);
+    t.deepEqual(written, [{ '--y': 60 }]);
+
+    intro.update(1);
+    parallax.update(1);
+    scheduler.stepFrames(1);
+    t.deepEqual(written, [{ '--y': 60 }, { '--y': 100 }]);
+
+    parallax.useLayer(null);
+    intro.useLayer(null);
+    scheduler.stepFrames(1);
+    (element.style as any).setProperty = setCssVariables;
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+});
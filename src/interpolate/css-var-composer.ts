@@ -0,0 +1,359 @@
+import { mathf } from '../mathf/mathf';
+import { is } from '../is/is';
+import { dom } from '../dom/dom';
+import { Raf } from '../raf/raf';
+import { cssUnit, CssUnitObjectTypes } from '../string/css-unit';
+
+
+/**
+ * How a layer combines its value with the layers below it.
+ */
+export enum CssVarBlendModes {
+    /**
+     * Mixes the value below towards the layer value by weight.  Without a
+     * value below, mixes from 0.
+     */
+    replace = 'replace',
+
+    /**
+     * Adds the layer value multiplied by weight.
+     */
+    add = 'add',
+
+    /**
+     * Multiplies the value below by the layer value.  A weight of 0 leaves
+     * the value below as is.  Without a value below, mixes from 1.
+     */
+    multiply = 'multiply',
+}
+
+
+export interface cssVarLayerSettings {
+    /**
+     * Defaults to replace.
+     */
+    blendMode?: CssVarBlendModes;
+
+    /**
+     * The amount (0-1) the layer applies.  Defaults to 1.
+     */
+    weight?: number;
+
+    /**
+     * Layers are blended from the lowest order to the highest.  Layers with
+     * the same order are blended in the order they were added.  Defaults
+     * to 0.
+     */
+    order?: number;
+}
+
+
+interface cssVarLayer {
+    settings: cssVarLayerSettings;
+    values: Object;
+}
+
+
+/**
+ * The composers of each element.
+ */
+const composers: WeakMap<HTMLElement, CssVarComposer> = new WeakMap();
+
+
+/**
+ * Composes the css variables that multiple sources write to the same
+ * element.  Without it, the last source that writes a css variable wins.
+ *
+ * Each source adds a layer with a blend mode and weight and sets its
+ * values.  The layers are blended and written once per frame in the
+ * postWrite phase of the raf registry after all sources did their writes.
+ *
+ * [[CssVarInterpolate]] writes to a layer with useLayer.
+ * ```ts
+ * const parallax = new CssVarInterpolate(element, parallaxConfig);
+ * parallax.useLayer({ blendMode: CssVarBlendModes.replace });
+ *
+ * const intro = new CssVarInterpolate(element, introConfig);
+ * intro.useLayer({ blendMode: CssVarBlendModes.add, order: 1 });
+ *
+ * // --y is now the parallax --y + the intro --y.
+ * ```
+ *
+ * Or add layers manually.
+ * ```ts
+ * const composer = CssVarComposer.get(element);
+ * composer.addLayer(this, { blendMode: CssVarBlendModes.multiply, weight: 0.5 });
+ * composer.setValues(this, { '--scale': 2 });
+ *
+ * // Later.
+ * composer.removeLayer(this);
+ * ```
+ *
+ * Numbers and css units (10px, 20%) are blended.  Adding values with
+ * different units results in a calc().  Other values such as colors
+ * and transforms can't be added or multiplied so every blend mode switches
+ * to the layer value once weight reaches 0.5.
+ *
+ * @tested
+ */
+export class CssVarComposer {
+
+    /**
+     * Gets the composer of an element.  Creates one if the element doesn't
+     * have one yet.
+     * @param element
+     */
+    static get(element: HTMLElement): CssVarComposer {
+        if (!composers.has(element)) {
+            composers.set(element, new CssVarComposer(element));
+        }
+        return composers.get(element);
+    }
+
+
+    /**
+     * Blends a layer value onto the value below.
+     *
+     * ```ts
+     * CssVarComposer.blend(10, 5, CssVarBlendModes.add, 1); // 15
+     * CssVarComposer.blend('10px', '4px', CssVarBlendModes.add, 0.5); // '12px'
+     * CssVarComposer.blend('10px', 2, CssVarBlendModes.multiply, 1); // '20px'
+     * CssVarComposer.blend(10, 20, CssVarBlendModes.replace, 0.25); // 12.5
+     * CssVarComposer.blend(null, 20, CssVarBlendModes.replace, 0.25); // 5
+     * ```
+     * @param base The value below.  Null if there is no value below in which
+     *     case the layer value is blended with the neutral value of the blend
+     *     mode, 1 for multiply and 0 for the others.
+     * @param value The layer value.
+     * @param blendMode
+     * @param weight
+     */
+    static blend(base: number | string | null, value: number | string,
+        blendMode: CssVarBlendModes, weight: number): number | string {
+        if (is.null(base) || is.undefined(base)) {
+            const parsed = CssVarComposer.parseNumber(value);
+            if (!parsed) {
+                return value;
+            }
+            const neutral = blendMode == CssVarBlendModes.multiply ? 1 : 0;
+            return CssVarComposer.format(
+                mathf.lerp(neutral, parsed.value, weight), parsed.unit);
+        }
+
+        const baseNumber = CssVarComposer.parseNumber(base);
+        const valueNumber = CssVarComposer.parseNumber(value);
+        if (!baseNumber || !valueNumber) {
+            return weight >= 0.5 ? value : base;
+        }
+
+        const unit = baseNumber.unit || valueNumber.unit;
+        switch (blendMode) {
+            case CssVarBlendModes.add:
+                if (baseNumber.unit && valueNumber.unit &&
+                    baseNumber.unit != valueNumber.unit) {
+                    return `calc(${base} + ${CssVarComposer.scale(value, weight)})`;
+                }
+                return CssVarComposer.format(
+                    baseNumber.value + valueNumber.value * weight, unit);
+            case CssVarBlendModes.multiply:
+                return CssVarComposer.format(baseNumber.value *
+                    mathf.lerp(1, valueNumber.value, weight),
+                    baseNumber.unit || valueNumber.unit);
+            default:
+                if (baseNumber.unit && valueNumber.unit &&
+                    baseNumber.unit != valueNumber.unit) {
+                    return weight >= 0.5 ? value : base;
+                }
+                return CssVarComposer.format(
+                    mathf.lerp(baseNumber.value, valueNumber.value, weight),
+                    unit);
+        }
+    }
+
+
+    /**
+     * Parses a number or a single css unit value.  Returns null for any
+     * other value.
+     */
+    private static parseNumber(value: number | string):
+        { value: number, unit: string | null } | null {
+        if (is.number(value)) {
+            return { value: value as number, unit: null };
+        }
+        const css = String(value).trim();
+        if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?[a-z%]*$/i.test(css)) {
+            return null;
+        }
+        const unit = cssUnit.parse(css);
+        if (unit.valueType != CssUnitObjectTypes.number) {
+            return null;
+        }
+        return { value: parseFloat(css), unit: unit.unit };
+    }
+
+
+    private static format(value: number, unit: string | null): number | string {
+        return unit ? `${value}${unit}` : value;
+    }
+
+
+    private static scale(value: number | string, weight: number): number | string {
+        const parsed = CssVarComposer.parseNumber(value);
+        if (!parsed || weight == 1) {
+            return value;
+        }
+        return CssVarComposer.format(parsed.value * weight, parsed.unit);
+    }
+
+
+    private raf: Raf;
+    private layers: Map<Object, cssVarLayer>;
+    private resolveScheduled: boolean;
+
+    /**
+     * The last written values.
+     */
+    private values: Object;
+
+
+    constructor(private element: HTMLElement) {
+        this.raf = new Raf();
+        this.raf.setLabel('css-var-composer');
+        this.raf.setOwner(element);
+        this.layers = new Map();
+        this.resolveScheduled = false;
+        this.values = {};
+    }
+
+
+    /**
+     * Adds a layer or updates the settings of an existing layer.
+     * @param source The owner of the layer.  Used as the key of the layer.
+     * @param settings
+     */
+    addLayer(source: Object, settings: cssVarLayerSettings = {}) {
+        const layer = this.layers.get(source);
+        this.layers.set(source, {
+            settings: settings,
+            values: layer ? layer.values : {}
+        });
+        this.scheduleResolve();
+    }
+
+
+    /**
+     * Removes a layer.  Css variables that no other layer writes are removed
+     * from the element.  The composer of the element is disposed once the
+     * last layer is removed.
+     * @param source
+     */
+    removeLayer(source: Object) {
+        this.layers.delete(source);
+        if (this.layers.size) {
+            this.scheduleResolve();
+            return;
+        }
+
+        this.raf.dispose();
+        composers.delete(this.element);
+        this.removeValues(this.values);
+        this.values = {};
+    }
+
+
+    /**
+     * Whether the source has a layer.
+     * @param source
+     */
+    hasLayer(source: Object): boolean {
+        return this.layers.has(source);
+    }
+
+
+    /**
+     * Sets the values of a layer.  The values are written in the next
+     * postWrite phase.
+     * @param source
+     * @param values An object of css variable names and values.
+     */
+    setValues(source: Object, values: Object) {
+        if (!this.layers.has(source)) {
+            this.addLayer(source);
+        }
+        this.layers.get(source).values = Object.assign({}, values);
+        this.scheduleResolve();
+    }
+
+
+    /**
+     * Blends all layers and returns the values of each css variable.
+     */
+    compose(): Object {
+        const layers = Array.from(this.layers.values())
+            .map((layer, i) => {
+                return { layer: layer, index: i };
+            })
+            .sort((a, b) => {
+                return (a.layer.settings.order || 0) -
+                    (b.layer.settings.order || 0) || a.index - b.index;
+            })
+            .map((entry) => entry.layer);
+
+        const values = {};
+        layers.forEach((layer) => {
+            const blendMode =
+                layer.settings.blendMode || CssVarBlendModes.replace;
+            const weight = is.number(layer.settings.weight) ?
+                mathf.clamp01(layer.settings.weight) : 1;
+            for (let key in layer.values) {
+                values[key] = CssVarComposer.blend(
+                    is.undefined(values[key]) ? null : values[key],
+                    layer.values[key], blendMode, weight);
+            }
+        });
+        return values;
+    }
+
+
+    /**
+     * Composes and writes the css variables that changed since the last
+     * write.  Css variables that no layer writes anymore are removed.
+     */
+    resolve() {
+        this.resolveScheduled = false;
+        const values = this.compose();
+        const changedValues = {};
+        const removedValues = {};
+        for (let key in values) {
+            if (values[key] !== this.values[key]) {
+                changedValues[key] = values[key];
+            }
+        }
+        for (let key in this.values) {
+            if (is.undefined(values[key])) {
+                removedValues[key] = this.values[key];
+            }
+        }
+        this.values = values;
+        this.removeValues(removedValues);
+        dom.setCssVariables(this.element, changedValues);
+    }
+
+
+    private removeValues(values: Object) {
+        for (let key in values) {
+            this.element.style.removeProperty(key);
+        }
+    }
+
+
+    private scheduleResolve() {
+        if (this.resolveScheduled) {
+            return;
+        }
+        this.resolveScheduled = true;
+        this.raf.postWrite(() => {
+            this.resolve();
+        });
+    }
+}
@@ -1,9 +1,134 @@
 
 import { is } from '../is/is';
 import { CssVarInterpolate } from './css-var-interpolate';
+import { ScrollDrivenTimeline } from './css-var-keyframes';
 import test from 'ava';
 
 
 test('CssVarInterpolate is defined', t => {
     t.is(is.defined(CssVarInterpolate), true);
-})
\ No newline at end of file
+})
+
+
+// jsdom doesn't implement IntersectionObserver which is used by
+// elementVisibility.
+const intersectionObserver = class {
+    observe() { }
+    unobserve() { }
+    disconnect() { }
+};
+global['IntersectionObserver'] = intersectionObserver;
+
+test.serial('useWebAnimations falls back when unsupported', t => {
+    const element = document.createElement('div');
+    const cssVarInterpolate = new CssVarInterpolate(element, {
+        interpolations: [
+            { id: '--x', progress: [{ from: 0, to: 1, start: '0px', end: '100px' }] }
+        ]
+    });
+    cssVarInterpolate.renderOutview(true);
+
+    t.is(cssVarInterpolate.useWebAnimations(true), false);
+    t.is(cssVarInterpolate.isUsingWebAnimations(), false);
+
+    cssVarInterpolate.update(0.5);
+    t.is(cssVarInterpolate.getValues()['--x'], '50px');
+});
+
+
+test.serial('useWebAnimations seeks the animations', t => {
+    const registered: Array<any> = [];
+    const animations: Array<any> = [];
+    const element = document.createElement('div');
+    window['CSS'] = {
+        registerProperty: (definition: any) => registered.push(definition)
+    };
+    (element as any).animate = (keyframes: Array<Keyframe>, options: any) => {
+        const animation = {
+            keyframes: keyframes,
+            options: options,
+            currentTime: null as number,
+            paused: false,
+            cancelled: false,
+            pause: () => { animation.paused = true; },
+            cancel: () => { animation.cancelled = true; },
+        };
+        animations.push(animation);
+        return animation;
+    };
+
+    const cssVarInterpolate = new CssVarInterpolate(element, {
+        interpolations: [
+            { id: '--x', progress: [{ from: 0, to: 1, start: '0px', end: '100px' }] },
+            { id: '--y', progress: [{ from: 0, to: 1, start: 0, end: 1 }] }
+        ]
+    });
+    cssVarInterpolate.setProgressRange(0.2, 0.6);
+
+    t.is(cssVarInterpolate.useWebAnimations(true), true);
+    t.deepEqual(registered, [
+        { name: '--x', syntax: '<length>', inherits: true, initialValue: '0px' },
+        { name: '--y', syntax: '<number>', inherits: true, initialValue: '0' },
+    ]);
+    t.is(animations.length, 2);
+    t.is(animations[0].paused, true);
+    t.is(animations[0].options.fill, 'both');
+
+    cssVarInterpolate.update(0.4);
+    t.is(Math.round(animations[0].currentTime), 500);
+    t.is(Math.round(animations[1].currentTime), 500);
+    t.deepEqual(cssVarInterpolate.getValues(), {});
+
+    cssVarInterpolate.useNoWrite(true);
+    t.is(animations[0].cancelled, true);
+    t.is(cssVarInterpolate.isUsingWebAnimations(), false);
+
+    delete window['CSS'];
+});
+
+
+test.serial('useWebAnimations plays on a timeline', t => {
+    const animations: Array<any> = [];
+    const element = document.createElement('div');
+    const target = document.createElement('div');
+    const timeline: ScrollDrivenTimeline = { axis: 'block', currentTime: null };
+    window['CSS'] = { registerProperty: () => { } };
+    (target as any).animate = (keyframes: Array<Keyframe>, options: any) => {
+        const animation = {
+            options: options,
+            currentTime: null as number,
+            paused: false,
+            pause: () => { animation.paused = true; },
+            cancel: () => { },
+        };
+        animations.push(animation);
+        return animation;
+    };
+
+    const cssVarInterpolate = new CssVarInterpolate(element, {
+        interpolations: [
+            { id: '--x', progress: [{ from: 0, to: 1, start: '0px', end: '100px' }] }
+        ]
+    });
+
+    t.is(cssVarInterpolate.useWebAnimations(true, {
+        timeline: timeline,
+        rangeStart: 'cover 10px',
+        rangeEnd: 'cover 100%',
+        target: target
+    }), true);
+    t.is(animations[0].options.timeline, timeline);
+    t.is(animations[0].options.rangeStart, 'cover 10px');
+    t.is(animations[0].options.rangeEnd, 'cover 100%');
+    t.is(animations[0].paused, false);
+
+    // The timeline plays the animation.
+    cssVarInterpolate.update(0.5);
+    t.is(animations[0].currentTime, null);
+
+    // Timelines can't play a progress range.
+    cssVarInterpolate.setProgressRange(0.2, 0.6);
+    t.is(cssVarInterpolate.useWebAnimations(true, { timeline: timeline, target: target }), false);
+
+    delete window['CSS'];
+});
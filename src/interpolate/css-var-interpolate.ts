@@ -5,7 +5,42 @@ import { ElementVisibilityObject, elementVisibility } from '../dom/element-visib
 import { dom } from '../dom/dom';
 import { is } from '../is/is';
 import { cssUnit } from '../string/css-unit';
+import { cssTokenizer, CssTokenTypes } from '../string/css-tokenizer';
 import { objectf } from '../objectf/objectf';
+import {
+    cssVarKeyframes, CssVarKeyframes, ScrollDrivenAnimationOptions,
+    ScrollDrivenTimeline
+} from './css-var-keyframes';
+import { CssVarComposer, cssVarLayerSettings } from './css-var-composer';
+
+
+/**
+ * Options of [[CssVarInterpolate.useWebAnimations]].
+ */
+export interface cssVarAnimationOptions {
+    /**
+     * A ScrollTimeline or ViewTimeline to play the animations on.  When set,
+     * the browser plays the animations as the user scrolls and update doesn't
+     * need to be called.
+     */
+    timeline?: ScrollDrivenTimeline;
+
+    /**
+     * The start of the animation-range on the timeline such as 'cover 100px'.
+     */
+    rangeStart?: string;
+
+    /**
+     * The end of the animation-range on the timeline such as 'cover 100%'.
+     */
+    rangeEnd?: string;
+
+    /**
+     * The element to animate.  Defaults to the element of the
+     * CssVarInterpolate.
+     */
+    target?: HTMLElement;
+}
 
 
 /**
@@ -194,6 +229,62 @@ import { objectf } from '../objectf/objectf';
  *    dom.setCssVariables(myElement, values);
  *
  * ```
+ *
+ *
+ * // Web Animations
+ * For time based animations, the interpolations can be compiled into
+ * Web Animations API keyframes and played by the browser.  The css
+ * variables are registered with CSS.registerProperty so they interpolate
+ * natively and update only sets the currentTime of the animations.
+ *
+ * ```ts
+ * this.cssVarInterpolate.useWebAnimations(true);
+ *
+ * const raf = new Raf(() => {
+ *   this.progress = mathf.clamp01(this.progress + 0.01);
+ *   // Only sets the currentTime of the animations.
+ *   this.cssVarInterpolate.update(this.progress);
+ * }).start();
+ * ```
+ *
+ * useWebAnimations returns false and the css variables keep being written
+ * on each update when the browser doesn't support registered properties or
+ * the interpolations can't be compiled (see [[cssVarKeyframes]]).  Web
+ * Animations are also not used in noWrite mode or when subpixel rendering
+ * is turned off.  While Web Animations are used, [[getValues]] is not
+ * updated.
+ *
+ * The animations can also be played on a native scroll driven timeline in
+ * which case the browser plays them as the user scrolls and update doesn't
+ * need to be called at all.
+ *
+ * ```ts
+ * this.cssVarInterpolate.useWebAnimations(true, {
+ *   timeline: cssVarKeyframes.createViewTimeline(element),
+ *   rangeStart: 'cover 0px',
+ *   rangeEnd: 'cover 100%'
+ * });
+ * ```
+ *
+ * Timelines can't play progress outside of 0-1 so useWebAnimations returns
+ * false when a timeline is passed and a ranged progress goes beyond 0-1 or
+ * a progress range is set.
+ *
+ *
+ * // Layers
+ * When multiple sources write the same css variable on an element, the last
+ * writer wins.  Write to a layer of the element's [[CssVarComposer]] instead
+ * to blend the values of all sources.
+ *
+ * ```ts
+ * this.cssVarInterpolate.useLayer({
+ *   blendMode: CssVarBlendModes.add,
+ *   weight: 1
+ * });
+ * ```
+ *
+ * Layers are resolved by the composer in the postWrite phase so Web
+ * Animations can't be used with layers.
  */
 export class CssVarInterpolate {
     private mainProgress: number | null;
@@ -270,6 +361,27 @@ export class CssVarInterpolate {
      */
     private noWrite: boolean;
 
+    /**
+     * The running Web Animations.  Empty unless useWebAnimations was turned
+     * on and is supported.
+     */
+    private animations: Array<Animation>;
+
+    /**
+     * The compiled keyframes of the running Web Animations.
+     */
+    private keyframes: CssVarKeyframes | null;
+
+    /**
+     * The options of the running Web Animations.
+     */
+    private animationOptions: cssVarAnimationOptions;
+
+    /**
+     * The layer settings when writing to a [[CssVarComposer]] layer.
+     */
+    private layer: cssVarLayerSettings | null;
+
 
     /**
      * @param element The element to update the css variable to.
@@ -305,6 +417,10 @@ export class CssVarInterpolate {
         this.batchUpdate = false;
         this.precision = 4;
         this.noWrite = false;
+        this.animations = [];
+        this.keyframes = null;
+        this.animationOptions = {};
+        this.layer = null;
 
         this.startProgress = 0;
         this.endProgress = 1;
@@ -338,6 +454,9 @@ export class CssVarInterpolate {
     setInterpolations(config: multiInterpolateConfig) {
         if (config) {
             this.multiInterpolate = new MultiInterpolate(config);
+            if (this.animations.length) {
+                this.useWebAnimations(true, this.animationOptions);
+            }
         }
     }
 
@@ -383,6 +502,9 @@ export class CssVarInterpolate {
      */
     useSubPixelRendering(value: boolean) {
         this.renderSubPixels = value;
+        if (!value && this.animations.length) {
+            this.useWebAnimations(false);
+        }
     }
 
 
@@ -395,6 +517,9 @@ export class CssVarInterpolate {
      */
     useNoWrite(value: boolean) {
         this.noWrite = value;
+        if (value && this.animations.length) {
+            this.useWebAnimations(false);
+        }
     }
 
 
@@ -407,6 +532,106 @@ export class CssVarInterpolate {
         this.batchUpdate = value;
     }
 
+    /**
+     * Plays the interpolations with the Web Animations API instead of
+     * writing css variables on each update.  Returns whether Web Animations
+     * are used.  Falls back to writing css variables when they are not
+     * supported.
+     *
+     * ```ts
+     * if (!cssVarInterpolate.useWebAnimations(true)) {
+     *   // Not supported.  Update writes css variables as before.
+     * }
+     * ```
+     * @param value
+     * @param options Optional timeline, animation-range and target.
+     */
+    useWebAnimations(value: boolean,
+        options: cssVarAnimationOptions = {}): boolean {
+        this.animations.forEach((animation) => {
+            animation.cancel();
+        });
+        this.animations = [];
+        this.keyframes = null;
+        this.animationOptions = options;
+        this.flush();
+
+        const target = options.target || this.element;
+        if (!value || !this.multiInterpolate || this.noWrite || this.layer ||
+            !this.renderSubPixels || !cssVarKeyframes.isSupported(target)) {
+            return false;
+        }
+
+        const keyframes = cssVarKeyframes.compile(
+            this.multiInterpolate.getInterpolations());
+        if (!keyframes) {
+            return false;
+        }
+
+        if (options.timeline && (
+            keyframes.startProgress != 0 || keyframes.endProgress != 1 ||
+            this.startProgress != 0 || this.endProgress != 1)) {
+            return false;
+        }
+
+        this.keyframes = keyframes;
+        this.animations = this.keyframes.properties.map((property) => {
+            cssVarKeyframes.register(property);
+            const animationOptions: ScrollDrivenAnimationOptions = {
+                duration: cssVarKeyframes.DURATION,
+                fill: 'both',
+            };
+            if (options.timeline) {
+                animationOptions.timeline = options.timeline;
+                animationOptions.rangeStart = options.rangeStart;
+                animationOptions.rangeEnd = options.rangeEnd;
+            }
+
+            const animation = target.animate(property.keyframes, animationOptions);
+            if (!options.timeline) {
+                animation.pause();
+            }
+            return animation;
+        });
+
+        return true;
+    }
+
+
+    /**
+     * Writes the values to a layer of the [[CssVarComposer]] of the element
+     * instead of writing them directly so they can be blended with other
+     * sources.  Pass null to remove the layer and write directly again.
+     * @param settings
+     */
+    useLayer(settings: cssVarLayerSettings | null) {
+        if (!settings) {
+            if (this.layer) {
+                CssVarComposer.get(this.element).removeLayer(this);
+                this.flush();
+            }
+            this.layer = null;
+            return;
+        }
+
+        if (this.animations.length) {
+            this.useWebAnimations(false);
+        }
+        this.layer = settings;
+        const composer = CssVarComposer.get(this.element);
+        composer.addLayer(this, settings);
+        composer.setValues(this, this.currentValues);
+    }
+
+
+    /**
+     * Whether the interpolations are played with Web Animations.
+     */
+    isUsingWebAnimations(): boolean {
+        return this.animations.length > 0;
+    }
+
+
     /**
      * Sets css var interpolate to render even when out of view.
      */
@@ -433,6 +658,14 @@ export class CssVarInterpolate {
             return;
         }
 
+        // The browser takes care of rendering so just seek the animations.
+        if (this.animations.length) {
+            if (!this.animationOptions.timeline) {
+                this.seekAnimations(progress);
+            }
+            return;
+        }
+
         /**
          * Render this element only when it is inview for performance boost.
          */
@@ -460,6 +693,28 @@ export class CssVarInterpolate {
     }
 
 
+    /**
+     * Sets the currentTime of the Web Animations to the progress.
+     */
+    private seekAnimations(progress: number) {
+        const roundedPrecision = mathf.toFixed(progress, this.precision);
+        if (this.mainProgress == roundedPrecision) {
+            return;
+        }
+
+        this.mainProgress = mathf.childProgress(
+            roundedPrecision,
+            this.startProgress, this.endProgress, true);
+
+        const time = mathf.childProgress(this.mainProgress,
+            this.keyframes.startProgress, this.keyframes.endProgress) *
+            cssVarKeyframes.DURATION;
+        this.animations.forEach((animation) => {
+            animation.currentTime = time;
+        });
+    }
+
+
     /**
      * Updates and calculates interpolation values.
      */
@@ -500,18 +755,36 @@ export class CssVarInterpolate {
 
         for (var key in this.currentValues) {
             if (!this.renderSubPixels && is.string(this.currentValues[key])) {
-                let cssUnitValue = cssUnit.parse(this.currentValues[key]);
-                if (cssUnitValue.unit == 'px') {
-                    this.currentValues[key] =
-                        (cssUnitValue.value as number >> 0) + 'px';
+                const tokens = cssTokenizer.tokenize(this.currentValues[key]);
+                if (tokens.length > 1) {
+                    // Round each px value of compound values.
+                    tokens.forEach((token) => {
+                        if (token.type == CssTokenTypes.number &&
+                            token.unit == 'px') {
+                            token.value = token.value as number >> 0;
+                        }
+                    });
+                    this.currentValues[key] = cssTokenizer.stringify(tokens);
+                } else {
+                    let cssUnitValue = cssUnit.parse(this.currentValues[key]);
+                    if (cssUnitValue.unit == 'px') {
+                        this.currentValues[key] =
+                            (cssUnitValue.value as number >> 0) + 'px';
+                    }
                 }
             }
 
-            if (!this.batchUpdate) {
+            if (!this.batchUpdate && !this.layer) {
               dom.setCssVariable(this.element, key, this.currentValues[key]);
             }
         }
 
+        // Let the composer blend and write the values.
+        if (this.layer) {
+          CssVarComposer.get(this.element).setValues(this, this.currentValues);
+          return;
+        }
+
         // Update values in batch.
         if (this.batchUpdate) {
           dom.setCssVariables(this.element, this.currentValues);
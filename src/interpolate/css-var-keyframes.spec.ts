@@ -0,0 +1,174 @@
+import { cssVarKeyframes } from './css-var-keyframes';
+import { MultiInterpolate } from './multi-interpolate';
+import { ColorSpaces } from '../mathf/color';
+import { EASE } from '../ease/ease';
+import { cssEasing } from '../ease/css-easing';
+import test from 'ava';
+
+test('getSyntax', t => {
+    t.is(cssVarKeyframes.getSyntax(1), '<number>');
+    t.is(cssVarKeyframes.getSyntax('1.5'), '<number>');
+    t.is(cssVarKeyframes.getSyntax('20px'), '<length>');
+    t.is(cssVarKeyframes.getSyntax('-2vh'), '<length>');
+    t.is(cssVarKeyframes.getSyntax('20%'), '<percentage>');
+    t.is(cssVarKeyframes.getSyntax('90deg'), '<angle>');
+    t.is(cssVarKeyframes.getSyntax('200ms'), '<time>');
+    t.is(cssVarKeyframes.getSyntax('#fff'), '<color>');
+    t.is(cssVarKeyframes.getSyntax('rgba(0, 0, 0, 0.5)'), '<color>');
+    t.is(cssVarKeyframes.getSyntax('red'), '<color>');
+    t.is(cssVarKeyframes.getSyntax('translateX(20px)'), null);
+    t.is(cssVarKeyframes.getSyntax('hidden'), null);
+});
+
+
+test('compile creates keyframes for each span', t => {
+    const compiled = cssVarKeyframes.compile([
+        {
+            id: '--x',
+            progress: [
+                { from: 0.2, to: 0.5, start: '0px', end: '100px' },
+                { from: 0.6, to: 0.8, start: '200px', end: '300px',
+                    easingFunction: EASE.easeInQuad },
+            ]
+        }
+    ]);
+
+    t.is(compiled.startProgress, 0);
+    t.is(compiled.endProgress, 1);
+    t.is(compiled.properties[0].syntax, '<length>');
+    t.is(compiled.properties[0].initialValue, '0px');
+    t.deepEqual(compiled.properties[0].keyframes, [
+        { offset: 0, easing: 'linear', '--x': '0px' },
+        { offset: 0.2, easing: 'linear', '--x': '0px' },
+        { offset: 0.5, easing: 'linear', '--x': '100px' },
+        { offset: 0.6, easing: 'linear', '--x': '100px' },
+        { offset: 0.6, easing: cssEasing.stringify(EASE.easeInQuad),
+            '--x': '200px' },
+        { offset: 0.8, easing: 'linear', '--x': '300px' },
+        { offset: 1, easing: 'linear', '--x': '300px' },
+    ]);
+});
+
+
+test('compile matches MultiInterpolate', t => {
+    const config = {
+        interpolations: [
+            {
+                id: '--y',
+                progress: [
+                    { from: -0.5, to: 0.5, start: 0, end: 10 },
+                    { from: 0.4, to: 1.5, start: 20, end: 30 },
+                ]
+            },
+            {
+                id: '--z',
+                progress: [{ from: 0, to: 1, start: '0%', end: '50%' }],
+                stagger: { count: 2, progressOffset: 0.25 }
+            }
+        ]
+    };
+    const multiInterpolate = new MultiInterpolate(config);
+    const compiled =
+        cssVarKeyframes.compile(multiInterpolate.getInterpolations());
+
+    t.is(compiled.startProgress, -0.5);
+    t.is(compiled.endProgress, 1.5);
+    t.deepEqual(compiled.properties.map((property) => property.id),
+        ['--y', '--z', '--z-0', '--z-1']);
+
+    // Plays the linear keyframes at a given offset.
+    const play = (keyframes: Array<Keyframe>, id: string, offset: number) => {
+        for (let i = keyframes.length - 1; i > 0; i--) {
+            const from = keyframes[i - 1];
+            const to = keyframes[i];
+            if (from.offset <= offset && offset <= to.offset) {
+                const amount = to.offset == from.offset ? 1 :
+                    (offset - from.offset) / (to.offset - from.offset);
+                return parseFloat(from[id] as string) + amount *
+                    (parseFloat(to[id] as string) - parseFloat(from[id] as string));
+            }
+        }
+        return null;
+    };
+
+    [-0.5, -0.2, 0, 0.3, 0.45, 0.5, 0.7, 1, 1.2, 1.5].forEach((progress) => {
+        const values = multiInterpolate.calculate(progress);
+        const offset = (progress + 0.5) / 2;
+        compiled.properties.forEach((property) => {
+            t.is(
+                Math.round(play(property.keyframes, property.id, offset) * 1000),
+                Math.round(parseFloat(values[property.id]) * 1000),
+                `${property.id} at ${progress}`);
+        });
+    });
+});
+
+
+test('compile samples partial spans', t => {
+    const compiled = cssVarKeyframes.compile([
+        {
+            id: '--a',
+            progress: [
+                { from: 0, to: 0.5, start: 0, end: 100,
+                    easingFunction: EASE.easeInQuad },
+                { from: 0.25, to: 1, start: 100, end: 0 },
+            ]
+        }
+    ]);
+
+    // The first ranged progress is active until it ends so the second
+    // only takes over at 0.5.
+    const keyframes = compiled.properties[0].keyframes;
+    t.regex(keyframes[0].easing as string, /^linear\(/);
+    t.is(keyframes[1].offset, 0.25);
+    t.is(keyframes[1]['--a'], '25');
+    t.is(keyframes[2].offset, 0.5);
+    t.is(keyframes[2]['--a'], '100');
+    t.is(Math.round(parseFloat(keyframes[3]['--a'] as string)), 67);
+    t.regex(keyframes[1].easing as string, /^linear\(/);
+    t.is(keyframes[3].easing, 'linear(0, 1)');
+});
+
+
+test('compile noInterpolation', t => {
+    const compiled = cssVarKeyframes.compile([
+        {
+            id: '--display',
+            noInterpolation: true,
+            noInterpolationDefault: 'block',
+            progress: [{ from: 0.3, to: 0.5, start: 'none', end: 'none' }]
+        }
+    ]);
+
+    t.is(compiled.properties[0].syntax, null);
+    t.deepEqual(compiled.properties[0].keyframes.map((keyframe) => {
+        return [keyframe.offset, keyframe['--display']];
+    }), [
+        [0, 'block'], [0.3, 'block'], [0.3, 'none'], [0.5, 'none'],
+        [0.5, 'block'], [1, 'block']
+    ]);
+});
+
+
+test('compile returns null when unsupported', t => {
+    t.is(cssVarKeyframes.compile([
+        { id: '--t', progress: [{ from: 0, to: 1, start: 'translateX(0px)',
+            end: 'translateX(10px)' }] }
+    ]), null);
+    t.is(cssVarKeyframes.compile([
+        { id: '--u', progress: [{ from: 0, to: 1, start: '0px', end: '10%' }] }
+    ]), null);
+    t.is(cssVarKeyframes.compile([
+        { id: '--c', progress: [{ from: 0, to: 1, start: 'red', end: 'blue' }] }
+    ]), null);
+    t.is(cssVarKeyframes.compile([
+        { id: '--n', progress: [{ from: 0, to: 1, start: 0, end: 1 }],
+            onUpdate: () => { } }
+    ]), null);
+
+    const colors = cssVarKeyframes.compile([
+        { id: '--c', progress: [{ from: 0, to: 1, start: 'red', end: 'blue',
+            colorSpace: ColorSpaces.oklab }] }
+    ]);
+    t.is(colors.properties[0].syntax, '<color>');
+});
@@ -0,0 +1,440 @@
+import { mathf } from '../mathf/mathf';
+import { is } from '../is/is';
+import { ColorSpaces } from '../mathf/color';
+import { EASE } from '../ease/ease';
+import { cssEasing } from '../ease/css-easing';
+import { cssUnit, CssUnitObjectTypes } from '../string/css-unit';
+import { cssTokenizer } from '../string/css-tokenizer';
+import { Interpolate } from './interpolate';
+import {
+    interpolateSettings, multiInterpolateHelper, rangedProgress
+} from './multi-interpolate';
+
+
+/**
+ * The compiled keyframes of a single css variable.
+ */
+export interface CssVarKeyframeSet {
+    /**
+     * The css variable name.
+     */
+    id: string;
+
+    /**
+     * The syntax to register the css variable with.  Null for variables that
+     * don't need to be registered because they don't interpolate.
+     */
+    syntax: string | null;
+
+    /**
+     * The value at the start of the animation.  Used as the initial value
+     * when registering the css variable.
+     */
+    initialValue: string;
+
+    keyframes: Array<Keyframe>;
+}
+
+
+/**
+ * A scroll driven timeline such as a ViewTimeline.  The dom types of this
+ * TypeScript version don't have them yet.
+ */
+export interface ScrollDrivenTimeline extends AnimationTimeline {
+    readonly axis: string;
+}
+
+
+/**
+ * Options of Element.animate with the scroll driven animation fields.
+ */
+export interface ScrollDrivenAnimationOptions extends KeyframeAnimationOptions {
+    timeline?: ScrollDrivenTimeline;
+    rangeStart?: string;
+    rangeEnd?: string;
+}
+
+
+/**
+ * Keyframes compiled with [[cssVarKeyframes.compile]].
+ */
+export interface CssVarKeyframes {
+    /**
+     * The progress at offset 0 of the keyframes.  This is 0 unless a ranged
+     * progress starts before 0.
+     */
+    startProgress: number;
+
+    /**
+     * The progress at offset 1 of the keyframes.  This is 1 unless a ranged
+     * progress ends after 1.
+     */
+    endProgress: number;
+
+    properties: Array<CssVarKeyframeSet>;
+}
+
+
+/**
+ * Units mapped to the syntax of a registered css property.
+ */
+const unitSyntaxes: { [syntax: string]: Array<string> } = {
+    '<length>': [
+        'px', 'em', 'rem', 'ex', 'ch', 'vw', 'vh', 'vmin', 'vmax', 'svw',
+        'svh', 'lvw', 'lvh', 'dvw', 'dvh', 'cm', 'mm', 'q', 'in', 'pt', 'pc'
+    ],
+    '<percentage>': ['%'],
+    '<angle>': ['deg', 'rad', 'grad', 'turn'],
+    '<time>': ['s', 'ms'],
+};
+
+
+/**
+ * Compiles interpolation settings into Web Animations API keyframes so
+ * css variable interpolations can be played by the browser instead of
+ * being written to the dom on each frame.
+ *
+ * Used internally by [[CssVarInterpolate.useWebAnimations]].
+ *
+ * ```ts
+ * const compiled = cssVarKeyframes.compile([
+ *   {
+ *     id: '--x',
+ *     progress: [{ from: 0, to: 0.5, start: '0px', end: '100px' }]
+ *   }
+ * ]);
+ *
+ * compiled.properties[0].syntax; // '<length>'
+ * compiled.properties[0].keyframes;
+ * // [
+ * //   { offset: 0, easing: 'linear', '--x': '0px' },
+ * //   { offset: 0.5, easing: 'linear', '--x': '100px' },
+ * //   { offset: 1, easing: 'linear', '--x': '100px' }
+ * // ]
+ * ```
+ *
+ * Each span between the from / to values of the ranged progresses becomes
+ * a pair of keyframes so the result matches [[MultiInterpolate]] at any
+ * progress.  Spans that only cover part of a ranged progress get a css
+ * linear() easing sampled from that part of the easing function.
+ *
+ * Compile returns null when the settings can't be played natively:
+ * - values that can't be registered with a single syntax such as compound
+ *   values (transforms, filters) or mixed units.
+ * - colors that aren't interpolated in oklab.  Registered colors are always
+ *   interpolated in oklab by the browser.
+ * - settings with an onUpdate callback.
+ *
+ * @tested
+ */
+export class cssVarKeyframes {
+
+    /**
+     * The duration of the compiled animations in milliseconds.  Progress is
+     * mapped to currentTime over this duration.
+     */
+    static readonly DURATION = 1000;
+
+    /**
+     * Whether the element can play css variable animations with the Web
+     * Animations API.
+     * @param element
+     */
+    static isSupported(element: HTMLElement): boolean {
+        const css = window['CSS'];
+        return !!element && is.function(element.animate) &&
+            !!css && is.function(css.registerProperty);
+    }
+
+
+    /**
+     * Whether the element can play css variable animations on a native
+     * scroll driven ViewTimeline.
+     * @param element
+     */
+    static isViewTimelineSupported(element: HTMLElement): boolean {
+        return cssVarKeyframes.isSupported(element) &&
+            is.function(window['ViewTimeline']);
+    }
+
+
+    /**
+     * Creates a ViewTimeline that tracks the position of the subject in the
+     * viewport.  Returns null when ViewTimeline is not supported.
+     *
+     * ```ts
+     * cssVarInterpolate.useWebAnimations(true, {
+     *   timeline: cssVarKeyframes.createViewTimeline(element),
+     *   rangeStart: 'cover 0px',
+     *   rangeEnd: 'cover 100%'
+     * });
+     * ```
+     * @param subject
+     */
+    static createViewTimeline(subject: HTMLElement): ScrollDrivenTimeline {
+        if (!cssVarKeyframes.isViewTimelineSupported(subject)) {
+            return null;
+        }
+        return new window['ViewTimeline']({
+            subject: subject,
+            axis: 'block'
+        });
+    }
+
+
+    /**
+     * Returns the syntax a css value should be registered with or null if
+     * the value can't be registered.
+     *
+     * ```ts
+     * cssVarKeyframes.getSyntax(1); // '<number>'
+     * cssVarKeyframes.getSyntax('20px'); // '<length>'
+     * cssVarKeyframes.getSyntax('20%'); // '<percentage>'
+     * cssVarKeyframes.getSyntax('red'); // '<color>'
+     * cssVarKeyframes.getSyntax('translateX(20px)'); // null
+     * ```
+     * @param value
+     */
+    static getSyntax(value: number | string): string | null {
+        if (is.number(value)) {
+            return '<number>';
+        }
+
+        const css = String(value).trim();
+        if (cssTokenizer.isCompound(css)) {
+            return null;
+        }
+
+        const unit = cssUnit.parse(css);
+        if (unit.valueType == CssUnitObjectTypes.rgba) {
+            return '<color>';
+        }
+        if (!is.number(unit.value) || isNaN(unit.value as number)) {
+            return null;
+        }
+        if (!unit.unit) {
+            return '<number>';
+        }
+
+        const name = unit.unit.toLowerCase();
+        for (let syntax in unitSyntaxes) {
+            if (unitSyntaxes[syntax].indexOf(name) > -1) {
+                return syntax;
+            }
+        }
+        return null;
+    }
+
+
+    /**
+     * Compiles interpolation settings into keyframes.  Returns null if any
+     * of the settings can't be played natively.
+     * @param interpolations The settings returned by
+     *     [[MultiInterpolate.getInterpolations]] so staggers are included.
+     */
+    static compile(interpolations: Array<interpolateSettings>):
+        CssVarKeyframes | null {
+        let startProgress = 0;
+        let endProgress = 1;
+        interpolations.forEach((settings) => {
+            settings.progress.forEach((rangedProgress) => {
+                startProgress = Math.min(startProgress, rangedProgress.from);
+                endProgress = Math.max(endProgress, rangedProgress.to);
+            });
+        });
+
+        const properties: Array<CssVarKeyframeSet> = [];
+        for (let i = 0; i < interpolations.length; i++) {
+            const property = cssVarKeyframes.compileProperty(
+                interpolations[i], startProgress, endProgress);
+            if (!property) {
+                return null;
+            }
+            properties.push(property);
+        }
+
+        return {
+            startProgress: startProgress,
+            endProgress: endProgress,
+            properties: properties
+        };
+    }
+
+
+    /**
+     * Registers the css variable so the browser knows how to interpolate it.
+     * Variables that are already registered are left as is.
+     * @param property
+     */
+    static register(property: CssVarKeyframeSet) {
+        if (!property.syntax) {
+            return;
+        }
+        try {
+            window['CSS'].registerProperty({
+                name: property.id,
+                syntax: property.syntax,
+                inherits: true,
+                initialValue: property.initialValue
+            });
+        } catch (e) {
+            // Already registered.
+        }
+    }
+
+
+    private static compileProperty(settings: interpolateSettings,
+        startProgress: number, endProgress: number): CssVarKeyframeSet | null {
+        if (settings.onUpdate || !settings.progress.length) {
+            return null;
+        }
+
+        const syntax = settings.noInterpolation ?
+            null : cssVarKeyframes.getProgressSyntax(settings.progress);
+        if (!settings.noInterpolation && !syntax) {
+            return null;
+        }
+
+        // Every from / to value is a point at which the matching ranged
+        // progress can change.
+        const index =
+            multiInterpolateHelper.createRangedProgressIndex(settings.progress);
+        // mathf.childProgress clamps the distance from the start to 1 so
+        // ranged progresses longer than 1 stop changing at from + 1.
+        const clampPoints = settings.progress
+            .filter((rangedProgress) => rangedProgress.to - rangedProgress.from > 1)
+            .map((rangedProgress) => rangedProgress.from + 1);
+        const points = [
+            startProgress, ...index.breakpoints, ...clampPoints, endProgress
+        ]
+            .sort((a, b) => a - b)
+            .filter((point, i, list) => i == 0 || point != list[i - 1]);
+
+        const keyframes: Array<Keyframe> = [];
+        const toOffset = (progress: number) => {
+            return (progress - startProgress) / (endProgress - startProgress);
+        };
+
+        for (let i = 0; i < points.length - 1; i++) {
+            const from = points[i];
+            const to = points[i + 1];
+            const rangedProgress = settings.progress[
+                multiInterpolateHelper.findIndexedRangedProgress(from, index)];
+            const span = cssVarKeyframes.compileSpan(
+                settings, rangedProgress, from, to);
+
+            // Reuse the previous keyframe if the value doesn't jump.
+            const previous = keyframes[keyframes.length - 1];
+            if (previous && previous[settings.id] == span.start) {
+                previous.easing = span.easing;
+            } else {
+                keyframes.push({
+                    offset: toOffset(from),
+                    easing: span.easing,
+                    [settings.id]: span.start
+                });
+            }
+            keyframes.push({
+                offset: toOffset(to),
+                easing: 'linear',
+                [settings.id]: span.end
+            });
+        }
+
+        return {
+            id: settings.id,
+            syntax: syntax,
+            initialValue: keyframes[0][settings.id] as string,
+            keyframes: keyframes
+        };
+    }
+
+
+    /**
+     * Returns the shared syntax of all start / end values of the ranged
+     * progresses or null if they don't share one.
+     */
+    private static getProgressSyntax(progress: Array<rangedProgress>):
+        string | null {
+        const syntaxes: Array<string | null> = [];
+        progress.forEach((rangedProgress) => {
+            syntaxes.push(
+                cssVarKeyframes.getSyntax(rangedProgress.start),
+                cssVarKeyframes.getSyntax(rangedProgress.end));
+        });
+
+        const syntax = syntaxes[0];
+        if (!syntax || syntaxes.some((value) => value != syntax)) {
+            return null;
+        }
+
+        // Registered colors are interpolated in oklab by the browser.
+        if (syntax == '<color>' && progress.some((rangedProgress) => {
+            return rangedProgress.colorSpace != ColorSpaces.oklab;
+        })) {
+            return null;
+        }
+
+        return syntax;
+    }
+
+
+    /**
+     * Calculates the values and easing of the span between two progress
+     * points.
+     */
+    private static compileSpan(settings: interpolateSettings,
+        rangedProgress: rangedProgress, from: number, to: number):
+        { start: string, end: string, easing: string } {
+
+        if (settings.noInterpolation) {
+            const value = mathf.isBetween((from + to) / 2,
+                rangedProgress.from, rangedProgress.to, true) ?
+                rangedProgress.end : settings.noInterpolationDefault;
+            return { start: String(value), end: String(value), easing: 'linear' };
+        }
+
+        const easingFunction = rangedProgress.easingFunction || EASE.linear;
+        const interpolate = new Interpolate({
+            from: rangedProgress.start,
+            to: rangedProgress.end,
+            easeFunction: easingFunction,
+            colorSpace: rangedProgress.colorSpace
+        });
+        const startChild =
+            mathf.childProgress(from, rangedProgress.from, rangedProgress.to);
+        const endChild =
+            mathf.childProgress(to, rangedProgress.from, rangedProgress.to);
+
+        return {
+            start: String(interpolate.calculate(startChild)),
+            end: String(interpolate.calculate(endChild)),
+            easing: cssVarKeyframes.getSpanEasing(
+                easingFunction, startChild, endChild)
+        };
+    }
+
+
+    /**
+     * Returns the css easing of the part of an easing function between two
+     * child progress values.
+     */
+    private static getSpanEasing(easingFunction: Function,
+        startChild: number, endChild: number): string {
+        if (startChild == 0 && endChild == 1) {
+            return cssEasing.stringify(easingFunction);
+        }
+
+        const startValue = easingFunction(startChild);
+        const endValue = easingFunction(endChild);
+        if (startChild == endChild || startValue == endValue) {
+            return 'linear';
+        }
+
+        return cssEasing.toLinear((progress: number) => {
+            const value =
+                easingFunction(mathf.lerp(startChild, endChild, progress));
+            return (value - startValue) / (endValue - startValue);
+        });
+    }
+}
@@ -0,0 +1,159 @@
+import {
+    interpolateValidator,
+    InterpolateDiagnosticTypes,
+    InterpolateDiagnosticSeverities
+} from './interpolate-validator';
+import test from 'ava';
+
+const types = (diagnostics: Array<any>) => {
+    return diagnostics.map((diagnostic) => diagnostic.type);
+}
+
+test('valid config has no diagnostics', t => {
+    const diagnostics = interpolateValidator.validate({
+        interpolations: [
+            {
+                id: '--x',
+                progress: [
+                    { from: 0, to: 0.5, start: '0px', end: '10px' },
+                    { from: 0.5, to: 1, start: '10px', end: '0px' },
+                ]
+            },
+            {
+                id: '--opacity',
+                progress: [{ from: 0, to: 1, start: 0, end: 1 }]
+            },
+            {
+                id: '--color',
+                progress: [{ from: 0, to: 1, start: 'red', end: '#00F' }]
+            },
+            {
+                id: '--transform',
+                progress: [{
+                    from: 0, to: 1,
+                    start: 'translateX(0px) rotate(0deg)',
+                    end: 'translateX(10%) rotate(90deg)'
+                }]
+            },
+        ]
+    });
+    t.deepEqual(diagnostics, []);
+});
+
+test('ranges', t => {
+    const diagnostics = interpolateValidator.validate([
+        {
+            id: '--x',
+            progress: [
+                { from: 0.1, to: 0.4, start: 1, end: 1 },
+                { from: 0.3, to: 0.6, start: 1, end: 1 },
+                { from: 0.7, to: 0.8, start: 1, end: 1 },
+                { from: 0.8, to: 0.9, start: 0, end: 1 },
+                { from: 0.5, to: 0.6, start: 1, end: 1 },
+                { from: 0.2, to: 0.2, start: 1, end: 1 },
+                { from: 0.5, to: 0.3, start: 1, end: 1 },
+            ]
+        }
+    ]);
+
+    t.deepEqual(types(diagnostics), [
+        InterpolateDiagnosticTypes.overlap,
+        InterpolateDiagnosticTypes.gap,
+        InterpolateDiagnosticTypes.jump,
+        InterpolateDiagnosticTypes.outOfOrder,
+        InterpolateDiagnosticTypes.fromToEqual,
+        InterpolateDiagnosticTypes.fromGreater,
+    ]);
+    t.deepEqual(diagnostics.map((diagnostic) => diagnostic.segment),
+        [1, 2, 3, 4, 5, 6]);
+    t.is(diagnostics[0].id, '--x');
+    t.is(diagnostics[0].severity, InterpolateDiagnosticSeverities.warning);
+    t.is(diagnostics[0].suggestion,
+        'Start the segment at 0.4 or end the previous segment at 0.3.');
+});
+
+test('values', t => {
+    const diagnostics = interpolateValidator.validate([
+        {
+            id: '--a',
+            progress: [{ from: 0, to: 1, start: '10px', end: '2vh' }]
+        },
+        {
+            id: '--b',
+            progress: [{ from: 0, to: 1, start: 'red', end: '10px' }]
+        },
+        {
+            id: '--c',
+            progress: [{ from: 0, to: 1, start: 0, end: '10px' }]
+        },
+        {
+            id: '--d',
+            progress: [{ from: 0, to: 1, start: '0', end: '10px' }]
+        },
+        {
+            id: '--e',
+            progress: [{ from: 0, to: 1, start: 'scale(1)', end: 'rotate(1deg)' }]
+        },
+        {
+            id: '--f',
+            progress: [{ from: 0, to: 1, start: 'auto', end: '10px' }]
+        },
+    ]);
+
+    t.deepEqual(types(diagnostics), [
+        InterpolateDiagnosticTypes.unitMismatch,
+        InterpolateDiagnosticTypes.typeMismatch,
+        InterpolateDiagnosticTypes.typeMismatch,
+        InterpolateDiagnosticTypes.unitMismatch,
+        InterpolateDiagnosticTypes.structureMismatch,
+        InterpolateDiagnosticTypes.typeMismatch,
+    ]);
+    t.is(diagnostics[3].suggestion,
+        'Add the unit to both values such as \'0px\' and \'10px\'.');
+});
+
+test('noInterpolation', t => {
+    const diagnostics = interpolateValidator.validate([
+        {
+            id: '--display',
+            noInterpolation: true,
+            progress: [
+                { from: 0, to: 0.2, start: 'none', end: 'block' },
+                { from: 0.5, to: 1, start: 'none', end: 'none' },
+            ]
+        },
+    ]);
+    t.deepEqual(types(diagnostics), [
+        InterpolateDiagnosticTypes.noInterpolation,
+        InterpolateDiagnosticTypes.noInterpolation,
+        InterpolateDiagnosticTypes.gap,
+    ]);
+    t.is(diagnostics[0].segment, -1);
+});
+
+test('check throws in strict mode', t => {
+    const config = [
+        {
+            id: '--x',
+            progress: [{ from: 0, to: 1, start: '10px', end: '2vh' }]
+        }
+    ];
+
+    const error = t.throws(() => {
+        interpolateValidator.check(config, { strict: true });
+    });
+    t.true(error.message.includes('[error] --x segment 0'));
+
+    // Info diagnostics don't throw.
+    t.notThrows(() => {
+        interpolateValidator.check([
+            {
+                id: '--x',
+                progress: [
+                    { from: 0, to: 0.2, start: 0, end: 1 },
+                    { from: 0.5, to: 1, start: 1, end: 0 },
+                ]
+            }
+        ], { strict: true });
+    });
+});
@@ -0,0 +1,414 @@
+import { is } from '../is/is';
+import { cssUnit, CssUnitObjectTypes } from '../string/css-unit';
+import { CompoundInterpolate } from './compound-interpolate';
+import {
+    interpolateSettings,
+    multiInterpolateConfig,
+    multiInterpolateHelper,
+    rangedProgress
+} from './multi-interpolate';
+
+
+/**
+ * The kinds of problems [[interpolateValidator]] reports.
+ */
+export enum InterpolateDiagnosticTypes {
+    /**
+     * A ranged progress where from equals to.
+     */
+    fromToEqual = 'fromToEqual',
+
+    /**
+     * A ranged progress where from is greater than to.
+     */
+    fromGreater = 'fromGreater',
+
+    /**
+     * A ranged progress that starts before the previous one.
+     */
+    outOfOrder = 'outOfOrder',
+
+    /**
+     * A ranged progress that starts before the previous one ends.
+     */
+    overlap = 'overlap',
+
+    /**
+     * A gap between two ranged progresses.  The previous end value is held
+     * during the gap.
+     */
+    gap = 'gap',
+
+    /**
+     * Two ranged progresses that meet but the end value of the first doesn't
+     * match the start value of the second so the value jumps.
+     */
+    jump = 'jump',
+
+    /**
+     * start and end have different units such as '10px' and '2vh'.
+     */
+    unitMismatch = 'unitMismatch',
+
+    /**
+     * start and end are different types such as a color and a number.
+     */
+    typeMismatch = 'typeMismatch',
+
+    /**
+     * start and end are compound values that don't share the same structure
+     * and will switch at 0.5 instead of interpolating.
+     */
+    structureMismatch = 'structureMismatch',
+
+    /**
+     * A noInterpolation setting with a problem.
+     */
+    noInterpolation = 'noInterpolation',
+}
+
+
+export enum InterpolateDiagnosticSeverities {
+    /**
+     * The config is broken and will throw or produce garbage values.
+     */
+    error = 'error',
+
+    /**
+     * The config works but probably doesn't do what was intended.
+     */
+    warning = 'warning',
+
+    /**
+     * Worth knowing about but often intended.
+     */
+    info = 'info',
+}
+
+
+export interface InterpolateDiagnostic {
+    /**
+     * The id of the interpolation.
+     */
+    id: string;
+
+    /**
+     * The index of the ranged progress within the interpolation.
+     */
+    segment: number;
+
+    type: InterpolateDiagnosticTypes;
+
+    severity: InterpolateDiagnosticSeverities;
+
+    /**
+     * What is wrong.
+     */
+    message: string;
+
+    /**
+     * How to fix it.
+     */
+    suggestion: string;
+}
+
+
+export interface interpolateValidatorOptions {
+    /**
+     * Throws when there are errors or warnings instead of logging them.
+     * Intended for dev builds.  Defaults to false.
+     */
+    strict?: boolean;
+
+    /**
+     * Whether info diagnostics are logged.  Defaults to false.
+     */
+    verbose?: boolean;
+}
+
+
+/**
+ * Validates [[MultiInterpolate]] configs and returns diagnostics that
+ * describe each problem and how to fix it.
+ *
+ * [[multiInterpolateHelper.checkInvalidRangedProgresses]] only throws on
+ * ranges that can never work.  The validator also finds overlapping ranges,
+ * gaps, jumps, unit mismatches and color / number mixes that otherwise
+ * silently produce garbage values.
+ *
+ * ```ts
+ * const diagnostics = interpolateValidator.validate({
+ *   interpolations: [
+ *     {
+ *       id: '--x',
+ *       progress: [
+ *         { from: 0, to: 0.5, start: '10px', end: '2vh' },
+ *         { from: 0.4, to: 1, start: '2vh', end: '0vh' },
+ *       ]
+ *     }
+ *   ]
+ * });
+ *
+ * // [
+ * //   { id: '--x', segment: 0, type: 'unitMismatch', severity: 'error', ... },
+ * //   { id: '--x', segment: 1, type: 'overlap', severity: 'warning', ... },
+ * // ]
+ *
+ * console.log(interpolateValidator.format(diagnostics));
+ * ```
+ *
+ * Use check to log the diagnostics or throw in strict mode.
+ * ```ts
+ * interpolateValidator.check(config, { strict: isDevBuild });
+ * ```
+ *
+ * @tested
+ */
+export class interpolateValidator {
+
+    /**
+     * Validates a multiInterpolateConfig or a list of interpolateSettings.
+     * @param config
+     */
+    static validate(config: multiInterpolateConfig | Array<interpolateSettings>):
+        Array<InterpolateDiagnostic> {
+        const interpolations = is.array(config) ?
+            config as Array<interpolateSettings> :
+            (config as multiInterpolateConfig).interpolations;
+
+        const diagnostics: Array<InterpolateDiagnostic> = [];
+        (interpolations || []).forEach((settings) => {
+            diagnostics.push(...interpolateValidator.validateSettings(settings));
+        });
+        return diagnostics;
+    }
+
+
+    /**
+     * Validates a single interpolateSettings.
+     * @param settings
+     */
+    static validateSettings(settings: interpolateSettings):
+        Array<InterpolateDiagnostic> {
+        const diagnostics: Array<InterpolateDiagnostic> = [];
+        const add = (segment: number, type: InterpolateDiagnosticTypes,
+            severity: InterpolateDiagnosticSeverities, message: string,
+            suggestion: string) => {
+            diagnostics.push({
+                id: settings.id,
+                segment: segment,
+                type: type,
+                severity: severity,
+                message: message,
+                suggestion: suggestion
+            });
+        };
+
+        if (settings.noInterpolation && !settings.noInterpolationDefault) {
+            add(-1, InterpolateDiagnosticTypes.noInterpolation,
+                InterpolateDiagnosticSeverities.error,
+                'noInterpolation is set without a noInterpolationDefault.',
+                'Add a noInterpolationDefault value.');
+        }
+
+        (settings.progress || []).forEach((progress, i) => {
+            const range = interpolateValidator.formatRange(progress);
+
+            if (progress.from == progress.to) {
+                add(i, InterpolateDiagnosticTypes.fromToEqual,
+                    InterpolateDiagnosticSeverities.error,
+                    `${range}: ${multiInterpolateHelper.errors.FROM_TO_EQUAL}`,
+                    'Remove the segment or give it a length.');
+            } else if (progress.from > progress.to) {
+                add(i, InterpolateDiagnosticTypes.fromGreater,
+                    InterpolateDiagnosticSeverities.error,
+                    `${range}: ${multiInterpolateHelper.errors.FROM_GREATER}`,
+                    `Swap the values to from: ${progress.to}, to: ${progress.from}.`);
+            }
+
+            if (settings.noInterpolation) {
+                if (progress.start !== progress.end) {
+                    add(i, InterpolateDiagnosticTypes.noInterpolation,
+                        InterpolateDiagnosticSeverities.warning,
+                        `${range}: start (${progress.start}) and end ` +
+                        `(${progress.end}) differ in noInterpolation mode. ` +
+                        'Only end is used.',
+                        `Set start to ${progress.end}.`);
+                }
+            } else {
+                interpolateValidator.validateValues(progress, i, add);
+            }
+
+            // Only compare valid neighbors.
+            const previous = settings.progress[i - 1];
+            if (i == 0 || progress.from >= progress.to ||
+                previous.from >= previous.to) {
+                return;
+            }
+
+            const previousRange = interpolateValidator.formatRange(previous);
+            if (progress.from < previous.from) {
+                add(i, InterpolateDiagnosticTypes.outOfOrder,
+                    InterpolateDiagnosticSeverities.warning,
+                    `${range} starts before the previous segment ${previousRange}.`,
+                    'Order the progress by from.');
+            } else if (progress.from < previous.to) {
+                add(i, InterpolateDiagnosticTypes.overlap,
+                    InterpolateDiagnosticSeverities.warning,
+                    `${range} overlaps the previous segment ${previousRange}.`,
+                    `Start the segment at ${previous.to} or end the previous ` +
+                    `segment at ${progress.from}.`);
+            } else if (progress.from > previous.to) {
+                add(i, InterpolateDiagnosticTypes.gap,
+                    InterpolateDiagnosticSeverities.info,
+                    `Gap between ${previousRange} and ${range}. ` +
+                    `${previous.end} is held during the gap.`,
+                    `Start the segment at ${previous.to} if the gap isn't intended.`);
+            } else if (!settings.noInterpolation &&
+                String(progress.start) != String(previous.end)) {
+                add(i, InterpolateDiagnosticTypes.jump,
+                    InterpolateDiagnosticSeverities.info,
+                    `The value jumps from ${previous.end} to ${progress.start} ` +
+                    `at ${progress.from}.`,
+                    `Set start to ${previous.end} if the jump isn't intended.`);
+            }
+        });
+
+        return diagnostics;
+    }
+
+
+    /**
+     * Formats diagnostics into human readable lines.
+     * @param diagnostics
+     */
+    static format(diagnostics: Array<InterpolateDiagnostic>): string {
+        return diagnostics.map((diagnostic) => {
+            const segment = diagnostic.segment >= 0 ?
+                ` segment ${diagnostic.segment}` : '';
+            return `[${diagnostic.severity}] ${diagnostic.id}${segment}: ` +
+                `${diagnostic.message} ${diagnostic.suggestion}`;
+        }).join('\n');
+    }
+
+
+    /**
+     * Validates a config and logs the diagnostics to the console.  In strict
+     * mode, throws an error listing every error and warning instead.
+     *
+     * ```ts
+     * const data = JSON.parse(element.getAttribute('css-parallax'));
+     * interpolateValidator.check(data['interpolations'], { strict: true });
+     * ```
+     *
+     * @param config
+     * @param options
+     * @return The diagnostics.
+     */
+    static check(config: multiInterpolateConfig | Array<interpolateSettings>,
+        options: interpolateValidatorOptions = {}): Array<InterpolateDiagnostic> {
+        const diagnostics = interpolateValidator.validate(config);
+        const problems = diagnostics.filter((diagnostic) => {
+            return options.verbose ||
+                diagnostic.severity != InterpolateDiagnosticSeverities.info;
+        });
+
+        if (problems.length) {
+            if (options.strict &&
+                problems.some((diagnostic) => {
+                    return diagnostic.severity != InterpolateDiagnosticSeverities.info;
+                })) {
+                throw new Error(
+                    'Invalid interpolations:\n' + interpolateValidator.format(problems));
+            }
+            console.warn(interpolateValidator.format(problems));
+        }
+
+        return diagnostics;
+    }
+
+
+    /**
+     * Checks that start and end of a ranged progress can be interpolated.
+     */
+    private static validateValues(progress: rangedProgress, segment: number,
+        add: Function) {
+        const range = interpolateValidator.formatRange(progress);
+        const start = progress.start;
+        const end = progress.end;
+
+        if (is.number(start) || is.number(end)) {
+            if (!is.number(start) || !is.number(end)) {
+                add(segment, InterpolateDiagnosticTypes.typeMismatch,
+                    InterpolateDiagnosticSeverities.error,
+                    `${range}: Can't interpolate the number ${is.number(start) ? start : end} ` +
+                    `with the string '${is.number(start) ? end : start}'.`,
+                    'Use numbers for both start and end or add a unit to both.');
+            }
+            return;
+        }
+
+        if (CompoundInterpolate.isCompound(start as string, end as string)) {
+            const compound =
+                new CompoundInterpolate(start as string, end as string);
+            if (!compound.isInterpolable()) {
+                add(segment, InterpolateDiagnosticTypes.structureMismatch,
+                    InterpolateDiagnosticSeverities.warning,
+                    `${range}: '${start}' and '${end}' don't share the same ` +
+                    'structure and will switch at the midpoint instead of ' +
+                    'interpolating.',
+                    'Use the same functions in the same order in both values.');
+            }
+            return;
+        }
+
+        const from = cssUnit.parse(start as string);
+        const to = cssUnit.parse(end as string);
+
+        if (from.valueType != to.valueType) {
+            add(segment, InterpolateDiagnosticTypes.typeMismatch,
+                InterpolateDiagnosticSeverities.error,
+                `${range}: Can't interpolate '${start}' (${from.valueType}) ` +
+                `with '${end}' (${to.valueType}).`,
+                'Use colors for both start and end or numbers for both.');
+            return;
+        }
+
+        if (from.valueType == CssUnitObjectTypes.rgba) {
+            if (!from.value || !to.value) {
+                add(segment, InterpolateDiagnosticTypes.typeMismatch,
+                    InterpolateDiagnosticSeverities.error,
+                    `${range}: '${!from.value ? start : end}' is not a valid color.`,
+                    'Use a valid css color.');
+            }
+            return;
+        }
+
+        if (from.value === null || to.value === null || isNaN(from.value as number) ||
+            isNaN(to.value as number)) {
+            add(segment, InterpolateDiagnosticTypes.typeMismatch,
+                InterpolateDiagnosticSeverities.error,
+                `${range}: '${from.value === null || isNaN(from.value as number) ? start : end}' ` +
+                'is not a number or css unit.',
+                'Use a number with a unit such as \'10px\'.');
+            return;
+        }
+
+        if (from.unit != to.unit) {
+            const unit = from.unit || to.unit;
+            add(segment, InterpolateDiagnosticTypes.unitMismatch,
+                InterpolateDiagnosticSeverities.error,
+                `${range}: '${start}' and '${end}' have different units.`,
+                !from.unit || !to.unit ?
+                    `Add the unit to both values such as '${from.value}${unit}' ` +
+                    `and '${to.value}${unit}'.` :
+                    'Use the same unit for start and end or wrap them in a ' +
+                    `compound value such as 'translateY(${start})'.`);
+        }
+    }
+
+
+    private static formatRange(progress: rangedProgress): string {
+        return `(${progress.from} - ${progress.to})`;
+    }
+}
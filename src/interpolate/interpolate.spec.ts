@@ -1,6 +1,7 @@
 import { Interpolate } from './interpolate';
 import { mathf } from '../mathf/mathf';
 import { EASE } from '../ease/ease';
+import { ColorSpaces } from '../mathf/color';
 import test from 'ava';
 
 test('linear interpolation', t => {
@@ -117,3 +118,87 @@ test('color interpolation rgb', t => {
     });
     t.is(inter.calculate(0.5), 'rgba(127, 127, 127, 1)');
 });
+
+
+test('color interpolation css color 4', t => {
+    let inter = new Interpolate({
+        from: 'hsl(0 100% 50%)',
+        to: 'blue',
+        easeFunction: EASE.linear
+    });
+    t.is(inter.calculate(0.5), 'rgba(127, 0, 127, 1)');
+});
+
+test('color interpolation color space', t => {
+    let inter = new Interpolate({
+        from: 'red',
+        to: 'lime',
+        easeFunction: EASE.linear,
+        colorSpace: ColorSpaces.hsl
+    });
+    t.is(inter.calculate(0.5), 'rgba(255, 255, 0, 1)');
+
+    inter = new Interpolate({
+        from: 'white',
+        to: 'black',
+        easeFunction: EASE.linear,
+        colorSpace: ColorSpaces.srgbLinear
+    });
+    t.is(inter.calculate(0.5), 'rgba(188, 188, 188, 1)');
+
+    inter = new Interpolate({
+        from: '0 0 4px red',
+        to: '0 0 4px lime',
+        easeFunction: EASE.linear,
+        colorSpace: ColorSpaces.hsl
+    });
+    t.is(inter.calculate(0.5), '0 0 4px rgba(255, 255, 0, 1)');
+});
+
+
+test('compound interpolation', t => {
+    let inter = new Interpolate({
+        from: 'translate3d(0px, 20%, 0) rotate(0deg)',
+        to: 'translate3d(100px, 40%, 0) rotate(90deg)',
+        easeFunction: EASE.linear
+    });
+    t.is(inter.calculate(0), 'translate3d(0px, 20%, 0) rotate(0deg)');
+    t.is(inter.calculate(0.5), 'translate3d(50px, 30%, 0) rotate(45deg)');
+    t.is(inter.calculate(1), 'translate3d(100px, 40%, 0) rotate(90deg)');
+
+    inter = new Interpolate({
+        from: 'blur(0px) brightness(1)',
+        to: 'blur(4px) brightness(1.2)',
+        easeFunction: EASE.linear
+    });
+    t.is(inter.calculate(0.5), 'blur(2px) brightness(1.1)');
+
+    inter = new Interpolate({
+        from: '0 0 0 rgba(0, 0, 0, 0)',
+        to: '10px 20px 30px rgba(0, 0, 0, 0.4)',
+        easeFunction: EASE.linear
+    });
+    t.is(inter.calculate(0.5), '5px 10px 15px rgba(0, 0, 0, 0.2)');
+});
+
+
+test('compound interpolation mixes units with calc', t => {
+    const inter = new Interpolate({
+        from: 'inset(0% 0% 0% 0%)',
+        to: 'inset(10% 20px 10% 20px)',
+        easeFunction: EASE.linear
+    });
+    t.is(inter.calculate(0.5), 'inset(5% calc(0% + 10px) 5% calc(0% + 10px))');
+    t.is(inter.calculate(1), 'inset(10% 20px 10% 20px)');
+});
+
+
+test('compound interpolation switches when structures differ', t => {
+    const inter = new Interpolate({
+        from: 'rotate(0deg)',
+        to: 'scale(2) rotate(90deg)',
+        easeFunction: EASE.linear
+    });
+    t.is(inter.calculate(0.4), 'rotate(0deg)');
+    t.is(inter.calculate(0.6), 'scale(2) rotate(90deg)');
+});
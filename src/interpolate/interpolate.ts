@@ -1,8 +1,9 @@
 
 import { mathf } from '../mathf/mathf';
 import { is } from '../is/is';
-import { color, ColorRGBA } from '../mathf/color';
-import { cssUnit, CssUnitObjectTypes } from '../string/css-unit';
+import { color, ColorRGBA, ColorSpaces } from '../mathf/color';
+import { cssUnit, CssUnitObject, CssUnitObjectTypes } from '../string/css-unit';
+import { CompoundInterpolate } from './compound-interpolate';
 
 export interface interpolateConfig {
     /**
@@ -23,6 +24,13 @@ export interface interpolateConfig {
      * @type {Function}
      */
     easeFunction: Function;
+
+    /**
+     * The color space colors are interpolated in.  Defaults to srgb.
+     * oklab and oklch avoid the muddy midpoints of srgb.
+     * @type {ColorSpaces}
+     */
+    colorSpace?: ColorSpaces;
 }
 
 /**
@@ -82,10 +90,11 @@ export interface interpolateConfig {
  *
  * Interpolate also uses [[cssUnit]] to interprete string values (as best as it
  * can).  You can pass basic css unit values such as '10px' or '10vw' as
- * from and to values.  Color values of rgba and hex are also supported.
+ * from and to values.  All css colors (hex, rgb, hsl, hwb, lab, lch, oklab,
+ * oklch, color() and named colors) are also supported.
  *
  *
- * It does NOT support cross unit interporalation at the moment such as
+ * It does NOT support cross unit interporalation of single values such as
  * from: '0px', to: '10vw'.  (Here the units don't match.)
  *
  * ```ts
@@ -103,6 +112,38 @@ export interface interpolateConfig {
  *      easeFunction: EASE.linear
  *  });
  *   inter.calculate(0.5) // 'rgba(127, 127, 127, 0.5)'
+ *
+ *
+ *  // Interpolate in a perceptual color space.
+ *  inter = new Interpolate({
+ *      from: 'blue',
+ *      to: 'yellow',
+ *      easeFunction: EASE.linear,
+ *      colorSpace: ColorSpaces.oklch
+ *  });
+ * ```
+ *
+ *
+ * Compound values.
+ *
+ * Transforms, filters, shadows, clip-paths and any other multi value string
+ * are interpolated token by token (see [[CompoundInterpolate]]).  Numbers with
+ * different units in compound values are mixed with calc().
+ *
+ * ```ts
+ * let inter = new Interpolate({
+ *   from: 'translate3d(0px, 20%, 0) rotate(0deg)',
+ *   to: 'translate3d(100px, 40%, 0) rotate(90deg)',
+ *   easeFunction: EASE.linear
+ * });
+ * inter.calculate(0.5);  // 'translate3d(50px, 30%, 0) rotate(45deg)'
+ *
+ * inter = new Interpolate({
+ *   from: 'inset(0% 0% 0% 0%)',
+ *   to: 'inset(10% 20px 10% 20px)',
+ *   easeFunction: EASE.linear
+ * });
+ * inter.calculate(0.5);  // 'inset(5% calc(0% + 10px) 5% calc(0% + 10px))'
  * ```
  *
  *
@@ -120,9 +161,35 @@ export class Interpolate {
      */
     public currentProgress: number;
 
+    /**
+     * The compound interpolator when from / to are compound css values.
+     */
+    private compound: CompoundInterpolate | null;
+
+    /**
+     * The parsed from / to css values.  Parsed once so calculate doesn't
+     * need to parse on every call.
+     */
+    private fromUnit: CssUnitObject | null;
+    private toUnit: CssUnitObject | null;
+
     constructor(private interpolateConfig: interpolateConfig) {
         this.currentValue = 0;
         this.currentProgress = 0;
+        this.compound = null;
+        this.fromUnit = null;
+        this.toUnit = null;
+
+        const from = this.interpolateConfig.from;
+        const to = this.interpolateConfig.to;
+        if (is.string(from) && is.string(to) &&
+            CompoundInterpolate.isCompound(from as string, to as string)) {
+            this.compound = new CompoundInterpolate(from as string, to as string,
+                this.interpolateConfig.colorSpace);
+        } else if (!is.number(from)) {
+            this.fromUnit = cssUnit.parse(from as string);
+            this.toUnit = cssUnit.parse(to as string);
+        }
 
         // Assume we start on preogress 0.
         this.calculate(0);
@@ -147,11 +214,15 @@ export class Interpolate {
                 this.interpolateConfig.to as number,
                 this.currentProgress,
                 this.interpolateConfig.easeFunction);
+        } else if (this.compound) {
+            this.currentValue = this.compound.calculate(
+                this.currentProgress,
+                this.interpolateConfig.easeFunction);
         } else {
             // If we are interpolating a string.
             // Use the from value to determine the type of cssUnit this is.
-            let from = cssUnit.parse(this.interpolateConfig.from as string);
-            let to = cssUnit.parse(this.interpolateConfig.to as string);
+            let from = this.fromUnit;
+            let to = this.toUnit;
 
             // If unit type, interpolate the values and append a unit.
             if (from.valueType == CssUnitObjectTypes.number) {
@@ -170,7 +241,8 @@ export class Interpolate {
                     from.value as ColorRGBA,
                     to.value as ColorRGBA,
                     this.currentProgress,
-                    this.interpolateConfig.easeFunction
+                    this.interpolateConfig.easeFunction,
+                    this.interpolateConfig.colorSpace
                 )
 
                 this.currentValue = color.rgbaToCss(interpolatedRgba);
@@ -0,0 +1,82 @@
+import { MultiInterpolate, multiInterpolateHelper, rangedProgress } from './multi-interpolate';
+import { bench } from '../debug/bench';
+import test from 'ava';
+
+/**
+ * Benchmarks the indexed ranged progress lookup of MultiInterpolate against
+ * the linear scan it replaced.  Run with `npm run bench`.
+ */
+
+const createProgress = (count: number): Array<rangedProgress> => {
+    const progress = [];
+    for (let i = 0; i < count; i++) {
+        progress.push({
+            from: i / count,
+            to: (i + 1) / count,
+            start: `${i}px`,
+            end: `${i + 1}px`,
+        });
+    }
+    return progress;
+}
+
+
+test('indexed lookup against the linear scan', t => {
+    const progress = createProgress(500);
+    const index = multiInterpolateHelper.createRangedProgressIndex(progress);
+    const frames = 5000;
+
+    let linearResult = 0;
+    const linear = bench.measureTime(() => {
+        for (let i = 0; i < frames; i++) {
+            const matched = multiInterpolateHelper.findBestMatchingRangedProgress(
+                i / frames, progress);
+            linearResult += matched.from;
+        }
+    });
+
+    let indexedResult = 0;
+    const indexed = bench.measureTime(() => {
+        for (let i = 0; i < frames; i++) {
+            const matched = progress[
+                multiInterpolateHelper.findIndexedRangedProgress(
+                    i / frames, index)];
+            indexedResult += matched.from;
+        }
+    });
+
+    t.log(`500 segments x ${frames} frames. linear: ${linear.toFixed(2)}ms ` +
+        `indexed: ${indexed.toFixed(2)}ms`);
+    t.is(indexedResult, linearResult);
+});
+
+
+test('calculate with hundreds of segments and staggers', t => {
+    const multiInterpolate = new MultiInterpolate({
+        interpolations: [
+            {
+                id: 'x',
+                progress: createProgress(300),
+                stagger: {
+                    count: 20,
+                    progressOffset: 0.001
+                }
+            }
+        ]
+    });
+
+    const frames = 500;
+    const time = bench.measureTime(() => {
+        for (let i = 0; i < frames; i++) {
+            multiInterpolate.calculate(i / frames);
+        }
+    });
+
+    t.log(`21 interpolations x 300 segments x ${frames} frames: ` +
+        `${time.toFixed(2)}ms`);
+
+    multiInterpolate.calculate(0.5);
+    t.is(multiInterpolate.getCalculations()['x'], '150px');
+    t.is(multiInterpolate.getCalculations()['x-0'], '150px');
+    t.is(multiInterpolate.getValueBuffer().length, 21);
+});
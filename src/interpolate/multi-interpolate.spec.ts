@@ -1,4 +1,10 @@
-import { MultiInterpolate, multiInterpolateHelper } from './multi-interpolate';
+import {
+    MultiInterpolate,
+    multiInterpolateHelper,
+    rangedProgress,
+    StaggerOrigins,
+    StaggerAxes
+} from './multi-interpolate';
 import { mathf } from '../mathf/mathf';
 import { EASE } from '../ease/ease';
 import test from 'ava';
@@ -60,6 +66,68 @@ test('FindBestMatchingRangedProgress', t => {
 
 });
 
+test('findIndexedRangedProgress matches findBestMatchingRangedProgress', t => {
+    let progressSets: Array<Array<rangedProgress>> = [
+        [
+            { from: 0.1, to: 0.4, start: 0, end: 0 },
+            { from: 0.4, to: 0.5, start: 0, end: 0 },
+            { from: 0.7, to: 0.8, start: 0, end: 0 },
+            { from: 0.8, to: 0.9, start: 0, end: 0 },
+        ],
+        // Overlapping and out of order.
+        [
+            { from: 0.3, to: 0.6, start: 0, end: 0 },
+            { from: 0.2, to: 0.4, start: 0, end: 0 },
+            { from: 0.5, to: 1, start: 0, end: 0 },
+            { from: 0, to: 0.1, start: 0, end: 0 },
+        ],
+    ]
+
+    progressSets.forEach((progressSet) => {
+        const index =
+            multiInterpolateHelper.createRangedProgressIndex(progressSet);
+        // Walk forward, backward and jump around to exercise the hint.
+        const steps = [];
+        for (let i = -10; i <= 110; i++) {
+            steps.push(i / 100);
+        }
+        [...steps, ...steps.reverse(), 0.9, 0.05, 0.45, 1, -1, 0.4]
+            .forEach((progress) => {
+                t.is(
+                    progressSet[multiInterpolateHelper.findIndexedRangedProgress(
+                        progress, index)],
+                    multiInterpolateHelper.findBestMatchingRangedProgress(
+                        progress, progressSet)
+                );
+            });
+    });
+});
+
+test('Multi Interpolation value buffer', t => {
+    let inter = new MultiInterpolate({
+        interpolations: [
+            {
+                id: 'x',
+                progress: [{ from: 0, to: 1, start: 0, end: 100 }]
+            },
+            {
+                id: 'y',
+                progress: [{ from: 0, to: 1, start: '0px', end: '10px' }]
+            }
+        ]
+    });
+
+    const buffer = inter.getValueBuffer();
+    inter.calculate(0.5);
+    t.deepEqual(inter.getIds(), ['x', 'y']);
+    t.deepEqual(buffer, [50, '5px']);
+
+    // The same buffer is reused.
+    inter.calculate(1);
+    t.is(inter.getValueBuffer(), buffer);
+    t.deepEqual(buffer, [100, '10px']);
+});
+
 test('Basic Multi Interpolation (linear)', t => {
     let inter = new MultiInterpolate({
         interpolations: [
@@ -199,4 +267,88 @@ test('Multi Interpolation Complex', t => {
     t.is(Math.round(inter.calculate(1)['x']), Math.round(8000));
     t.is(Math.round(inter.calculate(1)['y']), Math.round(100));
     t.is(Math.round(inter.calculate(1)['z']), Math.round(100));
-})
\ No newline at end of file
+})
+
+test('Stagger offsets', t => {
+    const round = (values: Array<number>) => {
+        return values.map((value) => mathf.roundToPrecision(value, 4));
+    }
+
+    t.deepEqual(
+        multiInterpolateHelper.getStaggerOffsets({ count: 4, progressOffset: 0.1 }),
+        [0, 0.1, 0.2, 0.30000000000000004]);
+
+    // Origins.
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 5, progressOffset: 0.1, from: StaggerOrigins.center
+    })), [0.2, 0.1, 0, 0.1, 0.2]);
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 3, progressOffset: 0.1, from: StaggerOrigins.end
+    })), [0.2, 0.1, 0]);
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 4, progressOffset: 0.1, from: 1
+    })), [0.1, 0, 0.1, 0.2]);
+
+    // Total span.  The last stagger finishes at endProgress.
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 5, endProgress: 1
+    }, 0.6)), [0, 0.1, 0.2, 0.3, 0.4]);
+    t.throws(() => {
+        multiInterpolateHelper.getStaggerOffsets({ count: 5, endProgress: 0.5 }, 0.6);
+    });
+
+    // Distribution.
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 3, progressOffset: 0.1, distribution: EASE.easeInQuad
+    })), [0, 0.05, 0.2]);
+
+    // Grid.  A 2 x 3 grid from the first cell.
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 6, progressOffset: 0.1, grid: [2, 3]
+    })), [0, 0.1, 0.2, 0.1, 0.1414, 0.2236]);
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 6, progressOffset: 0.1, grid: [2, 3], axis: StaggerAxes.y
+    })), [0, 0, 0, 0.1, 0.1, 0.1]);
+    t.deepEqual(round(multiInterpolateHelper.getStaggerOffsets({
+        count: 9, progressOffset: 0.1, grid: [3, 3], from: StaggerOrigins.center,
+        axis: StaggerAxes.x
+    })), [0.1, 0, 0.1, 0.1, 0, 0.1, 0.1, 0, 0.1]);
+
+    // Random is seeded.
+    const random = multiInterpolateHelper.getStaggerOffsets({
+        count: 10, progressOffset: 0.1, random: true, seed: 4
+    });
+    t.deepEqual(random, multiInterpolateHelper.getStaggerOffsets({
+        count: 10, progressOffset: 0.1, random: true, seed: 4
+    }));
+    t.notDeepEqual(random, multiInterpolateHelper.getStaggerOffsets({
+        count: 10, progressOffset: 0.1, random: true, seed: 5
+    }));
+    t.deepEqual([...round(random)].sort(),
+        round(multiInterpolateHelper.getStaggerOffsets({
+            count: 10, progressOffset: 0.1
+        })).sort());
+});
+
+test('Multi Interpolation stagger', t => {
+    let inter = new MultiInterpolate({
+        interpolations: [
+            {
+                id: 'x',
+                progress: [{ from: 0, to: 0.5, start: 0, end: 100 }],
+                stagger: {
+                    count: 3,
+                    from: StaggerOrigins.center,
+                    endProgress: 1
+                }
+            }
+        ]
+    });
+
+    const results = inter.calculate(0.5);
+    t.is(results['x'], 100);
+    t.is(results['x-0'], 0);
+    t.is(results['x-1'], 100);
+    t.is(results['x-2'], 0);
+    t.is(inter.calculate(1)['x-0'], 100);
+});
@@ -1,7 +1,10 @@
 
 import { mathf } from '../mathf/mathf';
 import { EASE } from '../ease/ease';
+import { ColorSpaces } from '../mathf/color';
 import { Interpolate } from './interpolate';
+import { is } from '../is/is';
+import { Random } from '../mathf/random';
 
 export interface rangedProgress {
     /**
@@ -26,6 +29,12 @@ export interface rangedProgress {
      */
     easingFunction?: Function;
 
+    /**
+     * The color space to interpolate colors in.  This is optional and
+     * defaults to srgb.  See [[ColorSpaces]].
+     */
+    colorSpace?: ColorSpaces;
+
 }
 
 export interface interpolateSettings {
@@ -79,7 +88,66 @@ export interface interpolateStaggerOptions {
     /**
      * The offset per stagger.
      */
-    progressOffset: number;
+    progressOffset?: number;
+
+    /**
+     * Total span mode.  The progress at which the last stagger should finish.
+     * The offsets are spread so the last stagger ends here instead of using
+     * progressOffset.
+     */
+    endProgress?: number;
+
+    /**
+     * Where the stagger starts from.  One of [[StaggerOrigins]] or an item
+     * index.  Defaults to start.
+     */
+    from?: StaggerOrigins | number;
+
+    /**
+     * A distribution function that reshapes the offsets.  Receives the
+     * normalized order (0-1) of a stagger and returns the normalized offset.
+     * Any easing function such as EASE.easeInQuad works.  Defaults to linear.
+     */
+    distribution?: Function;
+
+    /**
+     * Shuffles the order of the staggers.  The same seed always produces the
+     * same order.
+     */
+    random?: boolean;
+
+    /**
+     * The seed for random.  Defaults to 1.
+     */
+    seed?: number;
+
+    /**
+     * Staggers a 2d grid of [rows, columns] by the distance of each cell to
+     * the from origin.  Items are laid out row by row.
+     */
+    grid?: [number, number];
+
+    /**
+     * Limits a grid stagger to a single axis.  x staggers by column and y by
+     * row.
+     */
+    axis?: StaggerAxes;
+}
+
+
+/**
+ * Where a stagger starts from.
+ */
+export enum StaggerOrigins {
+    start = 'start',
+    center = 'center',
+    end = 'end',
+}
+
+
+export enum StaggerAxes {
+    x = 'x',
+    y = 'y',
 }
 
 export interface multiInterpolateConfig {
@@ -89,6 +157,53 @@ export interface multiInterpolateConfig {
     interpolations: Array<interpolateSettings>;
 }
 
+
+/**
+ * A lookup index of a list of ranged progresses created by
+ * [[multiInterpolateHelper.createRangedProgressIndex]].
+ *
+ * Every from and to value of the ranged progresses is a breakpoint.  The
+ * matching ranged progress can only change at a breakpoint so the index
+ * stores the matching ranged progress for each span between breakpoints.
+ */
+export interface rangedProgressIndex {
+    /**
+     * The sorted unique from / to values.
+     */
+    breakpoints: Array<number>;
+
+    /**
+     * The index of the matching ranged progress for each breakpoint span.
+     * segments[i] applies from breakpoints[i] until breakpoints[i + 1].
+     */
+    segments: Array<number>;
+
+    /**
+     * The index of the matching ranged progress before the first breakpoint.
+     */
+    firstSegment: number;
+
+    /**
+     * The last breakpoint span that was looked up.  Progress usually moves in
+     * small steps so this is checked before doing a binary search.
+     */
+    hint: number;
+}
+
+
+/**
+ * A compiled interpolateSettings.
+ */
+interface compiledInterpolation {
+    settings: interpolateSettings;
+    index: rangedProgressIndex;
+
+    /**
+     * Interpolate instances for each ranged progress.  Created on first use.
+     */
+    interpolates: Array<Interpolate | null>;
+}
+
 export const multiInterpolateHelper = {
 
     errors: {
@@ -152,6 +267,182 @@ export const multiInterpolateHelper = {
         })
 
         return matchedProgress;
+    },
+
+
+    /**
+     * Compiles a list of ranged progresses into an index so the best matching
+     * ranged progress can be looked up with a binary search instead of a
+     * linear scan.  Lookups on the index return the same ranged progress as
+     * [[multiInterpolateHelper.findBestMatchingRangedProgress]].
+     *
+     * ```ts
+     * const index = multiInterpolateHelper.createRangedProgressIndex(progress);
+     * const i = multiInterpolateHelper.findIndexedRangedProgress(0.5, index);
+     * progress[i]; // The best matching ranged progress.
+     * ```
+     *
+     * @param progress A list of ordered progresses.
+     */
+    createRangedProgressIndex(progress: Array<rangedProgress>): rangedProgressIndex {
+        const breakpoints: Array<number> = [];
+        progress.forEach((rangedProgress) => {
+            breakpoints.push(rangedProgress.from, rangedProgress.to);
+        });
+        breakpoints.sort((a, b) => a - b);
+
+        const uniqueBreakpoints = breakpoints.filter((breakpoint, i) => {
+            return i == 0 || breakpoint != breakpoints[i - 1];
+        });
+
+        // The matched progress only changes at breakpoints so resolve each
+        // span once with the linear scan.
+        const segments = uniqueBreakpoints.map((breakpoint) => {
+            return progress.indexOf(
+                multiInterpolateHelper.findBestMatchingRangedProgress(
+                    breakpoint, progress));
+        });
+
+        return {
+            breakpoints: uniqueBreakpoints,
+            segments: segments,
+            firstSegment: progress.length ? 0 : -1,
+            hint: 0
+        };
+    },
+
+
+    /**
+     * Finds the index of the best matching ranged progress in an index
+     * created with [[multiInterpolateHelper.createRangedProgressIndex]].
+     *
+     * @param {number} currentProgress A number between 0-1 representing progress.
+     * @param {rangedProgressIndex} index
+     * @return {number} The index of the best matching ranged progress.
+     */
+    findIndexedRangedProgress(currentProgress: number,
+        index: rangedProgressIndex): number {
+        const breakpoints = index.breakpoints;
+        const hint = index.hint;
+
+        // Check the last span first.
+        if (breakpoints[hint] <= currentProgress &&
+            (hint + 1 >= breakpoints.length ||
+                currentProgress < breakpoints[hint + 1])) {
+            return index.segments[hint];
+        }
+
+        // Binary search for the last breakpoint <= currentProgress.
+        let low = 0;
+        let high = breakpoints.length - 1;
+        let span = -1;
+        while (low <= high) {
+            const mid = (low + high) >> 1;
+            if (breakpoints[mid] <= currentProgress) {
+                span = mid;
+                low = mid + 1;
+            } else {
+                high = mid - 1;
+            }
+        }
+
+        if (span == -1) {
+            return index.firstSegment;
+        }
+
+        index.hint = span;
+        return index.segments[span];
+    },
+
+
+    /**
+     * Calculates the progress offset of each stagger item.
+     *
+     * ```ts
+     * // [0, 0.1, 0.2, 0.3]
+     * multiInterpolateHelper.getStaggerOffsets({ count: 4, progressOffset: 0.1 });
+     *
+     * // From the center. [0.1, 0, 0.1]
+     * multiInterpolateHelper.getStaggerOffsets({
+     *   count: 3, progressOffset: 0.1, from: StaggerOrigins.center
+     * });
+     * ```
+     *
+     * @param stagger The stagger options.
+     * @param progressEnd The largest to value of the progress being
+     *     staggered.  Used by endProgress.
+     * @return A list of offsets.  One per stagger.
+     */
+    getStaggerOffsets(stagger: interpolateStaggerOptions,
+        progressEnd: number = 1): Array<number> {
+        const count = stagger.count;
+        const columns = stagger.grid ? stagger.grid[1] : count;
+
+        // The position of an item.  1d staggers are a single row.
+        const position = (index: number): Array<number> => {
+            return [Math.floor(index / columns), index % columns];
+        };
+
+        let origin: Array<number>;
+        if (is.number(stagger.from)) {
+            origin = position(stagger.from as number);
+        } else if (stagger.from == StaggerOrigins.center) {
+            const rows = stagger.grid ? stagger.grid[0] : 1;
+            origin = [(rows - 1) / 2, (columns - 1) / 2];
+        } else if (stagger.from == StaggerOrigins.end) {
+            origin = position(count - 1);
+        } else {
+            origin = [0, 0];
+        }
+
+        let distances = [];
+        for (let i = 0; i < count; i++) {
+            const [row, column] = position(i);
+            const rowDistance = stagger.axis == StaggerAxes.x ? 0 : row - origin[0];
+            const columnDistance =
+                stagger.axis == StaggerAxes.y ? 0 : column - origin[1];
+            distances.push(
+                Math.sqrt(rowDistance * rowDistance + columnDistance * columnDistance));
+        }
+
+        if (stagger.random) {
+            distances = multiInterpolateHelper.shuffle(
+                distances, is.number(stagger.seed) ? stagger.seed : 1);
+        }
+
+        const maxDistance = Math.max(0, ...distances);
+        const progressOffset = stagger.progressOffset || 0;
+
+        // Per item offset without reshaping.
+        if (!stagger.distribution && !is.number(stagger.endProgress)) {
+            return distances.map((distance) => distance * progressOffset);
+        }
+
+        let span = maxDistance * progressOffset;
+        if (is.number(stagger.endProgress)) {
+            span = stagger.endProgress - progressEnd;
+            if (span < 0) {
+                throw new Error(
+                    'Stagger endProgress is before the end of the progress.');
+            }
+        }
+
+        return distances.map((distance) => {
+            let order = maxDistance ? distance / maxDistance : 0;
+            if (stagger.distribution) {
+                order = stagger.distribution(order);
+            }
+            return order * span;
+        });
+    },
+
+
+    /**
+     * Shuffles a list with a seeded random so the same seed always returns
+     * the same order.
+     */
+    shuffle<T>(list: Array<T>, seed: number): Array<T> {
+        return new Random(seed).shuffle(list);
     }
 
 }
@@ -234,6 +525,23 @@ export const multiInterpolateHelper = {
  *     }
  *
  *
+ *     // Staggers can also start from the center, end or an index, be
+ *     // reshaped with a distribution function, shuffled with a seed and
+ *     // laid out on a grid.  Here 12 cards in a 3 x 4 grid ripple out from
+ *     // the center and the last card finishes at 0.8 progress.
+ *     {
+ *       progress: [{ from: 0, to: 0.3, start: 0, end: 1 }]
+ *       id: 'card-opacity',
+ *       stagger: {
+ *           count: 12,
+ *           grid: [3, 4],
+ *           from: StaggerOrigins.center,
+ *           distribution: EASE.easeInQuad,
+ *           endProgress: 0.8
+ *       }
+ *     }
+ *
+ *
  *     // onUpdate also provides you hooks when values up.
  *     {
  *       progress: [{ from: 0, to: 0.3, start: '0px', end: '100px' }]
@@ -280,10 +588,28 @@ export class MultiInterpolate {
     private interpolations = Object;
     private config: multiInterpolateConfig;
 
+    /**
+     * The config compiled into ranged progress indexes.
+     */
+    private compiled: Array<compiledInterpolation>;
+
+    /**
+     * The interpolation ids in the same order as the value buffer.
+     */
+    private ids: Array<string>;
+
+    /**
+     * A flat buffer of the current values.  Reused on every calculate.
+     */
+    private values: Array<number | string>;
+
 
     constructor(multiInterpolaterConfig: multiInterpolateConfig) {
         this.parentProgress = 0;
         this.currentValues = {};
+        this.compiled = [];
+        this.ids = [];
+        this.values = [];
         this.config = multiInterpolaterConfig;
         this.updateConfig(this.config);
     }
@@ -327,6 +653,48 @@ export class MultiInterpolate {
 
                 return interpolateSettings;
             })
+
+        this.compile();
+    }
+
+
+    /**
+     * Compiles the config into a ranged progress index per interpolation so
+     * calculate doesn't need to scan every ranged progress.
+     */
+    private compile() {
+        this.compiled = this.config.interpolations.map(
+            (interpolateSettings: interpolateSettings) => {
+                return {
+                    settings: interpolateSettings,
+                    index: multiInterpolateHelper.createRangedProgressIndex(
+                        interpolateSettings.progress),
+                    interpolates:
+                        interpolateSettings.progress.map(() => null)
+                };
+            });
+        this.ids = this.config.interpolations.map((interpolateSettings) => {
+            return interpolateSettings.id;
+        });
+        this.values = this.ids.map(() => 0);
+    }
+
+
+    /**
+     * Gets or creates the Interpolate instance of a ranged progress.
+     */
+    private getInterpolate(compiled: compiledInterpolation,
+        segment: number): Interpolate {
+        if (!compiled.interpolates[segment]) {
+            const rangedProgress = compiled.settings.progress[segment];
+            compiled.interpolates[segment] = new Interpolate({
+                from: rangedProgress.start,
+                to: rangedProgress.end,
+                easeFunction: rangedProgress.easingFunction || EASE.linear,
+                colorSpace: rangedProgress.colorSpace
+            });
+        }
+        return compiled.interpolates[segment];
     }
 
 
@@ -341,13 +709,19 @@ export class MultiInterpolate {
 
             // If stagger is set, we are going to add a specific stagger count.
             if(item.stagger && !item.staggerItem) {
+                const progressEnd = Math.max(...item.progress.map((progress) => {
+                    return progress.to;
+                }));
+                const offsets = multiInterpolateHelper.getStaggerOffsets(
+                    item.stagger, progressEnd);
+
                 for (var i = 0; i < item.stagger.count; i++) {
                     const newItem = Object.assign({}, item);
 
                     newItem.progress = newItem.progress.map((progress)=> {
                         progress = Object.assign({}, progress);
-                        progress.to += i * item.stagger.progressOffset;
-                        progress.from += i * item.stagger.progressOffset;
+                        progress.to += offsets[i];
+                        progress.from += offsets[i];
                         newItem.id = item.id + '-' + i;
                         newItem.stagger = null;
                         newItem.staggerItem = true;
@@ -381,6 +755,41 @@ export class MultiInterpolate {
         return this.currentValues;
     }
 
+
+    /**
+     * Returns the interpolation settings with the staggers created.
+     */
+    getInterpolations(): Array<interpolateSettings> {
+        return this.config.interpolations;
+    }
+
+
+    /**
+     * Returns the interpolation ids in the order of [[getValueBuffer]].
+     */
+    getIds(): Array<string> {
+        return this.ids;
+    }
+
+
+    /**
+     * Returns the last known values as a flat array in the order of
+     * [[getIds]].  The same array is reused on every calculate so iterating
+     * it avoids object key lookups in hot loops.
+     *
+     * ```ts
+     * multiInterpolate.calculate(0.5);
+     * const ids = multiInterpolate.getIds();
+     * const values = multiInterpolate.getValueBuffer();
+     * for (let i = 0; i < ids.length; i++) {
+     *   console.log(ids[i], values[i]);
+     * }
+     * ```
+     */
+    getValueBuffer(): Array<number | string> {
+        return this.values;
+    }
+
     /**
      * Sets the current progress and returns all interpolations.
      * @param {number} The current progress.
@@ -390,106 +799,105 @@ export class MultiInterpolate {
     calculate(progress: number) {
         this.parentProgress = progress;
 
-        const previousValues = this.currentValues;
-
-        this.config.interpolations.forEach(
-            (config: interpolateSettings) => {
-                // Given the set of rangedProgress, find the best matching
-                // one based on the current progress.
-                const matchedRangeProgress =
-                    multiInterpolateHelper.findBestMatchingRangedProgress(
-                        this.parentProgress,
-                        config.progress
-                    );
-
-                // Now that we have a best matched rangedProgress, create
-                // a "Child progress' progress (@see mathf.childProgress) and
-                // then calculate the ease / interpolations.
-                const childProgress = mathf.childProgress(
+        for (let i = 0; i < this.compiled.length; i++) {
+            const compiled = this.compiled[i];
+            const config = compiled.settings;
+
+            // Given the set of rangedProgress, find the best matching
+            // one based on the current progress.
+            const segment =
+                multiInterpolateHelper.findIndexedRangedProgress(
                     this.parentProgress,
-                    matchedRangeProgress.from,
-                    matchedRangeProgress.to
-                )
-
-                /*
-                 * There are very specific cases in which we want to specify
-                 * non-interpolating values.
-                 *
-                 * This happens for the case
-                 * in css-var-interpolate, where we might want to add
-                 * non-interpolating css properties for specific ranges.
-                 *
-                 * An example is:
-                 *    color: var(--myColor)
-                 *
-                 *   - id: '--myColor'
-                 *     noInterpolation: true
-                 *     noInterpolationDefault: 'orange'
-                 *     progress:
-                 *     -  from: 0.3
-                 *        to: 0.5
-                 *        start: 'blue'
-                 *        end: 'blue'
-                 *     - from: 0.6
-                 *       to: 0.7
-                 *       start: 'red'
-                 *       end: 'red'
-                 *
-                 * Another example is:
-                 *   display: var(--display-settings)
-                 *   - id: '--display-settings'
-                 *     noInterpolation: true
-                 *     noInterpolationDefault: 'block'
-                 *     progress:
-                 *     - from: 0.3
-                 *       to: 0.5
-                 *       start: 'none'
-                 *       end: 'none'
-                 *     - from: 0.6
-                 *       to: 0.7
-                 *       start: 'inline-block'
-                 *       end: 'inline-block'
-                 *
-                 * Since it is noInterpolation, the start and end values are expected
-                 * to be identical, and when there is no matching setting, the
-                 * value would return null so that the "default" css value
-                 * gets used.
-                 */
-                if (config.noInterpolation) {
-
-                    if(!config.noInterpolationDefault) {
-                        throw new Error("You are using noInterpolation without a noInterpolation default");
-                    }
-
-                    if (mathf.isBetween(this.parentProgress,
-                        matchedRangeProgress.from, matchedRangeProgress.to, true)) {
-                      // By convention, the start and end should match
-                      // so we just pick end.
-                      this.currentValues[config.id] = matchedRangeProgress.end;
-                    } else {
-                      this.currentValues[config.id] = config.noInterpolationDefault;
-                    }
+                    compiled.index
+                );
+            const matchedRangeProgress = config.progress[segment];
+
+            // Now that we have a best matched rangedProgress, create
+            // a "Child progress' progress (@see mathf.childProgress) and
+            // then calculate the ease / interpolations.
+            const childProgress = mathf.childProgress(
+                this.parentProgress,
+                matchedRangeProgress.from,
+                matchedRangeProgress.to
+            )
+
+            /*
+             * There are very specific cases in which we want to specify
+             * non-interpolating values.
+             *
+             * This happens for the case
+             * in css-var-interpolate, where we might want to add
+             * non-interpolating css properties for specific ranges.
+             *
+             * An example is:
+             *    color: var(--myColor)
+             *
+             *   - id: '--myColor'
+             *     noInterpolation: true
+             *     noInterpolationDefault: 'orange'
+             *     progress:
+             *     -  from: 0.3
+             *        to: 0.5
+             *        start: 'blue'
+             *        end: 'blue'
+             *     - from: 0.6
+             *       to: 0.7
+             *       start: 'red'
+             *       end: 'red'
+             *
+             * Another example is:
+             *   display: var(--display-settings)
+             *   - id: '--display-settings'
+             *     noInterpolation: true
+             *     noInterpolationDefault: 'block'
+             *     progress:
+             *     - from: 0.3
+             *       to: 0.5
+             *       start: 'none'
+             *       end: 'none'
+             *     - from: 0.6
+             *       to: 0.7
+             *       start: 'inline-block'
+             *       end: 'inline-block'
+             *
+             * Since it is noInterpolation, the start and end values are expected
+             * to be identical, and when there is no matching setting, the
+             * value would return null so that the "default" css value
+             * gets used.
+             */
+            if (config.noInterpolation) {
+
+                if(!config.noInterpolationDefault) {
+                    throw new Error("You are using noInterpolation without a noInterpolation default");
+                }
+
+                if (mathf.isBetween(this.parentProgress,
+                    matchedRangeProgress.from, matchedRangeProgress.to, true)) {
+                  // By convention, the start and end should match
+                  // so we just pick end.
+                  this.currentValues[config.id] = matchedRangeProgress.end;
                 } else {
-                    // Now calculate the interpolation based on the childProgress
-                    // progress value.
-                    const interpolatedValue = new Interpolate({
-                        from: matchedRangeProgress.start,
-                        to: matchedRangeProgress.end,
-                        easeFunction: matchedRangeProgress.easingFunction ||
-                            EASE.linear
-                    }).calculate(childProgress);
-
-                    // Finally cache this value to the current values list.
-                    this.currentValues[config.id] = interpolatedValue;
+                  this.currentValues[config.id] = config.noInterpolationDefault;
                 }
+            } else {
+                // Now calculate the interpolation based on the childProgress
+                // progress value.
+                const interpolatedValue =
+                    this.getInterpolate(compiled, segment)
+                        .calculate(childProgress);
+
+                // Finally cache this value to the current values list.
+                this.currentValues[config.id] = interpolatedValue;
+            }
 
 
-                // Run update function.
-                if(config.onUpdate) {
-                    config.onUpdate(config.id, this.parentProgress, this.currentValues[config.id])
-                }
+            this.values[i] = this.currentValues[config.id];
+
+            // Run update function.
+            if(config.onUpdate) {
+                config.onUpdate(config.id, this.parentProgress, this.currentValues[config.id])
             }
-        )
+        }
 
         return this.currentValues;
     }
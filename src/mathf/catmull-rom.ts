@@ -3,6 +3,31 @@ import { mathf } from './mathf';
 import { Vector } from './vector';
 import { HermiteCurve } from './hermite-curve';
 
+
+/**
+ * How the knots of a catmull-rom spline are spaced.
+ * @see https://en.wikipedia.org/wiki/Centripetal_Catmull%E2%80%93Rom_spline
+ */
+export enum CatmullRomTypes {
+    /**
+     * Evenly spaced knots.  Can overshoot and form loops and cusps when the
+     * points are unevenly spaced.
+     */
+    uniform = 'uniform',
+
+    /**
+     * Knots spaced by the square root of the distance between points.  Never
+     * forms loops or cusps within a segment.
+     */
+    centripetal = 'centripetal',
+
+    /**
+     * Knots spaced by the distance between points.  Results in rounder
+     * curves.
+     */
+    chordal = 'chordal',
+}
+
 /**
  * A basic catmull-rom class.  Useful for creating splines or catmull-rom
  * interpolations.  They are useful compared to other splines because they are
@@ -53,6 +78,16 @@ import { HermiteCurve } from './hermite-curve';
  * ```
  *
  *
+ * Centripetal and chordal variants.  These go through each point segment by
+ * segment with knots spaced by the distance between the points.  Use
+ * [[Path.fromCatmullRom]] to move along them at a constant speed.
+ *
+ * ```ts
+ * const segments = CatmullRom.getSegments(myPoints, CatmullRomTypes.centripetal);
+ * segments[0](0.5); // The point half way between myPoints[0] and myPoints[1].
+ * ```
+ *
+ *
  * @see http://marina.sys.wakayama-u.ac.jp/~tokoi/?date=20150105
  * @see https://www.youtube.com/watch?v=w_uU_rPayoQ
  * @see https://en.wikibooks.org/wiki/Cg_Programming/Unity/Hermite_Curves
@@ -130,4 +165,97 @@ export class CatmullRom {
     }
 
 
+    /**
+     * Returns the alpha of a catmull-rom type.  The distance between points
+     * is raised to the power of alpha to space the knots.
+     * @param type
+     */
+    public static getAlpha(type: CatmullRomTypes): number {
+        switch (type) {
+            case CatmullRomTypes.uniform:
+                return 0;
+            case CatmullRomTypes.chordal:
+                return 1;
+            default:
+                return 0.5;
+        }
+    }
+
+
+    /**
+     * Calculates the point on the segment between p1 and p2 using the Barry
+     * and Goldman pyramidal formulation.
+     * @param t The progress (0-1) between p1 and p2.
+     * @param p0 The point before p1.
+     * @param p1 The start point of the segment.
+     * @param p2 The end point of the segment.
+     * @param p3 The point after p2.
+     * @param type
+     */
+    public static getSegmentPoint(t: number, p0: Vector, p1: Vector,
+        p2: Vector, p3: Vector,
+        type: CatmullRomTypes = CatmullRomTypes.centripetal): Vector {
+        const alpha = CatmullRom.getAlpha(type);
+        const knot = (from: Vector, to: Vector) => {
+            // Prevent division by 0 when points overlap.
+            return Math.max(Math.pow(from.distance(to), alpha), 0.0001);
+        };
+        const t0 = 0;
+        const t1 = t0 + knot(p0, p1);
+        const t2 = t1 + knot(p1, p2);
+        const t3 = t2 + knot(p2, p3);
+        const u = t1 + (t2 - t1) * t;
+
+        // Unlike Vector.lerp, the amount isn't clamped so points can be
+        // extrapolated.
+        const mix = (a: Vector, b: Vector, from: number, to: number) => {
+            return a.clone().scale((to - u) / (to - from))
+                .add(b.clone().scale((u - from) / (to - from)));
+        };
+
+        const a1 = mix(p0, p1, t0, t1);
+        const a2 = mix(p1, p2, t1, t2);
+        const a3 = mix(p2, p3, t2, t3);
+        const b1 = mix(a1, a2, t0, t2);
+        const b2 = mix(a2, a3, t1, t3);
+        return mix(b1, b2, t1, t2);
+    }
+
+
+    /**
+     * Creates a function per segment between the given points.  Each
+     * function takes a progress (0-1) and returns the point on the segment.
+     * The first and last points are mirrored to create the missing control
+     * points at the ends.
+     * @param points
+     * @param type
+     */
+    public static getSegments(points: Array<Vector>,
+        type: CatmullRomTypes = CatmullRomTypes.centripetal):
+        Array<(t: number) => Vector> {
+        if (points.length < 2) {
+            return [];
+        }
+
+        const last = points.length - 1;
+        const controls = [
+            Vector.subtract(points[0], points[1]).add(points[0]),
+            ...points,
+            Vector.subtract(points[last], points[last - 1]).add(points[last])
+        ];
+
+        const segments: Array<(t: number) => Vector> = [];
+        for (let i = 1; i < controls.length - 2; i++) {
+            const p0 = controls[i - 1];
+            const p1 = controls[i];
+            const p2 = controls[i + 1];
+            const p3 = controls[i + 2];
+            segments.push((t: number) => {
+                return CatmullRom.getSegmentPoint(t, p0, p1, p2, p3, type);
+            });
+        }
+        return segments;
+    }
+
+
 }
\ No newline at end of file
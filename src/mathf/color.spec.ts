@@ -1,5 +1,5 @@
 
-import { color } from './color';
+import { color, ColorSpaces } from './color';
 import test from 'ava';
 
 test('hexToRgbNormalized', t => {
@@ -77,4 +77,107 @@ test('cssToRgba', t => {
     t.deepEqual(color.cssToRgba('hello'), null);
 
 
-});
\ No newline at end of file
+});
+
+test('cssToRgba css color 4', t => {
+    const red = { r: 255, g: 0, b: 0, a: 1 };
+    t.deepEqual(color.cssToRgba('red'), red);
+    t.deepEqual(color.cssToRgba('RED'), red);
+    t.deepEqual(color.cssToRgba('#f00'), red);
+    t.deepEqual(color.cssToRgba('#ff0000ff'), red);
+    t.deepEqual(color.cssToRgba('rgb(255 0 0)'), red);
+    t.deepEqual(color.cssToRgba('rgb(100% 0% 0%)'), red);
+    t.deepEqual(color.cssToRgba('hsl(0, 100%, 50%)'), red);
+    t.deepEqual(color.cssToRgba('hsl(0deg 100% 50%)'), red);
+    t.deepEqual(color.cssToRgba('hsl(1turn 100% 50%)'), red);
+    t.deepEqual(color.cssToRgba('hwb(0 0% 0%)'), red);
+    t.deepEqual(color.cssToRgba('oklch(62.8% 0.2577 29.23)'), red);
+    t.deepEqual(color.cssToRgba('oklab(0.628 0.2249 0.1258)'), red);
+    t.deepEqual(color.cssToRgba('lab(54.29 80.8 69.89)'), red);
+    t.deepEqual(color.cssToRgba('lch(54.29 106.84 40.85)'), red);
+    t.deepEqual(color.cssToRgba('color(srgb 1 0 0)'), red);
+    t.deepEqual(color.cssToRgba('color(srgb-linear 1 0 0)'), red);
+    t.deepEqual(color.cssToRgba('color(xyz 0.4124 0.2126 0.0193)'), red);
+
+    t.deepEqual(color.cssToRgba('rgb(255 255 255 / 0.5)'),
+        { r: 255, g: 255, b: 255, a: 0.5 });
+    t.deepEqual(color.cssToRgba('rgb(255 255 255 / 50%)'),
+        { r: 255, g: 255, b: 255, a: 0.5 });
+    t.deepEqual(color.cssToRgba('hsla(120, 100%, 50%, 0.3)'),
+        { r: 0, g: 255, b: 0, a: 0.3 });
+    t.deepEqual(color.cssToRgba('#0000ff80'),
+        { r: 0, g: 0, b: 255, a: 0.502 });
+    t.deepEqual(color.cssToRgba('transparent'), { r: 0, g: 0, b: 0, a: 0 });
+    t.deepEqual(color.cssToRgba('rebeccapurple'),
+        { r: 102, g: 51, b: 153, a: 1 });
+
+    t.is(color.cssToRgba('hsl(0 100%)'), null);
+    t.is(color.cssToRgba('rgb(a b c)'), null);
+    t.is(color.cssToRgba('notacolor(1 2 3)'), null);
+    t.true(color.isCssColor('hsl(0 100% 50%)'));
+    t.false(color.isCssColor('10px'));
+    t.false(color.isCssColor('auto'));
+});
+
+
+test('hsl conversions', t => {
+    t.deepEqual(color.rgbaToHsla({ r: 255, g: 0, b: 0, a: 1 }),
+        { h: 0, s: 1, l: 0.5, a: 1 });
+    t.deepEqual(color.rgbaToHsla({ r: 0, g: 0, b: 255, a: 0.5 }),
+        { h: 240, s: 1, l: 0.5, a: 0.5 });
+    t.deepEqual(color.hslaToRgba({ h: 120, s: 1, l: 0.5, a: 1 }),
+        { r: 0, g: 255, b: 0, a: 1 });
+
+    const rgba = { r: 52, g: 85, b: 52, a: 1 };
+    t.deepEqual(color.hslaToRgba(color.rgbaToHsla(rgba)), rgba);
+});
+
+
+test('oklab conversions', t => {
+    const white = color.rgbaToOklab({ r: 255, g: 255, b: 255, a: 1 });
+    t.is(Math.round(white.l * 1000) / 1000, 1);
+    t.true(Math.abs(white.a) < 0.001);
+    t.true(Math.abs(white.b) < 0.001);
+
+    const red = color.rgbaToOklch({ r: 255, g: 0, b: 0, a: 1 });
+    t.is(Math.round(red.l * 1000) / 1000, 0.628);
+    t.is(Math.round(red.c * 1000) / 1000, 0.258);
+    t.is(Math.round(red.h * 10) / 10, 29.2);
+
+    const rgba = { r: 52, g: 85, b: 152, a: 0.5 };
+    t.deepEqual(color.oklabToRgba(color.rgbaToOklab(rgba)), rgba);
+    t.deepEqual(color.oklchToRgba(color.rgbaToOklch(rgba)), rgba);
+    t.deepEqual(color.linearRgbaToRgba(color.rgbaToLinearRgba(rgba)), rgba);
+});
+
+
+test('mix', t => {
+    const blue = { r: 0, g: 0, b: 255, a: 1 };
+    const yellow = { r: 255, g: 255, b: 0, a: 1 };
+
+    // srgb gives a muddy gray.
+    t.deepEqual(color.mix(blue, yellow, 0.5), { r: 127, g: 127, b: 127, a: 1 });
+
+    // oklab keeps the midpoint perceptually between the two.
+    const oklab = color.mix(blue, yellow, 0.5, ColorSpaces.oklab);
+    const l = color.rgbaToOklab(oklab).l;
+    const blueL = color.rgbaToOklab(blue).l;
+    const yellowL = color.rgbaToOklab(yellow).l;
+    t.true(Math.abs(l - (blueL + yellowL) / 2) < 0.01);
+
+    // Hues take the shortest path.
+    const red = { r: 255, g: 0, b: 0, a: 1 };
+    const magenta = { r: 255, g: 0, b: 255, a: 1 };
+    t.deepEqual(color.mix(red, magenta, 0.5, ColorSpaces.hsl),
+        { r: 255, g: 0, b: 128, a: 1 });
+
+    // A gray takes on the hue of the other color.
+    const white = { r: 255, g: 255, b: 255, a: 1 };
+    const oklch = color.mix(white, red, 0.5, ColorSpaces.oklch);
+    const hue = color.rgbaToHsla(oklch).h;
+    t.true(hue < 20 || hue > 340);
+
+    t.deepEqual(color.mix(blue, yellow, 0, ColorSpaces.oklch), blue);
+    t.deepEqual(color.mix(blue, yellow, 1, ColorSpaces.oklch), yellow);
+    t.deepEqual(color.mix(blue, yellow, 1, ColorSpaces.srgbLinear), yellow);
+});
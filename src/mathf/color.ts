@@ -1,5 +1,6 @@
 import { mathf } from './mathf';
 import { is } from '..';
+import { cssNamedColors } from './color-names';
 
 export interface ColorRGBA {
     r: number,
@@ -14,6 +15,78 @@ export interface ColorRGB {
     b: number
 }
 
+/**
+ * An HSL color.  Hue is in degrees (0-360), saturation, lightness and alpha
+ * are 0-1.
+ */
+export interface ColorHSLA {
+    h: number,
+    s: number,
+    l: number,
+    a: number
+}
+
+/**
+ * An OKLab color.  Lightness is 0-1, a and b are roughly -0.4 to 0.4.
+ */
+export interface ColorOKLab {
+    l: number,
+    a: number,
+    b: number,
+    alpha: number
+}
+
+/**
+ * An OKLCH color.  Lightness is 0-1, chroma is roughly 0-0.4 and hue is in
+ * degrees (0-360).
+ */
+export interface ColorOKLCH {
+    l: number,
+    c: number,
+    h: number,
+    alpha: number
+}
+
+/**
+ * The color spaces colors can be interpolated in.
+ *
+ * - srgb: The default.  A straight lerp of rgb values.
+ * - srgbLinear: Lerps light intensity.  Brighter midpoints than srgb.
+ * - hsl: Lerps hue, saturation and lightness along the shortest hue path.
+ * - oklab: Perceptually uniform.  Avoids muddy midpoints.
+ * - oklch: Perceptually uniform along the shortest hue path.  Keeps
+ *   gradients between saturated colors saturated.
+ */
+export enum ColorSpaces {
+    srgb = 'srgb',
+    srgbLinear = 'srgb-linear',
+    hsl = 'hsl',
+    oklab = 'oklab',
+    oklch = 'oklch',
+}
+
+
+
+/**
+ * Bradford chromatic adaptation from the D50 to the D65 white point.
+ */
+const D50_TO_D65 = [
+    [0.955473421488075, -0.02309845494876471, 0.06325924320057072],
+    [-0.0283697093338637, 1.0099953980813041, 0.021041441191917323],
+    [0.012314014864481998, -0.020507649298898964, 1.330365926242124]
+];
+
+const XYZ_D65_TO_LINEAR_SRGB = [
+    [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+    [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+    [0.05563007969699366, -0.20397695888897652, 1.0569715142428786]
+];
+
+const LINEAR_P3_TO_XYZ_D65 = [
+    [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+    [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+    [0, 0.04511338185890264, 1.043944368900976]
+];
 
 
 /**
@@ -135,8 +208,15 @@ export class color {
      * @param start
      * @param end
      * @param t
+     * @param ease
+     * @param space The color space to interpolate in.  Defaults to srgb.
+     *     See [[color.mix]].
      */
-    static rgbaEase(start: ColorRGBA, end: ColorRGBA, t: number, ease: Function): ColorRGBA {
+    static rgbaEase(start: ColorRGBA, end: ColorRGBA, t: number, ease: Function,
+        space: ColorSpaces = ColorSpaces.srgb): ColorRGBA {
+        if (space != ColorSpaces.srgb) {
+            return color.mix(start, end, mathf.clamp01(ease(t)), space);
+        }
         return {
             r: mathf.ease(start.r, end.r, t, ease) >> 0,
             g: mathf.ease(start.g, end.g, t, ease) >> 0,
@@ -175,24 +255,27 @@ export class color {
 
 
     /**
-     * Converts a hex value to rgb.
+     * Converts a hex value to rgb.  Supports #RGB, #RGBA, #RRGGBB and
+     * #RRGGBBAA.  An alpha in the hex value takes precedence over a.
      * Modified version of:
      * https://stackoverflow.com/questions/5623838/rgb-to-hex-and-hex-to-rgb
      */
     static hexToRgba(hex: string, a: number = 1): ColorRGBA | null {
-        var shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])$/i;
-        hex = hex.replace(shorthandRegex, function (m, r, g, b) {
-            return r + r + g + g + b + b;
+        var shorthandRegex = /^#?([a-f\d])([a-f\d])([a-f\d])([a-f\d])?$/i;
+        hex = hex.replace(shorthandRegex, function (m, r, g, b, alpha) {
+            return r + r + g + g + b + b + (alpha ? alpha + alpha : '');
         });
 
-        var result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+        var result =
+            /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})?$/i.exec(hex);
         var rgba = null;
         if (result) {
             rgba = {
                 r: parseInt(result[1], 16),
                 g: parseInt(result[2], 16),
                 b: parseInt(result[3], 16),
-                a: a
+                a: result[4] ?
+                    mathf.roundToPrecision(parseInt(result[4], 16) / 255, 3) : a
             }
         }
         return rgba;
@@ -200,47 +283,526 @@ export class color {
 
 
     /**
-     * Converts a css like rgba string to an RGBA object.
+     * Converts a css color string to an RGBA object.  Accepts all CSS Color 4
+     * forms: hex (#RGB, #RGBA, #RRGGBB, #RRGGBBAA), named colors,
+     * transparent, rgb(), rgba(), hsl(), hsla(), hwb(), lab(), lch(),
+     * oklab(), oklch() and color() with the srgb, srgb-linear, display-p3,
+     * xyz, xyz-d50 and xyz-d65 spaces.  Both the legacy comma syntax and the
+     * modern space syntax with a / alpha are supported.  Colors outside of
+     * the srgb gamut are clipped.
      *
      * ```ts
      *
      * color.cssToRgba('#FFFFFF') // { r: 255, b: 255, g: 255, a: 1}
      * color.cssToRgba('rgba(255, 255, 255, 0.3)') // { r: 255, b: 255, g: 255, a: 0.3}
      * color.cssToRgb('rgb(255, 255, 255)') // { r: 255, b: 255, g: 255, a: 1}
+     * color.cssToRgba('rgb(255 255 255 / 50%)') // { r: 255, b: 255, g: 255, a: 0.5}
+     * color.cssToRgba('hsl(120deg 100% 50%)') // { r: 0, b: 255, g: 0, a: 1}
+     * color.cssToRgba('rebeccapurple') // { r: 102, b: 51, g: 153, a: 1}
+     * color.cssToRgba('oklch(62.8% 0.2577 29.23)') // { r: 255, b: 0, g: 0, a: 1}
      *
      * color.cssToRgba(20) // null
      * color.cssToRgba('hello') // null
      * ```
      */
     static cssToRgba(css: string): ColorRGBA | null {
-        if (is.cssHex(css)) {
-            return color.hexToRgba(css);
+        if (!is.string(css)) {
+            return null;
+        }
+
+        const value = css.trim().toLowerCase();
+
+        if (is.cssHex(value)) {
+            return color.hexToRgba(value);
+        }
+
+        if (value == 'transparent') {
+            return { r: 0, g: 0, b: 0, a: 0 };
+        }
+
+        if (cssNamedColors.hasOwnProperty(value)) {
+            const normalized = color.hexToRgbNormalized(cssNamedColors[value]);
+            return color.normalizedRgbToRgba(normalized, 1);
         }
 
-        if (is.cssRgb(css)) {
-            // We are just going to modify the rgb string to be rgba like
-            // and process it as a rgba type string.
-            css = css.replace(')', ',1)');
-            css = css.replace('rgb', 'rgba');
+        const match = value.match(/^([a-z-]+)\(\s*([^()]*?)\s*\)$/);
+        if (!match) {
+            return null;
         }
+        return color.parseCssColorFunction(match[1], match[2]);
+    }
+
 
-        if (is.cssRgba(css)) {
-            var match = css.match(/^rgba\(\s*?(\d{1,3})\s*?,\s*?(\d{1,3})\s*?,\s*?(\d{1,3})\s*?,\s*?(\d*(?:\.\d+)?)\)$/);
-            if (match) {
-                const rgba = {
-                    r: +match[1],
-                    g: +match[2],
-                    b: +match[3],
-                    a: +match[4]
-                }
-
-                return rgba;
+    /**
+     * Whether the string is a css color that [[color.cssToRgba]] can parse.
+     * ```ts
+     * color.isCssColor('red') // true
+     * color.isCssColor('hsl(0 100% 50%)') // true
+     * color.isCssColor('10px') // false
+     * ```
+     */
+    static isCssColor(css: string): boolean {
+        return is.string(css) && /^\s*[a-z#]/i.test(css) &&
+            !!color.cssToRgba(css);
+    }
+
+
+    /**
+     * Converts rgb values in the 0-1 range to a ColorRGBA.  Values are
+     * clipped and rounded.
+     * @param rgb
+     * @param a
+     */
+    static normalizedRgbToRgba(rgb: Array<number>, a: number): ColorRGBA {
+        return {
+            r: Math.round(mathf.clamp01(rgb[0]) * 255),
+            g: Math.round(mathf.clamp01(rgb[1]) * 255),
+            b: Math.round(mathf.clamp01(rgb[2]) * 255),
+            a: mathf.clamp01(a)
+        };
+    }
+
+
+    /**
+     * Converts a ColorRGBA to HSL.
+     * ```ts
+     * color.rgbaToHsla({r: 255, g: 0, b: 0, a: 1}) // { h: 0, s: 1, l: 0.5, a: 1 }
+     * ```
+     */
+    static rgbaToHsla(rgba: ColorRGBA): ColorHSLA {
+        const r = rgba.r / 255;
+        const g = rgba.g / 255;
+        const b = rgba.b / 255;
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const l = (max + min) / 2;
+        const d = max - min;
+        let h = 0;
+        let s = 0;
+        if (d != 0) {
+            s = d / (1 - Math.abs(2 * l - 1));
+            if (max == r) {
+                h = ((g - b) / d) % 6;
+            } else if (max == g) {
+                h = (b - r) / d + 2;
             } else {
-                return null;
+                h = (r - g) / d + 4;
             }
+            h = mathf.wrap(h * 60, 0, 360);
+        }
+        return { h: h, s: s, l: l, a: rgba.a };
+    }
+
+
+    /**
+     * Converts an HSL color to a ColorRGBA.
+     * ```ts
+     * color.hslaToRgba({ h: 120, s: 1, l: 0.5, a: 1 }) // { r: 0, g: 255, b: 0, a: 1 }
+     * ```
+     */
+    static hslaToRgba(hsla: ColorHSLA): ColorRGBA {
+        return color.normalizedRgbToRgba(
+            color.hslToNormalizedRgb(hsla.h, hsla.s, hsla.l), hsla.a);
+    }
+
+
+    /**
+     * Converts a ColorRGBA to linear light rgb with channels in the 0-1
+     * range.
+     */
+    static rgbaToLinearRgba(rgba: ColorRGBA): ColorRGBA {
+        return {
+            r: color.srgbToLinear(rgba.r / 255),
+            g: color.srgbToLinear(rgba.g / 255),
+            b: color.srgbToLinear(rgba.b / 255),
+            a: rgba.a
+        };
+    }
+
+
+    /**
+     * Converts linear light rgb (channels 0-1) back to a ColorRGBA.
+     */
+    static linearRgbaToRgba(linear: ColorRGBA): ColorRGBA {
+        return color.normalizedRgbToRgba([
+            color.linearToSrgb(linear.r),
+            color.linearToSrgb(linear.g),
+            color.linearToSrgb(linear.b)
+        ], linear.a);
+    }
+
+
+    /**
+     * Converts a ColorRGBA to OKLab.
+     * @see https://bottosson.github.io/posts/oklab/
+     */
+    static rgbaToOklab(rgba: ColorRGBA): ColorOKLab {
+        const linear = color.rgbaToLinearRgba(rgba);
+        const l = Math.cbrt(0.4122214708 * linear.r +
+            0.5363325363 * linear.g + 0.0514459929 * linear.b);
+        const m = Math.cbrt(0.2119034982 * linear.r +
+            0.6806995451 * linear.g + 0.1073969566 * linear.b);
+        const s = Math.cbrt(0.0883024619 * linear.r +
+            0.2817188376 * linear.g + 0.6299787005 * linear.b);
+        return {
+            l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+            a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+            b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s,
+            alpha: rgba.a
+        };
+    }
+
+
+    /**
+     * Converts an OKLab color to a ColorRGBA.  Colors outside of the srgb
+     * gamut are clipped.
+     */
+    static oklabToRgba(oklab: ColorOKLab): ColorRGBA {
+        return color.linearRgbaToRgba(color.oklabToLinearRgba(oklab));
+    }
+
+
+    /**
+     * Converts OKLab to OKLCH.
+     */
+    static oklabToOklch(oklab: ColorOKLab): ColorOKLCH {
+        const c = Math.sqrt(oklab.a * oklab.a + oklab.b * oklab.b);
+        const h = mathf.wrap(
+            mathf.radianToDegree(Math.atan2(oklab.b, oklab.a)), 0, 360);
+        return { l: oklab.l, c: c, h: h, alpha: oklab.alpha };
+    }
+
+
+    /**
+     * Converts OKLCH to OKLab.
+     */
+    static oklchToOklab(oklch: ColorOKLCH): ColorOKLab {
+        const h = mathf.degreeToRadian(oklch.h);
+        return {
+            l: oklch.l,
+            a: oklch.c * Math.cos(h),
+            b: oklch.c * Math.sin(h),
+            alpha: oklch.alpha
+        };
+    }
+
+
+    /**
+     * Converts a ColorRGBA to OKLCH.
+     */
+    static rgbaToOklch(rgba: ColorRGBA): ColorOKLCH {
+        return color.oklabToOklch(color.rgbaToOklab(rgba));
+    }
+
+
+    /**
+     * Converts an OKLCH color to a ColorRGBA.  Colors outside of the srgb
+     * gamut are clipped.
+     */
+    static oklchToRgba(oklch: ColorOKLCH): ColorRGBA {
+        return color.oklabToRgba(color.oklchToOklab(oklch));
+    }
+
+
+    /**
+     * Interpolates between two colors in the given color space.  Hues take
+     * the shortest path and the hue of a gray is ignored.
+     *
+     * ```ts
+     * const blue = color.cssToRgba('#0000FF');
+     * const yellow = color.cssToRgba('#FFFF00');
+     *
+     * color.mix(blue, yellow, 0.5); // A muddy gray.
+     * color.mix(blue, yellow, 0.5, ColorSpaces.oklab);
+     * color.mix(blue, yellow, 0.5, ColorSpaces.oklch); // Stays saturated.
+     * ```
+     *
+     * @param start
+     * @param end
+     * @param t A value between 0-1.
+     * @param space The color space to interpolate in.  Defaults to srgb.
+     */
+    static mix(start: ColorRGBA, end: ColorRGBA, t: number,
+        space: ColorSpaces = ColorSpaces.srgb): ColorRGBA {
+        const alpha = mathf.lerp(start.a, end.a, t);
+
+        if (space == ColorSpaces.srgbLinear) {
+            const a = color.rgbaToLinearRgba(start);
+            const b = color.rgbaToLinearRgba(end);
+            return color.linearRgbaToRgba({
+                r: mathf.lerp(a.r, b.r, t),
+                g: mathf.lerp(a.g, b.g, t),
+                b: mathf.lerp(a.b, b.b, t),
+                a: alpha
+            });
+        }
+
+        if (space == ColorSpaces.hsl) {
+            const a = color.rgbaToHsla(start);
+            const b = color.rgbaToHsla(end);
+            return color.hslaToRgba({
+                h: color.lerpHue(a.h, b.h, t, a.s == 0, b.s == 0),
+                s: mathf.lerp(a.s, b.s, t),
+                l: mathf.lerp(a.l, b.l, t),
+                a: alpha
+            });
+        }
+
+        if (space == ColorSpaces.oklab) {
+            const a = color.rgbaToOklab(start);
+            const b = color.rgbaToOklab(end);
+            return color.oklabToRgba({
+                l: mathf.lerp(a.l, b.l, t),
+                a: mathf.lerp(a.a, b.a, t),
+                b: mathf.lerp(a.b, b.b, t),
+                alpha: alpha
+            });
+        }
+
+        if (space == ColorSpaces.oklch) {
+            const a = color.rgbaToOklch(start);
+            const b = color.rgbaToOklch(end);
+            const achromatic = 0.0001;
+            return color.oklchToRgba({
+                l: mathf.lerp(a.l, b.l, t),
+                c: mathf.lerp(a.c, b.c, t),
+                h: color.lerpHue(a.h, b.h, t,
+                    a.c < achromatic, b.c < achromatic),
+                alpha: alpha
+            });
+        }
+
+        return color.rgbaLerp(start, end, t);
+    }
+
+
+    /**
+     * Lerps a hue in degrees along the shortest path.  When one of the
+     * colors has no hue (a gray), the hue of the other color is used.
+     */
+    private static lerpHue(a: number, b: number, t: number,
+        aIsPowerless: boolean = false, bIsPowerless: boolean = false): number {
+        if (aIsPowerless && !bIsPowerless) {
+            return b;
+        }
+        if (bIsPowerless && !aIsPowerless) {
+            return a;
+        }
+        const delta = mathf.wrap(b - a + 180, 0, 360) - 180;
+        return mathf.wrap(a + delta * mathf.clamp01(t), 0, 360);
+    }
+
+    private static srgbToLinear(value: number): number {
+        const abs = Math.abs(value);
+        if (abs <= 0.04045) {
+            return value / 12.92;
+        }
+        return Math.sign(value) * Math.pow((abs + 0.055) / 1.055, 2.4);
+    }
+
+    private static linearToSrgb(value: number): number {
+        const abs = Math.abs(value);
+        if (abs <= 0.0031308) {
+            return value * 12.92;
+        }
+        return Math.sign(value) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055);
+    }
+
+    private static hslToNormalizedRgb(h: number, s: number, l: number): Array<number> {
+        const f = (n: number) => {
+            const k = (n + h / 30) % 12;
+            const a = s * Math.min(l, 1 - l);
+            return l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        };
+        return [f(0), f(8), f(4)];
+    }
+
+    private static oklabToLinearRgba(oklab: ColorOKLab): ColorRGBA {
+        const l = Math.pow(oklab.l + 0.3963377774 * oklab.a +
+            0.2158037573 * oklab.b, 3);
+        const m = Math.pow(oklab.l - 0.1055613458 * oklab.a -
+            0.0638541728 * oklab.b, 3);
+        const s = Math.pow(oklab.l - 0.0894841775 * oklab.a -
+            1.2914855480 * oklab.b, 3);
+        return {
+            r: 4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+            g: -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+            b: -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+            a: oklab.alpha
+        };
+    }
+
+    /**
+     * Converts CIE Lab (D50) to linear srgb.
+     */
+    private static labToLinearRgb(l: number, a: number, b: number): Array<number> {
+        const kappa = 24389 / 27;
+        const epsilon = 216 / 24389;
+        const f1 = (l + 16) / 116;
+        const f0 = a / 500 + f1;
+        const f2 = f1 - b / 200;
+        const xyz = [
+            (Math.pow(f0, 3) > epsilon ? Math.pow(f0, 3) : (116 * f0 - 16) / kappa) * 0.3457 / 0.3585,
+            l > kappa * epsilon ? Math.pow(f1, 3) : l / kappa,
+            (Math.pow(f2, 3) > epsilon ? Math.pow(f2, 3) : (116 * f2 - 16) / kappa) * (1 - 0.3457 - 0.3585) / 0.3585
+        ];
+        return color.xyzD65ToLinearRgb(color.multiplyMatrix3(D50_TO_D65, xyz));
+    }
+
+    private static xyzD65ToLinearRgb(xyz: Array<number>): Array<number> {
+        return color.multiplyMatrix3(XYZ_D65_TO_LINEAR_SRGB, xyz);
+    }
+
+    private static multiplyMatrix3(matrix: Array<Array<number>>, values: Array<number>): Array<number> {
+        return matrix.map((row) => {
+            return row[0] * values[0] + row[1] * values[1] + row[2] * values[2];
+        });
+    }
+
+    /**
+     * Parses a single css color component.  Percentages are scaled so
+     * 100% equals percentScale.  'none' is treated as 0.
+     */
+    private static parseComponent(value: string, percentScale: number): number {
+        if (value == 'none') {
+            return 0;
+        }
+        if (value.endsWith('%')) {
+            return parseFloat(value) / 100 * percentScale;
+        }
+        return /^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/.test(value) ? +value : NaN;
+    }
+
+    /**
+     * Parses a css angle into degrees.
+     */
+    private static parseAngle(value: string): number {
+        const match = value.match(/^([-+]?(?:\d+\.?\d*|\.\d+))(deg|rad|grad|turn)?$/);
+        if (value == 'none') {
+            return 0;
+        }
+        if (!match) {
+            return NaN;
+        }
+        const angle = +match[1];
+        switch (match[2]) {
+            case 'rad': return mathf.radianToDegree(angle);
+            case 'grad': return angle * 0.9;
+            case 'turn': return angle * 360;
+            default: return angle;
+        }
+    }
+
+    /**
+     * Parses the arguments of a css color function like rgb() or oklch().
+     */
+    private static parseCssColorFunction(name: string, body: string): ColorRGBA | null {
+        const parts = body.split('/');
+        if (parts.length > 2) {
+            return null;
+        }
+        const channels = parts[0].trim().split(/\s*,\s*|\s+/);
+        let alphaValue = parts.length == 2 ? parts[1].trim() : null;
+
+        let space = null;
+        if (name == 'color') {
+            space = channels.shift();
+        }
+
+        // Legacy comma syntax passes alpha as the fourth channel.
+        if (channels.length == 4 && alphaValue === null) {
+            alphaValue = channels.pop();
+        }
+        if (channels.length != 3) {
+            return null;
+        }
+
+        const alpha = alphaValue === null ? 1 :
+            color.parseComponent(alphaValue, 1);
+        let rgb: Array<number> = null;
+
+        if (name == 'rgb' || name == 'rgba') {
+            rgb = channels.map((channel) => {
+                return color.parseComponent(channel, 255) / 255;
+            });
+        } else if (name == 'hsl' || name == 'hsla') {
+            rgb = color.hslToNormalizedRgb(
+                mathf.wrap(color.parseAngle(channels[0]), 0, 360),
+                mathf.clamp01(color.parseComponent(channels[1], 100) / 100),
+                mathf.clamp01(color.parseComponent(channels[2], 100) / 100));
+        } else if (name == 'hwb') {
+            let white = color.parseComponent(channels[1], 100) / 100;
+            let black = color.parseComponent(channels[2], 100) / 100;
+            if (white + black >= 1) {
+                const gray = white / (white + black);
+                rgb = [gray, gray, gray];
+            } else {
+                rgb = color.hslToNormalizedRgb(
+                    mathf.wrap(color.parseAngle(channels[0]), 0, 360), 1, 0.5)
+                    .map((value) => {
+                        return value * (1 - white - black) + white;
+                    });
+            }
+        } else if (name == 'lab' || name == 'lch') {
+            const l = color.parseComponent(channels[0], 100);
+            let a;
+            let b;
+            if (name == 'lab') {
+                a = color.parseComponent(channels[1], 125);
+                b = color.parseComponent(channels[2], 125);
+            } else {
+                const c = color.parseComponent(channels[1], 150);
+                const h = mathf.degreeToRadian(color.parseAngle(channels[2]));
+                a = c * Math.cos(h);
+                b = c * Math.sin(h);
+            }
+            rgb = color.labToLinearRgb(l, a, b).map(color.linearToSrgb);
+        } else if (name == 'oklab' || name == 'oklch') {
+            const l = color.parseComponent(channels[0], 1);
+            let oklab: ColorOKLab;
+            if (name == 'oklab') {
+                oklab = {
+                    l: l,
+                    a: color.parseComponent(channels[1], 0.4),
+                    b: color.parseComponent(channels[2], 0.4),
+                    alpha: 1
+                };
+            } else {
+                oklab = color.oklchToOklab({
+                    l: l,
+                    c: color.parseComponent(channels[1], 0.4),
+                    h: color.parseAngle(channels[2]),
+                    alpha: 1
+                });
+            }
+            const linear = color.oklabToLinearRgba(oklab);
+            rgb = [linear.r, linear.g, linear.b].map(color.linearToSrgb);
+        } else if (name == 'color') {
+            const values = channels.map((channel) => {
+                return color.parseComponent(channel, 1);
+            });
+            if (space == 'srgb') {
+                rgb = values;
+            } else if (space == 'srgb-linear') {
+                rgb = values.map(color.linearToSrgb);
+            } else if (space == 'display-p3') {
+                rgb = color.xyzD65ToLinearRgb(color.multiplyMatrix3(
+                    LINEAR_P3_TO_XYZ_D65, values.map(color.srgbToLinear)))
+                    .map(color.linearToSrgb);
+            } else if (space == 'xyz' || space == 'xyz-d65') {
+                rgb = color.xyzD65ToLinearRgb(values).map(color.linearToSrgb);
+            } else if (space == 'xyz-d50') {
+                rgb = color.xyzD65ToLinearRgb(
+                    color.multiplyMatrix3(D50_TO_D65, values))
+                    .map(color.linearToSrgb);
+            }
+        }
+
+        if (!rgb || isNaN(alpha) || rgb.some((value) => isNaN(value))) {
+            return null;
         }
 
-        return null;
+        return color.normalizedRgbToRgba(rgb, alpha);
     }
 
 
@@ -211,4 +211,95 @@ export class CubicBezier {
         }
     }
 
+
+    /**
+     * Returns an easing function that matches css cubic-bezier(x1, y1, x2, y2).
+     *
+     * Unlike [[CubicBezier.makeEasingFunction]], which uses progress as the
+     * curve parameter, this solves the curve for x so progress is treated as
+     * time like css does.  Progress outside of 0-1 is extrapolated along the
+     * end tangents.
+     *
+     * ```ts
+     * const ease = CubicBezier.makeCssEasingFunction(0.25, 0.1, 0.25, 1);
+     * ease(0.5); // ~0.8024 like css 'ease'.
+     * ```
+     * @param x1 The x of the first control point.  Must be between 0-1.
+     * @param y1 The y of the first control point.
+     * @param x2 The x of the second control point.  Must be between 0-1.
+     * @param y2 The y of the second control point.
+     * @return A function that accepts a progresss value.
+     * @see https://www.w3.org/TR/css-easing-1/#cubic-bezier-easing-functions
+     */
+    public static makeCssEasingFunction(
+        x1: number, y1: number, x2: number, y2: number): Function {
+        if (x1 < 0 || x1 > 1 || x2 < 0 || x2 > 1) {
+            throw new Error('cubic-bezier x values must be between 0 and 1.');
+        }
+
+        // Polynomial coefficients.
+        const cx = 3 * x1;
+        const bx = 3 * (x2 - x1) - cx;
+        const ax = 1 - cx - bx;
+        const cy = 3 * y1;
+        const by = 3 * (y2 - y1) - cy;
+        const ay = 1 - cy - by;
+
+        const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+        const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+        const sampleDerivativeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+        const solveX = (x: number): number => {
+            // Newton-Raphson first.
+            let t = x;
+            for (let i = 0; i < 8; i++) {
+                const error = sampleX(t) - x;
+                if (Math.abs(error) < 1e-7) {
+                    return t;
+                }
+                const derivative = sampleDerivativeX(t);
+                if (Math.abs(derivative) < 1e-6) {
+                    break;
+                }
+                t -= error / derivative;
+            }
+
+            // Fall back to bisection.
+            let low = 0;
+            let high = 1;
+            t = x;
+            while (low < high) {
+                const value = sampleX(t);
+                if (Math.abs(value - x) < 1e-7) {
+                    return t;
+                }
+                if (x > value) {
+                    low = t;
+                } else {
+                    high = t;
+                }
+                t = (high - low) / 2 + low;
+                if (high - low < 1e-7) {
+                    break;
+                }
+            }
+            return t;
+        };
+
+        // The tangents used to extrapolate outside of 0-1.
+        const startSlope = x1 > 0 ? y1 / x1 : (y1 == 0 && x2 > 0 ? y2 / x2 : 0);
+        const endSlope = x2 < 1 ? (y2 - 1) / (x2 - 1) :
+            (y2 == 1 && x1 < 1 ? (y1 - 1) / (x1 - 1) : 0);
+
+        return (progress: number) => {
+            if (progress <= 0) {
+                return startSlope * progress;
+            }
+            if (progress >= 1) {
+                return 1 + endSlope * (progress - 1);
+            }
+            return sampleY(solveX(progress));
+        }
+    }
+
 }
\ No newline at end of file
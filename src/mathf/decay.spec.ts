@@ -0,0 +1,40 @@
+import { Decay } from './decay';
+import test from 'ava';
+
+
+test('decay projects its resting point', t => {
+    t.is(Decay.project(0, { velocity: 1000, power: 0.8, timeConstant: 350 }), 280);
+    t.is(new Decay(100, { velocity: -1000, power: 1, timeConstant: 500 }).target, -400);
+});
+
+
+test('decay slows down and settles', t => {
+    const decay = new Decay(0, { velocity: 1000, restDelta: 0.5 });
+    let lastVelocity = decay.velocity;
+    let previous = 0;
+    for (let i = 0; i < 30; i++) {
+        const position = decay.step(1 / 60);
+        t.true(position >= previous);
+        t.true(decay.velocity <= lastVelocity);
+        lastVelocity = decay.velocity;
+        previous = position;
+    }
+    for (let i = 0; i < 200; i++) {
+        decay.step(1 / 60);
+    }
+    t.is(decay.isAtRest(), true);
+    t.is(decay.position, decay.target);
+    t.is(decay.velocity, 0);
+});
+
+
+test('decay is frame rate independent', t => {
+    const at60 = new Decay(0, { velocity: 1000 });
+    const at120 = new Decay(0, { velocity: 1000 });
+    for (let i = 0; i < 30; i++) {
+        at60.step(1 / 60);
+        at120.step(1 / 120);
+        at120.step(1 / 120);
+    }
+    t.true(Math.abs(at60.position - at120.position) < 0.0001);
+});
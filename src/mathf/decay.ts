@@ -0,0 +1,108 @@
+export interface DecayConfig {
+    /**
+     * The starting velocity in units per second.
+     */
+    velocity: number;
+
+    /**
+     * How much of the velocity carries into the distance travelled.
+     * Defaults to 0.8.
+     */
+    power?: number;
+
+    /**
+     * The time constant in ms of the exponential decay.  Higher values glide
+     * for longer.  Defaults to 350.
+     */
+    timeConstant?: number;
+
+    /**
+     * The distance to the resting point below which the motion ends.
+     * Defaults to 0.001.
+     */
+    restDelta?: number;
+}
+
+
+/**
+ * An inertia / decay motion.  Given a starting velocity (like the velocity
+ * of a drag release), the value glides and slows down exponentially until
+ * it settles.  Stepping is based on time (not frames) so the motion is the
+ * same on every refresh rate.
+ *
+ * ```ts
+ * const decay = new Decay(currentX, { velocity: releaseVelocity });
+ * console.log(decay.target); // Where the motion will come to rest.
+ *
+ * new Raf(()=> {
+ *   const x = decay.step(raf.getDelta(true));
+ *   if (decay.isAtRest()) {
+ *     raf.stop();
+ *   }
+ * }).start();
+ * ```
+ *
+ * @see https://ariya.io/2013/11/javascript-kinetic-scrolling-part-2
+ */
+export class Decay {
+
+    /**
+     * Calculates the resting point of a decay without running it.
+     */
+    static project(position: number, config: DecayConfig): number {
+        const power = config.power === undefined ? 0.8 : config.power;
+        const timeConstant = config.timeConstant || 350;
+        return position + power * config.velocity * timeConstant / 1000;
+    }
+
+    public position: number;
+    public velocity: number;
+
+    /**
+     * The value the motion comes to rest on.
+     */
+    public target: number;
+    private timeConstant: number;
+    private restDelta: number;
+
+    /**
+     * @param position The starting value.
+     * @param config
+     */
+    constructor(position: number, config: DecayConfig) {
+        this.position = position;
+        this.timeConstant = config.timeConstant || 350;
+        this.restDelta = config.restDelta || 0.001;
+        this.target = Decay.project(position, config);
+        this.velocity = this.getVelocity();
+    }
+
+    /**
+     * Advances the motion.
+     * @param delta The time in seconds since the last step.
+     * @return The new position.
+     */
+    step(delta: number): number {
+        const remaining = this.target - this.position;
+        this.position = this.target - remaining *
+            Math.exp(-Math.max(delta, 0) * 1000 / this.timeConstant);
+
+        if (this.isAtRest()) {
+            this.position = this.target;
+        }
+        this.velocity = this.getVelocity();
+
+        return this.position;
+    }
+
+    /**
+     * Whether the motion has settled.
+     */
+    isAtRest(): boolean {
+        return Math.abs(this.target - this.position) < this.restDelta;
+    }
+
+    private getVelocity(): number {
+        return (this.target - this.position) * 1000 / this.timeConstant;
+    }
+}
@@ -18,6 +18,17 @@ test('clampAsPercent', t => {
     t.is(mathf.clampAsPercent(1000), 1);
 });
 
+test('setRandomSeed', t => {
+    mathf.setRandomSeed(1234);
+    const sequence = [mathf.random(), mathf.getRandomInt(0, 100),
+        mathf.getRandomFloat(-1, 1), mathf.flipCoin()];
+    mathf.setRandomSeed(1234);
+    t.deepEqual([mathf.random(), mathf.getRandomInt(0, 100),
+        mathf.getRandomFloat(-1, 1), mathf.flipCoin()], sequence);
+    mathf.setRandomSeed(null);
+    t.true(mathf.random() >= 0 && mathf.random() < 1);
+});
+
 test('clamp', t => {
     t.is(mathf.clamp(0, 10, 100), 10);
     t.is(mathf.clamp(0, 10, -100), 0);
@@ -92,6 +103,66 @@ test('lerp', t => {
 });
 
 
+test('deltaAmount', t => {
+    // At the reference frame rate the amount is unchanged.
+    t.is(mathf.toFixed(mathf.deltaAmount(0.2, 1000 / 60), 5), 0.2);
+    // Two frames at 30fps cover the same as two frames at 60fps.
+    t.is(mathf.toFixed(mathf.deltaAmount(0.2, 1000 / 30), 5), 0.36);
+    t.is(mathf.deltaAmount(0.2, 0), 0);
+    t.is(mathf.deltaAmount(1, 1000 / 120), 1);
+    t.is(mathf.toFixed(mathf.deltaAmount(0.5, 10, 10), 5), 0.5);
+});
+
+
+test('lerpDelta', t => {
+    // Step towards a target at 60fps and 120fps over the same duration.
+    let at60 = 0;
+    for (let i = 0; i < 30; i++) {
+        at60 = mathf.lerpDelta(at60, 100, 0.1, 1000 / 60);
+    }
+    let at120 = 0;
+    for (let i = 0; i < 60; i++) {
+        at120 = mathf.lerpDelta(at120, 100, 0.1, 1000 / 120);
+    }
+    t.is(mathf.toFixed(at60, 5), mathf.toFixed(at120, 5));
+
+    // Matches a regular lerp at 60fps.
+    t.is(mathf.toFixed(mathf.lerpDelta(0, 100, 0.1, 1000 / 60), 5), 10);
+});
+
+
+test('dampDelta', t => {
+    t.is(
+        mathf.toFixed(mathf.dampDelta(0, 100, 0.4, 0.2, 1000 / 60), 5),
+        mathf.toFixed(mathf.damp(0, 100, 0.4, 0.2), 5)
+    );
+
+    let at60 = 0;
+    for (let i = 0; i < 30; i++) {
+        at60 = mathf.dampDelta(at60, 100, 0.4, 0.2, 1000 / 60);
+    }
+    let at144 = 0;
+    for (let i = 0; i < 72; i++) {
+        at144 = mathf.dampDelta(at144, 100, 0.4, 0.2, 1000 / 144);
+    }
+    t.is(mathf.toFixed(at60, 5), mathf.toFixed(at144, 5));
+});
+
+
+test('lerpHalfLife', t => {
+    t.is(mathf.lerpHalfLife(0, 100, 100, 100), 50);
+    t.is(mathf.lerpHalfLife(0, 100, 100, 200), 75);
+    t.is(mathf.lerpHalfLife(0, 100, 100, 0), 0);
+    t.is(mathf.lerpHalfLife(0, 100, 0, 16), 100);
+
+    let value = 0;
+    for (let i = 0; i < 10; i++) {
+        value = mathf.lerpHalfLife(value, 100, 100, 10);
+    }
+    t.is(mathf.toFixed(value, 5), 50);
+});
+
+
 test('inverseLerp', t => {
     // Check basic lineaer interopolate.
     t.is(mathf.inverseLerp(0, 1, 0), 0);
@@ -1,4 +1,5 @@
 import { EASE } from '../ease/ease';
+import { Random } from './random';
 
 export interface circ {
   radius: number;
@@ -31,6 +32,16 @@ export interface backgroundCoverBox {
   scalar: number;
 }
 
+/**
+ * The frame duration in ms that per frame lerp amounts are tuned for (60fps).
+ */
+const REFERENCE_FRAME_DURATION = 1000 / 60;
+
+/**
+ * The generator used by the mathf random helpers.  Null to use Math.random.
+ */
+let seededRandom: Random | null = null;
+
 /**
  * Yano Math utility functions.
  */
@@ -101,6 +112,37 @@ export class mathf {
     return value >> 0;
   }
 
+  /**
+   * Seeds the random helpers of mathf (random, flipCoin, getRandomFloat,
+   * getRandomInt and getUniqueRandomInt) so they return the same sequence on
+   * every run.  Pass null to go back to Math.random.
+   *
+   * ```ts
+   * mathf.setRandomSeed(1234);
+   * mathf.getRandomInt(0, 10); // Always the same.
+   *
+   * // Or pass your own generator.
+   * mathf.setRandomSeed(new Random(Random.hashSeed('hero')));
+   * ```
+   * @tested
+   * @param seed A seed or a [[Random]] generator.
+   */
+  static setRandomSeed(seed: number | Random | null) {
+    if (seed === null || seed === undefined) {
+      seededRandom = null;
+    } else {
+      seededRandom = seed instanceof Random ? seed : new Random(seed);
+    }
+  }
+
+  /**
+   * Returns a random float between 0 (inclusive) and 1 (exclusive).  Uses
+   * the seed set with [[mathf.setRandomSeed]] if any.
+   */
+  static random(): number {
+    return seededRandom ? seededRandom.next() : Math.random();
+  }
+
   /**
    * Flips a coin.  Give you either a 1 or 0.
    */
@@ -116,7 +158,7 @@ export class mathf {
    * @function
    */
   static getRandomFloat(min: number, max: number): number {
-    return Math.random() * (max - min) + min;
+    return mathf.random() * (max - min) + min;
   }
 
   /**
@@ -126,7 +168,7 @@ export class mathf {
    * @return {number} A random integer betwen the provided range.
    */
   static getRandomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+    return Math.floor(mathf.random() * (max - min + 1)) + min;
   }
 
   /**
@@ -1055,6 +1097,117 @@ export class mathf {
 
 
 
+  /**
+   * Converts a per frame lerp amount (which assumes a fixed frame rate) to
+   * the amount to apply for the given delta time.  Calling lerp with
+   * the returned amount moves the same distance over time regardless of the
+   * refresh rate.
+   *
+   * ```ts
+   * // 0.2 per frame at 60fps.
+   * mathf.deltaAmount(0.2, 1000 / 60) ---> 0.2
+   * // Half the distance per frame at 120fps.
+   * mathf.deltaAmount(0.2, 1000 / 120) ---> 0.1055...
+   * // Two 60fps frames worth at 30fps.
+   * mathf.deltaAmount(0.2, 1000 / 30) ---> 0.36
+   * ```
+   *
+   * @tested
+   * @param {number} amount The per frame lerp amount between 0-1.
+   * @param {number} delta The time in ms since the last update.  See
+   *     Raf.getDelta.
+   * @param {number} referenceDelta The frame duration in ms the amount was
+   *     tuned for.  Defaults to 60fps.
+   */
+  static deltaAmount(amount: number, delta: number,
+    referenceDelta: number = REFERENCE_FRAME_DURATION): number {
+    return 1 - Math.pow(1 - mathf.clamp01(amount), delta / referenceDelta);
+  }
+
+
+
+  /**
+   * A frame rate independent version of [[mathf.lerp]].  The amount is a per
+   * frame amount at the reference frame rate (60fps), which gets scaled by
+   * the delta time with exponential decay.
+   *
+   * ```ts
+   * const raf = new Raf(()=> {
+   *   x = mathf.lerpDelta(x, targetX, 0.2, raf.getDelta());
+   * })
+   * ```
+   *
+   * @tested
+   * @param {number} value1 The start of the range to lerp.
+   * @param {number} value2 The target of the range to lerp.
+   * @param {number} amount The per frame lerp amount between 0-1.
+   * @param {number} delta The time in ms since the last update.
+   * @param {number} referenceDelta The frame duration in ms the amount was
+   *     tuned for.  Defaults to 60fps.
+   */
+  static lerpDelta(value1: number, value2: number, amount: number,
+    delta: number, referenceDelta: number = REFERENCE_FRAME_DURATION): number {
+    return mathf.lerp(value1, value2,
+      mathf.deltaAmount(amount, delta, referenceDelta));
+  }
+
+
+
+  /**
+   * A frame rate independent version of [[mathf.damp]].  Takes the same
+   * amount and damp values and scales the decay by the delta time so
+   * it matches mathf.damp at the reference frame rate (60fps).
+   *
+   * ```ts
+   * const raf = new Raf(()=> {
+   *   x = mathf.dampDelta(x, targetX, 0.4, 0.2, raf.getDelta());
+   * })
+   * ```
+   *
+   * @tested
+   * @param {number} value1 The start of the range to lerp.
+   * @param {number} value2 The target of the range to lerp.
+   * @param {number} amount A value between 0-1 representing the progress of the
+   *     lerp.
+   * @param {number} damp A value between 0-1 representing the amount to damp.
+   * @param {number} delta The time in ms since the last update.
+   * @param {number} referenceDelta The frame duration in ms the amount was
+   *     tuned for.  Defaults to 60fps.
+   */
+  static dampDelta(value1: number, value2: number, amount: number,
+    damp: number, delta: number,
+    referenceDelta: number = REFERENCE_FRAME_DURATION): number {
+    return mathf.lerp(value1, value2,
+      1 - Math.exp(-amount * damp * (delta / referenceDelta)));
+  }
+
+
+
+  /**
+   * Moves value1 towards value2 so that the remaining distance halves every
+   * halfLife ms.  Frame rate independent.
+   *
+   * ```ts
+   * // Covers half the distance in 100ms, 3/4 in 200ms etc.
+   * x = mathf.lerpHalfLife(x, targetX, 100, raf.getDelta());
+   * ```
+   *
+   * @tested
+   * @param {number} value1 The start of the range to lerp.
+   * @param {number} value2 The target of the range to lerp.
+   * @param {number} halfLife The time in ms to cover half the distance.
+   * @param {number} delta The time in ms since the last update.
+   */
+  static lerpHalfLife(value1: number, value2: number, halfLife: number,
+    delta: number): number {
+    if (halfLife <= 0) {
+      return value2;
+    }
+    return mathf.lerp(value1, value2, 1 - Math.pow(2, -delta / halfLife));
+  }
+
+
+
   /**
    * An alias of [[mathf.lerpEase]]
    *
@@ -0,0 +1,152 @@
+import { MatrixIV } from './matrixIV';
+import { Quaternion } from './quaternion';
+import { Vector } from './vector';
+import test from 'ava';
+
+
+const toArray = (matrix: MatrixIV) => Array.from(matrix.value);
+
+const isClose = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+    return Array.from(a).every((value, i) => Math.abs(value - b[i]) < 0.0001);
+};
+
+
+test('static multiply with out', t => {
+    const a = new MatrixIV().translateXyz(1, 2, 3).rotateX(0.3);
+    const b = new MatrixIV().scaleXyz(2, 3, 4).rotateZ(-0.7);
+    const expected = a.clone().multiply(b);
+    const out = new MatrixIV();
+
+    t.is(MatrixIV.multiply(out, a, b), out);
+    t.deepEqual(toArray(out), toArray(expected));
+
+    // Out can be one of the inputs.
+    const a2 = a.clone();
+    MatrixIV.multiply(a2, a2, b);
+    t.deepEqual(toArray(a2), toArray(expected));
+    const b2 = b.clone();
+    MatrixIV.multiply(b2, a, b2);
+    t.deepEqual(toArray(b2), toArray(expected));
+});
+
+
+test('setFromQuaternion', t => {
+    const q = Quaternion.fromEuler(10, 20, 30);
+    const matrix = new MatrixIV().translateXyz(4, 5, 6);
+    t.is(matrix.setFromQuaternion(q), matrix);
+    t.deepEqual(toArray(matrix), toArray(MatrixIV.fromQuaternion(q)));
+});
+
+
+test('rotateX matches rotate around the x axis', t => {
+    const rotated = new MatrixIV().rotateX(0.5);
+    const expected = new MatrixIV().rotate(0.5, new Vector(1, 0, 0))!;
+    t.deepEqual(toArray(rotated), toArray(expected));
+});
+
+
+test('value is a Float32Array', t => {
+    t.true(new MatrixIV().value instanceof Float32Array);
+});
+
+
+test('determinant', t => {
+    t.is(new MatrixIV().determinant(), 1);
+    t.is(new MatrixIV().scaleXyz(2, 3, 4).determinant(), 24);
+    t.is(new MatrixIV().zero().determinant(), 0);
+});
+
+
+test('transpose', t => {
+    const matrix = MatrixIV.fromArray(new Float32Array([
+        0, 1, 2, 3,
+        4, 5, 6, 7,
+        8, 9, 10, 11,
+        12, 13, 14, 15
+    ]));
+    t.deepEqual(toArray(matrix.transpose()), [
+        0, 4, 8, 12,
+        1, 5, 9, 13,
+        2, 6, 10, 14,
+        3, 7, 11, 15
+    ]);
+});
+
+
+test('invert', t => {
+    const matrix = new MatrixIV()
+        .translateXyz(10, -20, 5).rotateY(0.4).scaleXyz(2, 3, 0.5);
+    const inverse = matrix.clone().invert()!;
+    t.true(isClose(matrix.clone().multiply(inverse).value,
+        MatrixIV.IDENTITY.value));
+
+    const point = new Vector(3, 4, 5);
+    const transformed = Vector.transformWithMatrixIV(point, matrix);
+    const local = Vector.transformWithMatrixIV(transformed, inverse);
+    t.true(isClose(local.toArray(), point.toArray()));
+
+    // Matrices that can't be inverted are left as is.
+    const singular = new MatrixIV().scaleXyz(1, 0, 1);
+    t.is(singular.invert(), null);
+    t.deepEqual(toArray(singular), toArray(new MatrixIV().scaleXyz(1, 0, 1)));
+});
+
+
+test('orthographic', t => {
+    const matrix = new MatrixIV().orthographic(-200, 200, -100, 100, 1, 1000);
+    const corner = Vector.transformWithMatrixIV(
+        new Vector(200, 100, -1), matrix);
+    t.true(isClose(corner.toArray(), [1, 1, -1]));
+    const far = Vector.transformWithMatrixIV(
+        new Vector(-200, -100, -1000), matrix);
+    t.true(isClose(far.toArray(), [-1, -1, 1]));
+});
+
+
+test('decompose', t => {
+    const position = new Vector(10, 20, 30);
+    const rotation = Quaternion.fromEuler(10, 20, 30);
+    const scale = new Vector(2, 3, 4);
+    const result =
+        MatrixIV.compose(position, rotation, scale).decompose();
+
+    t.true(isClose(result.position.toArray(), position.toArray()));
+    t.true(isClose(result.scale.toArray(), scale.toArray()));
+    t.true(isClose(
+        [result.rotation.x, result.rotation.y, result.rotation.z,
+            result.rotation.w],
+        [rotation.x, rotation.y, rotation.z, rotation.w]));
+
+    // Writes into the given objects.
+    const out = new Vector();
+    t.is(MatrixIV.compose(position, rotation, scale).decompose(out).position,
+        out);
+    t.true(isClose(out.toArray(), position.toArray()));
+});
+
+
+test('fromCssMatrix3d', t => {
+    const matrix = new MatrixIV().rotateZ(0.3).translateXyz(10, 20, 30);
+    const parsed = MatrixIV.fromCssMatrix3d(matrix.toCss3dMatrix());
+    t.deepEqual(toArray(parsed), toArray(matrix));
+
+    // 2d matrices.
+    const translation = MatrixIV.fromCssMatrix3d('matrix(2, 0, 0, 3, 40, 50)');
+    const expected = MatrixIV.compose(
+        new Vector(40, 50, 0), new Quaternion(), new Vector(2, 3, 1));
+    t.deepEqual(toArray(translation), toArray(expected));
+
+    // Ready for decompose and point transforms without a transpose.
+    const decomposed = translation.decompose();
+    t.true(isClose(decomposed.position.toArray(), [40, 50, 0]));
+    t.true(isClose(decomposed.scale.toArray(), [2, 3, 1]));
+    t.true(isClose(new Vector(1, 1, 0).transformWithMatrixIV(translation)
+        .toArray(), [42, 53, 0]));
+    t.is(MatrixIV.fromCssMatrix3d('matrix3d(1, 0, 0, 0, 0, 1, 0, 0, ' +
+        '0, 0, 1, 0, 5, 6, 7, 1)').value[14], 7);
+
+    t.deepEqual(toArray(MatrixIV.fromCssMatrix3d('none')),
+        toArray(new MatrixIV()));
+    t.throws(() => MatrixIV.fromCssMatrix3d('rotate(20deg)'));
+    t.throws(() => MatrixIV.fromCssMatrix3d('matrix3d(1, 2, 3)'));
+});
@@ -1,5 +1,6 @@
 import { Vector } from './vector';
 import { Quaternion } from './quaternion';
+import { Pool } from './pool';
 
 /**
  * A 4 four dimensional homogenous matrix class.
@@ -21,6 +22,21 @@ import { Quaternion } from './quaternion';
  *
  * ```
  *
+ * Values are stored in a Float32Array and instance methods write into it
+ * so a matrix can be reused every frame.  Static methods that take an out
+ * matrix do the same.
+ *
+ * ```ts
+ * // Created once.
+ * const matrix = new MatrixIV();
+ * const rotation = new MatrixIV();
+ *
+ * // Every frame.
+ * rotation.setFromQuaternion(quaternion);
+ * matrix.identity().translate(position).multiply(rotation);
+ * MatrixIV.multiply(matrix, projection, matrix);
+ * ```
+ *
  * Referenced:
  * @see http://www.opengl-tutorial.org/beginners-tutorials/tutorial-3-matrices/
  * @see https://github.com/doxas/minMatrix.js/blob/master/minMatrix.js
@@ -35,6 +51,11 @@ import { Quaternion } from './quaternion';
  */
 export class MatrixIV {
 
+    /**
+     * A pool of matrices for temporary values.  See [[Pool]].
+     */
+    static pool: Pool<MatrixIV> = new Pool<MatrixIV>(() => new MatrixIV());
+
     /**
      * The internal matrix values.
      *
@@ -52,7 +73,6 @@ export class MatrixIV {
 
     constructor(matrix?: MatrixIV) {
         this.value = new Float32Array(16);
-        this.identity();
 
         // If matrix was provided, copy it, otherwise, create
         // an identity default matrix.
@@ -129,7 +149,7 @@ export class MatrixIV {
      * @param {MatrixIV} matrixIV
      */
     copy(matrix4: MatrixIV): MatrixIV {
-        this.value = matrix4.value.slice(0);
+        this.value.set(matrix4.value);
         return this;
     }
 
@@ -256,41 +276,74 @@ export class MatrixIV {
 
 
     /**
-     * Converts the current 4x4 matrix over to a css 3d matrix translation string.
+     * Converts the current 4x4 matrix over to a css 3d matrix string.
      *
-     * ```
+     * Css lists the values column by column with the translation at 12, 13
+     * and 14 which is the layout of compose, decompose and
+     * Vector.transformWithMatrixIV so the values are written in order.
      *
-     * [
-     * a1 a2 a3 a4
-     * b1 b2 b3 b4
-     * c1 c2 c3 c4
-     * d1 d2 d3 d4
-     * ]
-     * = matrix3d(a1, b1, c1, d1, a2, b2, c2, d2, a3, b3, c3, d3, a4, b4, c4, d4)
      * ```
-     *
+     * matrix3d(v0, v1, v2, v3, v4, ..., v12, v13, v14, v15)
+     * ```
      *
      * @see https://developer.mozilla.org/en-US/docs/Web/CSS/transform-function/matrix3d
      */
     toCss3dMatrix(): string {
-        const a1 = this.value[0];
-        const a2 = this.value[1];
-        const a3 = this.value[2];
-        const a4 = this.value[3];
-        const b1 = this.value[4];
-        const b2 = this.value[5];
-        const b3 = this.value[6];
-        const b4 = this.value[7];
-        const c1 = this.value[8];
-        const c2 = this.value[9];
-        const c3 = this.value[10];
-        const c4 = this.value[11];
-        const d1 = this.value[12];
-        const d2 = this.value[13];
-        const d3 = this.value[14];
-        const d4 = this.value[15];
-        return `matrix3d(${a1}, ${b1}, ${c1}, ${d1}, ${a2}, ${b2},
-            ${c2}, ${d2}, ${a3}, ${b3}, ${c3}, ${d3}, ${a4}, ${b4}, ${c4}, ${d4})`;
+        return `matrix3d(${Array.from(this.value).join(', ')})`;
+    }
+
+
+    /**
+     * Sets this matrix from a css transform matrix.  Takes `matrix3d(...)`,
+     * `matrix(...)` or `none` which is what getComputedStyle returns.
+     *
+     * The values are read in the layout toCss3dMatrix writes so the
+     * translation ends up in values 12, 13 and 14 ready for decompose or
+     * Vector.transformWithMatrixIV.
+     *
+     * ```ts
+     * const css = window.getComputedStyle(element).transform;
+     * const matrix = MatrixIV.fromCssMatrix3d(css);
+     *
+     * // The css translation, rotation and scale.
+     * const { position, rotation, scale } = matrix.decompose();
+     * ```
+     *
+     * @param css
+     * @tested
+     */
+    setFromCssMatrix3d(css: string): MatrixIV {
+        css = css.trim();
+        if (css === 'none') {
+            return this.identity();
+        }
+
+        const match = css.match(/^(matrix3d|matrix)\(([^)]*)\)$/);
+        if (!match) {
+            throw new Error(`Invalid css matrix ${css}.`);
+        }
+
+        let values = match[2].split(',').map((value) => parseFloat(value));
+        if (match[1] === 'matrix' && values.length === 6) {
+            const [a, b, c, d, e, f] = values;
+            values = [a, b, 0, 0, c, d, 0, 0, 0, 0, 1, 0, e, f, 0, 1];
+        }
+        if (values.length !== 16 || values.some((value) => isNaN(value))) {
+            throw new Error(`Invalid css matrix ${css}.`);
+        }
+
+        this.value.set(values);
+        return this;
+    }
+
+
+    /**
+     * Creates a new matrix from a css transform matrix.  See
+     * [[MatrixIV.setFromCssMatrix3d]].
+     * @param css
+     */
+    static fromCssMatrix3d(css: string): MatrixIV {
+        return new MatrixIV().setFromCssMatrix3d(css);
     }
 
 
@@ -305,69 +358,57 @@ export class MatrixIV {
      * @param mat
      */
     multiply(mat: MatrixIV): MatrixIV {
-        var a00 = this.value[0];
-        var a01 = this.value[1];
-        var a02 = this.value[2];
-        var a03 = this.value[3];
-
-        var a10 = this.value[4];
-        var a11 = this.value[5];
-        var a12 = this.value[6];
-        var a13 = this.value[7];
-
-        var a20 = this.value[8];
-        var a21 = this.value[9];
-        var a22 = this.value[10];
-        var a23 = this.value[11];
-
-        var a30 = this.value[12];
-        var a31 = this.value[13];
-        var a32 = this.value[14];
-        var a33 = this.value[15];
-
-        var b = mat.value;
-
-        var b0 = b[0];
-        var b1 = b[1];
-        var b2 = b[2];
-        var b3 = b[3];
-
-        this.value[0] = b0 * a00 + b1 * a10 + b2 * a20 + b3 * a30;
-        this.value[1] = b0 * a01 + b1 * a11 + b2 * a21 + b3 * a31;
-        this.value[2] = b0 * a02 + b1 * a12 + b2 * a22 + b3 * a32;
-        this.value[3] = b0 * a03 + b1 * a13 + b2 * a23 + b3 * a33;
-
-        b0 = b[4];
-        b1 = b[5];
-        b2 = b[6];
-        b3 = b[7];
-
-        this.value[4] = b0 * a00 + b1 * a10 + b2 * a20 + b3 * a30;
-        this.value[5] = b0 * a01 + b1 * a11 + b2 * a21 + b3 * a31;
-        this.value[6] = b0 * a02 + b1 * a12 + b2 * a22 + b3 * a32;
-        this.value[7] = b0 * a03 + b1 * a13 + b2 * a23 + b3 * a33;
-
-        b0 = b[8];
-        b1 = b[9];
-        b2 = b[10];
-        b3 = b[11];
-
-        this.value[8] = b0 * a00 + b1 * a10 + b2 * a20 + b3 * a30;
-        this.value[9] = b0 * a01 + b1 * a11 + b2 * a21 + b3 * a31;
-        this.value[10] = b0 * a02 + b1 * a12 + b2 * a22 + b3 * a32;
-        this.value[11] = b0 * a03 + b1 * a13 + b2 * a23 + b3 * a33;
-
-        b0 = b[12];
-        b1 = b[13];
-        b2 = b[14];
-        b3 = b[15];
-
-        this.value[12] = b0 * a00 + b1 * a10 + b2 * a20 + b3 * a30;
-        this.value[13] = b0 * a01 + b1 * a11 + b2 * a21 + b3 * a31;
-        this.value[14] = b0 * a02 + b1 * a12 + b2 * a22 + b3 * a32;
-        this.value[15] = b0 * a03 + b1 * a13 + b2 * a23 + b3 * a33;
+        return MatrixIV.multiply(this, this, mat);
+    }
 
-        return this;
+
+    /**
+     * Multiplies matrix a with b and writes the result into the out matrix.
+     * Out can be a or b.  Same as `out.copy(a).multiply(b)`.
+     *
+     * ```ts
+     * MatrixIV.multiply(out, projectionMatrix, viewMatrix);
+     * ```
+     * @param out
+     * @param a
+     * @param b
+     * @tested
+     */
+    static multiply(out: MatrixIV, a: MatrixIV, b: MatrixIV): MatrixIV {
+        const av = a.value;
+        const a00 = av[0], a01 = av[1], a02 = av[2], a03 = av[3];
+        const a10 = av[4], a11 = av[5], a12 = av[6], a13 = av[7];
+        const a20 = av[8], a21 = av[9], a22 = av[10], a23 = av[11];
+        const a30 = av[12], a31 = av[13], a32 = av[14], a33 = av[15];
+
+        const bv = b.value;
+        const b00 = bv[0], b01 = bv[1], b02 = bv[2], b03 = bv[3];
+        const b10 = bv[4], b11 = bv[5], b12 = bv[6], b13 = bv[7];
+        const b20 = bv[8], b21 = bv[9], b22 = bv[10], b23 = bv[11];
+        const b30 = bv[12], b31 = bv[13], b32 = bv[14], b33 = bv[15];
+
+        const o = out.value;
+        o[0] = b00 * a00 + b01 * a10 + b02 * a20 + b03 * a30;
+        o[1] = b00 * a01 + b01 * a11 + b02 * a21 + b03 * a31;
+        o[2] = b00 * a02 + b01 * a12 + b02 * a22 + b03 * a32;
+        o[3] = b00 * a03 + b01 * a13 + b02 * a23 + b03 * a33;
+
+        o[4] = b10 * a00 + b11 * a10 + b12 * a20 + b13 * a30;
+        o[5] = b10 * a01 + b11 * a11 + b12 * a21 + b13 * a31;
+        o[6] = b10 * a02 + b11 * a12 + b12 * a22 + b13 * a32;
+        o[7] = b10 * a03 + b11 * a13 + b12 * a23 + b13 * a33;
+
+        o[8] = b20 * a00 + b21 * a10 + b22 * a20 + b23 * a30;
+        o[9] = b20 * a01 + b21 * a11 + b22 * a21 + b23 * a31;
+        o[10] = b20 * a02 + b21 * a12 + b22 * a22 + b23 * a32;
+        o[11] = b20 * a03 + b21 * a13 + b22 * a23 + b23 * a33;
+
+        o[12] = b30 * a00 + b31 * a10 + b32 * a20 + b33 * a30;
+        o[13] = b30 * a01 + b31 * a11 + b32 * a21 + b33 * a31;
+        o[14] = b30 * a02 + b31 * a12 + b32 * a22 + b33 * a32;
+        o[15] = b30 * a03 + b31 * a13 + b32 * a23 + b33 * a33;
+
+        return out;
     }
 
     /**
@@ -432,10 +473,140 @@ export class MatrixIV {
      *   // Now t0-t3 are vector of the corner points of a 100x100 square.
      *
      * ```
+     *
+     * @param v
+     * @param w Use 1 for positions and 0 for direction.
+     * @param out Optional vector to write the result into.
      */
-    multiplyByVector(v: Vector, w: number = 1): Vector {
-        let result = this.multiplyBy4x1(v.x, v.y, v.z, w);
-        return new Vector(result[0], result[1], result[2]);
+    multiplyByVector(v: Vector, w: number = 1, out: Vector = new Vector()):
+        Vector {
+        const a = this.value;
+        const x = v.x;
+        const y = v.y;
+        const z = v.z;
+        return out.set(
+            a[0] * x + a[1] * y + a[2] * z + a[3] * w,
+            a[4] * x + a[5] * y + a[6] * z + a[7] * w,
+            a[8] * x + a[9] * y + a[10] * z + a[11] * w
+        );
+    }
+
+
+    /**
+     * Calculates the determinant of this matrix.  A determinant of 0 means
+     * the matrix can't be inverted.
+     * Based off: https://github.com/toji/gl-matrix/blob/master/src/mat4.js
+     * @tested
+     */
+    determinant(): number {
+        const a = this.value;
+        const a00 = a[0], a01 = a[1], a02 = a[2], a03 = a[3];
+        const a10 = a[4], a11 = a[5], a12 = a[6], a13 = a[7];
+        const a20 = a[8], a21 = a[9], a22 = a[10], a23 = a[11];
+        const a30 = a[12], a31 = a[13], a32 = a[14], a33 = a[15];
+
+        const b00 = a00 * a11 - a01 * a10;
+        const b01 = a00 * a12 - a02 * a10;
+        const b02 = a00 * a13 - a03 * a10;
+        const b03 = a01 * a12 - a02 * a11;
+        const b04 = a01 * a13 - a03 * a11;
+        const b05 = a02 * a13 - a03 * a12;
+        const b06 = a20 * a31 - a21 * a30;
+        const b07 = a20 * a32 - a22 * a30;
+        const b08 = a20 * a33 - a23 * a30;
+        const b09 = a21 * a32 - a22 * a31;
+        const b10 = a21 * a33 - a23 * a31;
+        const b11 = a22 * a33 - a23 * a32;
+
+        return b00 * b11 - b01 * b10 + b02 * b09 +
+            b03 * b08 - b04 * b07 + b05 * b06;
+    }
+
+
+    /**
+     * Transposes this matrix, swapping the rows and columns.
+     *
+     * ```ts
+     * // The same matrix with the translation in values 3, 7 and 11.
+     * let transposed = matrix.clone().transpose();
+     * ```
+     * @tested
+     */
+    transpose(): MatrixIV {
+        const a = this.value;
+        let temp;
+        temp = a[1]; a[1] = a[4]; a[4] = temp;
+        temp = a[2]; a[2] = a[8]; a[8] = temp;
+        temp = a[3]; a[3] = a[12]; a[12] = temp;
+        temp = a[6]; a[6] = a[9]; a[9] = temp;
+        temp = a[7]; a[7] = a[13]; a[13] = temp;
+        temp = a[11]; a[11] = a[14]; a[14] = temp;
+        return this;
+    }
+
+
+    /**
+     * Inverts this matrix.  Returns null and leaves the matrix as is if the
+     * matrix can't be inverted.
+     *
+     * Use it to go back from screen space to local space such as for hit
+     * testing.
+     *
+     * ```ts
+     * const inverse = transformMatrix.clone().invert();
+     * if (inverse) {
+     *   const local = Vector.transformWithMatrixIV(screenPoint, inverse);
+     * }
+     * ```
+     *
+     * Based off: https://github.com/toji/gl-matrix/blob/master/src/mat4.js
+     * @tested
+     */
+    invert(): MatrixIV | null {
+        const a = this.value;
+        const a00 = a[0], a01 = a[1], a02 = a[2], a03 = a[3];
+        const a10 = a[4], a11 = a[5], a12 = a[6], a13 = a[7];
+        const a20 = a[8], a21 = a[9], a22 = a[10], a23 = a[11];
+        const a30 = a[12], a31 = a[13], a32 = a[14], a33 = a[15];
+
+        const b00 = a00 * a11 - a01 * a10;
+        const b01 = a00 * a12 - a02 * a10;
+        const b02 = a00 * a13 - a03 * a10;
+        const b03 = a01 * a12 - a02 * a11;
+        const b04 = a01 * a13 - a03 * a11;
+        const b05 = a02 * a13 - a03 * a12;
+        const b06 = a20 * a31 - a21 * a30;
+        const b07 = a20 * a32 - a22 * a30;
+        const b08 = a20 * a33 - a23 * a30;
+        const b09 = a21 * a32 - a22 * a31;
+        const b10 = a21 * a33 - a23 * a31;
+        const b11 = a22 * a33 - a23 * a32;
+
+        let det = b00 * b11 - b01 * b10 + b02 * b09 +
+            b03 * b08 - b04 * b07 + b05 * b06;
+        if (!det) {
+            return null;
+        }
+        det = 1 / det;
+
+        a[0] = (a11 * b11 - a12 * b10 + a13 * b09) * det;
+        a[1] = (a02 * b10 - a01 * b11 - a03 * b09) * det;
+        a[2] = (a31 * b05 - a32 * b04 + a33 * b03) * det;
+        a[3] = (a22 * b04 - a21 * b05 - a23 * b03) * det;
+        a[4] = (a12 * b08 - a10 * b11 - a13 * b07) * det;
+        a[5] = (a00 * b11 - a02 * b08 + a03 * b07) * det;
+        a[6] = (a32 * b02 - a30 * b05 - a33 * b01) * det;
+        a[7] = (a20 * b05 - a22 * b02 + a23 * b01) * det;
+        a[8] = (a10 * b10 - a11 * b08 + a13 * b06) * det;
+        a[9] = (a01 * b08 - a00 * b10 - a03 * b06) * det;
+        a[10] = (a30 * b04 - a31 * b02 + a33 * b00) * det;
+        a[11] = (a21 * b02 - a20 * b04 - a23 * b00) * det;
+        a[12] = (a11 * b07 - a10 * b09 - a12 * b06) * det;
+        a[13] = (a00 * b09 - a01 * b07 + a02 * b06) * det;
+        a[14] = (a31 * b01 - a30 * b03 - a32 * b00) * det;
+        a[15] = (a20 * b03 - a21 * b01 + a22 * b00) * det;
+
+        return this;
     }
 
 
@@ -459,13 +630,21 @@ export class MatrixIV {
      * @param axis A vector point that acts as the axis.
      */
     rotate(angle: number, axis: Vector): MatrixIV | null {
-        let mg = axis.magnitude();
+        return this.rotateXyz(angle, axis.x, axis.y, axis.z);
+    }
+
+
+    /**
+     * Rotates this matrix at an given angle around the x, y, z axis.
+     * Same as rotate without the axis vector.
+     * @param angle An angle in radians
+     */
+    rotateXyz(angle: number, a: number, b: number, c: number):
+        MatrixIV | null {
+        let mg = Math.sqrt(a * a + b * b + c * c);
         if (!mg) {
             return null;
         }
-        let a = axis.x,
-            b = axis.y,
-            c = axis.z;
         if (mg != 1) {
             mg = 1 / mg;
             a *= mg;
@@ -519,7 +698,7 @@ export class MatrixIV {
      * @param angle Angle in radians.
      */
     rotateX(angle: number) {
-        this.rotate(angle, new Vector(1, 0, 0))
+        this.rotateXyz(angle, 1, 0, 0);
         return this;
     }
 
@@ -528,7 +707,7 @@ export class MatrixIV {
      * @param angle Angle in radians.
      */
     rotateY(angle: number) {
-        this.rotate(angle, new Vector(0, 1, 0))
+        this.rotateXyz(angle, 0, 1, 0);
         return this;
     }
 
@@ -537,7 +716,7 @@ export class MatrixIV {
      * @param angle Angle in radians.
      */
     rotateZ(angle: number) {
-        this.rotate(angle, new Vector(0, 0, 1))
+        this.rotateXyz(angle, 0, 0, 1);
         return this;
     }
 
@@ -577,7 +756,7 @@ export class MatrixIV {
         if (Math.abs(eyex - centerx) < 0.00001 &&
             Math.abs(eyey - centery) < 0.00001 &&
             Math.abs(eyez - centerz) < 0.00001) {
-            return MatrixIV.IDENTITY;
+            return this.identity();
         }
 
         var z0 = eyex - centerx;
@@ -689,6 +868,51 @@ export class MatrixIV {
     }
 
 
+    /**
+     * Generates an orthographic projection matrix with the given bounds.
+     * Unlike perspective, objects keep their size regardless of their
+     * distance from the camera.
+     *
+     * ```ts
+     * const projectionMatrix = new MatrixIV().orthographic(
+     *     -width / 2, width / 2, -height / 2, height / 2, 1, 1000);
+     * ```
+     *
+     * Based off: https://github.com/toji/gl-matrix/blob/master/src/mat4.js
+     * @param left The left bound of the frustum.
+     * @param right The right bound of the frustum.
+     * @param bottom The bottom bound of the frustum.
+     * @param top The top bound of the frustum.
+     * @param near The near clipping bound of the frustum.
+     * @param far The far clipping bound of the frustum.
+     * @tested
+     */
+    orthographic(left: number, right: number, bottom: number, top: number,
+        near: number, far: number): MatrixIV {
+        const lr = 1 / (left - right);
+        const bt = 1 / (bottom - top);
+        const nf = 1 / (near - far);
+        this.value[0] = -2 * lr;
+        this.value[1] = 0;
+        this.value[2] = 0;
+        this.value[3] = 0;
+        this.value[4] = 0;
+        this.value[5] = -2 * bt;
+        this.value[6] = 0;
+        this.value[7] = 0;
+        this.value[8] = 0;
+        this.value[9] = 0;
+        this.value[10] = 2 * nf;
+        this.value[11] = 0;
+        this.value[12] = (left + right) * lr;
+        this.value[13] = (top + bottom) * bt;
+        this.value[14] = (far + near) * nf;
+        this.value[15] = 1;
+
+        return this;
+    }
+
+
 
     /**
      * Sets the values of this matrix based on given yaw, pitch and roll.
@@ -696,8 +920,8 @@ export class MatrixIV {
      */
     ypr(yaw: number, pitch: number, roll: number) {
         this.zero();
-        let temp = new MatrixIV().zero();
-        let temp2 = new MatrixIV().zero();
+        let temp = MatrixIV.temp.zero();
+        let temp2 = MatrixIV.temp2.zero();
 
         var m0 = this.value;
         var m1 = temp.value;
@@ -771,6 +995,17 @@ export class MatrixIV {
      * @param q
      */
     static fromQuaternion(q: Quaternion): MatrixIV {
+        return new MatrixIV().setFromQuaternion(q);
+    }
+
+
+    /**
+     * Sets this matrix to the rotation of a quaternion.  Same as
+     * [[MatrixIV.fromQuaternion]] without creating a new matrix.
+     * Based off: https://github.com/toji/gl-matrix/blob/master/src/mat4.js
+     * @param q
+     */
+    setFromQuaternion(q: Quaternion): MatrixIV {
         let x = q.x, y = q.y, z = q.z, w = q.w;
         let x2 = x + x;
         let y2 = y + y;
@@ -786,7 +1021,7 @@ export class MatrixIV {
         let wy = w * y2;
         let wz = w * z2;
 
-        let out = [];
+        const out = this.value;
         out[0] = 1 - yy - zz;
         out[1] = yx + wz;
         out[2] = zx - wy;
@@ -807,8 +1042,7 @@ export class MatrixIV {
         out[14] = 0;
         out[15] = 1;
 
-        return MatrixIV.fromArray(new Float32Array(out));
-
+        return this;
     }
 
     /**
@@ -835,7 +1069,20 @@ export class MatrixIV {
      * @param scale
      */
     static compose(position: Vector, rotation: Quaternion, scale: Vector) {
-        var out = [];
+        return new MatrixIV().setCompose(position, rotation, scale);
+    }
+
+
+    /**
+     * Sets this matrix to a position, rotation and scale.  Same as
+     * [[MatrixIV.compose]] without creating a new matrix.
+     * @param position
+     * @param rotation
+     * @param scale
+     */
+    setCompose(position: Vector, rotation: Quaternion, scale: Vector):
+        MatrixIV {
+        const out = this.value;
 
         var x = rotation.x, y = rotation.y, z = rotation.z, w = rotation.w;
         var x2 = x + x, y2 = y + y, z2 = z + z;
@@ -865,8 +1112,69 @@ export class MatrixIV {
         out[14] = position.z;
         out[15] = 1;
 
-        return new MatrixIV().fromArray(new Float32Array(out));
+        return this;
+    }
 
+
+    /**
+     * Splits this matrix into a position, rotation and scale.  The opposite
+     * of [[MatrixIV.compose]].
+     *
+     * ```ts
+     * const { position, rotation, scale } = matrix.decompose();
+     *
+     * // Or write into existing objects.
+     * matrix.decompose(myPosition, myRotation, myScale);
+     * ```
+     *
+     * Thanks to Mr. Doob:
+     * https://github.com/mrdoob/three.js/blob/master/src/math/Matrix4.js
+     *
+     * @param position Optional vector to write the position into.
+     * @param rotation Optional quaternion to write the rotation into.
+     * @param scale Optional vector to write the scale into.
+     * @tested
+     */
+    decompose(position: Vector = new Vector(),
+        rotation: Quaternion = new Quaternion(),
+        scale: Vector = new Vector()):
+        { position: Vector, rotation: Quaternion, scale: Vector } {
+        const a = this.value;
+
+        let sx = Math.hypot(a[0], a[1], a[2]);
+        const sy = Math.hypot(a[4], a[5], a[6]);
+        const sz = Math.hypot(a[8], a[9], a[10]);
+
+        // A negative determinant means the matrix is mirrored.
+        if (this.determinant() < 0) {
+            sx = -sx;
+        }
+
+        position.set(a[12], a[13], a[14]);
+        scale.set(sx, sy, sz);
+
+        // Remove the scale to get the rotation.
+        const rotationMatrix = MatrixIV.temp.copy(this);
+        const m = rotationMatrix.value;
+        const invSx = sx ? 1 / sx : 0;
+        const invSy = sy ? 1 / sy : 0;
+        const invSz = sz ? 1 / sz : 0;
+        m[0] *= invSx;
+        m[1] *= invSx;
+        m[2] *= invSx;
+        m[4] *= invSy;
+        m[5] *= invSy;
+        m[6] *= invSy;
+        m[8] *= invSz;
+        m[9] *= invSz;
+        m[10] *= invSz;
+        rotation.copy(Quaternion.fromRotationMatrixIV(rotationMatrix));
+
+        return {
+            position: position,
+            rotation: rotation,
+            scale: scale
+        };
     }
 
 
@@ -890,4 +1198,11 @@ export class MatrixIV {
     }
 
 
+    /**
+     * Scratch matrices for ypr.
+     */
+    private static temp: MatrixIV = new MatrixIV();
+    private static temp2: MatrixIV = new MatrixIV();
+
+
 }
\ No newline at end of file
@@ -0,0 +1,111 @@
+import { Noise } from './noise';
+import test from 'ava';
+
+
+const samples = (count: number, callback: (x: number, y: number, z: number,
+    w: number) => void) => {
+    for (let i = 0; i < count; i++) {
+        callback(i * 0.37 - 20.13, i * 0.71 + 3.07, i * -0.53 + 0.11,
+            i * 0.19 + 0.05);
+    }
+};
+
+test('simplex ranges', t => {
+    const noise = new Noise();
+    let min = Infinity;
+    let max = -Infinity;
+    samples(500, (x, y, z, w) => {
+        [
+            noise.simplex2(x, y),
+            noise.simplex3(x, y, z),
+            noise.simplex4(x, y, z, w),
+        ].forEach((value) => {
+            min = Math.min(min, value);
+            max = Math.max(max, value);
+        });
+    });
+    t.true(min >= -1.1 && min < -0.3);
+    t.true(max <= 1.1 && max > 0.3);
+});
+
+test('simplex is continuous', t => {
+    samples(50, (x, y, z, w) => {
+        t.true(Math.abs(Noise.simplex2(x, y) -
+            Noise.simplex2(x + 0.0001, y)) < 0.01);
+        t.true(Math.abs(Noise.simplex3(x, y, z) -
+            Noise.simplex3(x, y, z + 0.0001)) < 0.01);
+        t.true(Math.abs(Noise.simplex4(x, y, z, w) -
+            Noise.simplex4(x, y, z, w + 0.0001)) < 0.01);
+    });
+});
+
+test('golden samples', t => {
+    // Reference values of the GLSL noise chunk evaluated in double precision
+    // by an independent port (with 1/7 exact, as float32 rounds it on the
+    // GPU).
+    const near = (a: number, b: number) => Math.abs(a - b) < 1e-9;
+    t.true(near(Noise.simplex2(0.3, 0.4), 0.19092948726188844));
+    t.true(near(Noise.simplex2(1.7, -2.3), -0.5348180954547972));
+    t.true(near(Noise.simplex2(100.1, 200.2), -0.7651542701218481));
+    t.true(near(Noise.simplex3(0.3, 0.4, 0.5), 0.03666773421125652));
+    t.true(near(Noise.simplex3(1.7, -2.3, 4.1), 0.4247638935391584));
+    t.true(near(Noise.simplex3(-12.5, 7.25, 3.75), -0.40869421492137065));
+    t.true(near(Noise.simplex3(100.1, 200.2, 300.3), -0.32232418311860933));
+    t.true(near(Noise.simplex4(0.3, 0.4, 0.5, 0.6), -0.6913732396816098));
+    t.true(near(Noise.simplex4(1.7, -2.3, 4.1, 0.9), -0.14419628181167152));
+    t.true(near(Noise.simplex4(-12.5, 7.25, 3.75, -1.5),
+        0.021551399379646834));
+    t.true(near(Noise.simplex4(100.1, 200.2, 300.3, 400.4),
+        0.12774805187227475));
+});
+
+test('seeds', t => {
+    const a = new Noise(1);
+    const b = new Noise(1);
+    const c = new Noise(2);
+    t.is(a.simplex3(0.3, 0.4, 0.5), b.simplex3(0.3, 0.4, 0.5));
+    t.not(a.simplex3(0.3, 0.4, 0.5), c.simplex3(0.3, 0.4, 0.5));
+
+    // The seed is a domain offset.
+    const offset = a.getOffset();
+    t.is(a.simplex3(0.3, 0.4, 0.5),
+        Noise.simplex3(0.3 + offset.x, 0.4 + offset.y, 0.5 + offset.z));
+    t.true(new Noise().getOffset().equals(offset.clone().scale(0)));
+});
+
+test('fbm', t => {
+    const noise = new Noise(3);
+    t.is(noise.fbm3(0.1, 0.2, 0.3, 1), noise.simplex3(0.1, 0.2, 0.3));
+    const x = 0.1 + noise.getOffset().x;
+    const y = 0.2 + noise.getOffset().y;
+    t.is(noise.fbm2(0.1, 0.2, 2, 2, 0.5),
+        (Noise.simplex2(x, y) + 0.5 * Noise.simplex2(x * 2, y * 2)) / 1.5);
+    samples(100, (x, y, z) => {
+        t.true(Math.abs(noise.fbm3(x, y, z, 6)) <= 1.1);
+    });
+});
+
+test('seeded fbm and curl sample the unseeded field at the offset', t => {
+    const noise = new Noise(5);
+    const offset = noise.getOffset();
+    samples(20, (x, y, z) => {
+        t.is(noise.fbm3(x, y, z, 5, 2, 0.5), Noise.fbm3(
+            x + offset.x, y + offset.y, z + offset.z, 5, 2, 0.5));
+        t.is(noise.fbm2(x, y), Noise.fbm2(x + offset.x, y + offset.y));
+        t.true(noise.curl3(x, y, z).equals(
+            Noise.curl3(x + offset.x, y + offset.y, z + offset.z)));
+        t.true(noise.curl2(x, y).equals(
+            Noise.curl2(x + offset.x, y + offset.y)));
+    });
+});
+
+test('curl is divergence free', t => {
+    const noise = new Noise(4);
+    const e = 0.001;
+    samples(10, (x, y) => {
+        const divergence =
+            (noise.curl2(x + e, y).x - noise.curl2(x - e, y).x) / (2 * e) +
+            (noise.curl2(x, y + e).y - noise.curl2(x, y - e).y) / (2 * e);
+        t.true(Math.abs(divergence) < 0.05);
+    });
+});
@@ -0,0 +1,489 @@
+import { Vector } from './vector';
+import { Random } from './random';
+
+
+/**
+ * The step used by the central differences of the curl noise.  Matches the
+ * curlNoise functions of the GLSL noise chunk.
+ */
+const CURL_EPSILON = 0.01;
+
+
+/**
+ * The GLSL version multiplies by 1/289.  Dividing keeps multiples of 289
+ * exact in double precision.
+ */
+const mod289 = (x: number): number => {
+    return x - Math.floor(x / 289.0) * 289.0;
+};
+
+
+/**
+ * The permutation polynomial (ring size 289 = 17 * 17).
+ */
+const permute = (x: number): number => {
+    return mod289(((x * 34.0) + 1.0) * x);
+};
+
+
+const taylorInvSqrt = (r: number): number => {
+    return 1.79284291400159 - 0.85373472095314 * r;
+};
+
+
+const fract = (x: number): number => {
+    return x - Math.floor(x);
+};
+
+
+/**
+ * GLSL step.  0 if x is smaller than the edge, otherwise 1.
+ */
+const step = (edge: number, x: number): number => {
+    return x < edge ? 0.0 : 1.0;
+};
+
+
+/**
+ * Seedable simplex noise that produces the same field as the GLSL noise
+ * chunk (`shaders/three-shader-chunks/noise.ts`) so a layout computed on
+ * the CPU lines up with a shader running on the GPU.
+ *
+ * Instead of a permutation table, the hashing is the permutation polynomial
+ * of the GLSL version so nothing has to be rebuilt per call.  Seeding
+ * only offsets the domain by 0 to 289 on each axis, so seeded fields are
+ * translations of the same field rather than independent noise.  Pass the
+ * same offset to the shader to get the same field there.
+ *
+ * ```ts
+ * const noise = new Noise(1234);
+ *
+ * noise.simplex2(x, y); // -1 to 1
+ * noise.simplex3(x, y, z); // -1 to 1
+ * noise.simplex4(x, y, z, w); // -1 to 1
+ *
+ * // Fractal brownian motion. Octaves, lacunarity and gain.
+ * noise.fbm3(x, y, z, 5, 2, 0.5);
+ *
+ * // Divergence free flow fields.
+ * const velocity = noise.curl3(x, y, z);
+ * ```
+ *
+ * Matching the GPU.
+ * ```ts
+ * uniforms.noiseOffset.value = noise.getOffset();
+ *
+ * // glsl
+ * float n = snoise(position + noiseOffset.xyz);
+ * float f = fbm(position + noiseOffset.xyz, 5, 2.0, 0.5);
+ * vec3 c = curlNoise(position + noiseOffset.xyz);
+ * ```
+ *
+ * Without a seed the offset is zero and the noise is the exact field of the
+ * unmodified GLSL functions.
+ *
+ * @see https://github.com/ashima/webgl-noise
+ * @see https://github.com/stegu/psrdnoise
+ * @tested
+ */
+export class Noise {
+    private offset: Vector;
+
+    /**
+     * @param seed Optional seed.  Different seeds sample the same field at
+     *     different offsets within [0, 289).
+     */
+    constructor(seed?: number) {
+        if (seed === undefined || seed === null) {
+            this.offset = new Vector();
+        } else {
+            const random = new Random(seed);
+            this.offset = new Vector(
+                random.float(0, 289), random.float(0, 289),
+                random.float(0, 289), random.float(0, 289));
+        }
+    }
+
+
+    /**
+     * The domain offset of the seed.  Add it to the coordinates passed to
+     * the GLSL noise functions to get the same field on the GPU.
+     */
+    getOffset(): Vector {
+        return new Vector(
+            this.offset.x, this.offset.y, this.offset.z, this.offset.w);
+    }
+
+
+    /**
+     * 2D simplex noise.  Matches GLSL `snoise(vec2)`.
+     * @return A value between -1 and 1.
+     */
+    simplex2(x: number, y: number): number {
+        return Noise.simplex2(x + this.offset.x, y + this.offset.y);
+    }
+
+
+    /**
+     * 3D simplex noise.  Matches GLSL `snoise(vec3)`.
+     * @return A value between -1 and 1.
+     */
+    simplex3(x: number, y: number, z: number): number {
+        return Noise.simplex3(
+            x + this.offset.x, y + this.offset.y, z + this.offset.z);
+    }
+
+
+    /**
+     * 4D simplex noise.  Matches GLSL `snoise(vec4)`.  Commonly used to
+     * animate a 3D field by passing time as w.
+     * @return A value between -1 and 1.
+     */
+    simplex4(x: number, y: number, z: number, w: number): number {
+        return Noise.simplex4(x + this.offset.x, y + this.offset.y,
+            z + this.offset.z, w + this.offset.w);
+    }
+
+
+    /**
+     * Fractal brownian motion of 2D simplex noise.  Matches GLSL
+     * `fbm(vec2, int, float, float)` at the offset point.
+     * @param octaves The number of layers.
+     * @param lacunarity The frequency multiplier of each layer.
+     * @param gain The amplitude multiplier of each layer.
+     * @return A value between -1 and 1.
+     */
+    fbm2(x: number, y: number, octaves: number = 4, lacunarity: number = 2,
+        gain: number = 0.5): number {
+        return Noise.fbm2(x + this.offset.x, y + this.offset.y,
+            octaves, lacunarity, gain);
+    }
+
+
+    /**
+     * Fractal brownian motion of 3D simplex noise.  Matches GLSL
+     * `fbm(vec3, int, float, float)` at the offset point.
+     * @param octaves The number of layers.
+     * @param lacunarity The frequency multiplier of each layer.
+     * @param gain The amplitude multiplier of each layer.
+     * @return A value between -1 and 1.
+     */
+    fbm3(x: number, y: number, z: number, octaves: number = 4,
+        lacunarity: number = 2, gain: number = 0.5): number {
+        return Noise.fbm3(x + this.offset.x, y + this.offset.y,
+            z + this.offset.z, octaves, lacunarity, gain);
+    }
+
+
+    /**
+     * 2D curl noise.  The curl of the simplex2 field which flows around
+     * without sources or sinks.  Matches GLSL `curlNoise(vec2)` at the offset
+     * point.
+     */
+    curl2(x: number, y: number): Vector {
+        return Noise.curl2(x + this.offset.x, y + this.offset.y);
+    }
+
+
+    /**
+     * 3D curl noise.  The curl of a potential field made of three offset
+     * simplex3 fields.  Matches GLSL `curlNoise(vec3)` at the offset point.
+     */
+    curl3(x: number, y: number, z: number): Vector {
+        return Noise.curl3(
+            x + this.offset.x, y + this.offset.y, z + this.offset.z);
+    }
+
+
+    /**
+     * Unseeded fractal brownian motion of 2D simplex noise.  Matches GLSL
+     * `fbm(vec2, int, float, float)`.
+     */
+    static fbm2(x: number, y: number, octaves: number = 4,
+        lacunarity: number = 2, gain: number = 0.5): number {
+        return Noise.fbm(octaves, lacunarity, gain, (frequency) => {
+            return Noise.simplex2(x * frequency, y * frequency);
+        });
+    }
+
+
+    /**
+     * Unseeded fractal brownian motion of 3D simplex noise.  Matches GLSL
+     * `fbm(vec3, int, float, float)`.
+     */
+    static fbm3(x: number, y: number, z: number, octaves: number = 4,
+        lacunarity: number = 2, gain: number = 0.5): number {
+        return Noise.fbm(octaves, lacunarity, gain, (frequency) => {
+            return Noise.simplex3(
+                x * frequency, y * frequency, z * frequency);
+        });
+    }
+
+
+    /**
+     * Unseeded 2D curl noise.  Matches GLSL `curlNoise(vec2)`.
+     */
+    static curl2(x: number, y: number): Vector {
+        const e = CURL_EPSILON;
+        const dx = Noise.simplex2(x + e, y) - Noise.simplex2(x - e, y);
+        const dy = Noise.simplex2(x, y + e) - Noise.simplex2(x, y - e);
+        return new Vector(dy / (2 * e), -dx / (2 * e));
+    }
+
+
+    /**
+     * Unseeded 3D curl noise.  Matches GLSL `curlNoise(vec3)`.
+     */
+    static curl3(x: number, y: number, z: number): Vector {
+        const e = CURL_EPSILON;
+        const x0 = Noise.potential3(x - e, y, z);
+        const x1 = Noise.potential3(x + e, y, z);
+        const y0 = Noise.potential3(x, y - e, z);
+        const y1 = Noise.potential3(x, y + e, z);
+        const z0 = Noise.potential3(x, y, z - e);
+        const z1 = Noise.potential3(x, y, z + e);
+
+        return new Vector(
+            (y1.z - y0.z) - (z1.y - z0.y),
+            (z1.x - z0.x) - (x1.z - x0.z),
+            (x1.y - x0.y) - (y1.x - y0.x)
+        ).scale(1 / (2 * e));
+    }
+
+
+    private static fbm(octaves: number, lacunarity: number, gain: number,
+        sample: (frequency: number) => number): number {
+        let sum = 0;
+        let amplitude = 1;
+        let frequency = 1;
+        let total = 0;
+        for (let i = 0; i < octaves; i++) {
+            sum += amplitude * sample(frequency);
+            total += amplitude;
+            frequency *= lacunarity;
+            amplitude *= gain;
+        }
+        return total ? sum / total : 0;
+    }
+
+
+    /**
+     * The vector potential of the 3D curl noise.
+     */
+    private static potential3(x: number, y: number, z: number): Vector {
+        return new Vector(
+            Noise.simplex3(x, y, z),
+            Noise.simplex3(y - 19.1, z + 33.4, x + 47.2),
+            Noise.simplex3(z + 74.2, x - 124.5, y + 99.4)
+        );
+    }
+
+
+    /**
+     * Unseeded 2D simplex noise.  Port of `srnoise` of the GLSL chunk
+     * without rotation.
+     */
+    static simplex2(x: number, y: number): number {
+        // Offset y slightly to hide some rare artifacts
+        y += 0.001;
+        // Skew to hexagonal grid
+        const u = x + y * 0.5;
+        const v = y;
+
+        const i0x = Math.floor(u);
+        const i0y = Math.floor(v);
+        // Traversal order
+        const i1x = u - i0x > v - i0y ? 1.0 : 0.0;
+        const i1y = 1.0 - i1x;
+
+        // Unskewed grid points in (x,y) space
+        const p0x = i0x - i0y * 0.5;
+        const p0y = i0y;
+        const corners = [
+            [p0x, p0y],
+            [p0x + i1x - i1y * 0.5, p0y + i1y],
+            [p0x + 0.5, p0y + 1.0],
+        ];
+
+        let n = 0;
+        corners.forEach((corner) => {
+            const dx = x - corner[0];
+            const dy = y - corner[1];
+
+            // Radial weight from the corner
+            const t = Math.max(0.8 - (dx * dx + dy * dy), 0.0);
+            if (!t) {
+                return;
+            }
+
+            // Hashed gradient (rgrad2 uses the mod only permute).
+            const iu = mod289(corner[0] + 0.5 * corner[1]);
+            const iv = mod289(corner[1]);
+            const angle =
+                fract(mod289(mod289(iu) + iv) * 0.0243902439) * 6.28318530718;
+
+            const t2 = t * t;
+            n += t2 * t2 * (Math.cos(angle) * dx + Math.sin(angle) * dy);
+        });
+
+        // Rescale to cover the range [-1,1] reasonably well
+        return 11.0 * n;
+    }
+
+
+    /**
+     * Unseeded 3D simplex noise.  Port of Ashima's `snoise(vec3)`.
+     */
+    static simplex3(x: number, y: number, z: number): number {
+        // First corner
+        const s = (x + y + z) * (1.0 / 3.0);
+        let ix = Math.floor(x + s);
+        let iy = Math.floor(y + s);
+        let iz = Math.floor(z + s);
+        const t = (ix + iy + iz) * (1.0 / 6.0);
+        const x0 = [x - ix + t, y - iy + t, z - iz + t];
+
+        // Other corners
+        const gx = step(x0[1], x0[0]);
+        const gy = step(x0[2], x0[1]);
+        const gz = step(x0[0], x0[2]);
+        const i1 = [
+            Math.min(gx, 1.0 - gz), Math.min(gy, 1.0 - gx),
+            Math.min(gz, 1.0 - gy)
+        ];
+        const i2 = [
+            Math.max(gx, 1.0 - gz), Math.max(gy, 1.0 - gx),
+            Math.max(gz, 1.0 - gy)
+        ];
+
+        const offsets = [[0.0, 0.0, 0.0], i1, i2, [1.0, 1.0, 1.0]];
+        const corners = offsets.map((offset, index) => {
+            return [
+                x0[0] - offset[0] + index / 6.0,
+                x0[1] - offset[1] + index / 6.0,
+                x0[2] - offset[2] + index / 6.0,
+            ];
+        });
+
+        // Permutations
+        ix = mod289(ix);
+        iy = mod289(iy);
+        iz = mod289(iz);
+
+        // Gradients: 7x7 points over a square, mapped onto an octahedron.
+        const nsx = 2.0 / 7.0;
+        const nsy = 0.5 / 7.0 - 1.0;
+
+        let n = 0;
+        offsets.forEach((offset, index) => {
+            const corner = corners[index];
+            const m = Math.max(0.6 - (corner[0] * corner[0] +
+                corner[1] * corner[1] + corner[2] * corner[2]), 0.0);
+            if (!m) {
+                return;
+            }
+
+            const p = permute(permute(permute(
+                iz + offset[2]) + iy + offset[1]) + ix + offset[0]);
+
+            // The hashes are integers.  Integer math avoids 42 / 7
+            // flooring to 5 in double precision.
+            const j = p % 49;
+            const x_ = Math.floor(j / 7);
+            const y_ = j - 7 * x_;
+            const gradientX = x_ * nsx + nsy;
+            const gradientY = y_ * nsx + nsy;
+            const h = 1.0 - Math.abs(gradientX) - Math.abs(gradientY);
+            const sh = -step(h, 0.0);
+
+            const px = gradientX + (Math.floor(gradientX) * 2.0 + 1.0) * sh;
+            const py = gradientY + (Math.floor(gradientY) * 2.0 + 1.0) * sh;
+            const pz = h;
+
+            // Normalise gradients
+            const norm = taylorInvSqrt(px * px + py * py + pz * pz);
+            const m2 = m * m;
+            n += m2 * m2 *
+                (px * corner[0] + py * corner[1] + pz * corner[2]) * norm;
+        });
+
+        return 42.0 * n;
+    }
+
+
+    /**
+     * Unseeded 4D simplex noise.  Port of Ashima's `snoise(vec4)`.
+     */
+    static simplex4(x: number, y: number, z: number, w: number): number {
+        const F4 = 0.309016994374947451;
+        const G4 = 0.138196601125011;
+
+        // First corner
+        const s = (x + y + z + w) * F4;
+        const i = [
+            Math.floor(x + s), Math.floor(y + s),
+            Math.floor(z + s), Math.floor(w + s)
+        ];
+        const t = (i[0] + i[1] + i[2] + i[3]) * G4;
+        const x0 = [x - i[0] + t, y - i[1] + t, z - i[2] + t, w - i[3] + t];
+
+        // Rank sorting to find the other corners.
+        const rank = [0, 0, 0, 0];
+        for (let a = 0; a < 4; a++) {
+            for (let b = a + 1; b < 4; b++) {
+                const isA = step(x0[b], x0[a]);
+                rank[a] += isA;
+                rank[b] += 1.0 - isA;
+            }
+        }
+        const i3 = rank.map((r) => Math.min(Math.max(r, 0.0), 1.0));
+        const i2 = rank.map((r) => Math.min(Math.max(r - 1.0, 0.0), 1.0));
+        const i1 = rank.map((r) => Math.min(Math.max(r - 2.0, 0.0), 1.0));
+        const offsets = [[0.0, 0.0, 0.0, 0.0], i1, i2, i3,
+            [1.0, 1.0, 1.0, 1.0]];
+
+        const ix = mod289(i[0]);
+        const iy = mod289(i[1]);
+        const iz = mod289(i[2]);
+        const iw = mod289(i[3]);
+
+        let n = 0;
+        offsets.forEach((offset, index) => {
+            const corner = x0.map((value, axis) => {
+                return value - offset[axis] + index * G4;
+            });
+            const m = Math.max(0.6 - (corner[0] * corner[0] +
+                corner[1] * corner[1] + corner[2] * corner[2] +
+                corner[3] * corner[3]), 0.0);
+            if (!m) {
+                return;
+            }
+
+            const j = permute(permute(permute(permute(
+                iw + offset[3]) + iz + offset[2]) + iy + offset[1]) +
+                ix + offset[0]);
+
+            // grad4.  floor(fract(j / n) * 7) in integer math.
+            const p = [
+                Math.floor((j % 294) / 42) / 7.0 - 1.0,
+                Math.floor((j % 49) / 7) / 7.0 - 1.0,
+                (j % 7) / 7.0 - 1.0,
+                0,
+            ];
+            p[3] = 1.5 - (Math.abs(p[0]) + Math.abs(p[1]) + Math.abs(p[2]));
+            if (p[3] < 0.0) {
+                for (let axis = 0; axis < 3; axis++) {
+                    p[axis] += p[axis] < 0.0 ? 1.0 : -1.0;
+                }
+            }
+
+            const norm = taylorInvSqrt(
+                p[0] * p[0] + p[1] * p[1] + p[2] * p[2] + p[3] * p[3]);
+            const m2 = m * m;
+            n += m2 * m2 * norm * (p[0] * corner[0] + p[1] * corner[1] +
+                p[2] * corner[2] + p[3] * corner[3]);
+        });
+
+        return 49.0 * n;
+    }
+}
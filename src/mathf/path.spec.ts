@@ -0,0 +1,72 @@
+import { Path } from './path';
+import { Vector } from './vector';
+import { CatmullRom, CatmullRomTypes } from './catmull-rom';
+import test from 'ava';
+
+
+test('line length and points', t => {
+    const path = Path.fromLine(new Vector(0, 0), new Vector(300, 400));
+    t.is(path.getLength(), 500);
+    t.deepEqual(path.getPointAtDistance(250).toArray().slice(0, 2), [150, 200]);
+    t.deepEqual(path.getPointAt(2).toArray().slice(0, 2), [300, 400]);
+
+    const round = (v: Vector) => [Math.round(v.x * 100) / 100,
+        Math.round(v.y * 100) / 100];
+    t.deepEqual(round(path.getTangent(0.5)), [0.6, 0.8]);
+    t.deepEqual(round(path.getNormal(0.5)), [-0.8, 0.6]);
+});
+
+
+test('getPointAt is evenly spaced', t => {
+    const path = Path.fromCubicBezier(
+        new Vector(0, 0), new Vector(0, 0), new Vector(10, 0),
+        new Vector(1000, 0), 400);
+
+    // The raw parameter is bunched up at the start.
+    t.true(path.getPoint(0.5).x < 250);
+
+    // Lengths between evenly spaced points are the same.
+    const step = path.getLength() / 10;
+    for (let i = 0; i < 10; i++) {
+        const distance = path.getPointAt(i / 10)
+            .distance(path.getPointAt((i + 1) / 10));
+        t.true(Math.abs(distance - step) < step * 0.01);
+    }
+});
+
+
+test('composite path', t => {
+    const path = new Path();
+    path.add(Path.fromLine(new Vector(0, 0), new Vector(100, 0)));
+    path.add(Path.fromLine(new Vector(100, 0), new Vector(100, 100)));
+    t.is(path.getSegmentCount(), 2);
+    t.is(path.getLength(), 200);
+    t.deepEqual(path.getPointAtDistance(150).toArray().slice(0, 2), [100, 50]);
+    t.deepEqual(path.getTangent(0.25).toArray().slice(0, 2), [1, 0]);
+    t.deepEqual(path.getTangent(0.75).toArray().slice(0, 2), [0, 1]);
+});
+
+
+test('catmull rom goes through its points', t => {
+    const points = [
+        new Vector(0, 0),
+        new Vector(100, 10),
+        new Vector(110, 200),
+        new Vector(400, 220),
+    ];
+
+    [CatmullRomTypes.uniform, CatmullRomTypes.centripetal,
+        CatmullRomTypes.chordal].forEach((type) => {
+        const segments = CatmullRom.getSegments(points, type);
+        t.is(segments.length, 3);
+        segments.forEach((segment, i) => {
+            t.true(segment(0).distance(points[i]) < 0.0001);
+            t.true(segment(1).distance(points[i + 1]) < 0.0001);
+        });
+    });
+
+    const path = Path.fromCatmullRom(points);
+    t.true(path.getPointAt(0).distance(points[0]) < 0.0001);
+    t.true(path.getPointAt(1).distance(points[3]) < 0.0001);
+    t.true(path.getLength() > 0);
+});
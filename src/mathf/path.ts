@@ -0,0 +1,309 @@
+import { mathf } from './mathf';
+import { Vector } from './vector';
+import { HermiteCurve } from './hermite-curve';
+import { CatmullRom, CatmullRomTypes } from './catmull-rom';
+
+
+/**
+ * A curve of a [[Path]].  Takes the raw curve parameter t (0-1) and returns
+ * the point on the curve.
+ */
+export type PathCurve = (t: number) => Vector;
+
+
+/**
+ * A curve and its arc length lookup table.
+ */
+interface PathSegment {
+    curve: PathCurve;
+
+    /**
+     * The length from the start of the curve at each sample.  Sample i is
+     * at t = i / samples.
+     */
+    lengths: Array<number>;
+
+    /**
+     * The length from the start of the path to the start of this segment.
+     */
+    offset: number;
+}
+
+
+/**
+ * A path made of one or more curves that can be walked by distance.
+ *
+ * Curves such as [[CubicBezier]], [[HermiteCurve]] and [[CatmullRom]] are
+ * evaluated by a raw parameter t.  Points at evenly spaced t values aren't
+ * evenly spaced on the curve so anything moving along it speeds up and
+ * slows down.  Path samples each curve into an arc length lookup table
+ * so points can be requested by distance instead.
+ *
+ * ```ts
+ * const path = Path.fromCatmullRom([
+ *   new Vector(0, 0),
+ *   new Vector(100, 50),
+ *   new Vector(400, 100),
+ * ], CatmullRomTypes.centripetal);
+ *
+ * path.getLength(); // The total length in px.
+ * path.getPointAt(0.5); // The point half way along the path.
+ * path.getPointAtDistance(120); // The point 120px along the path.
+ * path.getTangent(0.5); // The normalized direction at the half way point.
+ * path.getNormal(0.5); // The tangent rotated by 90 degrees.
+ * ```
+ *
+ * Paths can be combined.
+ * ```ts
+ * const path = new Path();
+ * path.add(Path.fromCubicBezier(a, b, c, d));
+ * path.add(Path.fromLine(d, e));
+ * path.addCurve((t) => HermiteCurve.getPoint(t, e, m0, f, m1));
+ * ```
+ *
+ * @tested
+ */
+export class Path {
+
+    /**
+     * Creates a path of a cubic bezier curve.
+     * @param v1 The start vector
+     * @param v2 The control2 vector
+     * @param v3 The control3 vector
+     * @param v4 The end vector
+     * @param samples
+     */
+    static fromCubicBezier(v1: Vector, v2: Vector, v3: Vector, v4: Vector,
+        samples?: number): Path {
+        return new Path(samples).addCurve((t: number) => {
+            const tp = 1 - t;
+            return v1.clone().scale(tp * tp * tp)
+                .add(v2.clone().scale(3 * t * tp * tp))
+                .add(v3.clone().scale(3 * t * t * tp))
+                .add(v4.clone().scale(t * t * t));
+        });
+    }
+
+
+    /**
+     * Creates a path of a hermite curve.
+     * @param p0 The start point
+     * @param m0 The tangent of p0
+     * @param p1 The end point
+     * @param m1 The tangent of p1
+     * @param samples
+     */
+    static fromHermite(p0: Vector, m0: Vector, p1: Vector, m1: Vector,
+        samples?: number): Path {
+        return new Path(samples).addCurve((t: number) => {
+            return HermiteCurve.getPoint(t, p0, m0, p1, m1);
+        });
+    }
+
+
+    /**
+     * Creates a path that goes through all points with a segment per pair
+     * of points.
+     * @param points
+     * @param type Defaults to centripetal.
+     * @param samples The samples per segment.
+     */
+    static fromCatmullRom(points: Array<Vector>,
+        type: CatmullRomTypes = CatmullRomTypes.centripetal,
+        samples?: number): Path {
+        const path = new Path(samples);
+        CatmullRom.getSegments(points, type).forEach((segment) => {
+            path.addCurve(segment);
+        });
+        return path;
+    }
+
+
+    /**
+     * Creates a straight path between two points.
+     * @param from
+     * @param to
+     */
+    static fromLine(from: Vector, to: Vector): Path {
+        return new Path(1).addCurve((t: number) => {
+            return Vector.subtract(to, from).scale(t).add(from);
+        });
+    }
+
+
+    private segments: Array<PathSegment>;
+    private length: number;
+
+    /**
+     * @param samples The number of samples of the lookup table of each
+     *     curve.  More samples are more accurate but slower to create.
+     */
+    constructor(private samples: number = 100) {
+        this.segments = [];
+        this.length = 0;
+    }
+
+
+    /**
+     * Adds a curve to the end of the path.
+     * @param curve
+     */
+    addCurve(curve: PathCurve): Path {
+        const lengths = [0];
+        let previous = curve(0);
+        for (let i = 1; i <= this.samples; i++) {
+            const point = curve(i / this.samples);
+            lengths.push(lengths[i - 1] + point.distance(previous));
+            previous = point;
+        }
+
+        this.segments.push({
+            curve: curve,
+            lengths: lengths,
+            offset: this.length
+        });
+        this.length += lengths[this.samples];
+        return this;
+    }
+
+
+    /**
+     * Adds all curves of another path to the end of this path.
+     * @param path
+     */
+    add(path: Path): Path {
+        path.segments.forEach((segment) => {
+            this.segments.push({
+                curve: segment.curve,
+                lengths: segment.lengths,
+                offset: this.length
+            });
+            this.length += segment.lengths[segment.lengths.length - 1];
+        });
+        return this;
+    }
+
+
+    /**
+     * The total length of the path.
+     */
+    getLength(): number {
+        return this.length;
+    }
+
+
+    /**
+     * The number of curves of the path.
+     */
+    getSegmentCount(): number {
+        return this.segments.length;
+    }
+
+
+    /**
+     * Returns the point at the raw parameter t.  Each curve spans an even
+     * part of t so points are not evenly spaced.  Use getPointAt for that.
+     * @param t
+     */
+    getPoint(t: number): Vector {
+        if (!this.segments.length) {
+            return new Vector();
+        }
+        const count = this.segments.length;
+        const index = mathf.clamp(0, count - 1, Math.floor(t * count));
+        return this.segments[index].curve(mathf.clamp01(t * count - index));
+    }
+
+
+    /**
+     * Returns the point at a progress (0-1) of the length of the path.
+     * @param progress
+     */
+    getPointAt(progress: number): Vector {
+        return this.getPointAtDistance(progress * this.length);
+    }
+
+
+    /**
+     * Returns the point at the distance from the start of the path.
+     * @param distance
+     */
+    getPointAtDistance(distance: number): Vector {
+        if (!this.segments.length) {
+            return new Vector();
+        }
+        const location = this.locate(distance);
+        return location.segment.curve(location.t);
+    }
+
+
+    /**
+     * Returns the normalized direction of the path at a progress (0-1) of
+     * the length of the path.
+     * @param progress
+     */
+    getTangent(progress: number): Vector {
+        if (!this.segments.length) {
+            return new Vector();
+        }
+        const location = this.locate(progress * this.length);
+        const delta = 0.0001;
+        const from = mathf.clamp01(location.t - delta);
+        const to = mathf.clamp01(location.t + delta);
+        return Vector.subtract(location.segment.curve(to),
+            location.segment.curve(from)).normalize();
+    }
+
+
+    /**
+     * Returns the normal of the path in the xy plane at a progress (0-1) of
+     * the length of the path.  This is the tangent rotated 90 degrees
+     * counter clockwise.
+     * @param progress
+     */
+    getNormal(progress: number): Vector {
+        const tangent = this.getTangent(progress);
+        return new Vector(-tangent.y, tangent.x, 0);
+    }
+
+
+    /**
+     * Finds the segment and the raw parameter t of the segment at a
+     * distance.
+     */
+    private locate(distance: number): { segment: PathSegment, t: number } {
+        distance = mathf.clamp(0, this.length, distance);
+
+        let segment = this.segments[this.segments.length - 1];
+        for (let i = 0; i < this.segments.length; i++) {
+            const candidate = this.segments[i];
+            if (distance <= candidate.offset +
+                candidate.lengths[candidate.lengths.length - 1]) {
+                segment = candidate;
+                break;
+            }
+        }
+
+        // Binary search the sample before the distance.
+        const lengths = segment.lengths;
+        const target = distance - segment.offset;
+        let low = 0;
+        let high = lengths.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (lengths[middle] <= target) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+
+        const samples = lengths.length - 1;
+        if (low >= samples) {
+            return { segment: segment, t: 1 };
+        }
+        const sampleLength = lengths[low + 1] - lengths[low];
+        const amount = sampleLength ? (target - lengths[low]) / sampleLength : 0;
+        return { segment: segment, t: (low + mathf.clamp01(amount)) / samples };
+    }
+}
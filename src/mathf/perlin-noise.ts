@@ -1,5 +1,49 @@
 
-import { mathf } from './mathf';
+import { Random } from './random';
+
+/**
+ * The permutation of Ken Perlin's reference implementation.
+ */
+const PERMUTATION = [151, 160, 137, 91, 90, 15,
+    131, 13, 201, 95, 96, 53, 194, 233, 7, 225, 140, 36, 103, 30, 69, 142, 8, 99, 37, 240, 21, 10, 23,
+    190, 6, 148, 247, 120, 234, 75, 0, 26, 197, 62, 94, 252, 219, 203, 117, 35, 11, 32, 57, 177, 33,
+    88, 237, 149, 56, 87, 174, 20, 125, 136, 171, 168, 68, 175, 74, 165, 71, 134, 139, 48, 27, 166,
+    77, 146, 158, 231, 83, 111, 229, 122, 60, 211, 133, 230, 220, 105, 92, 41, 55, 46, 245, 40, 244,
+    102, 143, 54, 65, 25, 63, 161, 1, 216, 80, 73, 209, 76, 132, 187, 208, 89, 18, 169, 200, 196,
+    135, 130, 116, 188, 159, 86, 164, 100, 109, 198, 173, 186, 3, 64, 52, 217, 226, 250, 124, 123,
+    5, 202, 38, 147, 118, 126, 255, 82, 85, 212, 207, 206, 59, 227, 47, 16, 58, 17, 182, 189, 28, 42,
+    223, 183, 170, 213, 119, 248, 152, 2, 44, 154, 163, 70, 221, 153, 101, 155, 167, 43, 172, 9,
+    129, 22, 39, 253, 19, 98, 108, 110, 79, 113, 224, 232, 178, 185, 112, 104, 218, 246, 97, 228,
+    251, 34, 242, 193, 238, 210, 144, 12, 191, 179, 162, 241, 81, 51, 145, 235, 249, 14, 239, 107,
+    49, 192, 214, 31, 181, 199, 106, 157, 184, 84, 204, 176, 115, 121, 50, 45, 127, 4, 150, 254,
+    138, 236, 205, 93, 222, 114, 67, 29, 24, 72, 243, 141, 128, 195, 78, 66, 215, 61, 156, 180
+];
+
+/**
+ * The doubled permutation used by the static noise3.  Built once.
+ */
+let defaultPermutation: Array<number> | null = null;
+
+
+const fade = (t: number) => { return t * t * t * (t * (t * 6 - 15) + 10); }
+const lerp = (t: number, a: number, b: number) => { return a + t * (b - a); }
+const grad = (hash: number, x: number, y: number, z: number) => {
+    var h = hash & 15;
+    var u = h < 8 ? x : y,
+        v = h < 4 ? y : h == 12 || h == 14 ? x : z;
+    return ((h & 1) == 0 ? u : -u) + ((h & 2) == 0 ? v : -v);
+}
+const scale = (n: number) => { return (1 + n) / 2; }
+
+/**
+ * Doubles a permutation of 0-255 to avoid wrapping the indexes.
+ */
+const doublePermutation = (permutation: Array<number>): Array<number> => {
+    var p = new Array(512);
+    for (var i = 0; i < 256; i++)
+        p[256 + i] = p[i] = permutation[i];
+    return p;
+}
 
 /**
  * Port of Ken Perlin's noise algo and also sipmlex noise algo.
@@ -9,46 +53,58 @@ import { mathf } from './mathf';
  * @see http://cs.nyu.edu/%7Eperlin/noise/
  * @see http://asserttrue.blogspot.com/2011/12/perlin-noise-in-javascript_31.html
  * @see https://github.com/josephg/noisejs/blob/master/perlin.js
+ * @see [[Noise]] for simplex noise that matches the GLSL noise chunk.
  */
 export class PerlinNoise {
 
     /**
-     * Generates perlin noise.  Specify normalized coordinates between 0 and 1.
+     * Generates perlin noise with the reference permutation.  Specify
+     * normalized coordinates between 0 and 1.
      * @param x  The x coordinate.
      * @param y  The y coordinate.
      * @param z  The z coordinate.
      * @return A value between 0 and 1.
      */
     static noise3(x: number, y: number, z: number = 0): number {
+        if (!defaultPermutation) {
+            defaultPermutation = doublePermutation(PERMUTATION);
+        }
+        return PerlinNoise.sample(defaultPermutation, x, y, z);
+    }
 
-        var fade = (t: number) => { return t * t * t * (t * (t * 6 - 15) + 10); }
-        var lerp = (t: number, a: number, b: number) => { return a + t * (b - a); }
 
-        var grad = (hash: number, x: number, y: number, z: number) => {
-            var h = hash & 15;
-            var u = h < 8 ? x : y,
-                v = h < 4 ? y : h == 12 || h == 14 ? x : z;
-            return ((h & 1) == 0 ? u : -u) + ((h & 2) == 0 ? v : -v);
-        }
-        var scale = (n: number) => { return (1 + n) / 2; }
-        var p = new Array(512)
-        var permutation = [151, 160, 137, 91, 90, 15,
-            131, 13, 201, 95, 96, 53, 194, 233, 7, 225, 140, 36, 103, 30, 69, 142, 8, 99, 37, 240, 21, 10, 23,
-            190, 6, 148, 247, 120, 234, 75, 0, 26, 197, 62, 94, 252, 219, 203, 117, 35, 11, 32, 57, 177, 33,
-            88, 237, 149, 56, 87, 174, 20, 125, 136, 171, 168, 68, 175, 74, 165, 71, 134, 139, 48, 27, 166,
-            77, 146, 158, 231, 83, 111, 229, 122, 60, 211, 133, 230, 220, 105, 92, 41, 55, 46, 245, 40, 244,
-            102, 143, 54, 65, 25, 63, 161, 1, 216, 80, 73, 209, 76, 132, 187, 208, 89, 18, 169, 200, 196,
-            135, 130, 116, 188, 159, 86, 164, 100, 109, 198, 173, 186, 3, 64, 52, 217, 226, 250, 124, 123,
-            5, 202, 38, 147, 118, 126, 255, 82, 85, 212, 207, 206, 59, 227, 47, 16, 58, 17, 182, 189, 28, 42,
-            223, 183, 170, 213, 119, 248, 152, 2, 44, 154, 163, 70, 221, 153, 101, 155, 167, 43, 172, 9,
-            129, 22, 39, 253, 19, 98, 108, 110, 79, 113, 224, 232, 178, 185, 112, 104, 218, 246, 97, 228,
-            251, 34, 242, 193, 238, 210, 144, 12, 191, 179, 162, 241, 81, 51, 145, 235, 249, 14, 239, 107,
-            49, 192, 214, 31, 181, 199, 106, 157, 184, 84, 204, 176, 115, 121, 50, 45, 127, 4, 150, 254,
-            138, 236, 205, 93, 222, 114, 67, 29, 24, 72, 243, 141, 128, 195, 78, 66, 215, 61, 156, 180
-        ];
-        for (var i = 0; i < 256; i++)
-            p[256 + i] = p[i] = permutation[i];
+    private p: Array<number>;
+
+    /**
+     * Creates noise with its own permutation.  The same seed always gives
+     * the same noise.
+     * ```ts
+     * const noise = new PerlinNoise(1234);
+     * noise.noise3(x, y, z);
+     * ```
+     * @param seed Optional seed that shuffles the permutation.  Without a
+     *     seed the reference permutation is used.
+     */
+    constructor(seed?: number) {
+        this.p = doublePermutation(seed === undefined || seed === null ?
+            PERMUTATION : new Random(seed).shuffle(PERMUTATION));
+    }
+
+
+    /**
+     * Generates perlin noise with the permutation of this instance.
+     * @param x  The x coordinate.
+     * @param y  The y coordinate.
+     * @param z  The z coordinate.
+     * @return A value between 0 and 1.
+     */
+    noise3(x: number, y: number, z: number = 0): number {
+        return PerlinNoise.sample(this.p, x, y, z);
+    }
+
 
+    private static sample(p: Array<number>, x: number, y: number,
+        z: number): number {
         var X = Math.floor(x) & 255,
             Y = Math.floor(y) & 255,
             Z = Math.floor(z) & 255;
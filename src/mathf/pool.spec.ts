@@ -0,0 +1,38 @@
+import { Pool } from './pool';
+import { Vector } from './vector';
+import test from 'ava';
+
+
+test('acquire reuses released objects', t => {
+    const pool = new Pool(() => new Vector());
+    const a = pool.acquire();
+    const b = pool.acquire();
+    t.is(pool.getCreatedCount(), 2);
+    t.is(pool.getFreeCount(), 0);
+
+    pool.release(a, b);
+    t.is(pool.getFreeCount(), 2);
+
+    const c = pool.acquire();
+    t.is(c, b);
+    t.is(pool.getCreatedCount(), 2);
+    t.is(pool.getFreeCount(), 1);
+});
+
+
+test('release resets objects', t => {
+    const pool = new Pool(() => new Vector(),
+        (v: Vector) => { v.set(0, 0, 0); });
+    const v = pool.acquire().set(1, 2, 3);
+    pool.release(v);
+    t.true(pool.acquire().equals(new Vector(0, 0, 0)));
+});
+
+
+test('maxSize limits free objects', t => {
+    const pool = new Pool(() => new Vector(), null, 1);
+    pool.release(new Vector(), new Vector());
+    t.is(pool.getFreeCount(), 1);
+    pool.clear();
+    t.is(pool.getFreeCount(), 0);
+});
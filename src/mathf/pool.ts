@@ -0,0 +1,95 @@
+/**
+ * A small object pool to reuse temporary objects in hot paths (raf loops,
+ * render methods) instead of allocating new ones every frame.
+ *
+ * Vector, Quaternion and MatrixIV each come with a pool.
+ *
+ * ```ts
+ * const temp = Vector.pool.acquire();
+ * Vector.subtract(temp, target, position);
+ * position.add(temp.scale(0.1));
+ * Vector.pool.release(temp);
+ * ```
+ *
+ * Your own pool.
+ * ```ts
+ * const particles = new Pool(
+ *   () => new Particle(),
+ *   (particle) => particle.reset()
+ * );
+ * const particle = particles.acquire();
+ * particles.release(particle);
+ * ```
+ *
+ * Acquired objects are not reset.  Set all values you read.
+ *
+ * @tested
+ */
+export class Pool<T> {
+    private free: Array<T>;
+    private created: number;
+
+    /**
+     * @param create Creates a new object when the pool is empty.
+     * @param reset Optional callback to reset an object when it is released.
+     * @param maxSize The max number of free objects kept.  Released objects
+     *     beyond it are left to the garbage collector.
+     */
+    constructor(private create: () => T,
+        private reset: ((item: T) => void) | null = null,
+        private maxSize: number = 1000) {
+        this.free = [];
+        this.created = 0;
+    }
+
+
+    /**
+     * Returns a free object or creates a new one.
+     */
+    acquire(): T {
+        if (this.free.length) {
+            return this.free.pop()!;
+        }
+        this.created++;
+        return this.create();
+    }
+
+
+    /**
+     * Returns objects to the pool.
+     * @param items
+     */
+    release(...items: Array<T>) {
+        items.forEach((item) => {
+            if (this.free.length >= this.maxSize) {
+                return;
+            }
+            this.reset && this.reset(item);
+            this.free.push(item);
+        });
+    }
+
+
+    /**
+     * The number of free objects.
+     */
+    getFreeCount(): number {
+        return this.free.length;
+    }
+
+
+    /**
+     * The number of objects created by the pool.
+     */
+    getCreatedCount(): number {
+        return this.created;
+    }
+
+
+    /**
+     * Removes all free objects.
+     */
+    clear() {
+        this.free = [];
+    }
+}
@@ -141,3 +141,27 @@ test('fromRotationMatrixIV', t => {
 
 
 
+
+
+const toArray = (q: Quaternion) => [q.x, q.y, q.z, q.w];
+
+test('static multiply with out', t => {
+    const a = Quaternion.fromEuler(10, 20, 30);
+    const b = Quaternion.fromEuler(-40, 5, 60);
+    const expected = Quaternion.multiply(a, b);
+    const out = new Quaternion();
+
+    t.is(Quaternion.multiply(out, a, b), out);
+    t.deepEqual(toArray(out), toArray(expected));
+
+    // Out can be one of the inputs.
+    Quaternion.multiply(a, a, b);
+    t.deepEqual(toArray(a), toArray(expected));
+});
+
+
+test('setFromEuler', t => {
+    const q = new Quaternion();
+    t.is(q.setFromEuler(180, 20, 50), q);
+    t.deepEqual(toArray(q), toArray(Quaternion.fromEuler(180, 20, 50)));
+});
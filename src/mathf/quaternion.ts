@@ -2,6 +2,7 @@ import { EASE } from '../ease/ease';
 import { mathf } from './mathf';
 import { MatrixIV } from './matrixIV';
 import { Vector } from './vector';
+import { Pool } from './pool';
 import { NUMBER_RE } from 'highlight.js';
 
 
@@ -40,6 +41,14 @@ import { NUMBER_RE } from 'highlight.js';
  *
  * ```
  *
+ * Like [[Vector]], the static add, subtract and multiply return a new
+ * quaternion or write into an out quaternion passed as the first argument.
+ * ```ts
+ * let q = Quaternion.multiply(a, b); // A new quaternion.
+ * Quaternion.multiply(out, a, b); // Writes into out.
+ * out.setFromEuler(90, 0, 0); // Same as fromEuler without allocating.
+ * ```
+ *
  * Adapted from:
  * https://github.com/NickCuso/Tutorials/blob/master/Quaternions.md
  * @see https://github.com/toji/gl-matrix
@@ -50,6 +59,17 @@ import { NUMBER_RE } from 'highlight.js';
  */
 export class Quaternion {
 
+    /**
+     * A pool of quaternions for temporary values.  See [[Pool]].
+     */
+    static pool: Pool<Quaternion> =
+        new Pool<Quaternion>(() => new Quaternion());
+
+    /**
+     * Scratch quaternion for slerps and rotations.
+     */
+    private static temp: Quaternion = new Quaternion();
+
     /**
      * The x component of this quaternion.
      */
@@ -121,22 +141,31 @@ export class Quaternion {
 
     /**
      * Adds a given quaternion or vector to another quaternion or vector and
-     * return a new one.
+     * return a new one or write into the out quaternion.
      *
      * ```ts
      *
      * var q = new Quaternion(0,0,0,0);
      * var q2 = new Quaternion(0,0,0,0);
      * var q3 = Quaternion.add(q, q2);
+     * Quaternion.add(out, q, q2);
      *
      * ```
      */
-    static add(q1: Quaternion | Vector, q2: Quaternion | Vector): Quaternion {
-        const x = q1.x + q2.x;
-        const y = q1.y + q2.y;
-        const z = q1.z + q2.z;
-        const w = q1.w + q2.w;
-        return new Quaternion(x, y, z, w);
+    static add(q1: Quaternion | Vector, q2: Quaternion | Vector): Quaternion;
+    static add(out: Quaternion, q1: Quaternion | Vector,
+        q2: Quaternion | Vector): Quaternion;
+    static add(out: Quaternion | Vector, q1: Quaternion | Vector,
+        q2?: Quaternion | Vector): Quaternion {
+        if (!q2) {
+            return Quaternion.add(new Quaternion(), out, q1);
+        }
+        const result = out as Quaternion;
+        result.x = q1.x + q2.x;
+        result.y = q1.y + q2.y;
+        result.z = q1.z + q2.z;
+        result.w = q1.w + q2.w;
+        return result;
     }
 
 
@@ -159,9 +188,7 @@ export class Quaternion {
         y = mathf.degreeToRadian(y);
         z = mathf.degreeToRadian(z);
 
-        let q = Quaternion.fromEuler(x, y, z);
-        this.multiply(q);
-        return this;
+        return this.multiply(Quaternion.temp.setFromEuler(x, y, z));
     }
 
 
@@ -187,36 +214,58 @@ export class Quaternion {
 
     /**
      * Subtracts a given quaternion or vector to another quaternion or vector and
-     * return a new one.
+     * return a new one or write into the out quaternion.
      *
      * ```ts
      *
      * var q = new Quaternion(0,0,0,0);
      * var q2 = new Quaternion(0,0,0,0);
      * var q3 = Quaternion.subtract(q, q2);
+     * Quaternion.subtract(out, q, q2);
      *
      * ```
      */
-    static subtract(q1: Quaternion | Vector, q2: Quaternion | Vector): Quaternion {
-        const x = q1.x - q2.x;
-        const y = q1.y - q2.y;
-        const z = q1.z - q2.z;
-        const w = q1.w - q2.w;
-        return new Quaternion(x, y, z, w);
+    static subtract(q1: Quaternion | Vector, q2: Quaternion | Vector):
+        Quaternion;
+    static subtract(out: Quaternion, q1: Quaternion | Vector,
+        q2: Quaternion | Vector): Quaternion;
+    static subtract(out: Quaternion | Vector, q1: Quaternion | Vector,
+        q2?: Quaternion | Vector): Quaternion {
+        if (!q2) {
+            return Quaternion.subtract(new Quaternion(), out, q1);
+        }
+        const result = out as Quaternion;
+        result.x = q1.x - q2.x;
+        result.y = q1.y - q2.y;
+        result.z = q1.z - q2.z;
+        result.w = q1.w - q2.w;
+        return result;
     }
 
 
     /**
-     * Multiplies two quaternions.
+     * Multiplies two quaternions.  Returns a new quaternion or writes into
+     * the out quaternion.  Out can be a or b.
+     *
+     * ```ts
+     * let q = Quaternion.multiply(a, b);
+     * Quaternion.multiply(out, a, b);
+     * ```
      * @param a
      * @param b
-     */
-    static multiply(a: Quaternion, b: Quaternion): Quaternion {
+     * @tested
+     */
+    static multiply(a: Quaternion, b: Quaternion): Quaternion;
+    static multiply(out: Quaternion, a: Quaternion, b: Quaternion): Quaternion;
+    static multiply(out: Quaternion, a: Quaternion, b?: Quaternion):
+        Quaternion {
+        if (!b) {
+            return Quaternion.multiply(new Quaternion(), out, a);
+        }
 
         let ax = a.x, ay = a.y, az = a.z, aw = a.w;
         let bx = b.x, by = b.y, bz = b.z, bw = b.w;
 
-        let out = Quaternion.IDENTITY;
         out.x = ax * bw + aw * bx + ay * bz - az * by;
         out.y = ay * bw + aw * by + az * bx - ax * bz;
         out.z = az * bw + aw * bz + ax * by - ay * bx;
@@ -241,9 +290,7 @@ export class Quaternion {
      * @param a
      */
     multiply(a: Quaternion): Quaternion {
-        let n = Quaternion.multiply(this, a);
-        this.copy(n);
-        return this;
+        return Quaternion.multiply(this, this, a);
     }
 
     /**
@@ -353,9 +400,7 @@ export class Quaternion {
      * @param z
      */
     slerpEuler(x: number, y: number, z: number, progress: number): Quaternion {
-        let target = Quaternion.fromEuler(x, y, z);
-        this.slerp(target, progress);
-        return this;
+        return this.slerp(Quaternion.temp.setFromEuler(x, y, z), progress);
     }
 
     /**
@@ -448,9 +493,7 @@ export class Quaternion {
      * @param rad
      */
     rotateX(degree: number): Quaternion {
-        let q1 = Quaternion.IDENTITY.angleAxis(mathf.degreeToRadian(degree),
-            Vector.RIGHT);
-        return this.multiply(q1);
+        return this.rotateAxis(degree, 1, 0, 0);
     }
 
     /**
@@ -458,9 +501,8 @@ export class Quaternion {
      * @param rad
      */
     rotateY(degree: number): Quaternion {
-        let q1 = Quaternion.IDENTITY.angleAxis(mathf.degreeToRadian(degree),
-            Vector.UP);
-        return this.multiply(q1);
+        // Vector.UP
+        return this.rotateAxis(degree, 0, -1, 0);
     }
 
     /**
@@ -468,9 +510,19 @@ export class Quaternion {
      * @param rad
      */
     rotateZ(degree: number): Quaternion {
-        let q1 = Quaternion.IDENTITY.angleAxis(mathf.degreeToRadian(degree),
-            Vector.FORWARD);
-        return this.multiply(q1);
+        return this.rotateAxis(degree, 0, 0, 1);
+    }
+
+
+    /**
+     * Multiplies this quaternion with a rotation around a normalized axis.
+     */
+    private rotateAxis(degree: number, x: number, y: number, z: number):
+        Quaternion {
+        const rad = mathf.degreeToRadian(degree) * 0.5;
+        const s = Math.sin(rad);
+        return this.multiply(
+            Quaternion.temp.set(s * x, s * y, s * z, Math.cos(rad)));
     }
 
 
@@ -514,6 +566,22 @@ export class Quaternion {
      * @param z z
      */
     static fromEuler(x: number, y: number, z: number): Quaternion {
+        return new Quaternion().setFromEuler(x, y, z);
+    }
+
+
+    /**
+     * Sets this quaternion from the given euler angle x, y, z in degrees.
+     * Same as [[Quaternion.fromEuler]] without creating a new quaternion.
+     *
+     * ```ts
+     * myQuat.setFromEuler(180, 90, -90);
+     * ```
+     * @param x x
+     * @param y y
+     * @param z z
+     */
+    setFromEuler(x: number, y: number, z: number): Quaternion {
         x = mathf.degreeToRadian(x);
         y = mathf.degreeToRadian(y);
         z = mathf.degreeToRadian(z);
@@ -535,7 +603,7 @@ export class Quaternion {
         let rz = c1 * c2 * s3 + s1 * s2 * c3;
         let rw = c1 * c2 * c3 - s1 * s2 * s3;
 
-        return new Quaternion(rx, ry, rz, rw);
+        return this.set(rx, ry, rz, rw);
     }
 
 
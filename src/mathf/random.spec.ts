@@ -0,0 +1,51 @@
+import { Random } from './random';
+import test from 'ava';
+
+test('next is mulberry32', t => {
+    const random = new Random(1);
+    t.is(random.next(), 0.6270739405881613);
+    t.is(random.next(), 0.002735721180215478);
+    t.is(random.next(), 0.5274470399599522);
+});
+
+test('same seed same sequence', t => {
+    const a = new Random(1234);
+    const b = new Random(1234);
+    const c = new Random(4321);
+    const sequenceA = [a.next(), a.next(), a.next()];
+    t.deepEqual([b.next(), b.next(), b.next()], sequenceA);
+    t.notDeepEqual([c.next(), c.next(), c.next()], sequenceA);
+
+    a.reset();
+    t.is(a.next(), sequenceA[0]);
+    t.is(a.getSeed(), 1234);
+});
+
+test('ranges', t => {
+    const random = new Random(7);
+    for (let i = 0; i < 200; i++) {
+        const float = random.float(-5, 5);
+        t.true(float >= -5 && float < 5);
+
+        const int = random.int(1, 6);
+        t.true(int >= 1 && int <= 6);
+        t.is(int, Math.floor(int));
+
+        const coin = random.flipCoin();
+        t.true(coin === 0 || coin === 1);
+    }
+    t.true(['a', 'b', 'c'].includes(new Random(3).pick(['a', 'b', 'c'])));
+});
+
+test('shuffle', t => {
+    const list = [1, 2, 3, 4, 5, 6, 7, 8];
+    t.deepEqual(new Random(42).shuffle(list), [3, 8, 2, 1, 7, 6, 4, 5]);
+    // Doesn't modify the list.
+    t.deepEqual(list, [1, 2, 3, 4, 5, 6, 7, 8]);
+});
+
+test('hashSeed', t => {
+    t.is(Random.hashSeed('hero'), Random.hashSeed('hero'));
+    t.not(Random.hashSeed('hero'), Random.hashSeed('footer'));
+    t.true(Random.hashSeed('hero') >= 0);
+});
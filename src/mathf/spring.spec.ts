@@ -0,0 +1,46 @@
+import { Spring } from './spring';
+import test from 'ava';
+
+
+test('spring settles on the target', t => {
+    const spring = new Spring(0, { stiffness: 170, damping: 26 });
+    spring.setTarget(1);
+    for (let i = 0; i < 120; i++) {
+        spring.step(1 / 60);
+    }
+    t.is(spring.isAtRest(), true);
+    t.is(spring.position, 1);
+    t.is(spring.velocity, 0);
+});
+
+
+test('spring with low damping overshoots', t => {
+    const spring = new Spring(0, { stiffness: 200, damping: 2 });
+    spring.setTarget(1);
+    let max = 0;
+    for (let i = 0; i < 60; i++) {
+        max = Math.max(max, spring.step(1 / 60));
+    }
+    t.true(max > 1);
+});
+
+
+test('spring is frame rate independent', t => {
+    const at60 = new Spring(0);
+    const at120 = new Spring(0);
+    at60.setTarget(1);
+    at120.setTarget(1);
+    for (let i = 0; i < 30; i++) {
+        at60.step(1 / 60);
+        at120.step(1 / 120);
+        at120.step(1 / 120);
+    }
+    t.true(Math.abs(at60.position - at120.position) < 0.01);
+});
+
+
+test('spring keeps initial velocity', t => {
+    const spring = new Spring(0, { velocity: 10 });
+    spring.step(1 / 60);
+    t.true(spring.position > 0);
+});
@@ -0,0 +1,155 @@
+export interface SpringConfig {
+    /**
+     * The spring stiffness.  Higher values move faster.  Defaults to 100.
+     */
+    stiffness?: number;
+
+    /**
+     * The opposing force.  Lower values bounce more.  Defaults to 10.
+     */
+    damping?: number;
+
+    /**
+     * The mass of the moving object.  Defaults to 1.
+     */
+    mass?: number;
+
+    /**
+     * The initial velocity in units per second.  Defaults to the current
+     * velocity of the spring.
+     */
+    velocity?: number;
+
+    /**
+     * The speed (units per second) below which the spring may come to rest.
+     * Defaults to 0.01.
+     */
+    restSpeed?: number;
+
+    /**
+     * The distance to the target below which the spring may come to rest.
+     * Defaults to 0.001.
+     */
+    restDelta?: number;
+}
+
+
+/**
+ * A damped spring that moves a value towards a target.  Stepping is based
+ * on time (not frames) so the motion is the same on every refresh rate.
+ *
+ * ```ts
+ * const spring = new Spring(0);
+ * spring.setTarget(100, { stiffness: 170, damping: 26 });
+ *
+ * new Raf(()=> {
+ *   const x = spring.step(raf.getDelta(true));
+ *   console.log(x, spring.velocity);
+ *   if (spring.isAtRest()) {
+ *     raf.stop();
+ *   }
+ * }).start();
+ * ```
+ */
+export class Spring {
+    /**
+     * The max step in seconds of a single integration.  Larger deltas are
+     * broken into sub steps to keep the spring stable.
+     */
+    private static readonly MAX_STEP = 1 / 240;
+
+    /**
+     * The max delta in seconds processed per step.  Prevents a jump after
+     * long pauses (like switching tabs).
+     */
+    private static readonly MAX_DELTA = 0.1;
+
+    public position: number;
+    public velocity: number;
+    public target: number;
+    private stiffness: number;
+    private damping: number;
+    private mass: number;
+    private restSpeed: number;
+    private restDelta: number;
+
+    /**
+     * @param position The starting value.
+     * @param config
+     */
+    constructor(position: number = 0, config: SpringConfig = {}) {
+        this.position = position;
+        this.target = position;
+        this.velocity = 0;
+        this.stiffness = 100;
+        this.damping = 10;
+        this.mass = 1;
+        this.restSpeed = 0.01;
+        this.restDelta = 0.001;
+        this.setConfig(config);
+    }
+
+    /**
+     * Updates the spring settings.  Omitted values are kept.
+     */
+    setConfig(config: SpringConfig) {
+        this.stiffness = config.stiffness || this.stiffness;
+        this.damping = config.damping === undefined ?
+            this.damping : config.damping;
+        this.mass = config.mass || this.mass;
+        this.restSpeed = config.restSpeed || this.restSpeed;
+        this.restDelta = config.restDelta || this.restDelta;
+        if (config.velocity !== undefined) {
+            this.velocity = config.velocity;
+        }
+    }
+
+    /**
+     * Sets a new target and optionally updates the settings.
+     */
+    setTarget(target: number, config: SpringConfig = {}) {
+        this.target = target;
+        this.setConfig(config);
+    }
+
+    /**
+     * Moves the spring to a value immediately with no velocity.
+     */
+    jumpTo(position: number) {
+        this.position = position;
+        this.target = position;
+        this.velocity = 0;
+    }
+
+    /**
+     * Advances the spring.
+     * @param delta The time in seconds since the last step.
+     * @return The new position.
+     */
+    step(delta: number): number {
+        let remaining = Math.min(Math.max(delta, 0), Spring.MAX_DELTA);
+        while (remaining > 0) {
+            const h = Math.min(remaining, Spring.MAX_STEP);
+            const force = -this.stiffness * (this.position - this.target) -
+                this.damping * this.velocity;
+            this.velocity += (force / this.mass) * h;
+            this.position += this.velocity * h;
+            remaining -= h;
+        }
+
+        if (this.isAtRest()) {
+            this.position = this.target;
+            this.velocity = 0;
+        }
+
+        return this.position;
+    }
+
+    /**
+     * Whether the spring has settled on the target.
+     */
+    isAtRest(): boolean {
+        return Math.abs(this.velocity) < this.restSpeed &&
+            Math.abs(this.target - this.position) < this.restDelta;
+    }
+}
@@ -0,0 +1,84 @@
+import { svgPath, SvgPathSegmentTypes } from './svg-path';
+import { Vector } from './vector';
+import test from 'ava';
+
+
+/**
+ * @hidden
+ */
+const xy = (v: Vector) => [Math.round(v.x * 1000) / 1000,
+    Math.round(v.y * 1000) / 1000];
+
+
+test('parse lines absolute and relative', t => {
+    const subpaths = svgPath.parse('M10,10 l20 0 H50 v10 L10-5e1z m5 5 h1');
+    t.is(subpaths.length, 2);
+    t.true(subpaths[0].closed);
+    t.deepEqual(subpaths[0].segments.map((segment) => xy(segment.end)), [
+        [30, 10], [50, 10], [50, 20], [10, -50], [10, 10]
+    ]);
+
+    // Relative move after close is relative to the start of the subpath.
+    t.deepEqual(xy(subpaths[1].start), [15, 15]);
+    t.deepEqual(xy(subpaths[1].segments[0].end), [16, 15]);
+    t.false(subpaths[1].closed);
+});
+
+
+test('parse curves', t => {
+    const subpaths = svgPath.parse(
+        'M0 0 C10 0 20 10 20 20 s10 20 20 20 Q60 40 60 60 T60 100');
+    const segments = subpaths[0].segments;
+    t.true(segments.every((segment) => {
+        return segment.type == SvgPathSegmentTypes.cubic;
+    }));
+
+    // S reflects the previous control point.
+    t.deepEqual(xy(segments[1].control1), [20, 30]);
+    t.deepEqual(xy(segments[1].end), [40, 40]);
+
+    // Quadratic to cubic.
+    t.deepEqual(xy(segments[2].control1), [53.333, 40]);
+    t.deepEqual(xy(segments[2].control2), [60, 46.667]);
+
+    // T reflects the quadratic control point (60, 40) to (60, 80).
+    t.deepEqual(xy(segments[3].control1), [60, 73.333]);
+    t.deepEqual(xy(segments[3].end), [60, 100]);
+});
+
+
+test('parse arcs', t => {
+    // A half circle with a radius of 50 split into two quarters.
+    const segments = svgPath.parse('M0 0 A50 50 0 0 1 100 0')[0].segments;
+    t.is(segments.length, 2);
+    t.deepEqual(xy(segments[0].end), [50, -50]);
+    t.deepEqual(xy(segments[1].end), [100, 0]);
+
+    // Flags without separators and radii that are too small.
+    const packed = svgPath.parse('M0 0a1 1 0 00100 0')[0].segments;
+    t.deepEqual(xy(packed[packed.length - 1].end), [100, 0]);
+    t.deepEqual(xy(packed[0].end), [50, 50]);
+
+    // A radius of 0 is a line.
+    t.is(svgPath.parse('M0 0 A0 10 0 0 1 10 10')[0].segments[0].type,
+        SvgPathSegmentTypes.line);
+
+    const circle = svgPath.toPath('M0 0 A50 50 0 0 1 100 0', 200);
+    t.is(Math.round(circle.getLength()), Math.round(Math.PI * 50));
+});
+
+
+test('serialize', t => {
+    const data = 'M10 10 L30 10 C40 10 50 20 50 30 Z M0 0 L1 1';
+    t.is(svgPath.serialize(svgPath.parse(data)), data);
+    t.is(svgPath.serialize(svgPath.parse('m0 0 q 10 0 10 10')),
+        'M0 0 C6.667 0 10 3.333 10 10');
+});
+
+
+test('parse throws on invalid data', t => {
+    t.throws(() => svgPath.parse('M0 0 X10 10'));
+    t.throws(() => svgPath.parse('10 10'));
+    t.throws(() => svgPath.parse('M0 0 L10'));
+    t.deepEqual(svgPath.parse(''), []);
+});
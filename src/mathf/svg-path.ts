@@ -0,0 +1,481 @@
+import { is } from '../is/is';
+import { Vector } from './vector';
+import { Path } from './path';
+
+
+export enum SvgPathSegmentTypes {
+    line = 'line',
+    cubic = 'cubic',
+}
+
+
+/**
+ * A segment of an svg path in absolute coordinates.  Quadratic curves and
+ * arcs are converted to cubic beziers.
+ */
+export interface SvgPathSegment {
+    type: SvgPathSegmentTypes;
+    start: Vector;
+
+    /**
+     * The first control point of a cubic bezier.
+     */
+    control1?: Vector;
+
+    /**
+     * The second control point of a cubic bezier.
+     */
+    control2?: Vector;
+
+    end: Vector;
+}
+
+
+/**
+ * The segments between a move command and the next.
+ */
+export interface SvgSubpath {
+    /**
+     * The point of the move command.
+     */
+    start: Vector;
+
+    segments: Array<SvgPathSegment>;
+
+    /**
+     * Whether the subpath ends with a close (Z) command.
+     */
+    closed: boolean;
+}
+
+
+/**
+ * The letters of the path commands.
+ */
+const commandLetters = 'mlhvcsqtaz';
+
+
+/**
+ * Reads the parameters of an svg path data string.
+ */
+class SvgPathScanner {
+    private index: number;
+
+    constructor(private data: string) {
+        this.index = 0;
+    }
+
+    private skipSeparators() {
+        while (this.index < this.data.length &&
+            /[\s,]/.test(this.data[this.index])) {
+            this.index++;
+        }
+    }
+
+    isDone(): boolean {
+        this.skipSeparators();
+        return this.index >= this.data.length;
+    }
+
+    /**
+     * Returns the next command letter or null if the next token is a number.
+     */
+    readCommand(): string | null {
+        this.skipSeparators();
+        const char = this.data[this.index];
+        if (/[a-z]/i.test(char)) {
+            if (commandLetters.indexOf(char.toLowerCase()) == -1) {
+                throw new Error(`Invalid svg path command ${char}.`);
+            }
+            this.index++;
+            return char;
+        }
+        return null;
+    }
+
+    readNumber(): number {
+        this.skipSeparators();
+        const match = this.data.slice(this.index)
+            .match(/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?/i);
+        if (!match) {
+            throw new Error(
+                `Expected a number at ${this.index} of svg path ${this.data}.`);
+        }
+        this.index += match[0].length;
+        return parseFloat(match[0]);
+    }
+
+    /**
+     * Reads an arc flag.  Flags don't need separators so "a1 1 0 00 1 1" is
+     * valid.
+     */
+    readFlag(): boolean {
+        this.skipSeparators();
+        const char = this.data[this.index];
+        if (char != '0' && char != '1') {
+            throw new Error(
+                `Expected a flag at ${this.index} of svg path ${this.data}.`);
+        }
+        this.index++;
+        return char == '1';
+    }
+}
+
+
+/**
+ * Parses svg path data (the d attribute) into cubic bezier and line
+ * segments and serializes them back.
+ *
+ * Supports the full path syntax: M, L, H, V, C, S, Q, T, A and Z in
+ * absolute and relative forms.
+ *
+ * ```ts
+ * const subpaths = svgPath.parse('M10 10 h 80 q 20 0 20 20 A 30 30 0 0 1 80 80 Z');
+ *
+ * subpaths[0].segments[1].type; // SvgPathSegmentTypes.cubic
+ * subpaths[0].segments[1].control1; // Vector
+ *
+ * // Back to path data.
+ * svgPath.serialize(subpaths); // 'M10 10 L90 10 C103.333 10 ...'
+ * ```
+ *
+ * Move an element along a path drawn in Illustrator at a constant speed.
+ * ```ts
+ * const path = svgPath.toPath(svgElement.querySelector('path').getAttribute('d'));
+ * const point = path.getPointAt(progress);
+ * vectorDom.x = point.x;
+ * vectorDom.y = point.y;
+ * ```
+ *
+ * Draw it to debug.
+ * ```ts
+ * domCanvas.svgPath(context, subpaths);
+ * ```
+ *
+ * @see https://www.w3.org/TR/SVG2/paths.html
+ * @see https://www.w3.org/TR/SVG2/implnote.html#ArcImplementationNotes
+ * @tested
+ */
+export class svgPath {
+
+    /**
+     * Parses path data into subpaths.  Throws on invalid path data.
+     * @param data
+     */
+    static parse(data: string): Array<SvgSubpath> {
+        const scanner = new SvgPathScanner(String(data || ''));
+        const subpaths: Array<SvgSubpath> = [];
+        let subpath: SvgSubpath | null = null;
+        let current = new Vector();
+        let command: string | null = null;
+
+        // The last control point used to reflect S and T controls.
+        let lastCubicControl: Vector | null = null;
+        let lastQuadraticControl: Vector | null = null;
+
+        const point = (x: number, y: number, relative: boolean) => {
+            return relative ? new Vector(current.x + x, current.y + y) :
+                new Vector(x, y);
+        };
+        const getSubpath = () => {
+            if (!subpath || subpath.closed) {
+                subpath = { start: current.clone(), segments: [], closed: false };
+                subpaths.push(subpath);
+            }
+            return subpath;
+        };
+        const addLine = (end: Vector) => {
+            getSubpath().segments.push({
+                type: SvgPathSegmentTypes.line,
+                start: current.clone(),
+                end: end
+            });
+            current = end;
+        };
+        const addCubic = (control1: Vector, control2: Vector, end: Vector) => {
+            getSubpath().segments.push({
+                type: SvgPathSegmentTypes.cubic,
+                start: current.clone(),
+                control1: control1,
+                control2: control2,
+                end: end
+            });
+            current = end;
+        };
+
+        while (!scanner.isDone()) {
+            const nextCommand = scanner.readCommand();
+            if (nextCommand) {
+                command = nextCommand;
+            } else if (!command || command.toLowerCase() == 'z') {
+                throw new Error(`Expected a command in svg path ${data}.`);
+            }
+
+            const relative = command == command.toLowerCase();
+            const type = command.toLowerCase();
+            let cubicControl: Vector | null = null;
+            let quadraticControl: Vector | null = null;
+
+            switch (type) {
+                case 'm': {
+                    current = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    subpath = { start: current, segments: [], closed: false };
+                    subpaths.push(subpath);
+                    // Following coordinates are implicit line commands.
+                    command = relative ? 'l' : 'L';
+                    break;
+                }
+                case 'l':
+                    addLine(point(
+                        scanner.readNumber(), scanner.readNumber(), relative));
+                    break;
+                case 'h': {
+                    const x = scanner.readNumber();
+                    addLine(new Vector(relative ? current.x + x : x, current.y));
+                    break;
+                }
+                case 'v': {
+                    const y = scanner.readNumber();
+                    addLine(new Vector(current.x, relative ? current.y + y : y));
+                    break;
+                }
+                case 'c': {
+                    const control1 = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    cubicControl = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    addCubic(control1, cubicControl, point(
+                        scanner.readNumber(), scanner.readNumber(), relative));
+                    break;
+                }
+                case 's': {
+                    const control1 = lastCubicControl ?
+                        svgPath.reflect(lastCubicControl, current) :
+                        current.clone();
+                    cubicControl = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    addCubic(control1, cubicControl, point(
+                        scanner.readNumber(), scanner.readNumber(), relative));
+                    break;
+                }
+                case 'q': {
+                    quadraticControl = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    const end = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    svgPath.addQuadratic(current, quadraticControl, end, addCubic);
+                    break;
+                }
+                case 't': {
+                    quadraticControl = lastQuadraticControl ?
+                        svgPath.reflect(lastQuadraticControl, current) :
+                        current.clone();
+                    const end = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    svgPath.addQuadratic(current, quadraticControl, end, addCubic);
+                    break;
+                }
+                case 'a': {
+                    const rx = scanner.readNumber();
+                    const ry = scanner.readNumber();
+                    const rotation = scanner.readNumber();
+                    const largeArc = scanner.readFlag();
+                    const sweep = scanner.readFlag();
+                    const end = point(
+                        scanner.readNumber(), scanner.readNumber(), relative);
+                    const curves = svgPath.arcToCubics(current, rx, ry,
+                        rotation, largeArc, sweep, end);
+                    if (!curves) {
+                        addLine(end);
+                    } else {
+                        curves.forEach((curve) => {
+                            addCubic(curve[0], curve[1], curve[2]);
+                        });
+                    }
+                    break;
+                }
+                case 'z': {
+                    const closing = getSubpath();
+                    if (!current.equals(closing.start)) {
+                        addLine(closing.start.clone());
+                    }
+                    closing.closed = true;
+                    current = closing.start;
+                    break;
+                }
+            }
+
+            lastCubicControl = cubicControl;
+            lastQuadraticControl = quadraticControl;
+        }
+
+        return subpaths;
+    }
+
+
+    /**
+     * Serializes subpaths into absolute path data.
+     * @param subpaths
+     * @param precision The max number of decimals.
+     */
+    static serialize(subpaths: Array<SvgSubpath>, precision: number = 3): string {
+        const format = (...vectors: Array<Vector>) => {
+            return vectors.map((vector) => {
+                return `${+vector.x.toFixed(precision)} ${+vector.y.toFixed(precision)}`;
+            }).join(' ');
+        };
+
+        const commands: Array<string> = [];
+        subpaths.forEach((subpath) => {
+            commands.push(`M${format(subpath.start)}`);
+
+            let segments = subpath.segments;
+            // The closing line is implied by Z.
+            const last = segments[segments.length - 1];
+            if (subpath.closed && last && last.type == SvgPathSegmentTypes.line &&
+                last.end.equals(subpath.start)) {
+                segments = segments.slice(0, -1);
+            }
+
+            segments.forEach((segment) => {
+                if (segment.type == SvgPathSegmentTypes.cubic) {
+                    commands.push(`C${format(
+                        segment.control1, segment.control2, segment.end)}`);
+                } else {
+                    commands.push(`L${format(segment.end)}`);
+                }
+            });
+
+            subpath.closed && commands.push('Z');
+        });
+        return commands.join(' ');
+    }
+
+
+    /**
+     * Creates an arc length [[Path]] of all segments.  The gaps between
+     * subpaths are not part of the path.
+     * @param data Path data or parsed subpaths.
+     * @param samples The samples per curve.
+     */
+    static toPath(data: string | Array<SvgSubpath>, samples?: number): Path {
+        const subpaths = is.string(data) ?
+            svgPath.parse(data as string) : data as Array<SvgSubpath>;
+        const path = new Path(samples);
+        subpaths.forEach((subpath) => {
+            subpath.segments.forEach((segment) => {
+                path.add(segment.type == SvgPathSegmentTypes.cubic ?
+                    Path.fromCubicBezier(segment.start, segment.control1,
+                        segment.control2, segment.end, samples) :
+                    Path.fromLine(segment.start, segment.end));
+            });
+        });
+        return path;
+    }
+
+
+    /**
+     * Reflects a control point around a point.
+     */
+    private static reflect(control: Vector, around: Vector): Vector {
+        return Vector.subtract(around, control).add(around);
+    }
+
+
+    /**
+     * Adds a quadratic bezier as the equal cubic bezier.
+     */
+    private static addQuadratic(start: Vector, control: Vector, end: Vector,
+        addCubic: Function) {
+        addCubic(
+            Vector.subtract(control, start).scale(2 / 3).add(start),
+            Vector.subtract(control, end).scale(2 / 3).add(end),
+            end);
+    }
+
+
+    /**
+     * Converts an svg arc to cubic beziers of at most 90 degrees each.
+     * Returns null if the arc is a straight line (a radius of 0) and an
+     * empty list if the start and end are the same.
+     * @return A list of [control1, control2, end].
+     */
+    private static arcToCubics(start: Vector, rx: number, ry: number,
+        rotation: number, largeArc: boolean, sweep: boolean, end: Vector):
+        Array<Array<Vector>> | null {
+        if (start.equals(end)) {
+            return [];
+        }
+        rx = Math.abs(rx);
+        ry = Math.abs(ry);
+        if (!rx || !ry) {
+            return null;
+        }
+
+        // Convert from endpoint to center parameterization.
+        const phi = rotation * Math.PI / 180;
+        const cos = Math.cos(phi);
+        const sin = Math.sin(phi);
+        const dx = (start.x - end.x) / 2;
+        const dy = (start.y - end.y) / 2;
+        const x1 = cos * dx + sin * dy;
+        const y1 = -sin * dx + cos * dy;
+
+        // Scale up radii that are too small to reach the end.
+        const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+        if (lambda > 1) {
+            rx *= Math.sqrt(lambda);
+            ry *= Math.sqrt(lambda);
+        }
+
+        const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 -
+            ry * ry * x1 * x1;
+        const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+        const sign = largeArc == sweep ? -1 : 1;
+        const factor = sign * Math.sqrt(Math.max(0, numerator / denominator));
+        const cx1 = factor * rx * y1 / ry;
+        const cy1 = -factor * ry * x1 / rx;
+        const cx = cos * cx1 - sin * cy1 + (start.x + end.x) / 2;
+        const cy = sin * cx1 + cos * cy1 + (start.y + end.y) / 2;
+
+        const angle = (ux: number, uy: number, vx: number, vy: number) => {
+            return Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+        };
+        const startAngle = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+        let deltaAngle = angle((x1 - cx1) / rx, (y1 - cy1) / ry,
+            (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+        if (!sweep && deltaAngle > 0) {
+            deltaAngle -= Math.PI * 2;
+        } else if (sweep && deltaAngle < 0) {
+            deltaAngle += Math.PI * 2;
+        }
+
+        // Returns the point on the ellipse and its derivative at an angle.
+        const ellipse = (theta: number, derivative: boolean) => {
+            const x = derivative ? -rx * Math.sin(theta) : rx * Math.cos(theta);
+            const y = derivative ? ry * Math.cos(theta) : ry * Math.sin(theta);
+            return new Vector(
+                cos * x - sin * y + (derivative ? 0 : cx),
+                sin * x + cos * y + (derivative ? 0 : cy));
+        };
+
+        const count = Math.ceil(Math.abs(deltaAngle) / (Math.PI / 2) - 0.0001);
+        const step = deltaAngle / count;
+        const k = 4 / 3 * Math.tan(step / 4);
+        const curves: Array<Array<Vector>> = [];
+        for (let i = 0; i < count; i++) {
+            const from = startAngle + step * i;
+            const to = from + step;
+            curves.push([
+                ellipse(from, false).add(ellipse(from, true).scale(k)),
+                ellipse(to, false).subtract(ellipse(to, true).scale(k)),
+                ellipse(to, false)
+            ]);
+        }
+
+        // Prevent rounding errors at the end.
+        curves[curves.length - 1][2] = end.clone();
+        return curves;
+    }
+}
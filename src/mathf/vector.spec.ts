@@ -71,4 +71,45 @@ test('fromArray', t => {
     t.is(v.x, 1);
     t.is(v.y, 3);
     t.is(v.z, 2);
-});
\ No newline at end of file
+});
+
+test('static out parameters', t => {
+    const a = new Vector(1, 2, 3);
+    const b = new Vector(4, 5, 6);
+    const out = new Vector();
+
+    // Without out, a new vector is returned and inputs are untouched.
+    const sum = Vector.add(a, b);
+    t.not(sum, a);
+    t.true(sum.equals(new Vector(5, 7, 9)));
+    t.true(a.equals(new Vector(1, 2, 3)));
+
+    // With out, the result is written into out.
+    t.is(Vector.add(out, a, b), out);
+    t.true(out.equals(new Vector(5, 7, 9)));
+    t.is(Vector.subtract(out, b, a), out);
+    t.true(out.equals(new Vector(3, 3, 3)));
+    t.is(Vector.scale(out, a, 2), out);
+    t.true(out.equals(new Vector(2, 4, 6)));
+    t.is(Vector.lerp(out, a, b, 0.5), out);
+    t.true(out.equals(new Vector(2.5, 3.5, 4.5)));
+    t.is(Vector.cross(out, new Vector(1, 0, 0), new Vector(0, 1, 0)), out);
+    t.true(out.equals(new Vector(0, 0, 1)));
+    t.is(Vector.normalize(out, new Vector(0, 0, 5)), out);
+    t.true(out.equals(new Vector(0, 0, 1)));
+
+    // Out can be one of the inputs.
+    Vector.add(a, a, b);
+    t.true(a.equals(new Vector(5, 7, 9)));
+    t.true(b.equals(new Vector(4, 5, 6)));
+});
+
+
+test('copy', t => {
+    const v = new Vector(1, 2, 3, 4);
+    const out = new Vector();
+    t.is(out.copy(v), out);
+    t.is(out.w, 4);
+    t.true(out.equals(v));
+    t.is(Vector.copy(new Vector(), v).z, 3);
+});
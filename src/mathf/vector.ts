@@ -2,6 +2,7 @@
 import { EASE } from '../ease/ease';
 import { mathf } from './mathf';
 import { MatrixIV } from './matrixIV';
+import { Pool } from './pool';
 
 /**
  *
@@ -21,6 +22,27 @@ import { MatrixIV } from './matrixIV';
  *
  * ```
  *
+ * Instance methods such as add, subtract and scale modify the vector.  The
+ * static versions have two modes.  Without an out vector they return a new
+ * vector and leave the inputs untouched.  With an out vector as the first
+ * argument they write into it and allocate nothing which is what you want
+ * in raf loops.
+ *
+ * ```ts
+ * // Immutable.  Returns a new vector.
+ * let sum = Vector.add(a, b);
+ *
+ * // Allocation free.  Writes a + b into out.
+ * const out = new Vector();
+ * Vector.add(out, a, b);
+ * Vector.scale(out, out, 0.5);
+ * Vector.transformWithMatrixIV(out, out, matrix);
+ *
+ * // Temporary vectors.
+ * const temp = Vector.pool.acquire();
+ * Vector.pool.release(temp);
+ * ```
+ *
  *
  * TODO (uxder): Add matrix transformations.
  *
@@ -38,6 +60,11 @@ import { MatrixIV } from './matrixIV';
  */
 export class Vector {
 
+    /**
+     * A pool of vectors for temporary values.  See [[Pool]].
+     */
+    static pool: Pool<Vector> = new Pool<Vector>(() => new Vector());
+
     /**
      * The x component of this vector.
      */
@@ -89,6 +116,27 @@ export class Vector {
         return new Vector(v.x, v.y, v.z);
     }
 
+    /**
+     * Copies the values of another vector into this vector.
+     * @param v
+     */
+    copy(v: Vector): Vector {
+        this.x = v.x;
+        this.y = v.y;
+        this.z = v.z;
+        this.w = v.w;
+        return this;
+    }
+
+    /**
+     * Copies the values of a vector into the out vector.
+     * @param out
+     * @param v
+     */
+    static copy(out: Vector, v: Vector): Vector {
+        return out.copy(v);
+    }
+
     /**
      * Sets x,y,z.
      * @tested
@@ -340,11 +388,25 @@ export class Vector {
         return this;
     }
 
-    static add(v2: Vector, v1: Vector) {
-        const x = v2.x + v1.x;
-        const y = v2.y + v1.y;
-        const z = v2.z + v1.z;
-        return new Vector(x, y, z);
+    /**
+     * Adds two vectors.
+     *
+     * ```ts
+     * let sum = Vector.add(a, b); // A new vector.
+     * Vector.add(out, a, b); // Writes into out.
+     * ```
+     * @tested
+     */
+    static add(v2: Vector, v1: Vector): Vector;
+    static add(out: Vector, v2: Vector, v1: Vector): Vector;
+    static add(out: Vector, v2: Vector, v1?: Vector): Vector {
+        if (!v1) {
+            return Vector.add(new Vector(), out, v2);
+        }
+        out.x = v2.x + v1.x;
+        out.y = v2.y + v1.y;
+        out.z = v2.z + v1.z;
+        return out;
     }
 
     /**
@@ -359,13 +421,25 @@ export class Vector {
 
 
     /**
-     * Subtract this vector from another and create a new vector.
+     * Subtracts v1 from v2.  Creates a new vector or writes into the out
+     * vector.
+     *
+     * ```ts
+     * let delta = Vector.subtract(target, position); // A new vector.
+     * Vector.subtract(out, target, position); // Writes into out.
+     * ```
+     * @tested
      */
-    static subtract(v2: Vector, v1: Vector) {
-        const x = v2.x - v1.x;
-        const y = v2.y - v1.y;
-        const z = v2.z - v1.z;
-        return new Vector(x, y, z);
+    static subtract(v2: Vector, v1: Vector): Vector;
+    static subtract(out: Vector, v2: Vector, v1: Vector): Vector;
+    static subtract(out: Vector, v2: Vector, v1?: Vector): Vector {
+        if (!v1) {
+            return Vector.subtract(new Vector(), out, v2);
+        }
+        out.x = v2.x - v1.x;
+        out.y = v2.y - v1.y;
+        out.z = v2.z - v1.z;
+        return out;
     }
 
     /**
@@ -404,6 +478,28 @@ export class Vector {
     }
 
 
+    /**
+     * Scales a vector.  Creates a new vector or writes into the out vector.
+     *
+     * ```ts
+     * let half = Vector.scale(v, 0.5); // A new vector.
+     * Vector.scale(out, v, 0.5); // Writes into out.
+     * ```
+     * @tested
+     */
+    static scale(v: Vector, scalar: number): Vector;
+    static scale(out: Vector, v: Vector, scalar: number): Vector;
+    static scale(out: Vector, v: Vector | number, scalar?: number): Vector {
+        if (!(v instanceof Vector)) {
+            return Vector.scale(new Vector(), out, v);
+        }
+        out.x = v.x * scalar;
+        out.y = v.y * scalar;
+        out.z = v.z * scalar;
+        return out;
+    }
+
+
     /**
      * Negate this vector as a 3d vector.
      */
@@ -480,6 +576,24 @@ export class Vector {
     }
 
 
+    /**
+     * Normalizes a vector.  Creates a new vector or writes into the out
+     * vector.
+     * @tested
+     */
+    static normalize(v: Vector): Vector;
+    static normalize(out: Vector, v: Vector): Vector;
+    static normalize(out: Vector, v?: Vector): Vector {
+        if (!v) {
+            return Vector.normalize(new Vector(), out);
+        }
+        out.x = v.x;
+        out.y = v.y;
+        out.z = v.z;
+        return out.normalize();
+    }
+
+
     /**
      * Calculates the dot product of this Vector and the given vector.
      * @return The dot product of this vector and provided vector.
@@ -503,6 +617,30 @@ export class Vector {
     }
 
 
+    /**
+     * The cross product of a and b.  Creates a new vector or writes into the
+     * out vector.
+     * @tested
+     */
+    static cross(a: Vector, b: Vector): Vector;
+    static cross(out: Vector, a: Vector, b: Vector): Vector;
+    static cross(out: Vector, a: Vector, b?: Vector): Vector {
+        if (!b) {
+            return Vector.cross(new Vector(), out, a);
+        }
+        const ax = a.x;
+        const ay = a.y;
+        const az = a.z;
+        const bx = b.x;
+        const by = b.y;
+        const bz = b.z;
+        out.x = ay * bz - az * by;
+        out.y = az * bx - ax * bz;
+        out.z = ax * by - ay * bx;
+        return out;
+    }
+
+
 
     /**
      * Transform this vector given the provided matrix4.
@@ -526,6 +664,43 @@ export class Vector {
     }
 
 
+    /**
+     * Transforms a vector with a matrix4.  Creates a new vector or writes
+     * into the out vector.  Unlike the instance method, the input vector is
+     * not modified.
+     *
+     * ```ts
+     * let projected = Vector.transformWithMatrixIV(v, matrix); // A new vector.
+     * Vector.transformWithMatrixIV(out, v, matrix); // Writes into out.
+     * ```
+     * @tested
+     */
+    static transformWithMatrixIV(v: Vector, matrix: MatrixIV): Vector;
+    static transformWithMatrixIV(out: Vector, v: Vector, matrix: MatrixIV):
+        Vector;
+    static transformWithMatrixIV(out: Vector, v: Vector | MatrixIV,
+        matrix?: MatrixIV): Vector {
+        if (!(v instanceof Vector)) {
+            return Vector.transformWithMatrixIV(new Vector(), out, v);
+        }
+        const x = v.x;
+        const y = v.y;
+        const z = v.z;
+        const mat = matrix.value;
+
+        const tx = (x * mat[0]) + (y * mat[4]) + (z * mat[8]) + mat[12];
+        const ty = (x * mat[1]) + (y * mat[5]) + (z * mat[9]) + mat[13];
+        const tz = (x * mat[2]) + (y * mat[6]) + (z * mat[10]) + mat[14];
+        let tw = (x * mat[3]) + (y * mat[7]) + (z * mat[11]) + mat[15];
+        tw = tw || 1.0;
+
+        out.x = tx / tw;
+        out.y = ty / tw;
+        out.z = tz / tw;
+        return out;
+    }
+
+
     /**
      * Transform the current vector with the provided matrix4 to a
      * 2d.  This effectively takes this 3d vector and makes it into
@@ -635,6 +810,26 @@ export class Vector {
 
 
 
+    /**
+     * Linear interpolates between two vectors.  Creates a new vector or
+     * writes into the out vector.
+     * @param progress A number between 0-1.
+     * @tested
+     */
+    static lerp(v1: Vector, v2: Vector, progress: number): Vector;
+    static lerp(out: Vector, v1: Vector, v2: Vector, progress: number): Vector;
+    static lerp(out: Vector, v1: Vector, v2: Vector | number,
+        progress?: number): Vector {
+        if (!(v2 instanceof Vector)) {
+            return Vector.lerp(new Vector(), out, v1, v2);
+        }
+        out.x = mathf.lerp(v1.x, v2.x, progress);
+        out.y = mathf.lerp(v1.y, v2.y, progress);
+        out.z = mathf.lerp(v1.z, v2.z, progress);
+        return out;
+    }
+
+
     /**
      * Ease interpolates and eases 1 vector towards another.
      * @param v1 startVector
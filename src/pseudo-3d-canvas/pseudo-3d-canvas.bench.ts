@@ -0,0 +1,122 @@
+import { Pseudo3dCanvas } from './pseudo-3d-canvas';
+import { Camera } from './camera';
+import { CubeMesh, Mesh } from './mesh';
+import { Vector } from '../mathf/vector';
+import { MatrixIV } from '../mathf/matrixIV';
+import { domCanvas } from '../dom/dom-canvas';
+import { bench } from '../debug/bench';
+import test from 'ava';
+
+/**
+ * Benchmarks the heap allocations of Pseudo3dCanvas.render against the
+ * allocating version from before the out parameter APIs.  Run with
+ * `npm run bench`.
+ */
+
+/**
+ * jsdom doesn't implement canvas so fake one with a context that ignores
+ * all draw calls.
+ */
+const createCanvasElement = (): HTMLCanvasElement => {
+    const noop = () => { };
+    const context = new Proxy({}, {
+        get: (target: Object, key: string) =>
+            key in target ? target[key] : noop
+    });
+    const canvasElement = document.createElement('canvas');
+    Object.defineProperty(canvasElement, 'offsetWidth', { value: 400 });
+    Object.defineProperty(canvasElement, 'offsetHeight', { value: 300 });
+    Object.defineProperty(canvasElement, 'getContext', { value: () => context });
+    return canvasElement;
+}
+
+const createMeshes = (count: number): Array<Mesh> => {
+    const meshes = [];
+    for (let i = 0; i < count; i++) {
+        const mesh = new CubeMesh();
+        mesh.size(1, 1, 1);
+        mesh.position = new Vector(i * 3 - count, 0, 0);
+        meshes.push(mesh);
+    }
+    return meshes;
+}
+
+
+/**
+ * Pseudo3dCanvas.render the way it was before the out parameter APIs.
+ * Every matrix and vector is a new object and every multiply works on a
+ * copy.
+ */
+const allocatingRender = (canvas: Pseudo3dCanvas, camera: Camera,
+    meshes: Array<Mesh>) => {
+    const context: CanvasRenderingContext2D = canvas['context'];
+    const width: number = canvas['width'];
+    const height: number = canvas['height'];
+    context.clearRect(0, 0, width, height);
+
+    meshes.forEach((mesh) => {
+        const viewMatrix =
+            new MatrixIV().lookAt(camera.position, camera.target, Vector.UP);
+        const projectionMatrix = new MatrixIV()
+            .perspective(canvas.fov, canvas.aspect, canvas.near, canvas.far);
+        const translationMatrix = new MatrixIV().translate(mesh.position);
+        const worldMatrix = MatrixIV.IDENTITY.multiply(translationMatrix);
+        const transformMatrix = projectionMatrix.clone()
+            .multiply(viewMatrix).clone()
+            .multiply(worldMatrix);
+
+        mesh.vertices.forEach((v: Vector, i: number) => {
+            const rotationMatrix = new MatrixIV()
+                .ypr(mesh.rotation.y, mesh.rotation.x, mesh.rotation.z);
+            const basisMatrix = mesh.basisMatrix.clone()
+                .multiply(rotationMatrix);
+            const transformedVector = v.clone()
+                .transformWithMatrixIV(basisMatrix);
+            let vector2d = transformedVector.clone()
+                .transformWithMatrixIV(transformMatrix);
+
+            const x = vector2d.x * width + width * 0.5;
+            const y = -vector2d.y * height + height * 0.5;
+            vector2d = new Vector(x, y).int();
+
+            if (vector2d.x >= 0 && vector2d.y >= 0 && vector2d.x < width
+                && vector2d.y < height) {
+                domCanvas.setFillColor(context, mesh.color);
+                domCanvas.setStrokeColor(context, mesh.color);
+                domCanvas.vectorPoint(context, vector2d);
+                domCanvas.quickText(context, 'v' + i, vector2d.x, vector2d.y - 4);
+            }
+        });
+    });
+};
+
+
+test('render allocates less than before', t => {
+    const canvas = new Pseudo3dCanvas({
+        canvasElement: createCanvasElement()
+    });
+    const camera = new Camera();
+    camera.position = new Vector(0, 0, 30);
+    const meshes = createMeshes(10);
+    const frames = 20;
+
+    const allocatingBytes = bench.measureBytes((i: number) => {
+        meshes.forEach((mesh) => {
+            mesh.rotation.x = i * 0.01;
+        });
+        allocatingRender(canvas, camera, meshes);
+    }, frames);
+    const bytes = bench.measureBytes((i: number) => {
+        meshes.forEach((mesh) => {
+            mesh.rotation.x = i * 0.01;
+        });
+        canvas.render(camera, meshes);
+    }, frames);
+
+    const allocatingPerMesh = allocatingBytes / meshes.length;
+    const perMesh = bytes / meshes.length;
+    t.log(`allocating render: ${allocatingPerMesh.toFixed(1)} bytes per mesh`);
+    t.log(`render: ${perMesh.toFixed(1)} bytes per mesh`);
+    t.true(perMesh < 4096);
+    t.true(perMesh < allocatingPerMesh / 2);
+});
@@ -41,6 +41,8 @@ export class Pseudo3dCanvas {
     private worldMatrix: MatrixIV;
     private projectionMatrix: MatrixIV;
     private transformMatrix: MatrixIV;
+    private basisMatrix: MatrixIV;
+    private vector: Vector;
 
     constructor(config: Pseudo3dCanvasConfig) {
         this.canvasElement = config.canvasElement;
@@ -61,6 +63,8 @@ export class Pseudo3dCanvas {
         this.worldMatrix = MatrixIV.IDENTITY;
         this.transformMatrix = MatrixIV.IDENTITY;
         this.projectionMatrix = MatrixIV.IDENTITY;
+        this.basisMatrix = MatrixIV.IDENTITY;
+        this.vector = Vector.ZERO;
     }
 
 
@@ -88,67 +92,66 @@ export class Pseudo3dCanvas {
      *
      * http://web.archive.org/web/20131222170415/http:/robertokoci.com/world-view-projection-matrix-unveiled/
      *
+     * All matrices and vectors are reused between renders so no objects are
+     * created per frame.
+     *
      * @param camera
      * @param meshes
      */
     render(camera: Camera, meshes: Array<Mesh>): void {
         this.context.clearRect(0, 0, this.width, this.height);
 
-        // Loop through each mesh.
-        meshes.forEach((mesh) => {
+        // This is the main view / camera matrix.
+        this.viewMatrix.lookAt(camera.position, camera.target, Vector.UP);
 
-            // This is the main view / camera matrix.
-            this.viewMatrix =
-                new MatrixIV().lookAt(camera.position, camera.target, Vector.UP);
-
-            // The main projection matrix.
-            this.projectionMatrix =
-                new MatrixIV()
-                    .perspective(
-                        this.fov, this.aspect, this.near, this.far)
+        // The main projection matrix.
+        this.projectionMatrix
+            .perspective(
+                this.fov, this.aspect, this.near, this.far)
 
+        // Loop through each mesh.
+        meshes.forEach((mesh) => {
 
             // The main world or model matrix.  Here we are going to shift the
             // position of the mesh based on the curren tmesh position.
-            this.translationMatrix = new MatrixIV()
+            this.translationMatrix.identity()
                 .translate(mesh.position);
-            this.worldMatrix =
-                MatrixIV.IDENTITY
-                    .multiply(this.translationMatrix)
+            this.worldMatrix.copy(this.translationMatrix);
 
 
             // Create the transform matrix.
             // ProjectMatrix * ViewMatrix * WorldMatrix
-            this.transformMatrix = this.projectionMatrix
+            this.transformMatrix.copy(this.projectionMatrix)
                 .multiply(this.viewMatrix).multiply(this.worldMatrix);
 
 
+            // Take each vector point such as 1,1 and first locally,
+            // rotate and move it's position based on the basisMatrix.
+            // The basisMatrix consists of up, right, forward vectors
+            // that define the shape of the mesh and this particular vector.
+            // Apart from the basic position (controled in worldMatrix),
+            // this locally affects the position of each vector which can
+            // be controlled by the mesh size and vector positions.
+            // The rotation is the same for all vertices of a mesh.
+            this.rotationMatrix
+                .ypr(mesh.rotation.y, mesh.rotation.x, mesh.rotation.z);
+            MatrixIV.multiply(
+                this.basisMatrix, mesh.basisMatrix, this.rotationMatrix);
+
+
             // Now we are going to apply the transformMatrix to each
             // vertices point in the mesh effectively projecting 3d into
             // the 2d canvas.
             mesh.vertices.forEach((v: Vector, i: number) => {
-
-
-                // Take each vector point such as 1,1 and first locally,
-                // rotate and move it's position based on the basisMatrix.
-                // The basisMatrix consists of up, right, forward vectors
-                // that define the shape of the mesh and this particular vector.
-                // Apart from the basic position (controled in worldMatrix),
-                // this locally affects the position of each vector which can
-                // be controlled by the mesh size and vector positions.
-                let rotationMatrix = new MatrixIV()
-                    .ypr(mesh.rotation.y, mesh.rotation.x, mesh.rotation.z)
-                let basisMatrix = mesh.basisMatrix.clone()
-                    .multiply(rotationMatrix);
-                let transformedVector = v.clone()
-                    .transformWithMatrixIV(basisMatrix);
+                let vector2d = Vector.transformWithMatrixIV(
+                    this.vector, v, this.basisMatrix);
 
                 // Apply the transformation to the vector.
                 // These are our final vector coordinates that are normalized
                 // where by the screen is 1x1 with the center in zero position
                 // like webGL.
-                let vector2d = transformedVector.clone()
-                    .transformWithMatrixIV(this.transformMatrix);
+                Vector.transformWithMatrixIV(
+                    vector2d, vector2d, this.transformMatrix);
 
 
 
@@ -168,7 +171,7 @@ export class Pseudo3dCanvas {
                 y += (this.height * 0.5);
 
                 // We get our final vector coordinates on the canvas.
-                vector2d = new Vector(x, y).int();
+                vector2d.set(x, y).int();
 
 
                 // Check if this vector goes out of boundaries in which case,
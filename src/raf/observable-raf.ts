@@ -0,0 +1,138 @@
+import { Observable, OperatorFunction } from '../func/observable';
+import { RafProgress } from './raf-progress';
+import { RafScheduler } from './raf-scheduler';
+// Makes sure the global raf registry exists.
+import './raf';
+
+
+/**
+ * Calls the callback after the given number of frames of the scheduler of
+ * the global raf registry.  Returns a function that cancels it.
+ */
+function waitFrames(frames: number, callback: Function): Function {
+    const scheduler: RafScheduler = window['YANO_RAF_REGISTRY'].getScheduler();
+    let remaining = Math.max(1, frames);
+    let id: number;
+    const step = () => {
+        if (--remaining > 0) {
+            id = scheduler.requestFrame(step);
+            return;
+        }
+        callback();
+    };
+    id = scheduler.requestFrame(step);
+    return () => scheduler.cancelFrame(id);
+}
+
+
+/**
+ * Emits the progress of a [[RafProgress]] on each update.
+ * ```ts
+ * const rafProgress = new RafProgress();
+ * fromRafProgress(rafProgress)
+ *   .pipe(filter((progress) => progress > 0.5))
+ *   .subscribe((progress) => {});
+ * rafProgress.easeTo(1, 0.2);
+ * ```
+ * @param rafProgress
+ */
+export function fromRafProgress(rafProgress: RafProgress): Observable<number> {
+    return new Observable<number>((subscriber) => {
+        const callback = (progress: number) => subscriber.next(progress);
+        rafProgress.watch(callback);
+        return () => rafProgress.unwatch(callback);
+    });
+}
+
+
+/**
+ * Emits the last value once no values arrived for the given number of
+ * frames.  A pending value is emitted when the source completes.  Handy to
+ * run dom reads once per frame no matter how many scroll or pointer events
+ * fired.
+ *
+ * ```ts
+ * fromEvent(window, 'scroll', { passive: true })
+ *   .pipe(debounceFrames())
+ *   .subscribe(() => {
+ *     // Runs at most once per frame.
+ *   });
+ * ```
+ * @param frames Defaults to 1.
+ */
+export function debounceFrames<T>(frames: number = 1): OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        let cancel: Function | null = null;
+        let pending: { value: T } | null = null;
+        const flush = () => {
+            cancel = null;
+            if (pending) {
+                const value = pending.value;
+                pending = null;
+                subscriber.next(value);
+            }
+        };
+
+        subscriber.add(() => cancel && cancel());
+        subscriber.add(source.subscribe({
+            next: (value) => {
+                pending = { value: value };
+                cancel && cancel();
+                cancel = waitFrames(frames, flush);
+            },
+            error: (error) => subscriber.error(error),
+            complete: () => {
+                cancel && cancel();
+                flush();
+                subscriber.complete();
+            }
+        }));
+    });
+}
+
+
+/**
+ * Emits the first value immediately and then at most once per the given
+ * number of frames.  The last value that arrived in between is emitted at
+ * the end of the wait, or when the source completes.
+ * @param frames Defaults to 1.
+ */
+export function throttleFrames<T>(frames: number = 1): OperatorFunction<T, T> {
+    return (source) => new Observable<T>((subscriber) => {
+        let cancel: Function | null = null;
+        let pending: { value: T } | null = null;
+        const emit = (value: T) => {
+            subscriber.next(value);
+            cancel = waitFrames(frames, () => {
+                cancel = null;
+                if (pending) {
+                    const pendingValue = pending.value;
+                    pending = null;
+                    emit(pendingValue);
+                }
+            });
+        };
+
+        subscriber.add(() => cancel && cancel());
+        subscriber.add(source.subscribe({
+            next: (value) => {
+                if (cancel) {
+                    pending = { value: value };
+                } else {
+                    emit(value);
+                }
+            },
+            error: (error) => subscriber.error(error),
+            complete: () => {
+                cancel && cancel();
+                cancel = null;
+                if (pending) {
+                    const value = pending.value;
+                    pending = null;
+                    subscriber.next(value);
+                }
+                subscriber.complete();
+            }
+        }));
+    });
+}
@@ -0,0 +1,83 @@
+import { Raf } from './raf';
+import { RafProfiler } from './raf-profiler';
+import { VirtualRafScheduler } from './raf-scheduler';
+import test from 'ava';
+
+
+test('RafProfiler describes elements', t => {
+    const element = document.createElement('div');
+    element.id = 'hero';
+    element.classList.add('a', 'b');
+    t.is(RafProfiler.describeElement(element), 'div#hero.a.b');
+    t.is(RafProfiler.describeElement(null), '');
+})
+
+
+test('Raf registry unregisters disposed rafs', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    registry.setScheduler(new VirtualRafScheduler());
+    const count = registry.getRafCount();
+    const a = new Raf();
+    const b = new Raf();
+    t.is(registry.getRafCount(), count + 2);
+    a.dispose();
+    t.is(registry.getRafCount(), count + 1);
+    b.dispose();
+    t.is(registry.getRafCount(), count);
+    registry.setScheduler(null);
+})
+
+
+test('Raf registry profiles raf callbacks', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    const scheduler = new VirtualRafScheduler(0, 10);
+    registry.setScheduler(scheduler);
+    registry.setProfiling(true);
+
+    const raf = new Raf(() => {
+        // Simulate an expensive update.
+        scheduler.advance(4);
+        raf.write(() => {
+            scheduler.advance(2);
+        });
+    });
+    raf.setLabel('expensive');
+    raf.start();
+    scheduler.stepFrames(3);
+
+    // A slow frame.
+    scheduler.setFrameDuration(40);
+    scheduler.stepFrames(1);
+
+    const report = registry.getProfileReport();
+    const profile = report.rafs.filter((p: any) => p.label == 'expensive')[0];
+    t.is(profile.isPlaying, true);
+    t.true(profile.calls > 0);
+    t.true(profile.maxTime >= 4);
+    t.true(profile.frameDrops > 0);
+    t.is(JSON.parse(registry.dumpProfileReport()).rafCount, report.rafCount);
+
+    raf.dispose();
+    registry.setProfiling(false);
+    registry.setScheduler(null);
+})
+
+
+test('Raf registry detects rafs whose owner left the DOM', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    registry.setScheduler(new VirtualRafScheduler());
+    const element = document.createElement('div');
+    document.body.appendChild(element);
+
+    const raf = new Raf();
+    raf.setOwner(element);
+    t.is(registry.getLeakedRafs().length, 0);
+
+    document.body.removeChild(element);
+    t.deepEqual(registry.getLeakedRafs(), [raf]);
+    t.is(registry.getProfileReport().leakedRafCount, 1);
+
+    raf.dispose();
+    t.is(registry.getLeakedRafs().length, 0);
+    registry.setScheduler(null);
+})
@@ -0,0 +1,207 @@
+import { Raf } from './raf';
+
+
+/**
+ * The profile of a single raf instance.  Times are in ms.
+ */
+export interface RafProfile {
+    label: string,
+    owner: string,
+    isPlaying: boolean,
+    isDisposed: boolean,
+    /**
+     * Whether the raf was never disposed after its owner left the DOM.
+     */
+    isLeaked: boolean,
+    /**
+     * The number of raf loop and batched read / write callbacks run.
+     */
+    calls: number,
+    totalTime: number,
+    averageTime: number,
+    maxTime: number,
+    /**
+     * The number of raf loop updates that took longer than the frame drop
+     * threshold.
+     */
+    frameDrops: number
+}
+
+
+/**
+ * The report returned by RafProfiler.getReport.
+ */
+export interface RafProfileReport {
+    rafCount: number,
+    activeRafCount: number,
+    leakedRafCount: number,
+    totalTime: number,
+    frameDrops: number,
+    /**
+     * All profiled rafs sorted by total time, most expensive first.
+     */
+    rafs: Array<RafProfile>
+}
+
+
+interface RafProfileEntry {
+    calls: number,
+    totalTime: number,
+    maxTime: number,
+    frameDrops: number
+}
+
+
+/**
+ * Records the cost of raf instances.  Used by the RafRegistry when
+ * profiling is turned on.  Not usually used directly.
+ *
+ * In dev console:
+ * ```
+ * YANO_RAF_REGISTRY.setProfiling(true);
+ *
+ * // Later
+ * YANO_RAF_REGISTRY.dumpProfileReport();
+ * ```
+ */
+export class RafProfiler {
+
+    /**
+     * Creates a short description of an element like div#id.class.
+     */
+    static describeElement(element: HTMLElement): string {
+        if (!element) {
+            return '';
+        }
+        let description = element.tagName.toLowerCase();
+        if (element.id) {
+            description += '#' + element.id;
+        }
+        if (element.classList && element.classList.length) {
+            description += '.' + Array.from(element.classList).join('.');
+        }
+        return description;
+    }
+
+    /**
+     * Whether the raf is still alive even though its owner element is no
+     * longer in the DOM.
+     */
+    static isLeaked(raf: Raf): boolean {
+        const owner = raf.getOwner();
+        return !!owner && !raf.isDisposed &&
+            !document.documentElement.contains(owner);
+    }
+
+    private entries: Map<Raf, RafProfileEntry>;
+
+    /**
+     * A multiplier of the expected frame duration after which a raf update
+     * is counted as a frame drop.
+     */
+    private frameDropThreshold: number;
+
+    constructor() {
+        this.entries = new Map();
+        this.frameDropThreshold = 1.5;
+    }
+
+    /**
+     * Sets the multiplier of the expected frame duration after which a raf
+     * update is counted as a frame drop.  Defaults to 1.5.
+     */
+    setFrameDropThreshold(value: number) {
+        this.frameDropThreshold = value;
+    }
+
+    /**
+     * Records the time a callback of the given raf took.
+     * @param raf
+     * @param duration The time in ms.
+     */
+    recordCallback(raf: Raf, duration: number) {
+        const entry = this.getEntry(raf);
+        entry.calls++;
+        entry.totalTime += duration;
+        entry.maxTime = Math.max(entry.maxTime, duration);
+    }
+
+    /**
+     * Records the delta between two raf loop updates and counts a frame
+     * drop if it took longer than expected.
+     * @param raf
+     * @param delta The time in ms since the last update.
+     * @param expectedDelta The time in ms the update should have taken.
+     */
+    recordFrame(raf: Raf, delta: number, expectedDelta: number) {
+        if (delta > expectedDelta * this.frameDropThreshold) {
+            this.getEntry(raf).frameDrops++;
+        }
+    }
+
+    /**
+     * Removes a raf from the profile.
+     */
+    remove(raf: Raf) {
+        this.entries.delete(raf);
+    }
+
+    /**
+     * Clears all recorded data.
+     */
+    reset() {
+        this.entries.clear();
+    }
+
+    /**
+     * Creates a report for the given rafs.
+     */
+    getReport(rafs: Array<Raf>): RafProfileReport {
+        const profiles = rafs.map((raf) => {
+            return this.getProfile(raf);
+        }).sort((a, b) => {
+            return b.totalTime - a.totalTime;
+        });
+
+        return {
+            rafCount: profiles.length,
+            activeRafCount: profiles.filter((p) => p.isPlaying).length,
+            leakedRafCount: profiles.filter((p) => p.isLeaked).length,
+            totalTime: profiles.reduce((total, p) => total + p.totalTime, 0),
+            frameDrops: profiles.reduce((total, p) => total + p.frameDrops, 0),
+            rafs: profiles
+        };
+    }
+
+    private getProfile(raf: Raf): RafProfile {
+        const entry = this.entries.get(raf) || RafProfiler.createEntry();
+        return {
+            label: raf.getLabel(),
+            owner: RafProfiler.describeElement(raf.getOwner()),
+            isPlaying: raf.isPlaying,
+            isDisposed: raf.isDisposed,
+            isLeaked: RafProfiler.isLeaked(raf),
+            calls: entry.calls,
+            totalTime: entry.totalTime,
+            averageTime: entry.calls ? entry.totalTime / entry.calls : 0,
+            maxTime: entry.maxTime,
+            frameDrops: entry.frameDrops
+        };
+    }
+
+    private getEntry(raf: Raf): RafProfileEntry {
+        if (!this.entries.has(raf)) {
+            this.entries.set(raf, RafProfiler.createEntry());
+        }
+        return this.entries.get(raf);
+    }
+
+    private static createEntry(): RafProfileEntry {
+        return {
+            calls: 0,
+            totalTime: 0,
+            maxTime: 0,
+            frameDrops: 0
+        };
+    }
+}
@@ -1,9 +1,89 @@
-
 import { is } from '../is/is';
 import { RafProgress } from './raf-progress';
+import { VirtualRafScheduler } from './raf-scheduler';
 import test from 'ava';
 
 
 test('Raf Progress is defined', t => {
     t.is(is.defined(RafProgress), true);
-})
\ No newline at end of file
+})
+
+
+/**
+ * @hidden
+ */
+const createRafProgress = (callback?: Function) => {
+    const scheduler = new VirtualRafScheduler(0, 1000 / 60);
+    window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+    const rafProgress = new RafProgress(callback);
+    return { scheduler, rafProgress };
+}
+
+
+test.serial('RafProgress springs to a target and stops when at rest', t => {
+    const { scheduler, rafProgress } = createRafProgress();
+    rafProgress.springTo(1, { stiffness: 170, damping: 26 });
+
+    scheduler.stepFrames(10);
+    t.true(rafProgress.currentProgress > 0);
+    t.true(rafProgress.getVelocity() > 0);
+
+    scheduler.stepFrames(200);
+    t.is(rafProgress.currentProgress, 1);
+    t.is(rafProgress.getVelocity(), 0);
+    t.is(scheduler.getPendingCount(), 0);
+
+    rafProgress.dispose();
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+})
+
+
+test.serial('RafProgress decays with a velocity and triggers watchFor', t => {
+    let crossed = 0;
+    const { scheduler, rafProgress } = createRafProgress();
+    rafProgress.watchFor(0.3, () => { crossed++; });
+    rafProgress.decay(1, { power: 1, timeConstant: 500 });
+
+    scheduler.stepFrames(300);
+    t.is(rafProgress.currentProgress, 0.5);
+    t.is(crossed, 1);
+    t.is(scheduler.getPendingCount(), 0);
+
+    rafProgress.dispose();
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+})
+
+
+test.serial('RafProgress decay target is clamped', t => {
+    const { scheduler, rafProgress } = createRafProgress();
+    rafProgress.decay(10);
+    scheduler.stepFrames(300);
+    t.is(rafProgress.currentProgress, 1);
+
+    rafProgress.dispose();
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+})
+
+
+test.serial('RafProgress easeTo is frame rate independent', t => {
+    const progressAfter = (fps: number, frameRateIndependent: boolean) => {
+        const { scheduler, rafProgress } = createRafProgress();
+        scheduler.setFrameDuration(1000 / fps);
+        rafProgress.setFrameRateIndependent(frameRateIndependent);
+        rafProgress.easeTo(1, 0.1);
+        // Run for 250ms.
+        scheduler.stepFrames(fps / 4);
+        const progress = rafProgress.currentProgress;
+        rafProgress.dispose();
+        window['YANO_RAF_REGISTRY'].setScheduler(null);
+        return progress;
+    };
+
+    const at60 = progressAfter(60, true);
+    const at120 = progressAfter(120, true);
+    t.true(at60 > 0 && at60 < 1);
+    t.true(Math.abs(at60 - at120) < 0.01);
+
+    // Legacy mode applies the amount per frame.
+    t.true(progressAfter(120, false) > at120 + 0.05);
+})
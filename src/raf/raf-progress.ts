@@ -2,6 +2,8 @@ import { mathf } from '../mathf/mathf';
 import { is } from '../is/is';
 import { Raf } from './raf';
 import { EASE } from '..';
+import { Spring, SpringConfig } from '../mathf/spring';
+import { Decay, DecayConfig } from '../mathf/decay';
 
 interface RafProgressRangeWatcher {
     range: number | Array<number>;
@@ -119,6 +121,23 @@ interface RafProgressRangeWatcher {
  * rafProgress.unwatchFor(callback);
  *
  * ```
+ *
+ * # Physics
+ * Instead of easing, progress can be driven by a spring or an inertia
+ * (decay) motion.  Both are time based so they behave the same on every
+ * refresh rate and raf only runs until the motion comes to rest.
+ *
+ * ```
+ * // Spring to 1.  Springs can overshoot the target.
+ * rafProgress.springTo(1, { stiffness: 170, damping: 26 });
+ *
+ * // Glide with a release velocity (progress per second) and settle.
+ * rafProgress.decay(1.5, { timeConstant: 325 });
+ *
+ * // The current velocity in progress per second.  Also passed as the
+ * // third argument of progress callbacks.
+ * rafProgress.getVelocity();
+ * ```
  * @noInheritDoc
  */
 export class RafProgress {
@@ -133,6 +152,12 @@ export class RafProgress {
     private callbacks: Array<Function>;
     // The current scroll direction.
     private direction:number;
+    // The current velocity in progress per second.
+    private velocity: number;
+    // The spring or decay driving progress.  Null when easing or damping.
+    private physics: Spring | Decay | null;
+    // Whether easing and damping get scaled by the raf delta time.
+    private frameRateIndependent: boolean;
 
     /**
      * @param {Function} progressRafLoop  Optional function to be called on each
@@ -179,6 +204,15 @@ export class RafProgress {
 
         this.targetProgress = this.currentProgress;
         this.easingFunction = EASE.linear;
+        this.velocity = 0;
+        this.physics = null;
+
+        /**
+         * Whether easeAmount and damp are scaled by the time between frames
+         * so that eases take the same time on every refresh rate.  The amounts
+         * are tuned for 60fps.
+         */
+        this.frameRateIndependent = true;
 
         if (progressRafLoop) {
             this.watch(progressRafLoop);
@@ -198,6 +232,16 @@ export class RafProgress {
     }
 
 
+    /**
+     * Sets whether easeTo and dampTo amounts are scaled by the time between
+     * frames.  Defaults to true.  Set to false for the legacy behavior where
+     * the amount is applied once per frame (faster on high refresh rate
+     * displays).
+     */
+    setFrameRateIndependent(value: boolean) {
+        this.frameRateIndependent = value;
+    }
+
     /**
      * Sets the FPS of the internal raf loop.
      */
@@ -242,7 +286,7 @@ export class RafProgress {
      */
     unwatch(callbackToRemove: any) {
         this.callbacks = this.callbacks.filter((callback) => {
-            return callback == callbackToRemove;
+            return callback != callbackToRemove;
         })
     }
 
@@ -276,15 +320,27 @@ export class RafProgress {
      */
     private rafLoop() {
         let previousProgress = this.currentProgress;
+        const delta = this.raf.getDelta(true);
 
-        if(!is.null(this.damp)) {
-            this.currentProgress =
+        if (this.physics) {
+            this.currentProgress = this.physics.step(delta);
+        } else if(!is.null(this.damp)) {
+            this.currentProgress = this.frameRateIndependent ?
+                mathf.dampDelta(this.currentProgress,
+                    this.targetProgress,
+                    this.easeAmount,
+                    this.damp,
+                    this.raf.getDelta(false)) :
                 mathf.damp(this.currentProgress,
                     this.targetProgress,
                     this.easeAmount,
                     this.damp);
         } else {
-            this.currentProgress =
+            this.currentProgress = this.frameRateIndependent ?
+                mathf.lerpDelta(this.currentProgress,
+                    this.targetProgress,
+                    this.easingFunction(this.easeAmount),
+                    this.raf.getDelta(false)) :
                 mathf.ease(this.currentProgress,
                     this.targetProgress,
                     this.easeAmount,
@@ -309,9 +365,16 @@ export class RafProgress {
 
         this.direction = mathf.direction(previousProgress, this.currentProgress);
 
+        if (this.physics) {
+            this.velocity = this.physics.velocity;
+        } else {
+            this.velocity = delta ?
+                (this.currentProgress - previousProgress) / delta : 0;
+        }
+
         // Call callbacks.
         this.callbacks.forEach((callback) => {
-            callback(this.currentProgress, this.direction);
+            callback(this.currentProgress, this.direction, this.velocity);
         })
 
         // Loop through watchers.
@@ -335,8 +398,15 @@ export class RafProgress {
 
 
 
-        // Stop RAF if the value of progress has stabilized.
-        if (previousProgress == this.currentProgress) {
+        // Stop RAF if the value of progress has stabilized.  Physics based
+        // motion can move slower than the precision so wait for it to rest.
+        if (this.physics) {
+            if (this.physics.isAtRest()) {
+                this.velocity = 0;
+                this.raf.stop();
+            }
+        } else if (previousProgress == this.currentProgress) {
+            this.velocity = 0;
             this.raf.stop();
         }
     }
@@ -350,6 +420,12 @@ export class RafProgress {
             mathf.clampAsProgress(progress);
         this.targetProgress = this.currentProgress;
         this.easeAmount = 1;
+        this.velocity = 0;
+        if (this.physics) {
+            this.physics = null;
+            this.damp = null;
+            this.easingFunction = EASE.linear;
+        }
         // Run the raf loop once.
         this.raf.start();
     }
@@ -377,6 +453,7 @@ export class RafProgress {
         this.easeAmount = mathf.clampAsPercent(easeAmount);
         this.easingFunction = easingFunction;
         this.damp = null;
+        this.physics = null;
 
         // Start up RAF to make updates and ease to the target progress.
         // Make sure we force a restart since sometimes, you can get multiple
@@ -397,6 +474,7 @@ export class RafProgress {
         this.easeAmount = mathf.clampAsPercent(easeAmount);
         this.easingFunction = null;
         this.damp = damp;
+        this.physics = null;
 
         // Start up RAF to make updates and ease to the target progress.
         // Make sure we force a restart since sometimes, you can get multiple
@@ -405,6 +483,79 @@ export class RafProgress {
         this.raf.start(true);
     }
 
+    /**
+     * Springs the progress to a target value.  The spring keeps the current
+     * velocity unless one is passed in the config.  Note that springs can
+     * overshoot the target (and the 0-1 range) before settling.
+     *
+     * ```
+     * rafProgress.springTo(1, {
+     *   stiffness: 170,
+     *   damping: 26,
+     *   mass: 1,
+     *   velocity: 0,
+     *   restSpeed: 0.01,
+     *   restDelta: 0.001
+     * });
+     * ```
+     *
+     * @param targetProgress The progress to get to.
+     * @param config The spring settings.  See [[SpringConfig]].
+     * @param noClamp Prevent clamping the target progress.
+     */
+    public springTo(targetProgress: number, config: SpringConfig = {},
+        noClamp: boolean = false) {
+        this.targetProgress = noClamp ? targetProgress : mathf.clampAsProgress(targetProgress);
+
+        if (!(this.physics instanceof Spring)) {
+            const velocity = this.velocity;
+            this.physics = new Spring(this.currentProgress);
+            this.physics.velocity = velocity;
+        }
+        this.physics.setTarget(this.targetProgress, config);
+
+        this.raf.start(true);
+    }
+
+
+    /**
+     * Starts an inertia motion from the current progress.  The progress
+     * glides with the given velocity and slows down until it settles.
+     *
+     * ```
+     * // Velocity is in progress per second.
+     * rafProgress.decay(1.5, { power: 0.8, timeConstant: 350 });
+     * ```
+     *
+     * @param velocity The starting velocity in progress per second.
+     * @param config Optional decay settings.  See [[DecayConfig]].
+     * @param noClamp Prevent clamping the resting progress.
+     */
+    public decay(velocity: number,
+        config: { power?: number, timeConstant?: number, restDelta?: number } = {},
+        noClamp: boolean = false) {
+        const decayConfig: DecayConfig = Object.assign({}, config, {
+            velocity: velocity
+        });
+        const decay = new Decay(this.currentProgress, decayConfig);
+        if (!noClamp) {
+            decay.target = mathf.clampAsProgress(decay.target);
+        }
+        this.targetProgress = decay.target;
+        this.physics = decay;
+
+        this.raf.start(true);
+    }
+
+
+    /**
+     * Gets the current velocity in progress per second.
+     */
+    public getVelocity(): number {
+        return this.velocity;
+    }
+
+
     /**
      * Gets the lerp delta - the difference between the current ease and the
      * targetEase (where it should be if it caught up).
@@ -0,0 +1,173 @@
+import { time } from '../time/time';
+
+
+/**
+ * The interface the RafRegistry and every Raf instance use to request
+ * frames and read the current time.  Swap this out to control when frames
+ * run (for example in tests).
+ */
+export interface RafScheduler {
+    /**
+     * Returns the current time in ms.
+     */
+    now(): number;
+
+    /**
+     * Schedules a callback to be run on the next frame.  Returns an id
+     * that can be passed to cancelFrame.
+     */
+    requestFrame(callback: Function): number;
+
+    /**
+     * Cancels a previously requested frame.
+     */
+    cancelFrame(id: number): void;
+}
+
+
+/**
+ * The default scheduler.  Uses window.requestAnimationFrame and
+ * performance.now() for sub ms precision (falls back to time.now()).
+ */
+export class BrowserRafScheduler implements RafScheduler {
+    now(): number {
+        return typeof performance === 'undefined' ?
+            time.now() : performance.now();
+    }
+
+    requestFrame(callback: Function): number {
+        return window.requestAnimationFrame((frame: number) => {
+            callback(frame);
+        });
+    }
+
+    cancelFrame(id: number): void {
+        window.cancelAnimationFrame(id);
+    }
+}
+
+
+/**
+ * A scheduler with a virtual clock.  Frames only run when you tell them to
+ * so raf based animations can be stepped deterministically.
+ *
+ * ```ts
+ * const scheduler = new VirtualRafScheduler();
+ * window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+ *
+ * const raf = new Raf(()=> {
+ *   console.log(raf.getDelta()); // 16.66...
+ * });
+ * raf.start();
+ *
+ * // Run 10 frames.
+ * scheduler.stepFrames(10);
+ *
+ * // Move the clock forward by 500ms running a frame every frame duration.
+ * scheduler.advance(500);
+ *
+ * // Use a 30fps frame duration.
+ * scheduler.setFrameDuration(1000 / 30);
+ * ```
+ */
+export class VirtualRafScheduler implements RafScheduler {
+    private currentTime: number;
+    private frameDuration: number;
+    private nextId: number;
+    private frameCount: number;
+    private callbacks: Map<number, Function>;
+
+    /**
+     * @param startTime The initial time of the virtual clock in ms.
+     * @param frameDuration The duration of a single frame in ms.  Defaults
+     *     to 60fps.
+     */
+    constructor(startTime: number = 0, frameDuration: number = 1000 / 60) {
+        this.currentTime = startTime;
+        this.frameDuration = frameDuration;
+        this.nextId = 1;
+        this.frameCount = 0;
+        this.callbacks = new Map();
+    }
+
+    now(): number {
+        return this.currentTime;
+    }
+
+    requestFrame(callback: Function): number {
+        const id = this.nextId++;
+        this.callbacks.set(id, callback);
+        return id;
+    }
+
+    cancelFrame(id: number): void {
+        this.callbacks.delete(id);
+    }
+
+    /**
+     * Sets the duration of a single frame in ms.
+     */
+    setFrameDuration(frameDuration: number) {
+        this.frameDuration = frameDuration;
+    }
+
+    /**
+     * Gets the duration of a single frame in ms.
+     */
+    getFrameDuration(): number {
+        return this.frameDuration;
+    }
+
+    /**
+     * Gets the number of frames that have been flushed.
+     */
+    getFrameCount(): number {
+        return this.frameCount;
+    }
+
+    /**
+     * Gets the number of callbacks waiting for the next frame.
+     */
+    getPendingCount(): number {
+        return this.callbacks.size;
+    }
+
+    /**
+     * Moves the clock forward by the frame duration and runs a frame, n times.
+     * @param count The number of frames to run.
+     */
+    stepFrames(count: number = 1) {
+        for (let i = 0; i < count; i++) {
+            this.currentTime += this.frameDuration;
+            this.flush();
+        }
+    }
+
+    /**
+     * Moves the clock forward by the given ms, running a frame each time a
+     * full frame duration passes.  Any remainder moves the clock without
+     * running a frame.
+     * @param ms
+     */
+    advance(ms: number) {
+        let remaining = ms;
+        while (remaining >= this.frameDuration) {
+            this.stepFrames(1);
+            remaining -= this.frameDuration;
+        }
+        this.currentTime += remaining;
+    }
+
+    /**
+     * Runs all callbacks that were requested before this frame.  Callbacks
+     * requested while flushing run on the following frame.
+     */
+    private flush() {
+        const callbacks = Array.from(this.callbacks.values());
+        this.callbacks.clear();
+        this.frameCount++;
+        callbacks.forEach((callback) => {
+            callback(this.currentTime);
+        });
+    }
+}
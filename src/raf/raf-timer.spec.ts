@@ -1,10 +1,73 @@
-
-
 import { is } from '../is/is';
 import { RafTimer } from './raf-timer';
+import { VirtualRafScheduler } from './raf-scheduler';
 import test from 'ava';
 
 
 test('Raf Progress is defined', t => {
     t.is(is.defined(RafTimer), true);
-})
\ No newline at end of file
+})
+
+
+test('RafTimer progresses over its duration', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const progresses: Array<number> = [];
+    let completed = false;
+    const rafTimer = new RafTimer((progress: number) => {
+        progresses.push(progress);
+    });
+    rafTimer.getRaf().setScheduler(scheduler);
+    rafTimer.onComplete(() => {
+        completed = true;
+    });
+    rafTimer.setDuration(100);
+    rafTimer.play();
+
+    scheduler.stepFrames(5);
+    t.is(rafTimer.progress, 0.5);
+    t.is(completed, false);
+
+    scheduler.stepFrames(5);
+    t.is(completed, true);
+    t.is(progresses[progresses.length - 1], 1);
+
+    // Stops after completion.
+    const count = progresses.length;
+    scheduler.stepFrames(5);
+    t.is(progresses.length, count);
+    rafTimer.dispose();
+})
+
+
+test('RafTimer pause holds progress', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const rafTimer = new RafTimer(() => { });
+    rafTimer.getRaf().setScheduler(scheduler);
+    rafTimer.setDuration(100);
+    rafTimer.play();
+
+    scheduler.stepFrames(3);
+    t.is(rafTimer.progress, 0.3);
+    rafTimer.pause();
+    scheduler.advance(200);
+    t.is(rafTimer.progress, 0.3);
+    rafTimer.dispose();
+})
+
+
+test('RafTimer continues where it left off after the raf resumes', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const rafTimer = new RafTimer(() => {});
+    rafTimer.getRaf().setScheduler(scheduler);
+    rafTimer.setDuration(100);
+    rafTimer.play();
+    scheduler.stepFrames(3);
+    t.is(rafTimer.progress, 0.3);
+
+    rafTimer.getRaf().pause();
+    scheduler.advance(500);
+    rafTimer.getRaf().resume();
+    scheduler.stepFrames(1);
+    t.is(rafTimer.progress, 0.4);
+    rafTimer.dispose();
+})
@@ -73,6 +73,10 @@ export class RafTimer {
     private timeSnapshot: number;
     private playing: boolean;
     private completeCallback: Function | null;
+    private reversed: boolean;
+    private delay: number;
+    private delayElapsed: number;
+    private rafDisabled: boolean;
     public progress: number;
 
     constructor(rafLoop: Function) {
@@ -91,6 +95,12 @@ export class RafTimer {
             this.animationLoop_();
         });
 
+        // Don't count the time the raf was paused so the timer continues
+        // where it left off.
+        this.raf.onResume(() => {
+            this.timeSnapshot = this.raf.now();
+        });
+
         /**
          * The internal raf instance
          * @type {private}
@@ -120,12 +130,43 @@ export class RafTimer {
 
         // A single complete callback.
         this.completeCallback = null;
+
+        /**
+         * Whether time runs backwards towards 0.
+         */
+        this.reversed = false;
+
+        /**
+         * The time in ms to wait before time starts counting when played
+         * from the beginning.
+         */
+        this.delay = 0;
+
+        /**
+         * The amount of the delay in ms that has elapsed.
+         */
+        this.delayElapsed = 0;
+
+        /**
+         * Whether the internal raf is disabled.  When true, update needs
+         * to be called on each frame.
+         */
+        this.rafDisabled = false;
     }
 
     /**
      * The internal animation loop.
      */
     private animationLoop_() {
+        this.update();
+    }
+
+    /**
+     * Moves time forward (or backwards when reversed) by the time since
+     * the last update and calls the raf loop.  Called on each raf cycle.
+     * Only call this directly when the internal raf is disabled.
+     */
+    update() {
         // In theory, when playing is false, this loop shouldn't
         // run but safe guard.
         if (!this.playing) {
@@ -137,27 +178,40 @@ export class RafTimer {
         // the last known timeSnapshot (when the time
         // was recorded).
         // We add this to the total value of time elapsed.
-        const timeSinceLastTimeSnapshot =
-            time.timeDiffMs(this.timeSnapshot, time.now());
+        let timeSinceLastTimeSnapshot =
+            time.timeDiffMs(this.timeSnapshot, this.raf.now());
+
+        // Update the snapshot.
+        this.timeSnapshot = this.raf.now();
+
+        // Use up the delay first.
+        if (this.delayElapsed < this.delay) {
+            const delayLeft = this.delay - this.delayElapsed;
+            this.delayElapsed += Math.min(delayLeft, timeSinceLastTimeSnapshot);
+            timeSinceLastTimeSnapshot -= delayLeft;
+            if (timeSinceLastTimeSnapshot <= 0) {
+                return;
+            }
+        }
 
-        this.timeElapsed += timeSinceLastTimeSnapshot;
+        this.timeElapsed += this.reversed ?
+            -timeSinceLastTimeSnapshot : timeSinceLastTimeSnapshot;
 
         this.progress =
             mathf.clampAsPercent(this.timeElapsed / this.duration);
 
-        // Update the snapshot.
-        this.timeSnapshot = time.now();
+        const endProgress = this.reversed ? 0 : 1;
 
-        // If we aren't at 100% call the raf loop.
-        if (this.progress < 1) {
+        // If we aren't at the end call the raf loop.
+        if (this.progress != endProgress) {
             this.rafLoop && this.rafLoop(this.progress);
         } else {
             // Run the main update loop one more time as completion.
-            this.rafLoop && this.rafLoop(1);
+            this.rafLoop && this.rafLoop(endProgress);
             // Complete
             this.reset();
             this.raf.stop();
-            this.completeCallback && this.completeCallback(1);
+            this.completeCallback && this.completeCallback(endProgress);
         }
     }
 
@@ -180,6 +234,55 @@ export class RafTimer {
         this.completeCallback = callback;
     }
 
+    /**
+     * Sets a delay in ms before time starts counting.  The delay runs each
+     * time the timer is played after a reset.
+     */
+    setDelay(delay: number): void {
+        this.delay = delay;
+    }
+
+    /**
+     * Sets whether time runs backwards.  A reversed timer counts down from
+     * its current progress and completes at 0.
+     */
+    setReversed(reversed: boolean): void {
+        this.reversed = reversed;
+    }
+
+    isReversed(): boolean {
+        return this.reversed;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    /**
+     * Disables the internal raf.  When disabled, update needs to be called
+     * on each frame.
+     */
+    setRafDisabled(value: boolean): void {
+        this.rafDisabled = value;
+        if (value) {
+            this.raf.stop();
+        } else if (this.playing) {
+            this.raf.start();
+        }
+    }
+
+    /**
+     * Moves the timer to the given progress without calling the raf loop.
+     * Seeking skips any remaining delay.
+     * @param progress A value between 0-1.
+     */
+    seek(progress: number): void {
+        this.progress = mathf.clampAsPercent(progress);
+        this.timeElapsed = this.progress * this.duration;
+        this.delayElapsed = this.delay;
+        this.timeSnapshot = this.raf.now();
+    }
+
     /**
      * Start playing the rafTimer.
      */
@@ -188,8 +291,8 @@ export class RafTimer {
             return;
         }
         this.playing = true;
-        this.timeSnapshot = time.now();
-        this.raf.start();
+        this.timeSnapshot = this.raf.now();
+        !this.rafDisabled && this.raf.start();
     }
 
     /**
@@ -199,6 +302,7 @@ export class RafTimer {
         this.playing = false;
         this.raf.stop();
         this.timeElapsed = 0;
+        this.delayElapsed = 0;
     }
 
     /**
@@ -210,6 +314,13 @@ export class RafTimer {
     }
 
 
+    /**
+     * Returns the internal instance of raf.
+     */
+    getRaf(): Raf {
+        return this.raf;
+    }
+
     dispose() {
         this.raf.dispose();
     }
@@ -1,9 +1,417 @@
-
 import { is } from '../is/is';
-import { Raf } from './raf';
+import { Raf, RafPriority } from './raf';
+import { VirtualRafScheduler } from './raf-scheduler';
 import test from 'ava';
 
 
 test('Raf Progress is defined', t => {
     t.is(is.defined(Raf), true);
-})
\ No newline at end of file
+})
+
+
+test('Raf runs callbacks on each virtual frame', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    let count = 0;
+    const raf = new Raf(() => {
+        count++;
+    });
+    raf.setScheduler(scheduler);
+    raf.start();
+
+    // The first frame records the start time.
+    scheduler.stepFrames(1);
+    t.is(count, 1);
+    t.is(raf.getDelta(false), 10);
+
+    scheduler.stepFrames(4);
+    t.is(count, 5);
+    t.is(raf.getElapsedTime(), 0.05);
+
+    raf.stop();
+    scheduler.stepFrames(4);
+    t.is(count, 5);
+    raf.dispose();
+})
+
+
+test('Raf unwatch removes only the given callback', t => {
+    const scheduler = new VirtualRafScheduler();
+    const calls: Array<string> = [];
+    const a = () => { calls.push('a'); };
+    const b = () => { calls.push('b'); };
+    const raf = new Raf();
+    raf.setScheduler(scheduler);
+    raf.watch(a);
+    raf.watch(b);
+    raf.start();
+
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a', 'b']);
+
+    raf.unwatch(a);
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a', 'b', 'b']);
+    raf.dispose();
+})
+
+
+test('Raf does not carry the stopped time into the next delta', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const deltas: Array<number> = [];
+    const raf = new Raf(() => {
+        deltas.push(raf.getDelta(false));
+    });
+    raf.setScheduler(scheduler);
+    raf.start();
+    scheduler.stepFrames(2);
+    raf.stop();
+
+    // Stay stopped for a second.
+    scheduler.advance(1000);
+    raf.start();
+    scheduler.stepFrames(1);
+    t.true(deltas.every((delta) => delta < 20));
+    raf.dispose();
+})
+
+
+test('Raf advance runs a frame per frame duration', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    let count = 0;
+    const raf = new Raf(() => {
+        count++;
+    });
+    raf.setScheduler(scheduler);
+    raf.start();
+
+    scheduler.advance(35);
+    t.is(count, 3);
+    t.is(scheduler.now(), 35);
+    raf.dispose();
+})
+
+
+test('Raf throttles to the set fps', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    let count = 0;
+    const raf = new Raf(() => {
+        count++;
+    });
+    raf.setScheduler(scheduler);
+    // One update every 50ms.
+    raf.setFps(20);
+    raf.start();
+
+    scheduler.stepFrames(5);
+    t.is(count, 0);
+    scheduler.stepFrames(1);
+    t.is(count, 1);
+    scheduler.stepFrames(6);
+    t.is(count, 2);
+    raf.dispose();
+})
+
+
+test('Raf stop callback stops the loop', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    let count = 0;
+    const raf = new Raf((frame: number, lastUpdateTime: number,
+        elapsed: number, stop: Function) => {
+        count++;
+        stop();
+    });
+    raf.setScheduler(scheduler);
+    raf.start();
+
+    scheduler.stepFrames(5);
+    t.is(count, 1);
+    t.is(raf.isPlaying, false);
+    raf.dispose();
+})
+
+
+test('Raf registry batches reads before writes', t => {
+    const scheduler = new VirtualRafScheduler();
+    window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+
+    const calls: Array<string> = [];
+    const raf = new Raf();
+    raf.postWrite(() => { calls.push('postWrite'); });
+    raf.write(() => { calls.push('write'); });
+    raf.read(() => { calls.push('read'); });
+    raf.preRead(() => { calls.push('preRead'); });
+
+    t.is(calls.length, 0);
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['preRead', 'read', 'write', 'postWrite']);
+
+    // Read / writes are one time.
+    scheduler.stepFrames(1);
+    t.is(calls.length, 4);
+
+    raf.dispose();
+    window['YANO_RAF_REGISTRY'].setScheduler(null);
+})
+
+
+test('Raf registry defers non critical work over the frame budget', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    const scheduler = new VirtualRafScheduler(0, 16);
+    registry.setScheduler(scheduler);
+    registry.setFrameBudget(8);
+
+    const calls: Array<string> = [];
+    const a = new Raf();
+    const b = new Raf();
+    const c = new Raf();
+    c.setPriority(RafPriority.CRITICAL);
+
+    a.read(() => {
+        calls.push('a-read');
+        // Simulate an expensive read.
+        scheduler.advance(10);
+    });
+    b.read(() => { calls.push('b-read'); });
+    c.read(() => { calls.push('c-read'); });
+    b.write(() => { calls.push('b-write'); });
+
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a-read', 'c-read']);
+    t.is(registry.getFrameStats().executed, 2);
+    t.is(registry.getFrameStats().deferred, 2);
+    t.is(registry.getFrameStats().read, 10);
+
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a-read', 'c-read', 'b-read', 'b-write']);
+    t.is(registry.getFrameStats().deferred, 0);
+
+    [a, b, c].forEach((raf) => raf.dispose());
+    registry.setFrameBudget(0);
+    registry.setScheduler(null);
+})
+
+
+test('Raf registry runs deferred idle work on requestIdleCallback', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    const scheduler = new VirtualRafScheduler(0, 16);
+    let idleCallback: Function = null;
+    window['requestIdleCallback'] = (callback: Function) => {
+        idleCallback = callback;
+    };
+    registry.setScheduler(scheduler);
+    registry.setFrameBudget(8);
+    registry.setIdleCallbackMode(true);
+
+    const calls: Array<string> = [];
+    const a = new Raf();
+    const b = new Raf();
+    b.setPriority(RafPriority.IDLE);
+
+    a.read(() => {
+        calls.push('a-read');
+        scheduler.advance(10);
+    });
+    b.read(() => { calls.push('b-read'); });
+    b.write(() => { calls.push('b-write'); });
+
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a-read']);
+    t.is(registry.getFrameStats().idle, 2);
+    t.is(registry.getDeferredCount(), 2);
+
+    // Nothing left for the next frame.
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a-read']);
+
+    idleCallback({ timeRemaining: () => 10 });
+    t.deepEqual(calls, ['a-read', 'b-read', 'b-write']);
+    t.is(registry.getDeferredCount(), 0);
+
+    [a, b].forEach((raf) => raf.dispose());
+    registry.setIdleCallbackMode(false);
+    registry.setFrameBudget(0);
+    registry.setScheduler(null);
+    delete window['requestIdleCallback'];
+})
+
+
+test('Raf registry keeps the read / write order of mixed priorities', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    const scheduler = new VirtualRafScheduler(0, 16);
+    let idleCallback: Function = null;
+    window['requestIdleCallback'] = (callback: Function) => {
+        idleCallback = callback;
+    };
+    registry.setScheduler(scheduler);
+    registry.setFrameBudget(8);
+    registry.setIdleCallbackMode(true);
+
+    const calls: Array<string> = [];
+    const a = new Raf();
+    const b = new Raf();
+    const c = new Raf();
+
+    a.read(() => {
+        calls.push('a-read');
+        scheduler.advance(10);
+    });
+    // A critical write still runs after the deferred read of its raf.
+    b.read(() => { calls.push('b-read'); });
+    b.write(() => { calls.push('b-write'); }, RafPriority.CRITICAL);
+    // A normal write follows the idle read of its raf.
+    c.read(() => { calls.push('c-read'); }, RafPriority.IDLE);
+    c.write(() => { calls.push('c-write'); });
+
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a-read']);
+
+    scheduler.stepFrames(1);
+    t.deepEqual(calls, ['a-read', 'b-read', 'b-write']);
+
+    idleCallback({ timeRemaining: () => 10 });
+    t.deepEqual(calls, ['a-read', 'b-read', 'b-write', 'c-read', 'c-write']);
+
+    [a, b, c].forEach((raf) => raf.dispose());
+    registry.setIdleCallbackMode(false);
+    registry.setFrameBudget(0);
+    registry.setScheduler(null);
+    delete window['requestIdleCallback'];
+})
+
+
+test('Raf pause holds start calls until resume', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    const calls: Array<string> = [];
+    let count = 0;
+    const raf = new Raf(() => {
+        count++;
+    });
+    raf.setScheduler(scheduler);
+    raf.onPause(() => { calls.push('pause'); });
+    raf.onResume((pausedDuration: number) => {
+        calls.push('resume ' + pausedDuration);
+    });
+    raf.start();
+    scheduler.stepFrames(2);
+
+    raf.pause();
+    t.true(raf.isPaused());
+    t.false(raf.isPlaying);
+    scheduler.stepFrames(3);
+    raf.start();
+    scheduler.stepFrames(2);
+    t.is(count, 2);
+
+    // Resuming runs the loop right away like a regular start.
+    raf.resume();
+    t.true(raf.isPlaying);
+    t.is(count, 3);
+    scheduler.stepFrames(2);
+    t.is(count, 5);
+    t.deepEqual(calls, ['pause', 'resume 50']);
+    raf.dispose();
+})
+
+
+test('Raf registry pauses rafs while the document is hidden', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    const scheduler = new VirtualRafScheduler(0, 10);
+    registry.setScheduler(scheduler);
+
+    let hidden = false;
+    Object.defineProperty(document, 'hidden', {
+        configurable: true,
+        get: () => hidden
+    });
+    Object.defineProperty(document, 'visibilityState', {
+        configurable: true,
+        get: () => hidden ? 'hidden' : 'visible'
+    });
+    const dispatchVisibilityChange = () => {
+        const event = document.createEvent('Event');
+        event.initEvent('visibilitychange', false, false);
+        document.dispatchEvent(event);
+    };
+    registry.setPauseWhenHidden(true);
+
+    let count = 0;
+    const raf = new Raf(() => {
+        count++;
+    });
+    const manuallyPaused = new Raf(() => {});
+    manuallyPaused.pause();
+    raf.start();
+    scheduler.stepFrames(2);
+
+    hidden = true;
+    dispatchVisibilityChange();
+    t.true(raf.isPaused());
+    scheduler.stepFrames(2);
+    t.is(count, 2);
+
+    hidden = false;
+    dispatchVisibilityChange();
+    t.false(raf.isPaused());
+    t.true(manuallyPaused.isPaused());
+    scheduler.stepFrames(2);
+    t.is(count, 5);
+
+    raf.dispose();
+    manuallyPaused.dispose();
+    registry.setPauseWhenHidden(false);
+    delete (document as any).hidden;
+    delete (document as any).visibilityState;
+    registry.setScheduler(null);
+})
+
+
+test('Raf registry pauses decorative rafs for reduced motion', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    registry.setScheduler(new VirtualRafScheduler());
+    registry.setRespectReducedMotion(true);
+    registry.setPrefersReducedMotion(true);
+
+    const decorative = new Raf(() => {});
+    const essential = new Raf(() => {});
+    decorative.setDecorative(true);
+    t.true(decorative.isPaused());
+    t.false(essential.isPaused());
+
+    registry.setPrefersReducedMotion(false);
+    t.false(decorative.isPaused());
+
+    decorative.dispose();
+    essential.dispose();
+    registry.setPrefersReducedMotion(null);
+    registry.setRespectReducedMotion(false);
+    registry.setScheduler(null);
+})
+
+
+test('Raf registry throttles all rafs', t => {
+    const registry = window['YANO_RAF_REGISTRY'];
+    const scheduler = new VirtualRafScheduler(0, 10);
+    registry.setScheduler(scheduler);
+    registry.setLowPower(true);
+    registry.setLowPowerFps(30);
+    registry.setThrottleFps(50);
+    t.is(registry.getThrottleFps(), 30);
+
+    registry.setLowPower(false);
+    t.is(registry.getThrottleFps(), 50);
+
+    let count = 0;
+    const raf = new Raf(() => {
+        count++;
+    });
+    raf.start();
+    scheduler.stepFrames(10);
+    // At most every other 10ms frame runs at 50fps.
+    t.true(count > 0 && count <= 5);
+
+    raf.dispose();
+    registry.setThrottleFps(0);
+    registry.setLowPowerFps(0);
+    registry.setLowPower(null);
+    registry.setScheduler(null);
+})
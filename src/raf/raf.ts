@@ -1,7 +1,24 @@
-import { time } from '../time/time';
 import { elementVisibility, ElementVisibilityObject } from '../dom/element-visibility';
+import { RafScheduler, BrowserRafScheduler } from './raf-scheduler';
+import { RafProfiler, RafProfileReport } from './raf-profiler';
 
 
+/**
+ * The priority lanes of batched read / write calls.
+ *
+ * - CRITICAL: Runs in the frame it was scheduled for unless earlier work of
+ *   the same raf was deferred, in which case it follows that work.
+ * - NORMAL: Runs in the frame it was scheduled for unless the registry frame
+ *   budget has been used up, in which case it moves to the next frame.
+ * - IDLE: Same as normal but when the registry idle callback mode is on,
+ *   deferred work runs on requestIdleCallback instead of the next frame.
+ */
+export enum RafPriority {
+    CRITICAL = 'critical',
+    NORMAL = 'normal',
+    IDLE = 'idle'
+}
+
 
 /**
  * A class that creates a RAF loop and calls a specific callback.  Setting the
@@ -174,6 +191,74 @@ import { elementVisibility, ElementVisibilityObject } from '../dom/element-visib
  * ```
  *
  *
+ * # Priority
+ * Batched read / write calls can be given a priority lane.  When the
+ * registry has a frame budget, lower priority work is deferred once the
+ * budget has been used up.  See RafRegistry.
+ * ```
+ * var raf = new Raf();
+ * raf.setPriority(RafPriority.IDLE);
+ *
+ * // Or per call.
+ * raf.write(()=> {
+ *    ...
+ * }, RafPriority.CRITICAL);
+ * ```
+ *
+ *
+ * # Profiling
+ * Give a raf a label and the element it animates to identify it in the
+ * registry profile report.  Passing an element to runWhenElementIsInview
+ * sets the owner automatically.
+ * ```
+ * raf.setLabel('hero-parallax');
+ * raf.setOwner(element);
+ * ```
+ *
+ *
+ * # Schedulers
+ * Frames and time are provided by a RafScheduler.  By default all rafs use
+ * the scheduler of the global raf registry which runs on
+ * window.requestAnimationFrame.  Swap it for a VirtualRafScheduler to
+ * step frames manually (for example in tests).
+ * ```
+ * const scheduler = new VirtualRafScheduler();
+ * window['YANO_RAF_REGISTRY'].setScheduler(scheduler);
+ *
+ * var raf = new Raf(()=> {
+ *    ...
+ * });
+ * raf.start();
+ * scheduler.stepFrames(3);
+ *
+ * // Or set a scheduler for a single raf instance.
+ * raf.setScheduler(new VirtualRafScheduler());
+ * ```
+ *
+ *
+ * # Pause and resume
+ * A raf can be paused which stops the loop until it is resumed.  Calls to
+ * start while paused are held until resume.  The global raf registry
+ * pauses rafs when the document is hidden or the user prefers reduced
+ * motion (see RafRegistry policies).  Use the lifecycle callbacks to keep
+ * time based animations from jumping on resume.
+ * ```
+ * raf.onPause(()=> {
+ *    ...
+ * });
+ * raf.onResume((pausedDuration)=> {
+ *    startTime += pausedDuration;
+ * });
+ *
+ * raf.pause();
+ * raf.resume();
+ *
+ * // Mark rafs that are purely decorative so they get paused when the
+ * // user prefers reduced motion.
+ * raf.setDecorative(true);
+ * ```
+ *
+ *
  * @noInheritDoc
  * @class
  */
@@ -194,6 +279,54 @@ export class Raf {
     public isDisposed: boolean = false;
     private startTime: number;
 
+    /**
+     * An optional scheduler for this instance.  When null, the scheduler of
+     * the global raf registry is used.
+     */
+    private scheduler: RafScheduler | null = null;
+
+    /**
+     * The default priority lane for read / write calls made through this
+     * raf.
+     */
+    private priority: RafPriority = RafPriority.NORMAL;
+
+    /**
+     * An optional label used in profile reports.
+     */
+    private label: string = '';
+
+    /**
+     * An optional element this raf animates.  Used in profile reports and
+     * to detect rafs that were never disposed after the element left the
+     * DOM.
+     */
+    private owner: HTMLElement | null = null;
+
+    /**
+     * Whether the raf is paused.
+     */
+    private paused: boolean = false;
+
+    /**
+     * Whether the raf should start playing again on resume.
+     */
+    private resumePlaying: boolean = false;
+
+    /**
+     * The time the raf was paused.
+     */
+    private pauseTime: number = 0;
+
+    /**
+     * Whether this raf is purely decorative.  Decorative rafs are paused
+     * by the registry when the user prefers reduced motion.
+     */
+    private decorative: boolean = false;
+
+    private pauseCallbacks: Array<Function> = [];
+    private resumeCallbacks: Array<Function> = [];
+
     /**
      * Internal element visibility object used to track element visibility
      * when runWhenElementIsInview option is used.
@@ -221,11 +354,11 @@ export class Raf {
         this.frame = null;
 
         /**
-         * The last updated time.
+         * The last updated time.  Null until the first frame is requested.
          * @type {number}
          * @public
          */
-        this.lastUpdateTime = 0;
+        this.lastUpdateTime = null;
 
         /**
          * The frame rate. Defaults to 0 in which case RAF is not throttled.
@@ -303,6 +436,47 @@ export class Raf {
     }
 
 
+    /**
+     * Sets the default priority lane used for read / write calls made
+     * through this raf.
+     * @param priority
+     */
+    setPriority(priority: RafPriority) {
+        this.priority = priority;
+    }
+
+    /**
+     * Gets the default priority lane of this raf.
+     */
+    getPriority(): RafPriority {
+        return this.priority;
+    }
+
+
+    /**
+     * Sets a label used to identify this raf in profile reports.
+     */
+    setLabel(label: string) {
+        this.label = label;
+    }
+
+    getLabel(): string {
+        return this.label;
+    }
+
+    /**
+     * Sets the element this raf animates.  Used in profile reports and for
+     * leak detection.
+     */
+    setOwner(element: HTMLElement | null) {
+        this.owner = element;
+    }
+
+    getOwner(): HTMLElement | null {
+        return this.owner;
+    }
+
+
     /**
      * Sets the read write mode.
      * @param value
@@ -315,12 +489,15 @@ export class Raf {
      * Adds a one time read callback executed by the global yano raf registry.
      * This allows you to batch read calls.
      * @param callback
+     * @param priority Optional priority lane.  Defaults to the priority of
+     *     this raf.
      */
-    preRead(callback: any) {
+    preRead(callback: any, priority?: RafPriority) {
         window['YANO_RAF_REGISTRY'] &&
             window['YANO_RAF_REGISTRY'].addOneTimePreRead({
                 callback: callback,
-                raf: this
+                raf: this,
+                priority: priority || this.priority
             });
     }
 
@@ -329,12 +506,15 @@ export class Raf {
      * Adds a one time read callback executed by the global yano raf registry.
      * This allows you to batch read calls.
      * @param callback
+     * @param priority Optional priority lane.  Defaults to the priority of
+     *     this raf.
      */
-    read(callback: any) {
+    read(callback: any, priority?: RafPriority) {
         window['YANO_RAF_REGISTRY'] &&
             window['YANO_RAF_REGISTRY'].addOneTimeRead({
                 callback: callback,
-                raf: this
+                raf: this,
+                priority: priority || this.priority
             });
     }
 
@@ -342,12 +522,15 @@ export class Raf {
      * Adds a one time write callback executed by the global yano raf registry.
      * This allows you to batch write calls.
      * @param callback
+     * @param priority Optional priority lane.  Defaults to the priority of
+     *     this raf.
      */
-    write(callback: any) {
+    write(callback: any, priority?: RafPriority) {
         window['YANO_RAF_REGISTRY'] &&
             window['YANO_RAF_REGISTRY'].addOneTimeWrite({
                 callback: callback,
-                raf: this
+                raf: this,
+                priority: priority || this.priority
             });
     }
 
@@ -355,12 +538,15 @@ export class Raf {
      * Adds a one time post write callback executed by the global yano raf registry.
      * This allows you to batch post write calls.
      * @param callback
+     * @param priority Optional priority lane.  Defaults to the priority of
+     *     this raf.
      */
-    postWrite(callback: any) {
+    postWrite(callback: any, priority?: RafPriority) {
         window['YANO_RAF_REGISTRY'] &&
             window['YANO_RAF_REGISTRY'].addOneTimePostWrite({
                 callback: callback,
-                raf: this
+                raf: this,
+                priority: priority || this.priority
             });
     }
 
@@ -371,7 +557,7 @@ export class Raf {
      */
     unwatch(callbackToRemove: any) {
         this.callbacks = this.callbacks.filter((callback) => {
-            return callback == callbackToRemove;
+            return callback != callbackToRemove;
         })
     }
 
@@ -426,6 +612,7 @@ export class Raf {
         this.runCondition = null;
 
         this.ev = elementVisibility.inview(element, intersectionObserverOptions || {});
+        this.owner = this.owner || element;
 
         // Set the run when condition.
         this.runWhen(()=> {
@@ -438,6 +625,33 @@ export class Raf {
 
 
 
+    /**
+     * Sets the scheduler used by this raf instance.  Pass null to go back
+     * to using the scheduler of the global raf registry.  Should be set
+     * while the raf is stopped.
+     */
+    setScheduler(scheduler: RafScheduler | null) {
+        this.scheduler = scheduler;
+    }
+
+    /**
+     * Gets the scheduler used by this raf instance.
+     */
+    getScheduler(): RafScheduler {
+        if (this.scheduler) {
+            return this.scheduler;
+        }
+        return window['YANO_RAF_REGISTRY'] ?
+            window['YANO_RAF_REGISTRY'].getScheduler() : defaultRafScheduler;
+    }
+
+    /**
+     * Gets the current time in ms according to the scheduler of this raf.
+     */
+    now(): number {
+        return this.getScheduler().now();
+    }
+
     /**
      * Sets the fps .
      */
@@ -445,15 +659,110 @@ export class Raf {
         this.fps = fps;
     }
 
+    /**
+     * Gets the fps the raf loop is throttled to taking the registry
+     * throttle into account.  0 means no throttling.
+     */
+    getTargetFps(): number {
+        const registryFps = window['YANO_RAF_REGISTRY'] ?
+            window['YANO_RAF_REGISTRY'].getThrottleFps() : 0;
+        if (!registryFps) {
+            return this.fps;
+        }
+        return this.fps ? Math.min(this.fps, registryFps) : registryFps;
+    }
+
+    /**
+     * Sets whether this raf is purely decorative.  Decorative rafs get
+     * paused when the registry respects reduced motion and the user prefers
+     * reduced motion.
+     */
+    setDecorative(value: boolean) {
+        this.decorative = value;
+        window['YANO_RAF_REGISTRY'] &&
+            window['YANO_RAF_REGISTRY'].applyPolicy(this);
+    }
+
+    isDecorative(): boolean {
+        return this.decorative;
+    }
+
+    /**
+     * Adds a callback that is called when the raf is paused.
+     */
+    onPause(callback: Function) {
+        this.pauseCallbacks.push(callback);
+    }
+
+    /**
+     * Adds a callback that is called when the raf is resumed.  The callback
+     * receives the time in ms the raf was paused.
+     */
+    onResume(callback: Function) {
+        this.resumeCallbacks.push(callback);
+    }
+
+    /**
+     * Pauses the raf.  Unlike stop, the raf remembers whether it was playing
+     * and start calls are held until resume.
+     */
+    pause() {
+        if (this.paused) {
+            return;
+        }
+        const wasPlaying = this.isPlaying;
+        this.stop();
+        this.paused = true;
+        this.resumePlaying = wasPlaying;
+        this.pauseTime = this.now();
+        this.pauseCallbacks.forEach((callback) => {
+            callback();
+        });
+    }
+
+    /**
+     * Resumes a paused raf and restarts it if it was playing (or started
+     * while paused).
+     */
+    resume() {
+        if (!this.paused) {
+            return;
+        }
+        this.paused = false;
+        const pausedDuration = this.now() - this.pauseTime;
+        this.resumeCallbacks.forEach((callback) => {
+            callback(pausedDuration);
+        });
+        if (this.resumePlaying && !this.isDisposed) {
+            this.resumePlaying = false;
+            this.start();
+        }
+    }
+
+    isPaused(): boolean {
+        return this.paused;
+    }
+
     /**
      * Starts the RAF animation loop.
      * @param {boolean} Whether to force a start.
      */
     start(force: boolean = false) {
+        if (this.paused) {
+            this.resumePlaying = true;
+            return;
+        }
         if (!force && this.isPlaying) {
             return;
         }
-        this.startTime = (typeof performance === 'undefined' ? Date : performance).now();
+        // Don't count the time the raf was stopped towards the next delta.
+        // Frame rate independent animations would otherwise jump on restart.
+        const targetFps = this.getTargetFps();
+        if (!this.isPlaying && this.lastUpdateTime !== null) {
+            this.lastUpdateTime = Math.max(this.lastUpdateTime,
+                this.now() - (targetFps ? 1000 / targetFps : 1000 / 60));
+        }
+        this.startTime = this.now();
         this.animationLoop_();
         this.isPlaying = true;
     }
@@ -463,13 +772,16 @@ export class Raf {
      */
     stop() {
         this.isPlaying = false;
-        window.cancelAnimationFrame(this.raf_);
+        this.resumePlaying = false;
+        this.getScheduler().cancelFrame(this.raf_);
         this.isRunningRaf = false;
     }
 
     dispose() {
         this.ev && this.ev.dispose();
         this.callbacks = null;
+        this.pauseCallbacks = [];
+        this.resumeCallbacks = [];
         this.isDisposed = true;
         this.stop();
         // Deregister self to global registry.
@@ -522,7 +834,7 @@ export class Raf {
             return;
         }
 
-        this.raf_ = window.requestAnimationFrame((frame: number) => {
+        this.raf_ = this.getScheduler().requestFrame((frame: number) => {
             this.frame = frame;
             this.isRunningRaf = false;
             this.animationLoop_();
@@ -530,19 +842,26 @@ export class Raf {
 
         this.isRunningRaf = true;
 
-        if (this.lastUpdateTime) {
-            const current = time.now();
+        if (this.lastUpdateTime !== null) {
+            const current = this.now();
             const elapsed = current - this.lastUpdateTime;
             this.delta = elapsed;
             this.elaspedTime += elapsed / 1000;
-            const fps = this.fps == 0 ? 0 : 1000 / this.fps;
+            const targetFps = this.getTargetFps();
+            const fps = targetFps == 0 ? 0 : 1000 / targetFps;
             this.currentFps = 1000 / elapsed;
             if (elapsed > fps) {
+                const profiler: RafProfiler = window['YANO_RAF_REGISTRY'] &&
+                    window['YANO_RAF_REGISTRY'].getProfiler();
+                profiler && profiler.recordFrame(this, elapsed, fps || 1000 / 60);
                 this.callbacks && this.callbacks.forEach((callback) => {
                     const callCallback = () => {
+                        const callbackStart = profiler ? this.now() : 0;
                         callback(this.frame, this.lastUpdateTime, elapsed, () => {
                             this.stop();
                         });
+                        profiler &&
+                            profiler.recordCallback(this, this.now() - callbackStart);
                     }
                     if (this.runCondition) {
                         this.runCondition() && callCallback();
@@ -551,21 +870,55 @@ export class Raf {
                     }
                 });
 
-                this.lastUpdateTime = time.now();
+                this.lastUpdateTime = this.now();
             }
         }
 
-        if (!this.lastUpdateTime) {
-            this.lastUpdateTime = time.now();
+        if (this.lastUpdateTime === null) {
+            this.lastUpdateTime = this.now();
         }
 
     }
 }
 
 
+/**
+ * The scheduler used when no raf registry is available.
+ */
+const defaultRafScheduler: RafScheduler = new BrowserRafScheduler();
+
+
 export interface RafRegistryObject {
     callback: Function,
-    raf: Raf
+    raf: Raf,
+    priority?: RafPriority
+}
+
+
+/**
+ * Stats of a single RafRegistry frame.
+ */
+export interface RafRegistryFrameStats {
+    /**
+     * The time in ms spent in each phase.
+     */
+    preRead: number,
+    read: number,
+    write: number,
+    postWrite: number,
+    total: number,
+    /**
+     * The number of callbacks run.
+     */
+    executed: number,
+    /**
+     * The number of callbacks moved to the next frame.
+     */
+    deferred: number,
+    /**
+     * The number of callbacks moved to requestIdleCallback.
+     */
+    idle: number
 }
 
 
@@ -637,32 +990,200 @@ export interface RafRegistryObject {
  *
  * ```
  *
+ * # Priority lanes and frame budget
+ * Each batched callback has a priority (see RafPriority).  By default there
+ * is no budget and everything runs in the frame it was scheduled for.  Once
+ * a budget is set, normal and idle callbacks that would run after the budget
+ * has been used up are deferred to the next frame (or to
+ * requestIdleCallback for idle callbacks when idle callback mode is on).
+ * Phases always run in order and once a raf has work deferred, the rest of
+ * its work in that frame, whatever its priority, is deferred to the same
+ * place so its reads precede its writes.
+ *
+ * ```
+ * YANO_RAF_REGISTRY.setFrameBudget(8);
+ * YANO_RAF_REGISTRY.setIdleCallbackMode(true);
+ *
+ * // Stats of the last frame.
+ * YANO_RAF_REGISTRY.getFrameStats();
+ * ```
+ *
+ * # Profiling
+ * Turn on profiling to record the time each raf costs and find rafs that
+ * were never disposed after their owner element left the DOM.
+ * ```
+ * YANO_RAF_REGISTRY.setProfiling(true);
+ * YANO_RAF_REGISTRY.getProfileReport();
+ * YANO_RAF_REGISTRY.getLeakedRafs();
+ * copy(YANO_RAF_REGISTRY.dumpProfileReport());
+ * ```
+ *
+ * The registry also owns the RafScheduler that all rafs use by default.
+ * ```
+ * YANO_RAF_REGISTRY.setScheduler(new VirtualRafScheduler());
+ * ```
+ *
+ * # Policies
+ * Global policies that apply to all rafs.  All are off by default.
+ * ```
+ * // Pause all rafs while the document is hidden.
+ * YANO_RAF_REGISTRY.setPauseWhenHidden(true);
+ *
+ * // Pause decorative rafs (raf.setDecorative(true)) when the user prefers
+ * // reduced motion.
+ * YANO_RAF_REGISTRY.setRespectReducedMotion(true);
+ *
+ * // Throttle all rafs to 30fps.
+ * YANO_RAF_REGISTRY.setThrottleFps(30);
+ *
+ * // Throttle all rafs to 30fps on low power devices only.
+ * YANO_RAF_REGISTRY.setLowPowerFps(30);
+ * ```
+ *
  */
 class RafRegistry {
-    private static runRafCallbacks(callbacks: RafRegistryObject[]) {
-        // Keep consistent arrays so that scheduled function can schedule
-        // another function in the same step.
-        // Important so that a read function can call another function that
-        // protects itself in its own read function, in case it is called
-        // through another code execution path.
-        while (callbacks.length) {
-            const registryObject = callbacks.splice(0, 1)[0];
-            if (!registryObject.raf.isDisposed && (registryObject.raf.isPlaying || registryObject.raf.isReadWriteOnly)) {
-                registryObject.callback();
-            }
-        }
+    /**
+     * Whether a batched callback should still be run.
+     */
+    private static isRunnable(registryObject: RafRegistryObject): boolean {
+        return !registryObject.raf.isDisposed &&
+            (registryObject.raf.isPlaying || registryObject.raf.isReadWriteOnly);
     }
 
     private rafs: Array<Raf>;
     private flushScheduled: boolean;
+    private idleScheduled: boolean;
     private raf_: any;
     private readonly preReads: Array<RafRegistryObject> = [];
     private readonly reads: Array<RafRegistryObject> = [];
     private readonly writes: Array<RafRegistryObject> = [];
     private readonly postWrites: Array<RafRegistryObject> = [];
+    private readonly idlePreReads: Array<RafRegistryObject> = [];
+    private readonly idleReads: Array<RafRegistryObject> = [];
+    private readonly idleWrites: Array<RafRegistryObject> = [];
+    private readonly idlePostWrites: Array<RafRegistryObject> = [];
+    private scheduler: RafScheduler;
+
+    /**
+     * The profiler.  Null unless profiling is on.
+     */
+    private profiler: RafProfiler | null;
+
+    /**
+     * The max amount of time in ms a frame may spend on non critical work.
+     * 0 means no budget.
+     */
+    private frameBudget: number;
+
+    /**
+     * Whether deferred idle priority work runs on requestIdleCallback.
+     */
+    private idleCallbackMode: boolean;
+
+    /**
+     * The time the current frame started running.
+     */
+    private frameStartTime: number;
+
+    /**
+     * Rafs that had work deferred in the current frame mapped to whether
+     * it was moved to requestIdleCallback.  Any later work from the same
+     * raf, critical or not, follows it there so that its reads still run
+     * before its writes.
+     */
+    private deferredRafs: Map<Raf, boolean>;
+
+    /**
+     * The stats of the last frame.
+     */
+    private frameStats: RafRegistryFrameStats;
+
+    /**
+     * Whether all rafs are paused while the document is hidden.
+     */
+    private pauseWhenHidden: boolean;
+
+    /**
+     * Whether decorative rafs are paused when the user prefers reduced
+     * motion.
+     */
+    private respectReducedMotion: boolean;
+
+    /**
+     * Overrides the prefers-reduced-motion media query when not null.
+     */
+    private reducedMotionOverride: boolean | null;
+
+    /**
+     * Overrides low power device detection when not null.
+     */
+    private lowPowerOverride: boolean | null;
+
+    /**
+     * The fps all rafs are throttled to.  0 means no throttling.
+     */
+    private throttleFps: number;
+
+    /**
+     * The fps all rafs are throttled to on low power devices.  0 means no
+     * throttling.
+     */
+    private lowPowerFps: number;
+
+    /**
+     * Rafs paused by a policy.  Only these get resumed when the policy no
+     * longer applies so rafs paused manually stay paused.
+     */
+    private policyPausedRafs: Set<Raf>;
+
+    private policyListenersAdded: boolean;
+    private reducedMotionQuery: MediaQueryList | null;
 
     constructor() {
         this.rafs = [];
+        this.scheduler = defaultRafScheduler;
+        this.frameBudget = 0;
+        this.idleCallbackMode = false;
+        this.idleScheduled = false;
+        this.frameStartTime = 0;
+        this.deferredRafs = new Map();
+        this.frameStats = RafRegistry.createFrameStats();
+        this.profiler = null;
+        this.pauseWhenHidden = false;
+        this.respectReducedMotion = false;
+        this.reducedMotionOverride = null;
+        this.lowPowerOverride = null;
+        this.throttleFps = 0;
+        this.lowPowerFps = 0;
+        this.policyPausedRafs = new Set();
+        this.policyListenersAdded = false;
+        this.reducedMotionQuery = null;
+    }
+
+    /**
+     * A best guess at whether the device is low powered based on the
+     * data saver setting, core count and device memory.
+     */
+    private static detectLowPower(): boolean {
+        const nav: any = window.navigator || {};
+        if (nav.connection && nav.connection.saveData) {
+            return true;
+        }
+        return (nav.hardwareConcurrency > 0 && nav.hardwareConcurrency <= 2) ||
+            (nav.deviceMemory > 0 && nav.deviceMemory <= 2);
+    }
+
+    private static createFrameStats(): RafRegistryFrameStats {
+        return {
+            preRead: 0,
+            read: 0,
+            write: 0,
+            postWrite: 0,
+            total: 0,
+            executed: 0,
+            deferred: 0,
+            idle: 0
+        };
     }
 
     public start() {
@@ -670,11 +1191,325 @@ class RafRegistry {
             return;
         }
         this.flushScheduled = true;
-        requestAnimationFrame(()=> {
+        this.raf_ = this.scheduler.requestFrame(()=> {
           this.runRaf();
         })
     }
 
+    /**
+     * Sets the scheduler used by the registry and all rafs that don't
+     * have their own scheduler.  Any pending batched flush is moved
+     * over to the new scheduler.
+     *
+     * ```
+     * YANO_RAF_REGISTRY.setScheduler(new VirtualRafScheduler());
+     * ```
+     */
+    public setScheduler(scheduler: RafScheduler) {
+        if (this.flushScheduled) {
+            this.scheduler.cancelFrame(this.raf_);
+            this.flushScheduled = false;
+        }
+        this.scheduler = scheduler || defaultRafScheduler;
+        if (this.hasPendingCallbacks()) {
+            this.start();
+        }
+    }
+
+    /**
+     * Gets the scheduler used by the registry.
+     */
+    public getScheduler(): RafScheduler {
+        return this.scheduler;
+    }
+
+    /**
+     * Sets the max amount of time in ms each frame may spend running
+     * normal and idle priority callbacks.  Once used up, remaining work is
+     * deferred.  Critical callbacks ignore it.  Pass 0 to remove the budget.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.setFrameBudget(8);
+     * ```
+     */
+    public setFrameBudget(ms: number) {
+        this.frameBudget = Math.max(0, ms || 0);
+    }
+
+    /**
+     * Gets the frame budget in ms.
+     */
+    public getFrameBudget(): number {
+        return this.frameBudget;
+    }
+
+    /**
+     * Sets whether deferred idle priority callbacks run on
+     * requestIdleCallback instead of the next frame.  Falls back to the
+     * next frame when requestIdleCallback is not supported.
+     */
+    public setIdleCallbackMode(value: boolean) {
+        this.idleCallbackMode = value;
+    }
+
+    /**
+     * Gets the stats of the last frame.  Times are in ms.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.getFrameStats();
+     * ```
+     */
+    public getFrameStats(): RafRegistryFrameStats {
+        return Object.assign({}, this.frameStats);
+    }
+
+    /**
+     * Gets the number of callbacks currently waiting on a later frame or
+     * idle callback.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.getDeferredCount();
+     * ```
+     */
+    public getDeferredCount(): number {
+        return this.getIdleQueues().reduce((count, queue) => {
+            return count + queue.length;
+        }, this.frameStats.deferred);
+    }
+
+    /**
+     * Sets whether all rafs are paused while the document is hidden.
+     * Rafs get lifecycle callbacks (see Raf.onPause / Raf.onResume) so time
+     * based animations can resume where they left off.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.setPauseWhenHidden(true);
+     * ```
+     */
+    public setPauseWhenHidden(value: boolean) {
+        this.pauseWhenHidden = value;
+        this.addPolicyListeners();
+        this.applyPolicies();
+    }
+
+    /**
+     * Sets whether decorative rafs are paused when the user prefers reduced
+     * motion.
+     */
+    public setRespectReducedMotion(value: boolean) {
+        this.respectReducedMotion = value;
+        this.addPolicyListeners();
+        this.applyPolicies();
+    }
+
+    /**
+     * Overrides the prefers-reduced-motion media query.  Useful for a site
+     * level motion toggle.  Pass null to use the media query again.
+     */
+    public setPrefersReducedMotion(value: boolean | null) {
+        this.reducedMotionOverride = value;
+        this.applyPolicies();
+    }
+
+    /**
+     * Whether the user prefers reduced motion.
+     */
+    public prefersReducedMotion(): boolean {
+        if (this.reducedMotionOverride !== null) {
+            return this.reducedMotionOverride;
+        }
+        return !!this.reducedMotionQuery && this.reducedMotionQuery.matches;
+    }
+
+    /**
+     * Sets the fps all rafs are throttled to.  Rafs with a lower fps keep
+     * their own.  Pass 0 to remove the throttle.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.setThrottleFps(30);
+     * ```
+     */
+    public setThrottleFps(fps: number) {
+        this.throttleFps = Math.max(0, fps || 0);
+    }
+
+    /**
+     * Sets the fps all rafs are throttled to on low power devices.  Pass 0
+     * to remove the throttle.
+     */
+    public setLowPowerFps(fps: number) {
+        this.lowPowerFps = Math.max(0, fps || 0);
+    }
+
+    /**
+     * Overrides low power device detection.  Pass null to detect again.
+     */
+    public setLowPower(value: boolean | null) {
+        this.lowPowerOverride = value;
+    }
+
+    /**
+     * Whether the device is considered low powered.
+     */
+    public isLowPower(): boolean {
+        if (this.lowPowerOverride !== null) {
+            return this.lowPowerOverride;
+        }
+        return RafRegistry.detectLowPower();
+    }
+
+    /**
+     * Gets the fps all rafs are currently throttled to.  0 means no
+     * throttling.
+     */
+    public getThrottleFps(): number {
+        const lowPowerFps = this.lowPowerFps && this.isLowPower() ?
+            this.lowPowerFps : 0;
+        if (!this.throttleFps || !lowPowerFps) {
+            return this.throttleFps || lowPowerFps;
+        }
+        return Math.min(this.throttleFps, lowPowerFps);
+    }
+
+    /**
+     * Pauses or resumes the given raf based on the current policies.
+     */
+    public applyPolicy(raf: Raf) {
+        if (this.shouldPause(raf)) {
+            if (!raf.isPaused()) {
+                raf.pause();
+                this.policyPausedRafs.add(raf);
+            }
+        } else if (this.policyPausedRafs.has(raf)) {
+            this.policyPausedRafs.delete(raf);
+            raf.resume();
+        }
+    }
+
+    private applyPolicies() {
+        this.rafs.forEach((raf) => {
+            this.applyPolicy(raf);
+        });
+    }
+
+    private shouldPause(raf: Raf): boolean {
+        if (raf.isDisposed) {
+            return false;
+        }
+        const hidden = document.hidden ||
+            document.visibilityState == 'hidden';
+        return (this.pauseWhenHidden && hidden) ||
+            (this.respectReducedMotion && raf.isDecorative() &&
+                this.prefersReducedMotion());
+    }
+
+    private addPolicyListeners() {
+        if (this.policyListenersAdded) {
+            return;
+        }
+        this.policyListenersAdded = true;
+        document.addEventListener('visibilitychange', () => {
+            this.applyPolicies();
+        });
+        if (window.matchMedia) {
+            this.reducedMotionQuery =
+                window.matchMedia('(prefers-reduced-motion: reduce)');
+            this.reducedMotionQuery.addListener(() => {
+                this.applyPolicies();
+            });
+        }
+    }
+
+    private hasPendingCallbacks(): boolean {
+        return !!(this.preReads.length || this.reads.length ||
+            this.writes.length || this.postWrites.length);
+    }
+
+    private getIdleQueues(): Array<Array<RafRegistryObject>> {
+        return [this.idlePreReads, this.idleReads,
+            this.idleWrites, this.idlePostWrites];
+    }
+
+    private canUseIdleCallback(): boolean {
+        return this.idleCallbackMode && !!window['requestIdleCallback'];
+    }
+
+    /**
+     * Whether the given callback should be moved out of the current frame.
+     * Priority only decides whether the first callback of a raf is
+     * deferred.  Once deferred, the rest of its callbacks follow.
+     */
+    private shouldDefer(registryObject: RafRegistryObject): boolean {
+        if (this.deferredRafs.has(registryObject.raf)) {
+            return true;
+        }
+
+        if (registryObject.priority == RafPriority.CRITICAL) {
+            return false;
+        }
+
+        return this.frameBudget > 0 &&
+            this.scheduler.now() - this.frameStartTime >= this.frameBudget;
+    }
+
+    /**
+     * Runs a single phase.  Returns the time in ms spent.
+     */
+    private runRafCallbacks(callbacks: RafRegistryObject[],
+        idleCallbacks: RafRegistryObject[]): number {
+        const startTime = this.scheduler.now();
+        const deferred: Array<RafRegistryObject> = [];
+
+        // Keep consistent arrays so that scheduled function can schedule
+        // another function in the same step.
+        // Important so that a read function can call another function that
+        // protects itself in its own read function, in case it is called
+        // through another code execution path.
+        while (callbacks.length) {
+            const registryObject = callbacks.splice(0, 1)[0];
+            if (!RafRegistry.isRunnable(registryObject)) {
+                continue;
+            }
+
+            if (this.shouldDefer(registryObject)) {
+                const raf = registryObject.raf;
+                if (!this.deferredRafs.has(raf)) {
+                    this.deferredRafs.set(raf,
+                        registryObject.priority == RafPriority.IDLE &&
+                        this.canUseIdleCallback());
+                }
+                if (this.deferredRafs.get(raf)) {
+                    idleCallbacks.push(registryObject);
+                    this.frameStats.idle++;
+                } else {
+                    deferred.push(registryObject);
+                    this.frameStats.deferred++;
+                }
+                continue;
+            }
+
+            if (this.profiler) {
+                const callbackStart = this.scheduler.now();
+                registryObject.callback();
+                this.profiler.recordCallback(registryObject.raf,
+                    this.scheduler.now() - callbackStart);
+            } else {
+                registryObject.callback();
+            }
+            this.frameStats.executed++;
+        }
+
+        // Deferred work runs first in this phase on the next frame.
+        callbacks.push(...deferred);
+
+        return this.scheduler.now() - startTime;
+    }
+
     private runRaf() {
         // Open console and add:
         //
@@ -684,19 +1519,71 @@ class RafRegistry {
             console.log("Running raf", this.reads.length, this.writes.length);
         }
 
+        this.frameStartTime = this.scheduler.now();
+        this.frameStats = RafRegistry.createFrameStats();
+        this.deferredRafs.clear();
+
         // Execute preReads.
-        RafRegistry.runRafCallbacks(this.preReads);
+        this.frameStats.preRead =
+            this.runRafCallbacks(this.preReads, this.idlePreReads);
 
         // Execute reads.
-        RafRegistry.runRafCallbacks(this.reads);
+        this.frameStats.read =
+            this.runRafCallbacks(this.reads, this.idleReads);
 
         // Execute writes.
-        RafRegistry.runRafCallbacks(this.writes);
+        this.frameStats.write =
+            this.runRafCallbacks(this.writes, this.idleWrites);
 
         // Execute postWrites.
-        RafRegistry.runRafCallbacks(this.postWrites);
+        this.frameStats.postWrite =
+            this.runRafCallbacks(this.postWrites, this.idlePostWrites);
 
+        this.frameStats.total = this.scheduler.now() - this.frameStartTime;
         this.flushScheduled = false;
+
+        // Pick up deferred work and anything scheduled into an earlier
+        // phase while this frame was running.
+        if (this.hasPendingCallbacks()) {
+            this.start();
+        }
+
+        if (this.frameStats.idle) {
+            this.startIdle();
+        }
+    }
+
+    private startIdle() {
+        if (this.idleScheduled) {
+            return;
+        }
+        this.idleScheduled = true;
+        window['requestIdleCallback']((deadline: any) => {
+            this.runIdle(deadline);
+        });
+    }
+
+    /**
+     * Runs deferred idle callbacks in phase order while the browser
+     * is idle.  Stops at the first callback that doesn't fit so later
+     * phases never run ahead of earlier ones.
+     */
+    private runIdle(deadline: any) {
+        this.idleScheduled = false;
+        const queues = this.getIdleQueues();
+        for (let i = 0; i < queues.length; i++) {
+            const queue = queues[i];
+            while (queue.length) {
+                if (deadline.timeRemaining() <= 0) {
+                    this.startIdle();
+                    return;
+                }
+                const registryObject = queue.splice(0, 1)[0];
+                if (RafRegistry.isRunnable(registryObject)) {
+                    registryObject.callback();
+                }
+            }
+        }
     }
 
     /**
@@ -765,14 +1652,86 @@ class RafRegistry {
 
 
 
+    /**
+     * Turns profiling on or off.  When on, the time spent in each raf loop
+     * and batched callback is recorded per raf instance.  Turning it off
+     * clears recorded data.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.setProfiling(true);
+     * ```
+     */
+    public setProfiling(enabled: boolean) {
+        if (enabled) {
+            this.profiler = this.profiler || new RafProfiler();
+        } else {
+            this.profiler = null;
+        }
+    }
+
+    public isProfiling(): boolean {
+        return !!this.profiler;
+    }
+
+    /**
+     * Gets the profiler.  Null unless profiling is on.
+     */
+    public getProfiler(): RafProfiler | null {
+        return this.profiler;
+    }
+
+    /**
+     * Gets a profile report of all registered rafs.  Leak detection works
+     * without profiling but timings are only recorded while profiling.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.getProfileReport();
+     * ```
+     */
+    public getProfileReport(): RafProfileReport {
+        return (this.profiler || new RafProfiler()).getReport(this.rafs);
+    }
+
+    /**
+     * Gets the profile report as a JSON string.
+     *
+     * In dev console:
+     * ```
+     * copy(YANO_RAF_REGISTRY.dumpProfileReport());
+     * ```
+     */
+    public dumpProfileReport(): string {
+        return JSON.stringify(this.getProfileReport(), null, 2);
+    }
+
+    /**
+     * Gets rafs that were never disposed after their owner element left
+     * the DOM.
+     *
+     * In dev console:
+     * ```
+     * YANO_RAF_REGISTRY.getLeakedRafs();
+     * ```
+     */
+    public getLeakedRafs(): Array<Raf> {
+        return this.rafs.filter((raf) => {
+            return RafProfiler.isLeaked(raf);
+        });
+    }
+
     public register(raf: Raf) {
         this.rafs.push(raf);
+        this.applyPolicy(raf);
     }
 
     public unregister(raf: Raf) {
         this.rafs = this.rafs.filter((r) => {
-            return r == raf;
+            return r !== raf;
         })
+        this.policyPausedRafs.delete(raf);
+        this.profiler && this.profiler.remove(raf);
     }
 }
 
@@ -0,0 +1,153 @@
+import { Timeline } from './timeline';
+import { VirtualRafScheduler } from './raf-scheduler';
+import { Interpolate } from '../interpolate/interpolate';
+import { EASE } from '../ease/ease';
+import test from 'ava';
+
+
+test('Timeline positions children sequentially, by label and relatively', t => {
+    const timeline = new Timeline()
+        .tween(100, () => { })
+        .addLabel('middle')
+        .tween(200, () => { })
+        .tween(50, () => { }, 'middle+=20')
+        .tween(100, () => { }, '-=50');
+
+    t.is(timeline.getLabelTime('middle'), 100);
+    t.is(timeline.getDuration(), 350);
+    t.is(timeline.toMarkerInterpolate().getProgressByMarker('middle'), 100 / 350);
+    t.throws(() => {
+        timeline.tween(10, () => { }, 'missing');
+    });
+})
+
+
+test('Timeline seeks by time and label', t => {
+    let x = 0;
+    let y = 0;
+    const timeline = new Timeline()
+        .interpolate(new Interpolate({
+            from: 0, to: 100, easeFunction: EASE.linear
+        }), 100, (value: number) => { x = value; })
+        .addLabel('y')
+        .tween(100, (progress: number) => { y = progress; });
+
+    timeline.seek(50);
+    t.is(x, 50);
+    t.is(y, 0);
+
+    timeline.seek('y');
+    t.is(x, 100);
+    t.is(y, 0);
+
+    timeline.seek('y+=25');
+    t.is(y, 0.25);
+
+    // Scrub backwards.
+    timeline.seek(10);
+    t.is(x, 10);
+    t.is(y, 0);
+    t.is(timeline.getProgress(), 0.05);
+})
+
+
+test('Timeline callbacks fire when crossed in both directions', t => {
+    let count = 0;
+    const timeline = new Timeline()
+        .tween(100, () => { })
+        .call(() => { count++; }, 50);
+
+    timeline.setProgress(0.25);
+    t.is(count, 0);
+    timeline.setProgress(0.75);
+    t.is(count, 1);
+    timeline.setProgress(0.25);
+    t.is(count, 2);
+
+    // Seeking skips callbacks.
+    timeline.seek(75);
+    t.is(count, 2);
+})
+
+
+test('Timeline plays on its own clock with timeScale and reverse', t => {
+    const scheduler = new VirtualRafScheduler(0, 10);
+    let progress = 0;
+    let completed = 0;
+    const timeline = new Timeline()
+        .tween(100, (p: number) => { progress = p; });
+    timeline.getRaf().setScheduler(scheduler);
+    timeline.onComplete(() => { completed++; });
+
+    timeline.setTimeScale(2);
+    timeline.play();
+    scheduler.stepFrames(3);
+    t.is(progress, 0.6);
+
+    timeline.reverse();
+    scheduler.stepFrames(1);
+    t.is(progress, 0.4);
+
+    scheduler.stepFrames(5);
+    t.is(progress, 0);
+    t.is(completed, 1);
+    t.is(timeline.isPlaying(), false);
+    timeline.dispose();
+})
+
+
+test('Timeline repeats with yoyo', t => {
+    const values: Array<number> = [];
+    const timeline = new Timeline()
+        .tween(100, (p: number) => { values.push(p); });
+    timeline.setRepeat(1);
+    timeline.setYoyo(true);
+
+    t.is(timeline.getTotalDuration(), 200);
+    timeline.seek(150);
+    t.is(values[values.length - 1], 0.5);
+    timeline.seek(200);
+    t.is(values[values.length - 1], 0);
+})
+
+
+test('Timeline repeats without yoyo wrap around', t => {
+    let progress = 0;
+    let count = 0;
+    const timeline = new Timeline()
+        .tween(100, (p: number) => { progress = p; })
+        .call(() => { count++; }, 50);
+    timeline.setRepeat(2);
+
+    timeline.setProgress(0);
+    const scheduler = new VirtualRafScheduler(0, 10);
+    timeline.getRaf().setScheduler(scheduler);
+    timeline.play();
+    scheduler.stepFrames(13);
+    t.is(progress, 0.3);
+    t.is(count, 1);
+
+    // Crossed again in the second iteration.
+    scheduler.stepFrames(3);
+    t.is(progress, 0.6);
+    t.is(count, 2);
+    timeline.dispose();
+})
+
+
+test('Timelines can be nested', t => {
+    let inner = 0;
+    const child = new Timeline()
+        .tween(100, (p: number) => { inner = p; });
+    child.setTimeScale(2);
+
+    const parent = new Timeline()
+        .tween(100, () => { })
+        .add(child);
+
+    t.is(parent.getDuration(), 150);
+    parent.seek(125);
+    t.is(inner, 0.5);
+    parent.seek(150);
+    t.is(inner, 1);
+})
@@ -0,0 +1,632 @@
+import { mathf } from '../mathf/mathf';
+import { is } from '../is/is';
+import { Raf } from './raf';
+import { Interpolate } from '../interpolate/interpolate';
+import { CssVarInterpolate } from '../interpolate/css-var-interpolate';
+import { MarkerInterpolate, MarkersInterpolateMarkers } from '../interpolate/marker-interpolate';
+
+
+/**
+ * Anything that can be placed on a Timeline.  Timeline itself implements
+ * this so timelines can be nested.
+ */
+export interface TimelineChild {
+    /**
+     * The duration of the child in ms.
+     */
+    getTotalDuration(): number;
+
+    /**
+     * Renders the child at the given time (in ms, local to the child).
+     * @param time
+     * @param suppressCallbacks Whether callbacks crossed while moving to this
+     *     time should be skipped.
+     */
+    renderTime(time: number, suppressCallbacks?: boolean): void;
+}
+
+
+/**
+ * A position on the timeline.  Either:
+ * - a number: the absolute time in ms.
+ * - a label: 'intro'
+ * - relative to the end of the timeline: '+=100', '-=100'
+ * - relative to a label: 'intro+=100', 'intro-=100'
+ *
+ * When omitted, the child is added at the end of the timeline.
+ */
+export type TimelinePosition = number | string;
+
+
+interface TimelineEntry {
+    child: TimelineChild,
+    startTime: number,
+    /**
+     * The last local time this child was rendered at.  Null when the child
+     * hasn't been rendered yet.
+     */
+    lastTime: number | null
+}
+
+
+/**
+ * A tween that reports a linear 0-1 progress over its duration.
+ */
+class TimelineTween implements TimelineChild {
+    constructor(private duration: number, private onUpdate: Function) {
+    }
+
+    getTotalDuration(): number {
+        return this.duration;
+    }
+
+    renderTime(time: number) {
+        const progress = this.duration == 0 ? 1 :
+            mathf.clampAsPercent(time / this.duration);
+        this.onUpdate(progress);
+    }
+}
+
+
+/**
+ * A zero duration child that fires a callback whenever the playhead
+ * crosses it in either direction.  Zero duration children are rendered
+ * at -1 while the playhead is before them and 0 once it reaches them.
+ */
+class TimelineCallback implements TimelineChild {
+    private lastTime: number = -1;
+
+    constructor(private callback: Function) {
+    }
+
+    getTotalDuration(): number {
+        return 0;
+    }
+
+    renderTime(time: number, suppressCallbacks: boolean = false) {
+        const crossed = this.lastTime != time;
+        this.lastTime = time;
+        if (crossed && !suppressCallbacks) {
+            this.callback();
+        }
+    }
+}
+
+
+/**
+ * A timeline / sequencer that composes tweens, callbacks and other
+ * timelines at absolute or relative offsets.
+ *
+ * A timeline can either play on its own clock (like [[RafTimer]]) or be
+ * driven by an external progress such as scroll.
+ *
+ * ```ts
+ * const ballX = new Interpolate({ from: 0, to: 500, easeFunction: EASE.easeOutSine });
+ * const ballY = new Interpolate({ from: '0px', to: '200px', easeFunction: EASE.linear });
+ *
+ * const timeline = new Timeline();
+ * timeline
+ *   // Tween ball x for 300ms starting at 0.
+ *   .interpolate(ballX, 300, (x)=> { ball.style.left = x + 'px'; })
+ *   // Add a label at the end of the timeline (300ms).
+ *   .addLabel('drop')
+ *   // Tween ball y for 500ms starting at the drop label.
+ *   .interpolate(ballY, 500, (y)=> { ball.style.top = y; }, 'drop')
+ *   // Run a callback 100ms after the drop label.
+ *   .call(()=> { console.log('bounce') }, 'drop+=100')
+ *   // Drive a CssVarInterpolate for 400ms overlapping the previous
+ *   // tween by 200ms.
+ *   .cssVarInterpolate(cssVarInterpolate, 400, '-=200');
+ *
+ * timeline.play();
+ *
+ * // Jump around.
+ * timeline.seek('drop');
+ * timeline.seek(150);
+ *
+ * // Play backwards.
+ * timeline.reverse();
+ *
+ * // Play at half speed.
+ * timeline.setTimeScale(0.5);
+ *
+ * // Repeat 2 more times going back and forth.
+ * timeline.setRepeat(2);
+ * timeline.setYoyo(true);
+ *
+ * timeline.onComplete(()=> {
+ *   console.log('done');
+ * });
+ * ```
+ *
+ * Nested timelines
+ * ```ts
+ * const intro = new Timeline().tween(300, (progress)=> {...});
+ * const outro = new Timeline().tween(300, (progress)=> {...});
+ *
+ * const main = new Timeline()
+ *   .add(intro)
+ *   .addLabel('outro')
+ *   .add(outro);
+ * ```
+ *
+ * Driving with an external progress
+ * ```ts
+ * const rafProgress = new RafProgress((progress)=> {
+ *   timeline.setProgress(progress);
+ * });
+ * ```
+ *
+ * Labels follow the same name -> time idea as [[MarkerInterpolate]].
+ * ```ts
+ * const markers = timeline.toMarkerInterpolate();
+ * markers.getProgressByMarker('drop'); // 0.375
+ * ```
+ */
+export class Timeline implements TimelineChild {
+    private raf: Raf;
+    private entries: Array<TimelineEntry>;
+    private labels: Array<MarkersInterpolateMarkers>;
+
+    /**
+     * The playhead in ms including repeats.
+     */
+    private totalTime: number;
+
+    /**
+     * The last rendered iteration.  Null before the first render.
+     */
+    private lastIteration: number | null;
+
+    /**
+     * 1 when playing forward and -1 when playing in reverse.
+     */
+    private direction: number;
+    private timeScale: number;
+    private repeat: number;
+    private yoyo: boolean;
+    private playing: boolean;
+
+    /**
+     * The last point in which time was measured while playing.
+     */
+    private timeSnapshot: number;
+
+    private updateCallbacks: Array<Function>;
+    private completeCallbacks: Array<Function>;
+
+    constructor() {
+        this.raf = new Raf(() => {
+            this.animationLoop_();
+        });
+        // Don't count the time the raf was paused.
+        this.raf.onResume(() => {
+            this.timeSnapshot = this.raf.now();
+        });
+        this.entries = [];
+        this.labels = [];
+        this.totalTime = 0;
+        this.lastIteration = null;
+        this.direction = 1;
+        this.timeScale = 1;
+        this.repeat = 0;
+        this.yoyo = false;
+        this.playing = false;
+        this.timeSnapshot = 0;
+        this.updateCallbacks = [];
+        this.completeCallbacks = [];
+    }
+
+    /**
+     * Adds a child (a tween or another timeline) at the given position.
+     */
+    add(child: TimelineChild, position?: TimelinePosition): Timeline {
+        this.entries.push({
+            child: child,
+            startTime: this.resolvePosition(position),
+            lastTime: null
+        });
+        return this;
+    }
+
+    /**
+     * Adds a tween that calls onUpdate with a linear progress (0-1) over
+     * the duration.
+     * @param duration The duration in ms.
+     * @param onUpdate
+     * @param position
+     */
+    tween(duration: number, onUpdate: Function,
+        position?: TimelinePosition): Timeline {
+        return this.add(new TimelineTween(duration, onUpdate), position);
+    }
+
+    /**
+     * Adds an Interpolate tween.  onUpdate is called with the interpolated
+     * value.
+     * @param interpolate
+     * @param duration The duration in ms.
+     * @param onUpdate
+     * @param position
+     */
+    interpolate(interpolate: Interpolate, duration: number,
+        onUpdate: Function, position?: TimelinePosition): Timeline {
+        return this.tween(duration, (progress: number) => {
+            onUpdate(interpolate.calculate(progress));
+        }, position);
+    }
+
+    /**
+     * Adds a CssVarInterpolate tween.  The css variables are updated with
+     * the progress of the tween.
+     * @param cssVarInterpolate
+     * @param duration The duration in ms.
+     * @param position
+     */
+    cssVarInterpolate(cssVarInterpolate: CssVarInterpolate, duration: number,
+        position?: TimelinePosition): Timeline {
+        return this.tween(duration, (progress: number) => {
+            cssVarInterpolate.update(progress);
+        }, position);
+    }
+
+    /**
+     * Adds a callback that is fired whenever the playhead crosses the
+     * position (in either direction).
+     */
+    call(callback: Function, position?: TimelinePosition): Timeline {
+        return this.add(new TimelineCallback(callback), position);
+    }
+
+    /**
+     * Adds a label.  Labels can be used as positions and passed to seek.
+     */
+    addLabel(name: string, position?: TimelinePosition): Timeline {
+        const time = this.resolvePosition(position);
+        this.labels = this.labels.filter((label) => label.name != name);
+        this.labels.push({ name: name, time: time });
+        return this;
+    }
+
+    /**
+     * Gets the time in ms of a label.  Returns null if the label doesn't
+     * exist.
+     */
+    getLabelTime(name: string): number | null {
+        const label = this.labels.filter((l) => l.name == name)[0];
+        return label ? label.time : null;
+    }
+
+    /**
+     * Gets the labels as markers.
+     */
+    getMarkers(): Array<MarkersInterpolateMarkers> {
+        return this.labels.slice();
+    }
+
+    /**
+     * Creates a MarkerInterpolate from the labels of this timeline.
+     */
+    toMarkerInterpolate(): MarkerInterpolate {
+        return new MarkerInterpolate(this.getMarkers(), this.getDuration());
+    }
+
+    /**
+     * Gets the duration of a single iteration in ms.
+     */
+    getDuration(): number {
+        return this.entries.reduce((duration, entry) => {
+            return Math.max(duration,
+                entry.startTime + entry.child.getTotalDuration());
+        }, 0);
+    }
+
+    /**
+     * Gets the duration including repeats in ms.  Infinite repeating
+     * timelines return Infinity.
+     */
+    getTotalDuration(): number {
+        if (this.repeat < 0) {
+            return Infinity;
+        }
+        return this.getDuration() * (this.repeat + 1) / this.timeScale;
+    }
+
+    /**
+     * Sets the speed multiplier.  2 plays twice as fast.
+     */
+    setTimeScale(timeScale: number) {
+        this.timeScale = Math.max(timeScale, 0.0001);
+    }
+
+    getTimeScale(): number {
+        return this.timeScale;
+    }
+
+    /**
+     * Sets the number of times to repeat after the first play.  Pass -1
+     * to repeat forever.
+     */
+    setRepeat(repeat: number) {
+        this.repeat = repeat;
+    }
+
+    /**
+     * Whether every other repeat plays backwards.
+     */
+    setYoyo(yoyo: boolean) {
+        this.yoyo = yoyo;
+    }
+
+    /**
+     * Sets the fps of the internal raf loop.
+     */
+    setFps(fps: number) {
+        this.raf.setFps(fps);
+    }
+
+    /**
+     * Adds a callback called each time the timeline renders.  Called with
+     * the progress of the current iteration (0-1).
+     */
+    onUpdate(callback: Function) {
+        this.updateCallbacks.push(callback);
+    }
+
+    /**
+     * Adds a callback called when playback reaches the end (or the start
+     * when reversed).
+     */
+    onComplete(callback: Function) {
+        this.completeCallbacks.push(callback);
+    }
+
+    /**
+     * Gets the playhead in ms including repeats (in unscaled time).
+     */
+    getTime(): number {
+        return this.totalTime;
+    }
+
+    /**
+     * Gets the progress of the current iteration (0-1).
+     */
+    getProgress(): number {
+        const duration = this.getDuration();
+        if (!duration) {
+            return 0;
+        }
+        return this.getIterationTime(this.totalTime) / duration;
+    }
+
+    isPlaying(): boolean {
+        return this.playing;
+    }
+
+    isReversed(): boolean {
+        return this.direction == -1;
+    }
+
+    /**
+     * Returns the internal instance of raf.
+     */
+    getRaf(): Raf {
+        return this.raf;
+    }
+
+    /**
+     * Starts playing from the current playhead in the current direction.
+     */
+    play() {
+        if (this.playing) {
+            return;
+        }
+
+        // Restart if we are sitting at the end we are heading to.
+        if (this.isAtEnd()) {
+            this.totalTime = this.direction == 1 ? 0 : this.getEndTime();
+        }
+
+        this.playing = true;
+        this.timeSnapshot = this.raf.now();
+        this.raf.start();
+    }
+
+    pause() {
+        this.playing = false;
+        this.raf.stop();
+    }
+
+    /**
+     * Toggles the play direction.  Keeps playing if already playing.
+     */
+    reverse() {
+        this.direction *= -1;
+    }
+
+    /**
+     * Sets the play direction.  Pass true to play backwards.
+     */
+    setReversed(reversed: boolean) {
+        this.direction = reversed ? -1 : 1;
+    }
+
+    /**
+     * Moves the playhead to a time in ms or a label and renders.  Seeking
+     * skips callbacks between the old and new position.
+     * @param timeOrLabel A time in ms (of the first iteration) or a label.
+     */
+    seek(timeOrLabel: number | string) {
+        const time = is.string(timeOrLabel) ?
+            this.resolvePosition(timeOrLabel as string) :
+            timeOrLabel as number;
+        this.renderTotalTime(
+            mathf.clamp(0, this.getEndTime(), time), true);
+    }
+
+    /**
+     * Renders the timeline at a progress (0-1) of a single iteration.  Use
+     * this to drive the timeline with an external progress like scroll.
+     * Unlike seek, callbacks that are crossed fire.
+     */
+    setProgress(progress: number) {
+        this.renderTotalTime(
+            mathf.clampAsPercent(progress) * this.getDuration());
+    }
+
+    /**
+     * Implements TimelineChild so timelines can be nested.
+     */
+    renderTime(time: number, suppressCallbacks: boolean = false) {
+        this.renderTotalTime(time * this.timeScale, suppressCallbacks);
+    }
+
+    dispose() {
+        this.raf.dispose();
+        this.entries = [];
+        this.updateCallbacks = [];
+        this.completeCallbacks = [];
+    }
+
+    /**
+     * The internal animation loop.
+     */
+    private animationLoop_() {
+        if (!this.playing) {
+            return;
+        }
+
+        const now = this.raf.now();
+        const elapsed = (now - this.timeSnapshot) * this.timeScale;
+        this.timeSnapshot = now;
+
+        const endTime = this.getEndTime();
+        const time = mathf.clamp(0, endTime,
+            this.totalTime + elapsed * this.direction);
+
+        this.renderTotalTime(time);
+
+        if (this.isAtEnd()) {
+            this.pause();
+            this.completeCallbacks.forEach((callback) => {
+                callback();
+            });
+        }
+    }
+
+    /**
+     * The playhead in ms (unscaled) at which playback ends.
+     */
+    private getEndTime(): number {
+        if (this.repeat < 0) {
+            return Infinity;
+        }
+        return this.getDuration() * (this.repeat + 1);
+    }
+
+    /**
+     * Whether the playhead sits on the end it is heading to.
+     */
+    private isAtEnd(): boolean {
+        return this.direction == 1 ?
+            this.totalTime >= this.getEndTime() : this.totalTime <= 0;
+    }
+
+    private getIteration(totalTime: number): number {
+        const duration = this.getDuration();
+        if (!duration) {
+            return 0;
+        }
+        const iteration = Math.floor(totalTime / duration);
+        // The very end belongs to the last iteration.
+        return totalTime >= this.getEndTime() ? iteration - 1 : iteration;
+    }
+
+    /**
+     * Converts a playhead time into the time within the current iteration,
+     * taking yoyo into account.
+     */
+    private getIterationTime(totalTime: number): number {
+        const duration = this.getDuration();
+        if (!duration) {
+            return 0;
+        }
+        const iteration = this.getIteration(totalTime);
+        const time = totalTime - iteration * duration;
+        return this.yoyo && iteration % 2 == 1 ? duration - time : time;
+    }
+
+    private renderTotalTime(totalTime: number,
+        suppressCallbacks: boolean = false) {
+        const iteration = this.getIteration(totalTime);
+
+        // When moving into another iteration without yoyo, the playhead
+        // wraps around.  Finish the iteration we are leaving and jump to the
+        // start of the new one without firing callbacks.
+        if (this.lastIteration !== null && iteration != this.lastIteration &&
+            !this.yoyo) {
+            const forward = iteration > this.lastIteration;
+            const duration = this.getDuration();
+            this.renderIterationTime(forward ? duration : 0, suppressCallbacks);
+            this.renderIterationTime(forward ? 0 : duration, true);
+        }
+
+        this.totalTime = totalTime;
+        this.lastIteration = iteration;
+        this.renderIterationTime(this.getIterationTime(totalTime),
+            suppressCallbacks);
+
+        const progress = this.getProgress();
+        this.updateCallbacks.forEach((callback) => {
+            callback(progress);
+        });
+    }
+
+    /**
+     * Renders all children at a time within a single iteration.
+     */
+    private renderIterationTime(time: number, suppressCallbacks: boolean) {
+        this.entries.forEach((entry) => {
+            const duration = entry.child.getTotalDuration();
+            // Zero duration children need to know which side of the
+            // playhead they are on.
+            const localTime = mathf.clamp(duration == 0 ? -1 : 0,
+                duration, time - entry.startTime);
+            if (entry.lastTime === localTime) {
+                return;
+            }
+            entry.lastTime = localTime;
+            entry.child.renderTime(localTime, suppressCallbacks);
+        });
+    }
+
+    /**
+     * Converts a TimelinePosition into a time in ms.
+     */
+    private resolvePosition(position?: TimelinePosition): number {
+        if (is.number(position)) {
+            return position as number;
+        }
+
+        const end = this.getDuration();
+        if (!position) {
+            return end;
+        }
+
+        const match = /^(.*?)([+-])=(\d*\.?\d+)$/.exec(position as string);
+        const name = match ? match[1] : position as string;
+        let base = end;
+        if (name) {
+            base = this.getLabelTime(name);
+            if (base === null) {
+                throw new Error(`Timeline label "${name}" does not exist.`);
+            }
+        }
+
+        if (!match) {
+            return base;
+        }
+        const offset = +match[3];
+        return Math.max(0, match[2] == '+' ? base + offset : base - offset);
+    }
+}
@@ -801,5 +801,166 @@ export const noise = ()=> {
     vec3 scale = vec3( 12.9898, 78.233, 151.7182 );
     return fract( sin( dot( pt + seed, scale ) ) * 43758.5453 + seed ) ;
   }
+
+  float taylorInvSqrt(float r) {
+    return 1.79284291400159 - 0.85373472095314 * r;
+  }
+
+  vec4 grad4(float j, vec4 ip) {
+    const vec4 ones = vec4(1.0, 1.0, 1.0, -1.0);
+    vec4 p,s;
+
+    p.xyz = floor( fract (vec3(j) * ip.xyz) * 7.0) * ip.z - 1.0;
+    p.w = 1.5 - dot(abs(p.xyz), ones.xyz);
+    s = vec4(lessThan(p, vec4(0.0)));
+    p.xyz = p.xyz + (s.xyz*2.0 - 1.0) * s.www;
+
+    return p;
+  }
+
+  // 4D simplex noise.  Matches Noise.simplex4 of yano-js/lib/mathf/noise.
+  float snoise(vec4 v) {
+    const float F4 = 0.309016994374947451; // (sqrt(5) - 1)/4
+    const vec4  C = vec4( 0.138196601125011,  // (5 - sqrt(5))/20  G4
+                          0.276393202250021,  // 2 * G4
+                          0.414589803375032,  // 3 * G4
+                         -0.447213595499958); // -1 + 4 * G4
+
+  // First corner
+    vec4 i  = floor(v + dot(v, vec4(F4)) );
+    vec4 x0 = v -   i + dot(i, C.xxxx);
+
+  // Other corners
+
+  // Rank sorting originally contributed by Bill Licea-Kane, AMD (formerly ATI)
+    vec4 i0;
+    vec3 isX = step( x0.yzw, x0.xxx );
+    vec3 isYZ = step( x0.zww, x0.yyz );
+    i0.x = isX.x + isX.y + isX.z;
+    i0.yzw = 1.0 - isX;
+    i0.y += isYZ.x + isYZ.y;
+    i0.zw += 1.0 - isYZ.xy;
+    i0.z += isYZ.z;
+    i0.w += 1.0 - isYZ.z;
+
+    // i0 now contains the unique values 0,1,2,3 in each channel
+    vec4 i3 = clamp( i0, 0.0, 1.0 );
+    vec4 i2 = clamp( i0-1.0, 0.0, 1.0 );
+    vec4 i1 = clamp( i0-2.0, 0.0, 1.0 );
+
+    vec4 x1 = x0 - i1 + C.xxxx;
+    vec4 x2 = x0 - i2 + C.yyyy;
+    vec4 x3 = x0 - i3 + C.zzzz;
+    vec4 x4 = x0 + C.wwww;
+
+  // Permutations
+  // (The float permute of this chunk is mod289 only so use the vec4 one.)
+    i = mod289(i);
+    float j0 = permute( permute( permute( permute(vec4(i.w)) + i.z) + i.y) + i.x).x;
+    vec4 j1 = permute( permute( permute( permute (
+               i.w + vec4(i1.w, i2.w, i3.w, 1.0 ))
+             + i.z + vec4(i1.z, i2.z, i3.z, 1.0 ))
+             + i.y + vec4(i1.y, i2.y, i3.y, 1.0 ))
+             + i.x + vec4(i1.x, i2.x, i3.x, 1.0 ));
+
+  // Gradients: 7x7x6 points over a cube, mapped onto a 4-cross polytope
+  // 7*7*6 = 294, which is close to the ring size 17*17 = 289.
+    vec4 ip = vec4(1.0/294.0, 1.0/49.0, 1.0/7.0, 0.0) ;
+
+    vec4 p0 = grad4(j0,   ip);
+    vec4 p1 = grad4(j1.x, ip);
+    vec4 p2 = grad4(j1.y, ip);
+    vec4 p3 = grad4(j1.z, ip);
+    vec4 p4 = grad4(j1.w, ip);
+
+  // Normalise gradients
+    vec4 norm = taylorInvSqrt(vec4(dot(p0,p0), dot(p1,p1), dot(p2, p2), dot(p3,p3)));
+    p0 *= norm.x;
+    p1 *= norm.y;
+    p2 *= norm.z;
+    p3 *= norm.w;
+    p4 *= taylorInvSqrt(dot(p4,p4));
+
+  // Mix contributions from the five corners
+    vec3 m0 = max(0.6 - vec3(dot(x0,x0), dot(x1,x1), dot(x2,x2)), 0.0);
+    vec2 m1 = max(0.6 - vec2(dot(x3,x3), dot(x4,x4)            ), 0.0);
+    m0 = m0 * m0;
+    m1 = m1 * m1;
+    return 49.0 * ( dot(m0*m0, vec3( dot( p0, x0 ), dot( p1, x1 ), dot( p2, x2 )))
+                 + dot(m1*m1, vec2( dot( p3, x3 ), dot( p4, x4 ) ) ) ) ;
+  }
+
+  // Fractal brownian motion of simplex noise.  Matches Noise.fbm2 and
+  // Noise.fbm3 of yano-js/lib/mathf/noise.  Up to 16 octaves.
+  float fbm(vec2 p, int octaves, float lacunarity, float gain) {
+    float sum = 0.0;
+    float amplitude = 1.0;
+    float frequency = 1.0;
+    float total = 0.0;
+    for (int i = 0; i < 16; i++) {
+      if (i >= octaves) {
+        break;
+      }
+      sum += amplitude * snoise(p * frequency);
+      total += amplitude;
+      frequency *= lacunarity;
+      amplitude *= gain;
+    }
+    return total > 0.0 ? sum / total : 0.0;
+  }
+
+  float fbm(vec3 p, int octaves, float lacunarity, float gain) {
+    float sum = 0.0;
+    float amplitude = 1.0;
+    float frequency = 1.0;
+    float total = 0.0;
+    for (int i = 0; i < 16; i++) {
+      if (i >= octaves) {
+        break;
+      }
+      sum += amplitude * snoise(p * frequency);
+      total += amplitude;
+      frequency *= lacunarity;
+      amplitude *= gain;
+    }
+    return total > 0.0 ? sum / total : 0.0;
+  }
+
+  // Curl noise.  Matches Noise.curl2 and Noise.curl3 of
+  // yano-js/lib/mathf/noise.
+  vec2 curlNoise(vec2 p) {
+    const float e = 0.01;
+    float dx = snoise(p + vec2(e, 0.0)) - snoise(p - vec2(e, 0.0));
+    float dy = snoise(p + vec2(0.0, e)) - snoise(p - vec2(0.0, e));
+    return vec2(dy, -dx) / (2.0 * e);
+  }
+
+  vec3 curlPotential(vec3 p) {
+    return vec3(
+      snoise(p),
+      snoise(vec3(p.y - 19.1, p.z + 33.4, p.x + 47.2)),
+      snoise(vec3(p.z + 74.2, p.x - 124.5, p.y + 99.4))
+    );
+  }
+
+  vec3 curlNoise(vec3 p) {
+    const float e = 0.01;
+    vec3 dx = vec3(e, 0.0, 0.0);
+    vec3 dy = vec3(0.0, e, 0.0);
+    vec3 dz = vec3(0.0, 0.0, e);
+
+    vec3 x0 = curlPotential(p - dx);
+    vec3 x1 = curlPotential(p + dx);
+    vec3 y0 = curlPotential(p - dy);
+    vec3 y1 = curlPotential(p + dy);
+    vec3 z0 = curlPotential(p - dz);
+    vec3 z1 = curlPotential(p + dz);
+
+    return vec3(
+      (y1.z - y0.z) - (z1.y - z0.y),
+      (z1.x - z0.x) - (x1.z - x0.z),
+      (x1.y - x0.y) - (y1.x - y0.x)
+    ) / (2.0 * e);
+  }
 `;
 }
@@ -0,0 +1,57 @@
+import { cssTokenizer, CssTokenTypes } from './css-tokenizer';
+import test from 'ava';
+
+test('tokenize transforms', t => {
+    const tokens = cssTokenizer.tokenize('translate3d(10px, -20.5%, 0) rotate(30deg)');
+    t.deepEqual(tokens.map((token) => token.type), [
+        CssTokenTypes.text,
+        CssTokenTypes.number,
+        CssTokenTypes.text,
+        CssTokenTypes.number,
+        CssTokenTypes.text,
+        CssTokenTypes.number,
+        CssTokenTypes.text,
+        CssTokenTypes.number,
+        CssTokenTypes.text
+    ]);
+    t.is(tokens[0].value, 'translate3d(');
+    t.is(tokens[1].value, 10);
+    t.is(tokens[1].unit, 'px');
+    t.is(tokens[3].value, -20.5);
+    t.is(tokens[3].unit, '%');
+    t.is(tokens[5].unit, '');
+    t.is(tokens[6].value, ') rotate(');
+    t.is(tokens[7].unit, 'deg');
+});
+
+test('tokenize colors', t => {
+    const tokens = cssTokenizer.tokenize('10px 20px 30px rgba(0, 0, 0, 0.5)');
+    t.is(tokens.length, 7);
+    t.is(tokens[6].type, CssTokenTypes.color);
+    t.deepEqual(tokens[6].value, { r: 0, g: 0, b: 0, a: 0.5 });
+
+    t.is(cssTokenizer.tokenize('#FFFFFF')[0].type, CssTokenTypes.color);
+
+    const shadow = cssTokenizer.tokenize('0 0 4px hsl(0 100% 50% / 0.5)');
+    t.is(shadow.length, 7);
+    t.deepEqual(shadow[6].value, { r: 255, g: 0, b: 0, a: 0.5 });
+
+    const named = cssTokenizer.tokenize('drop-shadow(0 0 2px red)');
+    t.is(named[0].value, 'drop-shadow(');
+    t.deepEqual(named[7].value, { r: 255, g: 0, b: 0, a: 1 });
+});
+
+test('stringify', t => {
+    const css = 'translate3d(10px, -20.5%, 0) rotate(30deg)';
+    t.is(cssTokenizer.stringify(cssTokenizer.tokenize(css)), css);
+    t.is(cssTokenizer.stringify(cssTokenizer.tokenize('blur(0.123456px)')),
+        'blur(0.1235px)');
+});
+
+test('isCompound', t => {
+    t.false(cssTokenizer.isCompound('10px'));
+    t.false(cssTokenizer.isCompound('-0.5em'));
+    t.false(cssTokenizer.isCompound('rgba(255, 255, 255, 0.3)'));
+    t.true(cssTokenizer.isCompound('10px 20px'));
+    t.true(cssTokenizer.isCompound('blur(4px)'));
+});
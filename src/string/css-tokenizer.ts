@@ -0,0 +1,176 @@
+import { mathf } from '../mathf/mathf';
+import { ColorRGBA, color } from '../mathf/color';
+import { cssNamedColors } from '../mathf/color-names';
+
+
+/**
+ * The types of tokens a css value is split into.
+ */
+export enum CssTokenTypes {
+    /**
+     * A number with an optional unit such as '10', '10px' or '-0.5turn'.
+     */
+    number = 'num',
+    /**
+     * A color such as '#FFF', 'rgb(0, 0, 0)', 'hsl(0 100% 50% / 0.5)' or
+     * 'red'.
+     */
+    color = 'color',
+    /**
+     * Everything else.  Keywords, function names, spaces, commas and
+     * parentheses.
+     */
+    text = 'text',
+}
+
+
+export interface CssToken {
+    type: CssTokenTypes,
+    value: number | ColorRGBA | string,
+    unit: string
+}
+
+
+/**
+ * Splits compound css values into tokens and rebuilds them.
+ *
+ * ```ts
+ * cssTokenizer.tokenize('translate3d(10px, 20%, 0) rotate(30deg)');
+ * // [
+ * //   { type: 'text', value: 'translate3d(', unit: '' },
+ * //   { type: 'num', value: 10, unit: 'px' },
+ * //   { type: 'text', value: ', ', unit: '' },
+ * //   { type: 'num', value: 20, unit: '%' },
+ * //   ...
+ * // ]
+ *
+ * cssTokenizer.isCompound('10px') // false
+ * cssTokenizer.isCompound('10px 20px') // true
+ * cssTokenizer.isCompound('blur(4px)') // true
+ * ```
+ */
+export class cssTokenizer {
+
+    /**
+     * The number of decimals numbers are rounded to when stringified.
+     */
+    static readonly PRECISION = 4;
+
+    private static readonly COLOR =
+        /^((?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\([^)]*\)|#[0-9a-fA-F]{3,8}\b)/i;
+    private static readonly NUMBER =
+        /^(-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-zA-Z%]*)/;
+    private static readonly WORD = /^-?[a-zA-Z_][\w-]*/;
+
+    /**
+     * Splits a css value into number, color and text tokens.  Neighboring
+     * text is merged into a single token.
+     * @param css
+     */
+    static tokenize(css: string): Array<CssToken> {
+        const tokens: Array<CssToken> = [];
+        let rest = String(css).trim();
+
+        const pushText = (text: string) => {
+            const last = tokens[tokens.length - 1];
+            if (last && last.type == CssTokenTypes.text) {
+                last.value += text;
+            } else {
+                tokens.push({ type: CssTokenTypes.text, value: text, unit: '' });
+            }
+        };
+
+        while (rest.length) {
+            let match = rest.match(cssTokenizer.COLOR);
+            if (match) {
+                tokens.push({
+                    type: CssTokenTypes.color,
+                    value: color.cssToRgba(match[0]),
+                    unit: ''
+                });
+                rest = rest.slice(match[0].length);
+                continue;
+            }
+
+            match = rest.match(cssTokenizer.NUMBER);
+            if (match) {
+                tokens.push({
+                    type: CssTokenTypes.number,
+                    value: +match[1],
+                    unit: match[2]
+                });
+                rest = rest.slice(match[0].length);
+                continue;
+            }
+
+            match = rest.match(cssTokenizer.WORD);
+            const text = match ? match[0] : rest[0];
+            if (match && cssTokenizer.isNamedColor(text)) {
+                tokens.push({
+                    type: CssTokenTypes.color,
+                    value: color.cssToRgba(text),
+                    unit: ''
+                });
+                rest = rest.slice(text.length);
+                continue;
+            }
+            pushText(text);
+            rest = rest.slice(text.length);
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Rebuilds a css value from tokens.
+     * @param tokens
+     */
+    static stringify(tokens: Array<CssToken>): string {
+        return tokens.map((token) => {
+            return cssTokenizer.stringifyToken(token);
+        }).join('');
+    }
+
+    /**
+     * Converts a single token back to css.
+     * @param token
+     */
+    static stringifyToken(token: CssToken): string {
+        if (token.type == CssTokenTypes.number) {
+            const value = mathf.roundToPrecision(
+                token.value as number, cssTokenizer.PRECISION);
+            return `${mathf.absZero(value)}${token.unit}`;
+        }
+        if (token.type == CssTokenTypes.color) {
+            return color.rgbaToCss(token.value as ColorRGBA);
+        }
+        return token.value as string;
+    }
+
+    /**
+     * Whether a css value is made up of more than a single number or color
+     * such as '10px 20px', 'blur(4px)' or 'translateX(10px)'.
+     * @param css
+     */
+    static isCompound(css: string): boolean {
+        return cssTokenizer.tokenize(css).length > 1;
+    }
+
+    /**
+     * Whether the word is a css named color or transparent.
+     * @param word
+     */
+    private static isNamedColor(word: string): boolean {
+        const name = word.toLowerCase();
+        return name == 'transparent' || cssNamedColors.hasOwnProperty(name);
+    }
+
+    /**
+     * Normalizes whitespace in a text token so that 'rotate( ' and
+     * 'rotate(' are considered the same.
+     * @param text
+     */
+    static normalizeText(text: string): string {
+        return text.replace(/\s*([(),/])\s*/g, '$1').replace(/\s+/g, ' ');
+    }
+}
@@ -66,3 +66,22 @@ test('parse rgb', t => {
         a: 1
     });
 });
+
+test('parse css color 4', t => {
+    t.is(cssUnit.parse('red').type, 'color');
+    t.is(cssUnit.parse('red').unit, null);
+    t.is(cssUnit.parse('hsl(120deg 100% 50%)').valueType, 'rgba');
+    t.deepEqual(cssUnit.parse('hsl(120deg 100% 50% / 0.5)').value, {
+        r: 0,
+        g: 255,
+        b: 0,
+        a: 0.5
+    });
+    t.deepEqual(cssUnit.parse('rgb(255 255 255 / 0.5)').value, {
+        r: 255,
+        g: 255,
+        b: 255,
+        a: 0.5
+    });
+    t.is(cssUnit.parse('10px').type, 'unit');
+});
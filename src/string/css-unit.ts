@@ -32,6 +32,12 @@ export enum CssUnitObjectTypes {
      * A css rgb unit such as 'rgba(255, 255, 255)'
      */
     rgb = 'rgb',
+
+    /**
+     * Any other css color such as 'red', 'hsl(120deg 100% 50%)' or
+     * 'oklch(62.8% 0.2577 29.23)'.
+     */
+    color = 'color',
 }
 
 export interface CssUnitObject {
@@ -81,6 +87,11 @@ export interface CssUnitObject {
  * cssUnit.parse(rgba).type // rgba
  * cssUnit.parse(rgba).value // Return ColorRgba
  *
+ * // Any other CSS Color 4 form.
+ * cssUnit.parse('hsl(120deg 100% 50%)').type // color
+ * cssUnit.parse('red').type // color
+ * cssUnit.parse('red').valueType // rgba
+ *
  * ```
  */
 export class cssUnit {
@@ -116,6 +127,10 @@ export class cssUnit {
             result.value = color.cssToRgba(css);
             result.type = CssUnitObjectTypes.cssHex;
             result.valueType = CssUnitObjectTypes.rgba;
+        } else if (color.isCssColor(css)) {
+            result.value = color.cssToRgba(css);
+            result.type = CssUnitObjectTypes.color;
+            result.valueType = CssUnitObjectTypes.rgba;
         } else {
             result.value = value ? +value : null;
             result.unit = unit ? unit[0] : null;